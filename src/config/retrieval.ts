@@ -0,0 +1,57 @@
+import { RetrievalCorpus, SearchFilters, ThresholdMode } from '../types/vector-db.js';
+
+export interface CorpusRetrievalConfig {
+  threshold: number; // Minimum similarity in fixed mode; lowest allowed threshold in adaptive mode
+  threshold_mode: ThresholdMode;
+  top_k: number; // Results kept for the prompt
+  candidate_k: number; // Candidates retrieved before reranking
+}
+
+export interface AdaptiveThresholdConfig {
+  max_gap: number; // Keep results within this distance of the best score
+  z: number; // ...or above mean + z * stddev of the candidate scores, whichever is more lenient
+}
+
+// Calibrated for text-embedding-3 models, where relevant chunks typically score 0.3-0.6
+const CORPUS_DEFAULTS: Record<RetrievalCorpus, CorpusRetrievalConfig> = {
+  user_upload: { threshold: 0.3, threshold_mode: 'fixed', top_k: 3, candidate_k: 15 },
+  mozaik_knowledge: { threshold: 0.35, threshold_mode: 'fixed', top_k: 5, candidate_k: 20 },
+  specialized: { threshold: 0.3, threshold_mode: 'fixed', top_k: 3, candidate_k: 3 },
+  default: { threshold: 0.3, threshold_mode: 'fixed', top_k: 5, candidate_k: 20 }
+};
+
+export const RETRIEVAL_CORPORA = Object.keys(CORPUS_DEFAULTS) as RetrievalCorpus[];
+
+/**
+ * Threshold and top-k settings for a corpus. Each value can be overridden with
+ * RETRIEVAL_<SETTING>_<CORPUS>, e.g. RETRIEVAL_THRESHOLD_USER_UPLOAD=0.25;
+ * RETRIEVAL_THRESHOLD_MODE sets the mode for every corpus.
+ */
+export function getRetrievalConfig(corpus: RetrievalCorpus = 'default'): CorpusRetrievalConfig {
+  const defaults = CORPUS_DEFAULTS[corpus] || CORPUS_DEFAULTS.default;
+  const suffix = corpus.toUpperCase();
+  const env = (setting: string) => process.env[`RETRIEVAL_${setting}_${suffix}`];
+
+  return {
+    threshold: parseFloat(env('THRESHOLD') || String(defaults.threshold)),
+    threshold_mode: (env('THRESHOLD_MODE') || process.env.RETRIEVAL_THRESHOLD_MODE || defaults.threshold_mode) as ThresholdMode,
+    top_k: parseInt(env('TOP_K') || String(defaults.top_k)),
+    candidate_k: parseInt(env('CANDIDATE_K') || String(defaults.candidate_k))
+  };
+}
+
+export function getAdaptiveThresholdConfig(): AdaptiveThresholdConfig {
+  return {
+    max_gap: parseFloat(process.env.RETRIEVAL_ADAPTIVE_MAX_GAP || '0.15'),
+    z: parseFloat(process.env.RETRIEVAL_ADAPTIVE_Z || '0.5')
+  };
+}
+
+/**
+ * The corpus a search targets: explicit, or the single category it is filtered to
+ */
+export function resolveCorpus(filters?: SearchFilters, corpus?: RetrievalCorpus): RetrievalCorpus {
+  if (corpus) return corpus;
+  const category = filters?.categories?.length === 1 ? filters.categories[0] : undefined;
+  return RETRIEVAL_CORPORA.includes(category as RetrievalCorpus) ? category as RetrievalCorpus : 'default';
+}
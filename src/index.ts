@@ -19,10 +19,14 @@ import searchRoutes from './routes/search.js';
 import analyticsRoutes from './routes/analytics.js';
 import chatRoutes from './routes/chat.js';
 import knowledgeRoutes from './routes/knowledge.js';
+import { adminRoutes } from './routes/admin.js';
 
 // Import services
 import { DatabaseService } from './services/DatabaseService.js';
 import { ContentIngestionService } from './services/ContentIngestionService.js';
+import { migrateDocumentChunks } from './migrations/splitDocumentChunks.js';
+import { EmbeddingRetryService } from './services/EmbeddingRetryService.js';
+import { EmbeddingSpaceService } from './services/EmbeddingSpaceService.js';
 
 // Import plans configuration
 import { PLANS, PLAN_TIERS } from './config/plans.js';
@@ -141,6 +145,7 @@ app.use('/api/search', searchRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/chat', chatRoutes);
 app.use('/api/knowledge', knowledgeRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Plans endpoint - WORKING VERSION
 app.get('/api/plans', (req, res) => {
@@ -171,37 +176,6 @@ app.get('/api/usage', (req, res) => {
   });
 });
 
-// Supported file types endpoint
-app.get('/api/specialized/supported-types', (req, res) => {
-  const supportedTypes = [
-    {
-      type: 'xml',
-      extensions: ['.xml'],
-      description: 'XML files with parts, parameters, and constraints'
-    },
-    {
-      type: 'moz',
-      extensions: ['.moz'],
-      description: 'Mozaik project files with components and settings'
-    },
-    {
-      type: 'dat',
-      extensions: ['.dat'],
-      description: 'Mozaik data files with parameters and values'
-    },
-    {
-      type: 'des',
-      extensions: ['.des'],
-      description: 'Mozaik design files with layout and configuration'
-    }
-  ];
-
-  res.json({
-    message: 'Supported file types retrieved successfully',
-    supported_types: supportedTypes
-  });
-});
-
 // Start server with database and knowledge base initialization
 async function startServer() {
   try {
@@ -209,6 +183,24 @@ async function startServer() {
     await dbService.connect();
     console.log('✅ Database connected successfully');
 
+    // Move chunks stored on legacy documents into the chunk collection
+    try {
+      await migrateDocumentChunks();
+    } catch (error) {
+      console.error('⚠️ Chunk migration failed:', error);
+      console.log('💡 Run npm run migrate to retry.');
+    }
+
+    // Serve the active embedding space; re-embed in the background if the configured one differs
+    try {
+      await EmbeddingSpaceService.getInstance().initialize();
+    } catch (error) {
+      console.error('⚠️ Embedding space registry initialization failed:', error);
+    }
+
+    // Re-embed chunks whose embedding failed during ingestion
+    EmbeddingRetryService.getInstance().start();
+
     // Initialize knowledge base
     console.log('🧠 Initializing knowledge base system...');
     const stats = await contentIngestion.getStats();
@@ -0,0 +1,63 @@
+import { DocumentModel } from '../models/Document.js';
+import { ComponentModel } from '../models/Component.js';
+import { ComponentIndexService, ParsedComponents } from '../services/ComponentIndexService.js';
+
+export interface ComponentMigrationResult {
+  documents_indexed: number;
+  components_indexed: number;
+  failed_documents: string[];
+}
+
+/**
+ * Index the parts, parameters and constraints of specialized uploads made before
+ * component search existed. Their parse result is stored as the document content.
+ * Safe to run repeatedly: documents that already have components are skipped.
+ */
+export async function indexSpecializedComponents(): Promise<ComponentMigrationResult> {
+  const result: ComponentMigrationResult = {
+    documents_indexed: 0,
+    components_indexed: 0,
+    failed_documents: []
+  };
+
+  const indexed = new Set<string>(await ComponentModel.distinct('document_id'));
+  const documents = await DocumentModel.find({ 'metadata.category': 'specialized' })
+    .select('id content metadata created_at')
+    .lean();
+  const pending = documents.filter(doc => !indexed.has(doc.id));
+  if (pending.length === 0) {
+    return result;
+  }
+
+  console.log(`🔁 Indexing specialized components for ${pending.length} documents`);
+  const componentIndex = new ComponentIndexService();
+
+  for (const doc of pending) {
+    try {
+      const components = parseComponents(doc.content);
+      if (!components) continue;
+
+      result.components_indexed += await componentIndex.indexDocument(doc as any, components);
+      result.documents_indexed++;
+    } catch (error) {
+      console.error(`Error indexing components for document ${doc.id}:`, error);
+      result.failed_documents.push(doc.id);
+    }
+  }
+
+  console.log(`✅ Indexed ${result.components_indexed} components from ${result.documents_indexed} documents`);
+  return result;
+}
+
+function parseComponents(content: string): ParsedComponents | null {
+  try {
+    const parsed = JSON.parse(content);
+    return {
+      parts: Array.isArray(parsed.parts) ? parsed.parts : [],
+      parameters: Array.isArray(parsed.parameters) ? parsed.parameters : [],
+      constraints: Array.isArray(parsed.constraints) ? parsed.constraints : []
+    };
+  } catch {
+    return null; // Not a stored parse result
+  }
+}
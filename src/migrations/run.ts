@@ -0,0 +1,32 @@
+import { config } from 'dotenv';
+import { DatabaseService } from '../services/DatabaseService.js';
+import { migrateDocumentChunks } from './splitDocumentChunks.js';
+import { indexSpecializedComponents } from './indexSpecializedComponents.js';
+
+config();
+
+// Run pending data migrations outside of server startup: `npm run migrate`
+async function run() {
+  const dbService = DatabaseService.getInstance();
+
+  try {
+    await dbService.connect();
+
+    const chunkMigration = await migrateDocumentChunks();
+    console.log('Chunk migration:', chunkMigration);
+
+    const componentMigration = await indexSpecializedComponents();
+    console.log('Component migration:', componentMigration);
+
+    if (chunkMigration.failed_documents.length > 0 || componentMigration.failed_documents.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await dbService.disconnect();
+  }
+}
+
+run();
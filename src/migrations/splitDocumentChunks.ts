@@ -0,0 +1,152 @@
+import { DocumentModel } from '../models/Document.js';
+import { ChunkModel } from '../models/Chunk.js';
+import { ChunkRecord, VectorRecordMetadata } from '../types/vector-db.js';
+
+export interface ChunkMigrationResult {
+  documents_migrated: number;
+  chunks_written: number;
+  failed_documents: string[];
+}
+
+// Fields that used to hold chunk text and vectors on the document itself
+const LEGACY_CHUNK_FIELDS = ['chunks', 'content_chunks', 'vectors'];
+
+/**
+ * Move chunk text and vectors stored on legacy documents into the chunk collection.
+ * Safe to run repeatedly: chunks are upserted by id and the legacy fields are only
+ * removed after a document's chunks have been written.
+ */
+export async function migrateDocumentChunks(): Promise<ChunkMigrationResult> {
+  const result: ChunkMigrationResult = {
+    documents_migrated: 0,
+    chunks_written: 0,
+    failed_documents: []
+  };
+
+  const legacyQuery = { $or: LEGACY_CHUNK_FIELDS.map(field => ({ [field]: { $exists: true } })) };
+  const pending = await DocumentModel.collection.countDocuments(legacyQuery);
+  if (pending === 0) {
+    return result;
+  }
+
+  console.log(`🔁 Migrating chunks for ${pending} documents into the chunk collection`);
+  const cursor = DocumentModel.collection.find(legacyQuery);
+
+  for await (const doc of cursor) {
+    try {
+      const chunks = toChunkRecords(doc);
+
+      if (chunks.length > 0) {
+        await ChunkModel.bulkWrite(chunks.map(chunk => ({
+          updateOne: {
+            filter: { id: chunk.id },
+            update: { $set: chunk },
+            upsert: true
+          }
+        })));
+      }
+
+      await DocumentModel.collection.updateOne(
+        { id: doc.id },
+        {
+          $set: { chunk_count: chunks.length },
+          $unset: Object.fromEntries(LEGACY_CHUNK_FIELDS.map(field => [field, '']))
+        }
+      );
+
+      result.documents_migrated++;
+      result.chunks_written += chunks.length;
+    } catch (error) {
+      console.error(`Error migrating chunks for document ${doc.id}:`, error);
+      result.failed_documents.push(doc.id);
+    }
+  }
+
+  console.log(`✅ Migrated ${result.chunks_written} chunks from ${result.documents_migrated} documents`);
+  return result;
+}
+
+function toChunkRecords(doc: any): ChunkRecord[] {
+  const vectors: number[][] = doc.vectors || [];
+  const metadata: VectorRecordMetadata = {
+    filename: doc.metadata?.filename || doc.title || 'unknown',
+    file_type: doc.metadata?.file_type || 'unknown',
+    category: doc.metadata?.category || 'general',
+    tags: doc.metadata?.tags || [],
+    uploaded_by: doc.metadata?.uploaded_by || 'unknown',
+    created_at: doc.created_at
+  };
+  const base = {
+    document_id: doc.id,
+    metadata,
+    status: doc.status || 'ready',
+    created_at: doc.created_at,
+    updated_at: new Date().toISOString()
+  };
+
+  // Documents processed by the chunking service kept full chunk objects
+  if (Array.isArray(doc.chunks) && doc.chunks.length > 0) {
+    return doc.chunks
+      .filter((chunk: any) => chunk?.content)
+      .map((chunk: any, index: number) => {
+        const chunkIndex = chunk.metadata?.chunk_index ?? index;
+        return {
+          ...base,
+          id: `${doc.id}#${chunkIndex}`,
+          chunk_index: chunkIndex,
+          content: chunk.content,
+          token_count: chunk.token_count ?? Math.ceil(chunk.content.length / 4),
+          start_position: chunk.start_position ?? 0,
+          end_position: chunk.end_position ?? chunk.content.length,
+          section_id: chunk.section_id,
+          page_number: chunk.metadata?.page_number,
+          is_complete_section: chunk.metadata?.is_complete_section ?? false,
+          ...embeddingFields(doc, vectors[chunkIndex])
+        };
+      });
+  }
+
+  // Older documents only kept the chunk text
+  const contentChunks: string[] = (doc.content_chunks || []).filter((content: string) => content);
+  let searchFrom = 0;
+  return contentChunks.map((content, chunkIndex) => {
+    const found = (doc.content || '').indexOf(content, searchFrom);
+    const start = found >= 0 ? found : searchFrom;
+    searchFrom = found >= 0 ? found + content.length : searchFrom;
+
+    return {
+      ...base,
+      id: `${doc.id}#${chunkIndex}`,
+      chunk_index: chunkIndex,
+      content,
+      token_count: Math.ceil(content.length / 4),
+      start_position: start,
+      end_position: start + content.length,
+      is_complete_section: false,
+      ...embeddingFields(doc, vectors[chunkIndex])
+    };
+  });
+}
+
+type EmbeddingFields = Pick<ChunkRecord,
+  'vector' | 'embedding_model' | 'embedding_dimensions' | 'embedding_status' | 'embedding_error' |
+  'embedding_attempts' | 'next_embedding_attempt_at'>;
+
+// A chunk without a vector goes on the retry queue, so it is embedded rather than left out of vector search
+function embeddingFields(doc: any, vector?: number[]): EmbeddingFields {
+  if (!vector || vector.length === 0) {
+    return {
+      vector: [],
+      embedding_status: 'failed',
+      embedding_error: 'No vector in the legacy document',
+      embedding_attempts: 0,
+      next_embedding_attempt_at: new Date()
+    };
+  }
+  return {
+    vector,
+    embedding_model: doc.embeddings_model,
+    embedding_dimensions: vector.length,
+    embedding_status: 'embedded'
+  };
+}
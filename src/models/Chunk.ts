@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document as MongoDocument } from 'mongoose';
+import { ChunkRecord } from '../types/vector-db.js';
+
+// Denormalised document metadata used to filter chunks without joining documents
+const ChunkMetadataSchema = new Schema({
+  filename: { type: String, required: true },
+  file_type: { type: String, required: true },
+  category: { type: String, required: true },
+  tags: [{ type: String }],
+  uploaded_by: { type: String, required: true },
+  created_at: { type: String, required: true },
+  visibility: { type: String, enum: ['private', 'public'] },
+  shared_with: { type: [String], default: undefined }
+}, { _id: false });
+
+// Chunk Schema - one record per chunk of a document
+const ChunkSchema = new Schema<ChunkRecord & MongoDocument>({
+  id: { type: String, required: true, unique: true },
+  document_id: { type: String, required: true },
+  chunk_index: { type: Number, required: true },
+  content: { type: String, required: true },
+  token_count: { type: Number, required: true },
+  start_position: { type: Number, required: true },
+  end_position: { type: Number, required: true },
+  section_id: { type: String },
+  section_ids: { type: [String], default: undefined },
+  page_number: { type: Number },
+  is_complete_section: { type: Boolean, default: false },
+  vector: [{ type: Number }],
+  embedding_model: { type: String },
+  embedding_dimensions: { type: Number },
+  staged_vector: { type: [Number], default: undefined },
+  staged_namespace: { type: String },
+  staged_embedding_model: { type: String },
+  staged_embedding_dimensions: { type: Number },
+  embedding_status: {
+    type: String,
+    enum: ['embedded', 'failed'],
+    default: 'embedded'
+  },
+  embedding_error: { type: String },
+  embedding_attempts: { type: Number, default: 0 },
+  next_embedding_attempt_at: { type: Date },
+  metadata: { type: ChunkMetadataSchema, required: true },
+  status: {
+    type: String,
+    enum: ['processing', 'ready', 'error'],
+    default: 'ready'
+  },
+  created_at: { type: String, required: true },
+  updated_at: { type: String, required: true }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+// Indexes for efficient searching
+ChunkSchema.index({ document_id: 1, chunk_index: 1 }, { unique: true });
+ChunkSchema.index({ status: 1 });
+ChunkSchema.index({ 'metadata.uploaded_by': 1 });
+ChunkSchema.index({ 'metadata.visibility': 1 });
+ChunkSchema.index({ 'metadata.shared_with': 1 });
+ChunkSchema.index({ 'metadata.file_type': 1 });
+ChunkSchema.index({ 'metadata.category': 1 });
+ChunkSchema.index({ 'metadata.tags': 1 });
+ChunkSchema.index({ 'metadata.created_at': -1 });
+ChunkSchema.index({ embedding_model: 1, embedding_dimensions: 1 });
+ChunkSchema.index({ embedding_status: 1, next_embedding_attempt_at: 1 });
+ChunkSchema.index({ staged_namespace: 1 });
+
+export const ChunkModel = mongoose.model<ChunkRecord & MongoDocument>('Chunk', ChunkSchema);
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document as MongoDocument } from 'mongoose';
+import { ComponentRecord } from '../types/vector-db.js';
+
+const ComponentMetadataSchema = new Schema({
+  filename: { type: String, required: true },
+  file_type: { type: String, required: true },
+  category: { type: String, required: true },
+  tags: [{ type: String }],
+  uploaded_by: { type: String, required: true },
+  created_at: { type: String, required: true },
+  visibility: { type: String, enum: ['private', 'public'] },
+  shared_with: { type: [String], default: undefined }
+}, { _id: false });
+
+// Component Schema - one record per part, parameter or constraint of a specialized upload
+const ComponentSchema = new Schema<ComponentRecord & MongoDocument>({
+  id: { type: String, required: true, unique: true },
+  document_id: { type: String, required: true },
+  component_type: {
+    type: String,
+    enum: ['parts', 'parameters', 'constraints'],
+    required: true
+  },
+  component_id: { type: String, required: true },
+  name: { type: String, required: true },
+  text: { type: String, required: true },
+  position: {
+    start: { type: Number },
+    end: { type: Number },
+    line: { type: Number },
+    column: { type: Number }
+  },
+  vector: [{ type: Number }],
+  embedding_model: { type: String },
+  embedding_dimensions: { type: Number },
+  metadata: { type: ComponentMetadataSchema, required: true },
+  created_at: { type: String, required: true }
+});
+
+// Indexes for the filters component search supports
+ComponentSchema.index({ document_id: 1 });
+ComponentSchema.index({ component_type: 1 });
+ComponentSchema.index({ 'metadata.uploaded_by': 1 });
+ComponentSchema.index({ 'metadata.visibility': 1 });
+ComponentSchema.index({ 'metadata.shared_with': 1 });
+ComponentSchema.index({ 'metadata.file_type': 1 });
+ComponentSchema.index({ embedding_model: 1, embedding_dimensions: 1 });
+
+export const ComponentModel = mongoose.model<ComponentRecord & MongoDocument>('Component', ComponentSchema);
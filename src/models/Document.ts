@@ -11,21 +11,11 @@ const DocumentMetadataSchema = new Schema<DocumentMetadata>({
   tags: [{ type: String }],
   category: { type: String, required: true },
   language: { type: String, required: true },
-  page_count: { type: Number }
-});
-
-// Text Chunk Schema for storing processed chunks
-const TextChunkSchema = new Schema({
-  id: { type: String, required: true },
-  content: { type: String, required: true },
-  token_count: { type: Number, required: true },
-  start_position: { type: Number, required: true },
-  end_position: { type: Number, required: true },
-  section_id: { type: String },
-  metadata: {
-    chunk_index: { type: Number, required: true },
-    is_complete_section: { type: Boolean, required: true }
-  }
+  page_count: { type: Number },
+  page_offsets: { type: [Number], default: undefined },
+  visibility: { type: String, enum: ['private', 'public'] },
+  shared_with: { type: [String], default: undefined },
+  storage_path: { type: String }
 });
 
 // Main Document Schema
@@ -33,24 +23,24 @@ const DocumentSchema = new Schema<DocumentVector & MongoDocument>({
   id: { type: String, required: true, unique: true },
   title: { type: String, required: true },
   content: { type: String, required: true },
-  content_chunks: [{ type: String }],
-  vectors: [[{ type: Number }]], // Array of number arrays for vector embeddings
+  chunk_count: { type: Number, default: 0 }, // Chunks and vectors live in the Chunk collection
   metadata: { type: DocumentMetadataSchema, required: true },
   embeddings_model: { type: String, required: true },
   created_at: { type: String, required: true },
   updated_at: { type: String, required: true },
   status: { 
     type: String, 
-    enum: ['processing', 'ready', 'error'], 
+    enum: ['processing', 'ready', 'partial', 'error'], 
     default: 'processing' 
   }
 }, {
   timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
-  strict: false // Allow additional fields like chunks and specialized_data
+  strict: false // Allow additional fields like specialized_data
 });
 
 // Indexes for efficient searching
 DocumentSchema.index({ 'metadata.uploaded_by': 1 });
+DocumentSchema.index({ 'metadata.shared_with': 1 });
 DocumentSchema.index({ 'metadata.file_type': 1 });
 DocumentSchema.index({ 'metadata.category': 1 });
 DocumentSchema.index({ 'metadata.tags': 1 });
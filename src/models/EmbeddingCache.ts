@@ -0,0 +1,28 @@
+import mongoose, { Schema } from 'mongoose';
+
+export interface EmbeddingCacheEntry {
+  key: string; // sha256 of model, dimensions and normalised text
+  model: string;
+  dimensions: number;
+  vector: number[];
+  hits: number;
+  last_used_at: Date;
+  created_at: Date;
+}
+
+// Embedding Cache Schema - content-addressed vectors shared across documents and queries
+const EmbeddingCacheSchema = new Schema<EmbeddingCacheEntry>({
+  key: { type: String, required: true, unique: true },
+  model: { type: String, required: true },
+  dimensions: { type: Number, required: true },
+  vector: [{ type: Number }],
+  hits: { type: Number, default: 0 },
+  last_used_at: { type: Date, default: Date.now },
+  created_at: { type: Date, default: Date.now }
+});
+
+// LRU eviction removes the least recently used entries first
+EmbeddingCacheSchema.index({ last_used_at: 1 });
+EmbeddingCacheSchema.index({ model: 1, dimensions: 1 });
+
+export const EmbeddingCacheModel = mongoose.model<EmbeddingCacheEntry>('EmbeddingCache', EmbeddingCacheSchema);
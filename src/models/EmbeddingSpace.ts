@@ -0,0 +1,48 @@
+import mongoose, { Schema } from 'mongoose';
+import { EmbeddingSpace, EmbeddingMigrationProgress, EmbeddingSpaceRegistry } from '../types/vector-db.js';
+
+const EmbeddingSpaceSchema = new Schema<EmbeddingSpace>({
+  version: { type: Number, required: true },
+  provider: { type: String, required: true },
+  model: { type: String, required: true },
+  dimensions: { type: Number, required: true },
+  namespace: { type: String, default: '' },
+  status: {
+    type: String,
+    enum: ['active', 'building', 'retired', 'abandoned'],
+    required: true
+  },
+  created_at: { type: String, required: true },
+  activated_at: { type: String },
+  retired_at: { type: String }
+}, { _id: false });
+
+const EmbeddingMigrationSchema = new Schema<EmbeddingMigrationProgress>({
+  target_version: { type: Number, required: true },
+  status: {
+    type: String,
+    enum: ['running', 'paused', 'ready_for_cutover', 'cutting_over', 'completed', 'failed'],
+    required: true
+  },
+  cursor: { type: String },
+  total_chunks: { type: Number, default: 0 },
+  processed_chunks: { type: Number, default: 0 },
+  failed_chunks: { type: Number, default: 0 },
+  started_at: { type: String, required: true },
+  updated_at: { type: String, required: true },
+  completed_at: { type: String },
+  error: { type: String }
+}, { _id: false });
+
+// Embedding Space Registry Schema - a single document, so a cutover is one atomic update
+const EmbeddingSpaceRegistrySchema = new Schema<EmbeddingSpaceRegistry & { key: string }>({
+  key: { type: String, required: true, unique: true },
+  active_version: { type: Number, required: true },
+  spaces: [EmbeddingSpaceSchema],
+  migration: { type: EmbeddingMigrationSchema }
+});
+
+export const EmbeddingSpaceRegistryModel = mongoose.model<EmbeddingSpaceRegistry & { key: string }>(
+  'EmbeddingSpaceRegistry',
+  EmbeddingSpaceRegistrySchema
+);
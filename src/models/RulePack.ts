@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document as MongoDocument } from 'mongoose';
+import { RulePack } from '../types/specialized-parser.js';
+
+const PackRuleSchema = new Schema({
+  id: { type: String, required: true },
+  type: {
+    type: String,
+    enum: ['min', 'max', 'pattern', 'enum', 'required', 'custom'],
+    required: true
+  },
+  value: { type: Schema.Types.Mixed },
+  message: { type: String, default: '' },
+  description: { type: String },
+  part_types: { type: [String], default: undefined },
+  parameters: { type: [String], default: undefined },
+  severity: {
+    type: String,
+    enum: ['critical', 'high', 'medium', 'low'],
+    required: true
+  },
+  suggested_fix: { type: String }
+}, { _id: false });
+
+// Rule Pack Schema - packs managed by admins; built-in packs are read from rule-packs/
+const RulePackSchema = new Schema<RulePack & MongoDocument>({
+  id: { type: String, required: true, unique: true },
+  name: { type: String, required: true },
+  version: { type: String, required: true },
+  description: { type: String },
+  file_types: [{ type: String, required: true }],
+  mozaik_versions: { type: String },
+  enabled: { type: Boolean, default: true },
+  rules: [PackRuleSchema],
+  source: { type: String, enum: ['builtin', 'custom'], default: 'custom' },
+  created_by: { type: String },
+  created_at: { type: String, required: true },
+  updated_at: { type: String, required: true }
+});
+
+RulePackSchema.index({ file_types: 1 });
+
+export const RulePackModel = mongoose.model<RulePack & MongoDocument>('RulePack', RulePackSchema);
@@ -0,0 +1,357 @@
+import { Router, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { authenticateToken, requireAdmin, AuthenticatedRequest } from './auth.js';
+import { EmbeddingRetryService } from '../services/EmbeddingRetryService.js';
+import { EmbeddingSpaceService } from '../services/EmbeddingSpaceService.js';
+import { RulePackService } from '../services/RulePackService.js';
+import { SpecializedFileType } from '../types/specialized-parser.js';
+
+const router = Router();
+const embeddingRetry = EmbeddingRetryService.getInstance();
+const embeddingSpaces = EmbeddingSpaceService.getInstance();
+const rulePacks = RulePackService.getInstance();
+
+router.use(authenticateToken, requireAdmin);
+
+const validateFailedList = [
+  query('document_id').optional().isString().withMessage('Document ID must be a string'),
+  query('limit').optional().isInt({ min: 1, max: 500 }).withMessage('Limit must be between 1 and 500'),
+  query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be a non-negative integer')
+];
+
+const validateRetry = [
+  body('chunk_ids').optional().isArray({ min: 1 }).withMessage('Chunk IDs must be a non-empty array'),
+  body('chunk_ids.*').optional().isString().withMessage('Chunk IDs must be strings'),
+  body('document_id').optional().isString().withMessage('Document ID must be a string')
+];
+
+const validateMigration = [
+  body('provider').optional().isIn(['openai', 'openai-compatible', 'local']).withMessage('Provider must be one of openai, openai-compatible or local'),
+  body('model').optional().isString().trim().notEmpty().withMessage('Model must be a non-empty string'),
+  body('dimensions').optional().isInt({ min: 1, max: 8192 }).withMessage('Dimensions must be between 1 and 8192')
+];
+
+const validateRulePackList = [
+  query('file_type').optional().isIn(Object.values(SpecializedFileType)).withMessage(`File type must be one of ${Object.values(SpecializedFileType).join(', ')}`),
+  query('mozaik_version').optional().matches(/^v?\d+(\.\d+){0,2}/).withMessage('Mozaik version must look like 1.2.0')
+];
+
+// A rule pack as JSON, or as YAML or JSON text in `content`
+const validateRulePack = [
+  body('content').optional().isString().notEmpty().withMessage('Content must be YAML or JSON text'),
+  body('enabled').optional().isBoolean().withMessage('Enabled must be a boolean'),
+  body('rules').optional().isArray().withMessage('Rules must be an array')
+];
+
+// List chunks whose embedding failed, with the queue state
+router.get('/embeddings/failed', validateFailedList, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { document_id, limit = '50', offset = '0' } = req.query;
+    const failed = await embeddingRetry.listFailed({
+      document_id,
+      limit: parseInt(limit),
+      offset: parseInt(offset)
+    });
+    const queue = await embeddingRetry.getStats();
+
+    res.status(200).json({
+      message: 'Failed chunks retrieved successfully',
+      chunks: failed.chunks,
+      pagination: {
+        total: failed.total,
+        limit: parseInt(limit),
+        offset: parseInt(offset)
+      },
+      queue
+    });
+  } catch (error) {
+    console.error('List failed chunks error:', error);
+    res.status(500).json({
+      error: 'Failed to list failed chunks',
+      message: 'An error occurred while listing failed chunks'
+    });
+  }
+});
+
+// Re-embed failed chunks now, regardless of their backoff
+router.post('/embeddings/retry', validateRetry, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { chunk_ids, document_id } = req.body;
+    const result = await embeddingRetry.forceRetry({ chunk_ids, document_id });
+
+    res.status(200).json({
+      message: `Re-embedded ${result.succeeded} of ${result.attempted} chunks`,
+      result
+    });
+  } catch (error) {
+    console.error('Force retry embeddings error:', error);
+    res.status(500).json({
+      error: 'Failed to retry embeddings',
+      message: 'An error occurred while retrying failed chunks'
+    });
+  }
+});
+
+// Embedding space registry and re-embedding migration progress
+router.get('/embeddings/migration', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const status = await embeddingSpaces.getStatus();
+
+    res.status(200).json({
+      message: 'Embedding migration status retrieved successfully',
+      ...status
+    });
+  } catch (error) {
+    console.error('Embedding migration status error:', error);
+    res.status(500).json({
+      error: 'Failed to get embedding migration status',
+      message: 'An error occurred while reading the embedding space registry'
+    });
+  }
+});
+
+// Start (or resume) re-embedding all chunks into a new embedding space
+router.post('/embeddings/migration', validateMigration, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { provider, model, dimensions } = req.body;
+    const status = await embeddingSpaces.startMigration({
+      provider,
+      model,
+      dimensions: dimensions ? parseInt(dimensions) : undefined
+    });
+
+    res.status(202).json({
+      message: `Re-embedding into embedding space v${status.target?.version} started`,
+      ...status
+    });
+  } catch (error) {
+    console.error('Start embedding migration error:', error);
+    res.status(409).json({
+      error: 'Failed to start embedding migration',
+      message: error instanceof Error ? error.message : 'An error occurred while starting the migration'
+    });
+  }
+});
+
+router.post('/embeddings/migration/pause', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const status = await embeddingSpaces.pauseMigration();
+
+    res.status(200).json({
+      message: 'Embedding migration paused',
+      ...status
+    });
+  } catch (error) {
+    console.error('Pause embedding migration error:', error);
+    res.status(409).json({
+      error: 'Failed to pause embedding migration',
+      message: error instanceof Error ? error.message : 'An error occurred while pausing the migration'
+    });
+  }
+});
+
+// Switch queries and new embeddings over to the migrated space
+router.post('/embeddings/migration/cutover', body('force').optional().isBoolean(), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const space = await embeddingSpaces.cutover({ force: req.body.force === true });
+
+    res.status(200).json({
+      message: `Cut over to embedding space v${space.version}`,
+      active: space
+    });
+  } catch (error) {
+    console.error('Embedding migration cutover error:', error);
+    res.status(409).json({
+      error: 'Failed to cut over embedding space',
+      message: error instanceof Error ? error.message : 'An error occurred during cutover'
+    });
+  }
+});
+
+// Rule packs checked against specialized uploads, built-in and admin-managed
+router.get('/rule-packs', validateRulePackList, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { file_type, mozaik_version } = req.query;
+    const packs = await rulePacks.listPacks({ file_type, mozaik_version });
+
+    res.status(200).json({
+      message: 'Rule packs retrieved successfully',
+      rule_packs: packs,
+      total: packs.length
+    });
+  } catch (error) {
+    console.error('List rule packs error:', error);
+    res.status(500).json({
+      error: 'Failed to list rule packs',
+      message: 'An error occurred while listing rule packs'
+    });
+  }
+});
+
+router.get('/rule-packs/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const pack = await rulePacks.getPack(req.params.id);
+    if (!pack) {
+      return res.status(404).json({
+        error: 'Rule pack not found',
+        message: `No rule pack with id ${req.params.id}`
+      });
+    }
+
+    res.status(200).json({
+      message: 'Rule pack retrieved successfully',
+      rule_pack: pack
+    });
+  } catch (error) {
+    console.error('Get rule pack error:', error);
+    res.status(500).json({
+      error: 'Failed to get rule pack',
+      message: 'An error occurred while reading the rule pack'
+    });
+  }
+});
+
+router.post('/rule-packs', validateRulePack, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const input = readRulePack(req.body);
+    const problems = input instanceof Error ? [input.message] : rulePacks.validatePack(input);
+    if (problems.length > 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: problems
+      });
+    }
+
+    const pack = await rulePacks.createPack(input, req.user?.userId);
+
+    res.status(201).json({
+      message: 'Rule pack created successfully',
+      rule_pack: pack
+    });
+  } catch (error) {
+    console.error('Create rule pack error:', error);
+    res.status(409).json({
+      error: 'Failed to create rule pack',
+      message: error instanceof Error ? error.message : 'An error occurred while creating the rule pack'
+    });
+  }
+});
+
+// Updating a built-in pack stores an edited copy that replaces it
+router.put('/rule-packs/:id', validateRulePack, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const current = await rulePacks.getPack(req.params.id);
+    if (!current) {
+      return res.status(404).json({
+        error: 'Rule pack not found',
+        message: `No rule pack with id ${req.params.id}`
+      });
+    }
+
+    const input = readRulePack(req.body);
+    const problems = input instanceof Error
+      ? [input.message]
+      : rulePacks.validatePack({ ...current, ...input, id: current.id });
+    if (problems.length > 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: problems
+      });
+    }
+
+    const pack = await rulePacks.updatePack(req.params.id, input, req.user?.userId);
+
+    res.status(200).json({
+      message: 'Rule pack updated successfully',
+      rule_pack: pack
+    });
+  } catch (error) {
+    console.error('Update rule pack error:', error);
+    res.status(500).json({
+      error: 'Failed to update rule pack',
+      message: 'An error occurred while updating the rule pack'
+    });
+  }
+});
+
+router.delete('/rule-packs/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deleted = await rulePacks.deletePack(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Rule pack not found',
+        message: `No rule pack with id ${req.params.id}`
+      });
+    }
+
+    res.status(200).json({
+      message: 'Rule pack deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete rule pack error:', error);
+    res.status(409).json({
+      error: 'Failed to delete rule pack',
+      message: error instanceof Error ? error.message : 'An error occurred while deleting the rule pack'
+    });
+  }
+});
+
+// The pack itself, or the pack parsed from YAML or JSON text in `content`
+function readRulePack(body: any): any {
+  if (typeof body.content !== 'string') return body;
+  try {
+    return rulePacks.parsePackText(body.content);
+  } catch (error) {
+    return new Error(`Content is not valid YAML or JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export { router as adminRoutes };
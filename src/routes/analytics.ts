@@ -3,6 +3,7 @@ import { query, validationResult } from 'express-validator';
 import { authenticateToken, AuthenticatedRequest } from './auth.js';
 import { VectorDBService } from '../services/VectorDBService.js';
 import { DocumentModel, SearchQueryModel } from '../models/Document.js';
+import { ChunkModel } from '../models/Chunk.js';
 
 const router = Router();
 const vectorDB = new VectorDBService();
@@ -29,18 +30,29 @@ router.get('/dashboard', authenticateToken, async (req: AuthenticatedRequest, re
     const userSearches = await SearchQueryModel.find({ user_id: userId }).lean();
     
     // Document type distribution
-    const documentTypeStats = await DocumentModel.aggregate([
+    const documentTypes = await DocumentModel.aggregate([
       { $match: { 'metadata.uploaded_by': userId } },
       { $group: { 
           _id: '$metadata.file_type', 
           count: { $sum: 1 },
-          total_size: { $sum: '$metadata.file_size' },
-          avg_vectors: { $avg: { $size: { $ifNull: ['$vectors', []] } } }
+          total_size: { $sum: '$metadata.file_size' }
         }
       },
       { $sort: { count: -1 } }
     ]);
 
+    // Chunk (and therefore vector) counts per file type, from the chunk collection
+    const chunkTypeStats = await ChunkModel.aggregate([
+      { $match: { 'metadata.uploaded_by': userId } },
+      { $group: { _id: '$metadata.file_type', chunk_count: { $sum: 1 } } }
+    ]);
+    const chunksByType = new Map(chunkTypeStats.map(stat => [stat._id, stat.chunk_count]));
+
+    const documentTypeStats = documentTypes.map(stat => ({
+      ...stat,
+      avg_vectors: (chunksByType.get(stat._id) || 0) / stat.count
+    }));
+
     // Search frequency over time (last 30 days)
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -72,7 +84,7 @@ router.get('/dashboard', authenticateToken, async (req: AuthenticatedRequest, re
 
     // Processing performance metrics
     const processingStats = await DocumentModel.aggregate([
-      { $match: { 'metadata.uploaded_by': userId, status: 'ready' } },
+      { $match: { 'metadata.uploaded_by': userId, status: { $in: ['ready', 'partial'] } } },
       { 
         $project: {
           processing_time: {
@@ -82,7 +94,7 @@ router.get('/dashboard', authenticateToken, async (req: AuthenticatedRequest, re
               unit: 'millisecond'
             }
           },
-          vector_count: { $size: { $ifNull: ['$vectors', []] } },
+          vector_count: { $ifNull: ['$chunk_count', 0] },
           content_length: { $strLenCP: '$content' }
         }
       },
@@ -131,6 +143,7 @@ router.get('/dashboard', authenticateToken, async (req: AuthenticatedRequest, re
           processing_performance: processingStats[0] || null,
           status_breakdown: {
             ready: userDocuments.filter(doc => doc.status === 'ready').length,
+            partial: userDocuments.filter(doc => doc.status === 'partial').length,
             processing: userDocuments.filter(doc => doc.status === 'processing').length,
             error: userDocuments.filter(doc => doc.status === 'error').length
           }
@@ -350,7 +363,7 @@ router.get('/export', authenticateToken, async (req: AuthenticatedRequest, res:
         file_size: doc.metadata?.file_size,
         upload_date: doc.metadata?.upload_date,
         status: doc.status,
-        chunks_count: doc.vectors?.length || 0,
+        chunks_count: doc.chunk_count || 0,
         embedding_model: doc.embeddings_model
       })),
       searches: searches.map(search => ({
@@ -85,6 +85,24 @@ export const authenticateToken = (req: AuthenticatedRequest, res: Response, next
   }
 };
 
+// Middleware restricting a route to administrators (ADMIN_EMAILS, comma separated).
+// Must run after authenticateToken.
+export const requireAdmin = (req: AuthenticatedRequest, res: Response, next: any) => {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!req.user || !adminEmails.includes(req.user.email.toLowerCase())) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'Administrator access required'
+    });
+  }
+
+  next();
+};
+
 // Sign up route
 router.post('/signup', validateSignup, async (req: Request, res: Response) => {
   try {
@@ -4,11 +4,14 @@ import { authenticateToken, AuthenticatedRequest } from './auth.js';
 import { RAGPipelineService } from '../services/RAGPipelineService.js';
 import { VectorDBService } from '../services/VectorDBService.js';
 import { EnhancedRAGService } from '../services/EnhancedRAGService.js';
+import { canAccess } from '../utils/access.js';
+import { ConstraintEvaluator } from '../services/constraints/ConstraintEvaluator.js';
 
 const router = Router();
 const ragPipeline = new RAGPipelineService();
 const enhancedRAG = new EnhancedRAGService();
 const vectorDB = new VectorDBService();
+const constraintEvaluator = new ConstraintEvaluator();
 
 // Validation middleware
 const validateChatMessage = [
@@ -83,7 +86,8 @@ router.post('/message', authenticateToken, validateChatMessage, async (req: Auth
         metadata: {
           timestamp: new Date().toISOString(),
           model_used: 'gpt-4o-mini',
-          context_sources: response.response.context.relevant_documents.length
+          context_sources: response.response.context.relevant_documents.length,
+          reranking: response.response.metadata.reranking
         }
       });
     } catch (ragError) {
@@ -230,6 +234,7 @@ router.post('/enhanced-message', authenticateToken, validateChatMessage, async (
           model_used: 'gpt-4o-mini',
           tokens_used: enhancedResponse.response.metadata.tokens_used,
           context_sources: enhancedResponse.enhanced_context.total_context_sources,
+          reranking: enhancedResponse.enhanced_context.reranking,
           timestamp: new Date().toISOString()
         }
       });
@@ -531,28 +536,46 @@ router.post('/quick-diagnostic', authenticateToken, async (req: AuthenticatedReq
 
     // Get file document
     const document = await vectorDB.getDocument(file_id);
-    if (!document || document.metadata.uploaded_by !== userId) {
+    if (!document || !canAccess(document.metadata, { user_id: userId })) {
       return res.status(404).json({
         error: 'File not found',
         message: 'The specified file does not exist or you do not have access'
       });
     }
 
-    // Quick analysis without full RAG pipeline
-    const fileContext = (document as any).specialized_data;
+    // Quick analysis without full RAG pipeline: re-run the file's constraints
+    // against its parameter values
+    const fileContext = storedParseResult(document);
+    const evaluation = fileContext?.parameters && fileContext?.constraints
+      ? constraintEvaluator.evaluate(fileContext)
+      : { issues: [], warnings: [] };
+    const otherIssues = (fileContext?.broken_logic || []).filter((issue: any) => issue.issue_type !== 'constraint_violation');
+    const issueCount = otherIssues.length + evaluation.issues.length;
+
     const quickAnalysis = {
       file_type: fileContext?.file_type || document.metadata.file_type,
-      status: fileContext?.broken_logic?.length > 0 ? 'Issues Found' : 'OK',
-      issue_count: fileContext?.broken_logic?.length || 0,
+      status: issueCount > 0 ? 'Issues Found' : 'OK',
+      issue_count: issueCount,
       component_count: fileContext?.parts?.length || 0,
       parameter_count: fileContext?.parameters?.length || 0,
       constraint_count: fileContext?.constraints?.length || 0,
+      violations: evaluation.issues.map(issue => ({
+        constraint_id: issue.constraint_id,
+        severity: issue.severity,
+        description: issue.description,
+        parameter_ids: issue.parameter_ids,
+        position: issue.position,
+        parameter_positions: issue.parameter_positions
+      })),
+      unevaluated_constraints: evaluation.warnings.map(warning => warning.message),
       quick_recommendations: [
         'Upload complete - file parsed successfully',
-        fileContext?.broken_logic?.length > 0 
-          ? 'Issues detected - run full analysis for details'
-          : 'No critical issues found',
-        'File ready for detailed analysis'
+        evaluation.issues.length > 0
+          ? `${evaluation.issues.length} constraint violation(s) - check the listed parameters`
+          : 'All constraints are satisfied',
+        otherIssues.length > 0
+          ? 'Structural issues detected - run full analysis for details'
+          : 'No critical issues found'
       ]
     };
 
@@ -579,7 +602,7 @@ router.post('/quick-diagnostic', authenticateToken, async (req: AuthenticatedReq
 async function getFileContext(fileId: string, userId: string): Promise<any> {
   try {
     const document = await vectorDB.getDocument(fileId);
-    if (!document || document.metadata.uploaded_by !== userId) {
+    if (!document || !canAccess(document.metadata, { user_id: userId })) {
       return null;
     }
     return (document as any).specialized_data;
@@ -724,4 +747,19 @@ router.post('/simple', authenticateToken, async (req: AuthenticatedRequest, res:
   }
 });
 
+// Parse result of a specialized upload, stored as the document content
+function storedParseResult(document: any): any {
+  if (document.specialized_data) {
+    return document.specialized_data;
+  }
+  if (document.metadata?.category !== 'specialized') {
+    return null;
+  }
+  try {
+    return JSON.parse(document.content);
+  } catch {
+    return null;
+  }
+}
+
 export { router as chatRoutes }; 
\ No newline at end of file
@@ -2,7 +2,9 @@ import { Router, Request, Response } from 'express';
 import { body, query, validationResult } from 'express-validator';
 import { authenticateToken, AuthenticatedRequest } from './auth.js';
 import { VectorDBService } from '../services/VectorDBService.js';
+import { EmbeddingCacheService } from '../services/EmbeddingCacheService.js';
 import { SearchQueryModel } from '../models/Document.js';
+import { canAccess, resolveAccess } from '../utils/access.js';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = Router();
@@ -15,7 +17,20 @@ const validateSearch = [
     .isLength({ min: 1, max: 500 })
     .withMessage('Query must be between 1 and 500 characters'),
   body('filters').optional().isObject().withMessage('Filters must be an object'),
-  body('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+  body('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  body('mode').optional().isIn(['vector', 'lexical', 'hybrid']).withMessage('Mode must be one of vector, lexical or hybrid'),
+  body('weights').optional().isObject().withMessage('Weights must be an object'),
+  body('weights.vector').optional().isFloat({ min: 0, max: 10 }).withMessage('Vector weight must be between 0 and 10'),
+  body('weights.lexical').optional().isFloat({ min: 0, max: 10 }).withMessage('Lexical weight must be between 0 and 10'),
+  body('corpus').optional().isIn(['user_upload', 'mozaik_knowledge', 'specialized', 'default']).withMessage('Corpus must be one of user_upload, mozaik_knowledge, specialized or default'),
+  body('threshold').optional().isFloat({ min: 0, max: 1 }).withMessage('Threshold must be between 0 and 1'),
+  body('threshold_mode').optional().isIn(['fixed', 'adaptive']).withMessage('Threshold mode must be fixed or adaptive')
+];
+
+const validateSharing = [
+  body('visibility').optional().isIn(['private', 'public']).withMessage('Visibility must be private or public'),
+  body('shared_with').optional().isArray({ max: 100 }).withMessage('Shared with must be an array of at most 100 user IDs'),
+  body('shared_with.*').isString().trim().notEmpty().withMessage('Shared with must contain user IDs')
 ];
 
 const validateDocumentFilters = [
@@ -49,13 +64,21 @@ router.post('/semantic', authenticateToken, validateSearch, async (req: Authenti
       });
     }
 
-    const { query, filters = {}, limit = 10 } = req.body;
+    const { query, filters = {}, limit = 10, mode = 'hybrid', weights, corpus, threshold_mode } = req.body;
+    const threshold = req.body.threshold !== undefined ? parseFloat(req.body.threshold) : undefined;
     const userId = req.user!.userId;
 
-    console.log(`Semantic search request from user ${userId}: "${query}"`);
+    console.log(`Semantic search request from user ${userId}: "${query}" (mode: ${mode})`);
 
     // Perform search
-    const results = await vectorDB.search(query, filters, limit);
+    const { results, threshold: appliedThreshold } = await vectorDB.searchDetailed(query, filters, limit, {
+      mode,
+      weights,
+      corpus,
+      threshold,
+      threshold_mode,
+      user_id: userId
+    });
 
     // Save search query to history
     const searchQueryId = uuidv4();
@@ -75,13 +98,16 @@ router.post('/semantic', authenticateToken, validateSearch, async (req: Authenti
         id: searchQueryId,
         text: query,
         filters,
-        limit
+        limit,
+        mode,
+        ...(weights && { weights })
       },
       results,
       metadata: {
         total_results: results.length,
         processing_time: Date.now() - req.startTime || 0,
-        search_id: searchQueryId
+        search_id: searchQueryId,
+        threshold: appliedThreshold
       }
     });
   } catch (error) {
@@ -93,8 +119,17 @@ router.post('/semantic', authenticateToken, validateSearch, async (req: Authenti
   }
 });
 
+const validateSpecializedSearch = [
+  ...validateSearch,
+  body('component_types').optional().isArray().withMessage('Component types must be an array'),
+  body('component_types.*').isIn(['parts', 'parameters', 'constraints']).withMessage('Component types must be parts, parameters or constraints'),
+  body('file_types').optional().isArray().withMessage('File types must be an array'),
+  body('file_types.*').isString().withMessage('File types must be strings'),
+  body('owner').optional().isString().withMessage('Owner must be a string')
+];
+
 // Specialized component search endpoint
-router.post('/specialized', authenticateToken, validateSearch, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/specialized', authenticateToken, validateSpecializedSearch, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -104,18 +139,22 @@ router.post('/specialized', authenticateToken, validateSearch, async (req: Authe
       });
     }
 
-    const { query, component_types, limit = 10 } = req.body;
+    const { query, component_types, file_types, owner, limit = 10 } = req.body;
 
     console.log(`Specialized search request: "${query}" for components: ${component_types}`);
 
     // Perform specialized search
-    const results = await vectorDB.searchSpecializedComponents(query, component_types, limit);
+    const results = await vectorDB.searchSpecializedComponents(query, { component_types, file_types, owner }, limit, {
+      user_id: req.user!.userId
+    });
 
     res.status(200).json({
       message: 'Specialized search completed successfully',
       query: {
         text: query,
         component_types: component_types || ['parts', 'parameters', 'constraints'],
+        ...(file_types && { file_types }),
+        ...(owner && { owner }),
         limit
       },
       results,
@@ -236,8 +275,8 @@ router.get('/documents/:id', authenticateToken, async (req: AuthenticatedRequest
       });
     }
 
-    // Check if user owns the document
-    if (document.metadata.uploaded_by !== req.user!.userId) {
+    // Owners, users it is shared with, and everyone for public documents
+    if (!canAccess(document.metadata, { user_id: req.user!.userId })) {
       return res.status(403).json({
         error: 'Access denied',
         message: 'You do not have permission to access this document'
@@ -257,6 +296,57 @@ router.get('/documents/:id', authenticateToken, async (req: AuthenticatedRequest
   }
 });
 
+// Change document visibility and who it is shared with (owner only)
+router.put('/documents/:id/sharing', authenticateToken, validateSharing, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+    const document = await vectorDB.getDocument(id);
+
+    if (!document) {
+      return res.status(404).json({
+        error: 'Document not found',
+        message: `Document with ID ${id} does not exist`
+      });
+    }
+
+    if (document.metadata.uploaded_by !== req.user!.userId) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'Only the owner can change who can access this document'
+      });
+    }
+
+    const current = resolveAccess(document.metadata);
+    const access = {
+      visibility: req.body.visibility || current.visibility,
+      shared_with: req.body.shared_with
+        ? [...new Set<string>(req.body.shared_with)].filter(userId => userId !== req.user!.userId)
+        : current.shared_with
+    };
+    await vectorDB.updateDocumentAccess(id, access);
+
+    res.status(200).json({
+      message: 'Document sharing updated successfully',
+      document_id: id,
+      access
+    });
+  } catch (error) {
+    console.error('Update document sharing error:', error);
+    res.status(500).json({
+      error: 'Failed to update document sharing',
+      message: 'An error occurred while updating who can access the document'
+    });
+  }
+});
+
 // Delete document
 router.delete('/documents/:id', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -369,11 +459,15 @@ router.get('/analytics', authenticateToken, async (req: AuthenticatedRequest, re
 router.get('/health', authenticateToken, async (req: Request, res: Response) => {
   try {
     const stats = await vectorDB.getStats();
+    const embeddings = await vectorDB.getEmbeddingSpaceReport();
+    const embeddingCache = await EmbeddingCacheService.getInstance().getStats();
     
     res.status(200).json({
       message: 'Vector database is healthy',
       status: 'healthy',
       statistics: stats,
+      embeddings,
+      embedding_cache: embeddingCache,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
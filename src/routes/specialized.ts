@@ -1,4 +1,5 @@
 import { Router, Request, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
 import multer from 'multer';
 import { authenticateToken } from './auth.js';
 import { v4 as uuidv4 } from 'uuid';
@@ -6,11 +7,25 @@ import fs from 'fs';
 import path from 'path';
 import { VectorDBService } from '../services/VectorDBService.js';
 import { DocumentVector } from '../types/vector-db.js';
+import { SpecializedParseResult } from '../types/specialized-parser.js';
 import { RAGPipelineService } from '../services/RAGPipelineService.js';
+import { SpecializedParserRegistry } from '../services/SpecializedParserRegistry.js';
+import { RulePackService } from '../services/RulePackService.js';
+import { DependencyGraphAnalyzer } from '../services/parsers/DependencyGraphAnalyzer.js';
+import { SpecializedFixEngine } from '../services/parsers/SpecializedFixEngine.js';
+import { SpecializedDiffEngine } from '../services/parsers/SpecializedDiffEngine.js';
+import { VersionControlService } from '../services/VersionControlService.js';
+import { canAccess } from '../utils/access.js';
 
 const router = Router();
 const vectorDB = new VectorDBService();
 const ragPipeline = new RAGPipelineService();
+const specializedParsers = new SpecializedParserRegistry();
+const rulePacks = RulePackService.getInstance();
+const graphAnalyzer = new DependencyGraphAnalyzer();
+const fixEngine = new SpecializedFixEngine();
+const diffEngine = new SpecializedDiffEngine();
+const versionControl = VersionControlService.getInstance();
 
 console.log('Specialized routes module loaded successfully');
 
@@ -32,7 +47,7 @@ const storage = multer.diskStorage({
 const upload = multer({
   storage: storage,
   fileFilter: (req: any, file: any, cb: any) => {
-    const allowedTypes = ['.moz', '.dat', '.des', '.xml'];
+    const allowedTypes = specializedParsers.getSupportedExtensions();
   const fileExtension = path.extname(file.originalname).toLowerCase();
 
     if (allowedTypes.includes(fileExtension)) {
@@ -54,48 +69,23 @@ router.post('/upload', authenticateToken, upload.single('file'), async (req: any
     if (!req.file) {
       return res.status(400).json({
         error: 'No file provided',
-        message: 'Please select a file to upload (.moz, .dat, .des, or .xml)'
+        message: `Please select a file to upload (${specializedParsers.getSupportedExtensions().join(', ')})`
       });
     }
 
     uploadedFilePath = req.file.path;
     const userId = req.user?.userId;
-    const startTime = Date.now();
     
     console.log(`Processing specialized file: ${req.file.originalname}`);
 
     const fileBuffer = fs.readFileSync(req.file.path);
-    const fileExtension = path.extname(req.file.originalname).toLowerCase();
-    const fileType = fileExtension.substring(1);
+    const fileType = specializedParsers.getFileTypeFromFilename(req.file.originalname);
 
     // Parse the specialized file
-    const parts = extractParts(fileBuffer.toString('utf8'), fileType);
-    const parameters = extractParameters(fileBuffer.toString('utf8'), fileType);
-    const constraints = extractConstraints(fileBuffer.toString('utf8'), fileType);
-    const brokenLogic = detectBrokenLogic(parts, parameters, constraints);
+    const parseResult = await specializedParsers.parse(fileBuffer, fileType);
 
-    const parseResult = {
-      file_type: fileType,
-      parts: parts,
-      parameters: parameters,
-      constraints: constraints,
-      broken_logic: brokenLogic,
-      version_metadata: {
-        version: '1.0.0',
-        parser_version: '1.0.0',
-        compatibility: [fileType]
-      },
-      statistics: {
-        total_parts: parts.length,
-        total_parameters: parameters.length,
-        total_constraints: constraints.length,
-        broken_logic_count: brokenLogic.length,
-        processing_time: Date.now() - startTime,
-        file_size: req.file.size
-      },
-      errors: [],
-      warnings: brokenLogic.length > 0 ? [`Found ${brokenLogic.length} potential issues`] : []
-    };
+    // Check it against the rule packs for its file type and version
+    const ruleValidation = await rulePacks.apply(parseResult);
 
     // Create document for vector database with specialized data
     const document: DocumentVector = {
@@ -112,7 +102,8 @@ router.post('/upload', authenticateToken, upload.single('file'), async (req: any
         uploaded_by: userId,
         tags: ['specialized', 'components', fileType],
         category: 'specialized',
-        language: 'en'
+        language: 'en',
+        storage_path: req.file.path
       },
       embeddings_model: '',
       created_at: new Date().toISOString(),
@@ -123,6 +114,13 @@ router.post('/upload', authenticateToken, upload.single('file'), async (req: any
     // Store in vector database
     await vectorDB.addDocument(document);
 
+    // Embed each part, parameter and constraint for component search
+    try {
+      await vectorDB.indexSpecializedComponents(document, parseResult);
+    } catch (error) {
+      console.warn(`⚠️ Component search will not cover ${req.file.originalname}:`, error);
+    }
+
     // Trigger RAG pipeline for automatic analysis
     await ragPipeline.processFileUpload(document.id, userId);
 
@@ -133,6 +131,7 @@ router.post('/upload', authenticateToken, upload.single('file'), async (req: any
       upload_date: new Date().toISOString(),
       uploaded_by: userId,
       parse_result: parseResult,
+      rule_packs: ruleValidation.packs,
       file_path: req.file.path,
       vector_db_id: document.id
     };
@@ -159,226 +158,285 @@ router.post('/upload', authenticateToken, upload.single('file'), async (req: any
   }
 });
 
-// Get supported file types
-router.get('/supported-types', (req: Request, res: Response) => {
-    const supportedTypes = [
-      {
-        type: 'xml',
-        extensions: ['.xml'],
-        description: 'XML files with parts, parameters, and constraints'
-      },
-      {
-      type: 'moz',
-      extensions: ['.moz'],
-      description: 'Mozaik project files with components and settings'
-    },
-    {
-      type: 'dat',
-      extensions: ['.dat'],
-      description: 'Mozaik data files with parameters and values'
-    },
-    {
-      type: 'des',
-      extensions: ['.des'],
-      description: 'Mozaik design files with layout and configuration'
-      }
-    ];
+// Dependency graph of an uploaded file, with the issues found in it
+router.get('/files/:id/graph', authenticateToken, async (req: any, res: Response) => {
+  try {
+    const document = await vectorDB.getDocument(req.params.id);
+    if (!document || document.metadata.category !== 'specialized' || !canAccess(document.metadata, { user_id: req.user?.userId })) {
+      return res.status(404).json({
+        error: 'File not found',
+        message: 'The specified file does not exist or you do not have access'
+      });
+    }
+
+    const parseResult = JSON.parse(document.content);
+    // Files parsed before graph analysis existed get their graph built now
+    const analysis = parseResult.file_structure?.dependency_graph
+      ? {
+          graph: parseResult.file_structure.dependency_graph,
+          issues: parseResult.broken_logic || []
+        }
+      : graphAnalyzer.analyze({
+          parts: parseResult.parts || [],
+          parameters: parseResult.parameters || [],
+          constraints: parseResult.constraints || [],
+          dependencies: parseResult.file_structure?.dependencies || [],
+          hierarchy: parseResult.file_structure?.hierarchy
+        });
 
     res.json({
-      message: 'Supported file types retrieved successfully',
-      supported_types: supportedTypes
+      file_id: document.id,
+      filename: document.metadata.filename,
+      graph: analysis.graph,
+      issues: analysis.issues
     });
+  } catch (error) {
+    console.error('Dependency graph error:', error);
+    res.status(500).json({
+      error: 'Failed to build dependency graph',
+      message: 'An error occurred while analyzing the file dependencies'
+    });
+  }
 });
 
-// Test endpoint
-router.get('/test', (req: Request, res: Response) => {
-  res.json({
-    message: 'Specialized parser is working!',
-    status: 'ready',
-    timestamp: new Date().toISOString(),
-    supported_types: [
-      'MOZ (.moz)',
-      'DAT (.dat)', 
-      'DES (.des)',
-      'XML (.xml)'
-    ]
-  });
+const validateApplyFixes = [
+  body('fix_ids').optional().isArray({ min: 1 }).withMessage('Fix IDs must be a non-empty array'),
+  body('fix_ids.*').optional().isString().withMessage('Fix IDs must be strings'),
+  query('download').optional().isBoolean().withMessage('Download must be true or false')
+];
+
+// Fixes for the issues of an uploaded file that have a deterministic remedy
+router.get('/files/:id/fixes', authenticateToken, async (req: any, res: Response) => {
+  try {
+    const upload = await loadUpload(req.params.id, req.user?.userId);
+    if ('status' in upload) {
+      return res.status(upload.status).json(upload.body);
+    }
+
+    const fixes = fixEngine.proposeFixes(upload.file, upload.parseResult, upload.filename);
+
+    res.json({
+      file_id: req.params.id,
+      filename: upload.filename,
+      issue_count: upload.parseResult.broken_logic.length,
+      fixes
+    });
+  } catch (error) {
+    console.error('List fixes error:', error);
+    res.status(500).json({
+      error: 'Failed to list fixes',
+      message: 'An error occurred while finding fixes for the file'
+    });
+  }
 });
 
-// Helper functions for parsing specialized files
-function extractParts(content: string, fileType: string): any[] {
-  const parts: any[] = [];
-  
+// Apply some (or all) fixes; returns the corrected file and a unified diff,
+// or the corrected file alone with ?download=true
+router.post('/files/:id/fixes', authenticateToken, validateApplyFixes, async (req: any, res: Response) => {
   try {
-    // Extract parts based on file type
-  if (fileType === 'xml') {
-      const partMatches = content.match(/<part[^>]*>[\s\S]*?<\/part>/gi);
-    if (partMatches) {
-      partMatches.forEach((match, index) => {
-          const nameMatch = match.match(/name=["']([^"']+)["']/i);
-          const typeMatch = match.match(/type=["']([^"']+)["']/i);
-          
-        parts.push({
-            id: `part_${index}`,
-            name: nameMatch ? nameMatch[1] : `Part ${index + 1}`,
-            type: typeMatch ? typeMatch[1] : 'unknown',
-            content: match.trim()
-        });
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: errors.array()
       });
     }
-  } else if (fileType === 'moz') {
-      const partMatches = content.match(/component[^}]*{[\s\S]*?}/gi);
-      if (partMatches) {
-        partMatches.forEach((match, index) => {
-          const nameMatch = match.match(/name\s*:\s*["']([^"']+)["']/i);
-          
-        parts.push({
-            id: `component_${index}`,
-            name: nameMatch ? nameMatch[1] : `Component ${index + 1}`,
-            type: 'component',
-            content: match.trim()
-        });
-      });
+
+    const upload = await loadUpload(req.params.id, req.user?.userId);
+    if ('status' in upload) {
+      return res.status(upload.status).json(upload.body);
     }
+
+    const application = fixEngine.applyFixes(upload.file, upload.parseResult, req.body.fix_ids, upload.filename);
+
+    if (req.query.download === 'true') {
+      res.setHeader('Content-Disposition', `attachment; filename="${upload.filename.replace(/"/g, '')}"`);
+      return res.type('application/octet-stream').send(Buffer.from(application.content, 'utf8'));
     }
+
+    res.json({
+      message: `Applied ${application.applied.length} fixes`,
+      file_id: req.params.id,
+      filename: upload.filename,
+      applied: application.applied.map(fix => fix.id),
+      skipped: application.skipped,
+      diff: application.diff,
+      content: application.content
+    });
   } catch (error) {
-    console.error('Error extracting parts:', error);
+    console.error('Apply fixes error:', error);
+    res.status(500).json({
+      error: 'Failed to apply fixes',
+      message: 'An error occurred while applying fixes to the file'
+    });
   }
-  
-  return parts;
-}
+});
 
-function extractParameters(content: string, fileType: string): any[] {
-  const parameters: any[] = [];
-  
+const validateCompare = [
+  query('from').isString().notEmpty().withMessage('From is required'),
+  query('to').isString().notEmpty().withMessage('To is required')
+];
+
+// What changed between two uploaded files: parts, parameters and constraints matched by id
+router.get('/compare', authenticateToken, validateCompare, async (req: any, res: Response) => {
   try {
-    // Extract parameters based on file type
-  if (fileType === 'xml') {
-      const paramMatches = content.match(/<parameter[^>]*>[\s\S]*?<\/parameter>/gi);
-    if (paramMatches) {
-      paramMatches.forEach((match, index) => {
-          const nameMatch = match.match(/name=["']([^"']+)["']/i);
-          const valueMatch = match.match(/value=["']([^"']+)["']/i);
-          const typeMatch = match.match(/type=["']([^"']+)["']/i);
-          
-        parameters.push({
-          id: `param_${index}`,
-            name: nameMatch ? nameMatch[1] : `Parameter ${index + 1}`,
-          value: valueMatch ? valueMatch[1] : '',
-            type: typeMatch ? typeMatch[1] : 'string',
-            content: match.trim()
-          });
-        });
-      }
-    } else if (fileType === 'dat') {
-      const paramMatches = content.match(/param[^}]*{[\s\S]*?}/gi);
-      if (paramMatches) {
-        paramMatches.forEach((match, index) => {
-          const nameMatch = match.match(/name\s*:\s*["']([^"']+)["']/i);
-          const valueMatch = match.match(/value\s*:\s*["']([^"']+)["']/i);
-          
-          parameters.push({
-            id: `param_${index}`,
-            name: nameMatch ? nameMatch[1] : `Parameter ${index + 1}`,
-            value: valueMatch ? valueMatch[1] : '',
-            type: 'data',
-            content: match.trim()
-          });
-        });
-      }
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: errors.array()
+      });
     }
-  } catch (error) {
-    console.error('Error extracting parameters:', error);
-  }
-  
-  return parameters;
-}
 
-function extractConstraints(content: string, fileType: string): any[] {
-  const constraints: any[] = [];
-  
-  try {
-    // Extract constraints based on file type
-  if (fileType === 'xml') {
-      const constraintMatches = content.match(/<constraint[^>]*>[\s\S]*?<\/constraint>/gi);
-    if (constraintMatches) {
-      constraintMatches.forEach((match, index) => {
-          const typeMatch = match.match(/type=["']([^"']+)["']/i);
-          const valueMatch = match.match(/value=["']([^"']+)["']/i);
-          
-        constraints.push({
-          id: `constraint_${index}`,
-            type: typeMatch ? typeMatch[1] : 'unknown',
-            value: valueMatch ? valueMatch[1] : '',
-            content: match.trim()
-          });
-        });
-      }
-    } else if (fileType === 'des') {
-      const constraintMatches = content.match(/constraint[^}]*{[\s\S]*?}/gi);
-      if (constraintMatches) {
-        constraintMatches.forEach((match, index) => {
-          const typeMatch = match.match(/type\s*:\s*["']([^"']+)["']/i);
-          
-        constraints.push({
-          id: `constraint_${index}`,
-            type: typeMatch ? typeMatch[1] : 'unknown',
-            value: '',
-            content: match.trim()
-          });
-        });
-      }
+    const from = await loadParseResult(req.query.from, req.user?.userId);
+    if ('status' in from) {
+      return res.status(from.status).json(from.body);
+    }
+    const to = await loadParseResult(req.query.to, req.user?.userId);
+    if ('status' in to) {
+      return res.status(to.status).json(to.body);
     }
+
+    const diff = diffEngine.compare(from.parseResult, to.parseResult);
+
+    res.json({
+      from: { file_id: req.query.from, filename: from.filename, version: diff.from_version },
+      to: { file_id: req.query.to, filename: to.filename, version: diff.to_version },
+      diff,
+      context: diffEngine.describe(diff)
+    });
   } catch (error) {
-    console.error('Error extracting constraints:', error);
+    console.error('Compare files error:', error);
+    res.status(500).json({
+      error: 'Failed to compare files',
+      message: 'An error occurred while comparing the files'
+    });
   }
-  
-  return constraints;
-}
+});
 
-function detectBrokenLogic(parts: any[], parameters: any[], constraints: any[]): any[] {
-  const issues: any[] = [];
-  
+// What changed between two saved versions of an uploaded file
+router.get('/files/:id/versions/compare', authenticateToken, validateCompare, async (req: any, res: Response) => {
   try {
-  // Check for missing required parameters
-    const requiredParams = parameters.filter(p => p.type === 'required');
-    if (requiredParams.length === 0 && parts.length > 0) {
-      issues.push({
-        type: 'missing_required_params',
-        severity: 'warning',
-        message: 'No required parameters found for components'
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        errors: errors.array()
       });
     }
-    
-    // Check for constraint violations
-    constraints.forEach(constraint => {
-      if (constraint.type === 'range') {
-        const value = parseFloat(constraint.value);
-        if (isNaN(value)) {
-          issues.push({
-            type: 'invalid_constraint_value',
-            severity: 'error',
-            message: `Invalid range constraint value: ${constraint.value}`,
-            constraint_id: constraint.id
-          });
-        }
-      }
-    });
-    
-    // Check for orphaned parts
-    if (parts.length > 0 && parameters.length === 0) {
-      issues.push({
-        type: 'orphaned_parts',
-        severity: 'warning',
-        message: 'Parts found without associated parameters'
+
+    let comparison;
+    try {
+      comparison = await versionControl.compareVersions(req.params.id, req.query.from, req.query.to, req.user?.userId);
+    } catch (error) {
+      // Missing documents and versions, and other users' documents, all read as not found
+      if (!/not found|Unauthorized/.test(String(error))) throw error;
+      return res.status(404).json({
+        error: 'Version not found',
+        message: 'The specified file or versions do not exist or you do not have access'
       });
     }
-    
+
+    const diff = comparison.differences.structural;
+    if (!diff) {
+      return res.status(409).json({
+        error: 'Not a specialized file',
+        message: 'These versions do not hold parsed specialized file content'
+      });
+    }
+
+    res.json({
+      file_id: req.params.id,
+      from: { version_id: comparison.version1.id, version_number: comparison.version1.version_number, version: diff.from_version },
+      to: { version_id: comparison.version2.id, version_number: comparison.version2.version_number, version: diff.to_version },
+      diff,
+      content_diff_stats: comparison.differences.content_diff_stats,
+      context: diffEngine.describe(diff)
+    });
   } catch (error) {
-    console.error('Error detecting broken logic:', error);
+    console.error('Compare versions error:', error);
+    res.status(500).json({
+      error: 'Failed to compare versions',
+      message: 'An error occurred while comparing the file versions'
+    });
   }
-  
-  return issues;
+});
+
+// Get supported file types
+router.get('/supported-types', (req: Request, res: Response) => {
+    res.json({
+      message: 'Supported file types retrieved successfully',
+      supported_types: specializedParsers.getSupportedTypeInfo()
+    });
+});
+
+// Test endpoint
+router.get('/test', (req: Request, res: Response) => {
+  res.json({
+    message: 'Specialized parser is working!',
+    status: 'ready',
+    timestamp: new Date().toISOString(),
+    supported_types: specializedParsers.getSupportedTypes().map(fileType => `${fileType.toUpperCase()} (.${fileType})`)
+  });
+});
+
+/**
+ * The original bytes of an upload, parsed again so issue positions and remedies
+ * match them, or the error response when that is not possible
+ */
+async function loadUpload(
+  id: string,
+  userId: string | undefined
+): Promise<{ file: Buffer; filename: string; parseResult: SpecializedParseResult } | { status: number; body: object }> {
+  const document = await vectorDB.getDocument(id);
+  if (!document || document.metadata.category !== 'specialized' || !canAccess(document.metadata, { user_id: userId })) {
+    return {
+      status: 404,
+      body: {
+        error: 'File not found',
+        message: 'The specified file does not exist or you do not have access'
+      }
+    };
+  }
+
+  const storagePath = document.metadata.storage_path;
+  if (!storagePath || !fs.existsSync(storagePath)) {
+    return {
+      status: 409,
+      body: {
+        error: 'Original file not available',
+        message: 'The uploaded file is no longer stored; upload it again to fix it'
+      }
+    };
+  }
+
+  const file = fs.readFileSync(storagePath);
+  const parseResult = await specializedParsers.parse(file, specializedParsers.getFileTypeFromFilename(document.metadata.filename));
+  await rulePacks.apply(parseResult);
+
+  return { file, filename: document.metadata.filename, parseResult };
+}
+
+/**
+ * The parse result stored for an upload, or the error response when the caller
+ * cannot see it
+ */
+async function loadParseResult(
+  id: string,
+  userId: string | undefined
+): Promise<{ filename: string; parseResult: SpecializedParseResult } | { status: number; body: object }> {
+  const document = await vectorDB.getDocument(id);
+  if (!document || document.metadata.category !== 'specialized' || !canAccess(document.metadata, { user_id: userId })) {
+    return {
+      status: 404,
+      body: {
+        error: 'File not found',
+        message: `File ${id} does not exist or you do not have access`
+      }
+    };
+  }
+
+  return { filename: document.metadata.filename, parseResult: JSON.parse(document.content) };
 }
 
 export { router as specializedRoutes }; 
\ No newline at end of file
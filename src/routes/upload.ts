@@ -134,7 +134,9 @@ router.post('/single', authenticateToken, upload.single('file'), async (req: Aut
             uploaded_by: userId,
             tags: ['uploaded', fileType],
             category: 'user_upload',
-            language: 'en'
+            language: 'en',
+            page_count: parseResult.metadata.page_count,
+            page_offsets: parseResult.pages?.map(page => page.start_position)
           },
           embeddings_model: '',
           created_at: new Date().toISOString(),
@@ -143,7 +145,7 @@ router.post('/single', authenticateToken, upload.single('file'), async (req: Aut
         };
 
         // Store in vector database
-        await vectorDB.addDocument(document);
+        await vectorDB.addDocument(document, parseResult);
 
         // Trigger RAG pipeline for automatic analysis
         await ragPipeline.processFileUpload(document.id, userId);
@@ -0,0 +1,146 @@
+// Okapi BM25 inverted index over chunk text
+
+export interface BM25Config {
+  k1: number; // Term frequency saturation
+  b: number;  // Document length normalisation
+}
+
+export interface BM25Match {
+  id: string;
+  score: number;
+}
+
+export class BM25Index {
+  private config: BM25Config;
+  private postings: Map<string, Map<string, number>> = new Map(); // term -> (entry id -> term frequency)
+  private lengths: Map<string, number> = new Map();
+  private entryTerms: Map<string, string[]> = new Map();
+  private totalLength = 0;
+
+  constructor(config?: Partial<BM25Config>) {
+    this.config = {
+      k1: 1.2,
+      b: 0.75,
+      ...config
+    };
+  }
+
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  /**
+   * Tokenize text while keeping exact technical tokens such as parameter names,
+   * file extensions and dotted identifiers searchable both whole and in parts
+   */
+  static tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const rawTokens = text.toLowerCase().match(/[\p{L}\p{N}_.\-]+/gu) || [];
+
+    for (const raw of rawTokens) {
+      const token = raw.replace(/^[-]+|[.\-]+$/g, '');
+      if (!token || token === '.') continue;
+      tokens.push(token);
+
+      if (/[._\-]/.test(token)) {
+        // File extensions like ".moz" in "cabinet.moz"
+        const extension = token.match(/\.[\p{L}\p{N}]+$/u);
+        if (extension && extension[0] !== token) {
+          tokens.push(extension[0]);
+        }
+
+        for (const part of token.split(/[._\-]+/)) {
+          if (part && part !== token) tokens.push(part);
+        }
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Add or replace an entry
+   */
+  add(id: string, text: string): void {
+    if (this.lengths.has(id)) {
+      this.remove(id);
+    }
+
+    const terms = BM25Index.tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+
+    for (const [term, frequency] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+
+    this.lengths.set(id, terms.length);
+    this.entryTerms.set(id, [...frequencies.keys()]);
+    this.totalLength += terms.length;
+  }
+
+  remove(id: string): boolean {
+    const terms = this.entryTerms.get(id);
+    if (!terms) return false;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.lengths.get(id) || 0;
+    this.lengths.delete(id);
+    this.entryTerms.delete(id);
+    return true;
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.lengths.clear();
+    this.entryTerms.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Score all entries containing at least one query term, best first
+   */
+  search(query: string, limit: number, accept?: (id: string) => boolean): BM25Match[] {
+    const queryTerms = [...new Set(BM25Index.tokenize(query))];
+    if (queryTerms.length === 0 || this.size === 0) return [];
+
+    const averageLength = this.totalLength / this.size;
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (this.size - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const [id, frequency] of posting) {
+        if (accept && !accept(id)) continue;
+
+        const length = this.lengths.get(id) || 0;
+        const normalization = this.config.k1 * (1 - this.config.b + this.config.b * (length / averageLength));
+        const termScore = idf * (frequency * (this.config.k1 + 1)) / (frequency + normalization);
+        scores.set(id, (scores.get(id) || 0) + termScore);
+      }
+    }
+
+    return [...scores.entries()]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,233 @@
+import { ComponentModel } from '../models/Component.js';
+import { ComponentRecord, ComponentSearchFilters, DocumentAccess, DocumentVector, SourcePosition, SpecializedComponentType, VectorRecordMetadata } from '../types/vector-db.js';
+import { TextChunk } from '../types/file-parser.js';
+import { EmbeddingService } from './EmbeddingService.js';
+import { accessQuery, resolveAccess } from '../utils/access.js';
+
+export type ParsedComponents = Partial<Record<SpecializedComponentType, any[]>>;
+
+export type IndexedComponent = Omit<ComponentRecord, 'vector'>;
+
+export interface ComponentMatch {
+  component: IndexedComponent;
+  score: number;
+}
+
+type ComponentSource = Pick<DocumentVector, 'id' | 'metadata' | 'created_at'>;
+
+const COMPONENT_TYPES: SpecializedComponentType[] = ['parts', 'parameters', 'constraints'];
+
+const COMPONENT_LABELS: Record<SpecializedComponentType, string> = {
+  parts: 'Part',
+  parameters: 'Parameter',
+  constraints: 'Constraint'
+};
+
+/**
+ * Embeds each part, parameter and constraint of a specialized upload as its own
+ * searchable unit, so questions about a single component find that component
+ * rather than the whole serialized parse result.
+ */
+export class ComponentIndexService {
+  private embeddingService: EmbeddingService;
+
+  constructor(embeddingService?: EmbeddingService) {
+    this.embeddingService = embeddingService || new EmbeddingService();
+  }
+
+  /**
+   * Replace the indexed components of a document. Returns the number of components indexed.
+   */
+  async indexDocument(document: ComponentSource, components: ParsedComponents): Promise<number> {
+    try {
+      const metadata = this.toRecordMetadata(document);
+      const records: IndexedComponent[] = [];
+
+      for (const componentType of COMPONENT_TYPES) {
+        (components[componentType] || []).forEach((component, index) => {
+          if (!component || typeof component !== 'object') return;
+          records.push({
+            id: `${document.id}#${componentType}#${index}`,
+            document_id: document.id,
+            component_type: componentType,
+            component_id: String(component.id ?? `${componentType}_${index}`),
+            name: ComponentIndexService.componentName(component, componentType, index),
+            text: ComponentIndexService.renderComponent(componentType, component, index),
+            position: this.toPosition(component.position),
+            metadata,
+            created_at: document.created_at
+          });
+        });
+      }
+
+      await ComponentModel.deleteMany({ document_id: document.id });
+      if (records.length === 0) return 0;
+
+      const embeddings = await this.embeddingService.generateEmbeddings(records.map((record, index) => this.toTextChunk(record, index)));
+      const failed = embeddings.filter(embedding => embedding.error).length;
+
+      await ComponentModel.insertMany(records.map((record, index) => ({
+        ...record,
+        vector: embeddings[index]?.vector || [],
+        embedding_model: embeddings[index]?.model,
+        embedding_dimensions: embeddings[index]?.dimensions
+      })));
+
+      if (failed > 0) {
+        console.warn(`⚠️ ${failed} of ${records.length} components of document ${document.id} could not be embedded`);
+      }
+      console.log(`✅ Indexed ${records.length - failed} specialized components for document ${document.id}`);
+      return records.length - failed;
+    } catch (error) {
+      console.error('Error indexing specialized components:', error);
+      throw new Error(`Failed to index specialized components: ${error}`);
+    }
+  }
+
+  /**
+   * Score every component matching the filters against the query vector, best first.
+   * Components embedded in a different embedding space are skipped.
+   */
+  async query(vector: number[], filters: ComponentSearchFilters = {}): Promise<ComponentMatch[]> {
+    try {
+      const mongoQuery: any = {
+        embedding_model: this.embeddingService.getConfig().model,
+        embedding_dimensions: vector.length
+      };
+      if (filters.component_types?.length) {
+        mongoQuery.component_type = { $in: filters.component_types };
+      }
+      if (filters.file_types?.length) {
+        mongoQuery['metadata.file_type'] = { $in: filters.file_types };
+      }
+      if (filters.owner) {
+        mongoQuery['metadata.uploaded_by'] = filters.owner;
+      }
+      if (filters.access) {
+        Object.assign(mongoQuery, accessQuery(filters.access));
+      }
+
+      const records = await ComponentModel.find(mongoQuery).lean();
+
+      return records
+        .map(({ vector: componentVector, _id, __v, ...component }: any) => ({
+          component: component as IndexedComponent,
+          score: this.embeddingService.calculateSimilarity(vector, componentVector)
+        }))
+        .sort((a, b) => b.score - a.score);
+    } catch (error) {
+      console.error('Error querying specialized components:', error);
+      throw new Error(`Failed to query specialized components: ${error}`);
+    }
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    await ComponentModel.deleteMany({ document_id: documentId });
+  }
+
+  async updateAccess(documentId: string, access: DocumentAccess): Promise<void> {
+    await ComponentModel.updateMany(
+      { document_id: documentId },
+      { $set: { 'metadata.visibility': access.visibility, 'metadata.shared_with': access.shared_with } }
+    );
+  }
+
+  async clear(): Promise<void> {
+    await ComponentModel.deleteMany({});
+  }
+
+  /**
+   * Natural-language rendering of a component: name, type, value, unit and description
+   */
+  static renderComponent(componentType: SpecializedComponentType, component: any, index: number = 0): string {
+    const name = ComponentIndexService.componentName(component, componentType, index);
+    const sentences = [`${COMPONENT_LABELS[componentType]} "${name}"${component.type ? ` of type ${component.type}` : ''}.`];
+
+    const value = ComponentIndexService.formatValue(component.value);
+    if (value) {
+      sentences.push(`Value: ${value}${component.unit ? ` ${component.unit}` : ''}.`);
+    } else if (component.unit) {
+      sentences.push(`Unit: ${component.unit}.`);
+    }
+    if (component.default_value !== undefined && component.default_value !== '') {
+      sentences.push(`Default: ${ComponentIndexService.formatValue(component.default_value)}.`);
+    }
+    if (component.required === true) {
+      sentences.push('Required.');
+    }
+    if (component.severity) {
+      sentences.push(`Severity: ${component.severity}.`);
+    }
+
+    const description = component.description || component.metadata?.description;
+    if (description) {
+      sentences.push(String(description).trim());
+    }
+
+    const parameterNames = (component.parameters || [])
+      .map((parameter: any) => parameter?.name)
+      .filter(Boolean);
+    if (parameterNames.length > 0) {
+      sentences.push(`Parameters: ${parameterNames.join(', ')}.`);
+    }
+    if (component.affected_parameters?.length) {
+      sentences.push(`Applies to: ${component.affected_parameters.join(', ')}.`);
+    }
+
+    return sentences.join(' ');
+  }
+
+  /**
+   * Where a component sits among its document's components of the same type, read
+   * from its record id
+   */
+  static indexInDocument(component: Pick<ComponentRecord, 'id'>): number {
+    return parseInt(component.id.slice(component.id.lastIndexOf('#') + 1), 10);
+  }
+
+  private static componentName(component: any, componentType: SpecializedComponentType, index: number): string {
+    return String(component.name || component.id || `${COMPONENT_LABELS[componentType]} ${index + 1}`);
+  }
+
+  private static formatValue(value: any): string {
+    if (value === undefined || value === null || value === '') return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private toPosition(position: any): SourcePosition | undefined {
+    if (!position || typeof position.start !== 'number' || typeof position.end !== 'number') {
+      return undefined;
+    }
+    return {
+      start: position.start,
+      end: position.end,
+      ...(typeof position.line === 'number' && { line: position.line, column: position.column })
+    };
+  }
+
+  private toTextChunk(record: IndexedComponent, index: number): TextChunk {
+    return {
+      id: record.id,
+      content: record.text,
+      token_count: Math.ceil(record.text.length / 4),
+      start_position: record.position?.start ?? 0,
+      end_position: record.position?.end ?? 0,
+      metadata: {
+        chunk_index: index,
+        is_complete_section: true
+      }
+    };
+  }
+
+  private toRecordMetadata(document: ComponentSource): VectorRecordMetadata {
+    return {
+      filename: document.metadata.filename,
+      file_type: document.metadata.file_type,
+      category: document.metadata.category,
+      tags: document.metadata.tags || [],
+      uploaded_by: document.metadata.uploaded_by,
+      created_at: document.created_at,
+      ...resolveAccess(document.metadata)
+    };
+  }
+}
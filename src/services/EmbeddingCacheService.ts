@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { EmbeddingCacheModel } from '../models/EmbeddingCache.js';
+
+export interface EmbeddingCacheStats {
+  enabled: boolean;
+  persistent: boolean;
+  memory_entries: number;
+  memory_capacity: number;
+  persistent_entries: number | null;
+  max_entries: number;
+  hits: number;
+  memory_hits: number;
+  persistent_hits: number;
+  misses: number;
+  hit_rate: number;
+  writes: number;
+  evictions: number;
+}
+
+/**
+ * Content-addressed embedding cache. Vectors are keyed by the embedding model,
+ * its dimensions and the normalised text, held in an in-process LRU and
+ * persisted to MongoDB with a size bound enforced by least-recently-used eviction.
+ */
+export class EmbeddingCacheService {
+  private static instance: EmbeddingCacheService;
+
+  private enabled: boolean;
+  private maxEntries: number;
+  private memoryCapacity: number;
+  private memory: Map<string, number[]> = new Map(); // Insertion order doubles as recency order
+
+  private memoryHits = 0;
+  private persistentHits = 0;
+  private misses = 0;
+  private writes = 0;
+  private evictions = 0;
+
+  private constructor() {
+    this.enabled = process.env.EMBEDDING_CACHE_ENABLED !== 'false';
+    this.maxEntries = parseInt(process.env.EMBEDDING_CACHE_MAX_ENTRIES || '100000');
+    this.memoryCapacity = parseInt(process.env.EMBEDDING_CACHE_MEMORY_ENTRIES || '2000');
+  }
+
+  static getInstance(): EmbeddingCacheService {
+    if (!EmbeddingCacheService.instance) {
+      EmbeddingCacheService.instance = new EmbeddingCacheService();
+    }
+    return EmbeddingCacheService.instance;
+  }
+
+  static normalizeText(text: string): string {
+    return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+  }
+
+  keyFor(model: string, dimensions: number, text: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${model}\u0000${dimensions}\u0000${EmbeddingCacheService.normalizeText(text)}`)
+      .digest('hex');
+  }
+
+  /**
+   * Look up vectors for many texts at once; misses are returned as undefined
+   */
+  async getMany(model: string, dimensions: number, texts: string[]): Promise<Array<number[] | undefined>> {
+    if (!this.enabled) return texts.map(() => undefined);
+
+    const keys = texts.map(text => this.keyFor(model, dimensions, text));
+    const found = new Map<string, number[]>();
+
+    for (const key of new Set(keys)) {
+      const vector = this.memory.get(key);
+      if (vector) {
+        this.touch(key, vector);
+        found.set(key, vector);
+      }
+    }
+
+    const missing = [...new Set(keys)].filter(key => !found.has(key));
+    if (missing.length > 0 && this.isPersistent()) {
+      try {
+        const entries = await EmbeddingCacheModel.find({ key: { $in: missing } })
+          .select('key vector')
+          .lean();
+
+        for (const entry of entries) {
+          found.set(entry.key, entry.vector);
+          this.touch(entry.key, entry.vector);
+        }
+
+        if (entries.length > 0) {
+          await EmbeddingCacheModel.updateMany(
+            { key: { $in: entries.map(entry => entry.key) } },
+            { $inc: { hits: 1 }, $set: { last_used_at: new Date() } }
+          );
+        }
+      } catch (error) {
+        console.warn('⚠️ Embedding cache lookup failed:', error);
+      }
+    }
+
+    const missingSet = new Set(missing);
+    return keys.map(key => {
+      const vector = found.get(key);
+      if (!vector) {
+        this.misses++;
+      } else if (missingSet.has(key)) {
+        this.persistentHits++;
+      } else {
+        this.memoryHits++;
+      }
+      return vector;
+    });
+  }
+
+  /**
+   * Store freshly generated vectors. Empty, zero or wrongly sized vectors are never cached.
+   */
+  async setMany(model: string, dimensions: number, entries: Array<{ text: string; vector: number[] }>): Promise<void> {
+    if (!this.enabled) return;
+
+    const cacheable = new Map<string, number[]>();
+    for (const { text, vector } of entries) {
+      if (vector?.length !== dimensions || vector.every(value => value === 0)) continue;
+      cacheable.set(this.keyFor(model, dimensions, text), vector);
+    }
+    if (cacheable.size === 0) return;
+
+    for (const [key, vector] of cacheable) {
+      this.touch(key, vector);
+    }
+    this.writes += cacheable.size;
+
+    if (!this.isPersistent()) return;
+
+    try {
+      const now = new Date();
+      await EmbeddingCacheModel.bulkWrite([...cacheable].map(([key, vector]) => ({
+        updateOne: {
+          filter: { key },
+          update: {
+            $setOnInsert: { key, model, dimensions, vector, hits: 0, created_at: now },
+            $set: { last_used_at: now }
+          },
+          upsert: true
+        }
+      })), { ordered: false });
+
+      await this.evictIfNeeded();
+    } catch (error) {
+      console.warn('⚠️ Embedding cache write failed:', error);
+    }
+  }
+
+  async getStats(): Promise<EmbeddingCacheStats> {
+    const hits = this.memoryHits + this.persistentHits;
+    const lookups = hits + this.misses;
+
+    let persistentEntries: number | null = null;
+    if (this.isPersistent()) {
+      try {
+        persistentEntries = await EmbeddingCacheModel.estimatedDocumentCount();
+      } catch (error) {
+        console.warn('⚠️ Could not count embedding cache entries:', error);
+      }
+    }
+
+    return {
+      enabled: this.enabled,
+      persistent: this.isPersistent(),
+      memory_entries: this.memory.size,
+      memory_capacity: this.memoryCapacity,
+      persistent_entries: persistentEntries,
+      max_entries: this.maxEntries,
+      hits,
+      memory_hits: this.memoryHits,
+      persistent_hits: this.persistentHits,
+      misses: this.misses,
+      hit_rate: lookups > 0 ? hits / lookups : 0,
+      writes: this.writes,
+      evictions: this.evictions
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    if (this.isPersistent()) {
+      await EmbeddingCacheModel.deleteMany({});
+    }
+  }
+
+  /**
+   * Drop the least recently used persistent entries once the cache exceeds its bound
+   */
+  private async evictIfNeeded(): Promise<void> {
+    const excess = (await EmbeddingCacheModel.estimatedDocumentCount()) - this.maxEntries;
+    if (excess <= 0) return;
+
+    const stale = await EmbeddingCacheModel.find({})
+      .sort({ last_used_at: 1 })
+      .limit(excess)
+      .select('_id key')
+      .lean();
+
+    await EmbeddingCacheModel.deleteMany({ _id: { $in: stale.map(entry => entry._id) } });
+    for (const entry of stale) {
+      this.memory.delete(entry.key);
+    }
+    this.evictions += stale.length;
+  }
+
+  private touch(key: string, vector: number[]): void {
+    this.memory.delete(key);
+    this.memory.set(key, vector);
+
+    while (this.memory.size > this.memoryCapacity) {
+      const oldest = this.memory.keys().next().value as string;
+      this.memory.delete(oldest);
+    }
+  }
+
+  private isPersistent(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+}
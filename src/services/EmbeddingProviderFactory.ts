@@ -0,0 +1,93 @@
+import { EmbeddingProvider, EmbeddingProviderName, EmbeddingProviderOptions } from '../types/file-parser.js';
+import { EmbeddingSpace } from '../types/vector-db.js';
+import { OpenAIEmbeddingProvider } from './embeddings/OpenAIEmbeddingProvider.js';
+import { OpenAICompatibleEmbeddingProvider } from './embeddings/OpenAICompatibleEmbeddingProvider.js';
+import { LocalHashingEmbeddingProvider } from './embeddings/LocalHashingEmbeddingProvider.js';
+
+const SUPPORTED_PROVIDERS: EmbeddingProviderName[] = ['openai', 'openai-compatible', 'local'];
+
+type EmbeddingSpaceSignature = Pick<EmbeddingSpace, 'provider' | 'model' | 'dimensions'>;
+
+// Providers are shared so every service embeds queries and documents into the same space
+const providers: Map<EmbeddingProviderName, EmbeddingProvider> = new Map();
+const spaceProviders: Map<string, EmbeddingProvider> = new Map();
+
+// Space serving queries; set by the embedding space registry and only changed at cutover
+let activeSpace: EmbeddingSpaceSignature | null = null;
+
+/**
+ * Resolve the embedding provider. Without an explicit provider this is the provider
+ * of the active embedding space, which can lag behind the configuration while a
+ * re-embedding migration is running.
+ */
+export function getEmbeddingProvider(provider?: string): EmbeddingProvider {
+  if (!provider && activeSpace) {
+    return getEmbeddingProviderForSpace(activeSpace);
+  }
+  return getConfiguredEmbeddingProvider(provider);
+}
+
+/**
+ * Resolve the provider selected by configuration (EMBEDDING_PROVIDER). Defaults to
+ * openai when OPENAI_API_KEY is set and to the local hashing provider otherwise.
+ */
+export function getConfiguredEmbeddingProvider(provider?: string): EmbeddingProvider {
+  const fallback: EmbeddingProviderName = process.env.OPENAI_API_KEY ? 'openai' : 'local';
+  const selected = parseProviderName(provider || process.env.EMBEDDING_PROVIDER || fallback);
+
+  let instance = providers.get(selected);
+  if (!instance) {
+    instance = createEmbeddingProvider(selected);
+    providers.set(selected, instance);
+    console.log(`🧮 Using ${selected} embedding provider (${instance.model}, ${instance.dimensions} dimensions)`);
+    if (selected === 'local' && !provider && !process.env.EMBEDDING_PROVIDER) {
+      console.warn('⚠️ OPENAI_API_KEY is not set, falling back to local hashing embeddings');
+    }
+  }
+  return instance;
+}
+
+/**
+ * Resolve a provider that embeds into the given model and dimensions
+ */
+export function getEmbeddingProviderForSpace(space: EmbeddingSpaceSignature): EmbeddingProvider {
+  const configured = getConfiguredEmbeddingProvider(space.provider);
+  if (configured.model === space.model && configured.dimensions === space.dimensions) {
+    return configured;
+  }
+
+  const key = `${space.provider}:${space.model}:${space.dimensions}`;
+  let instance = spaceProviders.get(key);
+  if (!instance) {
+    instance = createEmbeddingProvider(parseProviderName(space.provider), {
+      model: space.model,
+      dimensions: space.dimensions
+    });
+    spaceProviders.set(key, instance);
+  }
+  return instance;
+}
+
+export function setActiveEmbeddingSpace(space: EmbeddingSpaceSignature | null): void {
+  activeSpace = space && { provider: space.provider, model: space.model, dimensions: space.dimensions };
+}
+
+function parseProviderName(provider: string): EmbeddingProviderName {
+  const selected = provider.toLowerCase() as EmbeddingProviderName;
+  if (!SUPPORTED_PROVIDERS.includes(selected)) {
+    throw new Error(`Unsupported embedding provider: ${selected}. Supported providers: ${SUPPORTED_PROVIDERS.join(', ')}`);
+  }
+  return selected;
+}
+
+function createEmbeddingProvider(provider: EmbeddingProviderName, options?: EmbeddingProviderOptions): EmbeddingProvider {
+  switch (provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleEmbeddingProvider(options);
+    case 'local':
+      return new LocalHashingEmbeddingProvider(options);
+    case 'openai':
+    default:
+      return new OpenAIEmbeddingProvider(options);
+  }
+}
@@ -0,0 +1,297 @@
+import { ChunkModel } from '../models/Chunk.js';
+import { DocumentModel } from '../models/Document.js';
+import { ChunkRecord, VectorStore } from '../types/vector-db.js';
+import { EmbeddingService } from './EmbeddingService.js';
+import { TextChunkingService, StoredChunkText } from './TextChunkingService.js';
+import { getVectorStore } from './VectorStoreFactory.js';
+
+export interface EmbeddingRetryConfig {
+  enabled: boolean;
+  interval_ms: number;
+  base_delay_ms: number;
+  max_delay_ms: number;
+  max_attempts: number;
+  batch_size: number;
+}
+
+export interface EmbeddingRetryResult {
+  attempted: number;
+  succeeded: number;
+  failed: number;
+  documents_updated: string[];
+}
+
+export interface FailedChunkSummary {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  filename: string;
+  error?: string;
+  attempts: number;
+  next_attempt_at?: Date;
+  exhausted: boolean;
+}
+
+export interface EmbeddingRetryStats {
+  running: boolean;
+  failed_chunks: number;
+  due_chunks: number;
+  exhausted_chunks: number;
+  partial_documents: number;
+  last_run_at: string | null;
+  last_result: EmbeddingRetryResult | null;
+  config: EmbeddingRetryConfig;
+}
+
+type RetryableChunk = StoredChunkText & Pick<ChunkRecord, 'document_id' | 'metadata' | 'embedding_attempts'>;
+
+/**
+ * Background queue that re-embeds chunks whose embedding failed. The queue lives
+ * in the chunk collection (embedding_status: 'failed'), so it survives restarts;
+ * each failed attempt pushes the next one back with exponential backoff.
+ */
+export class EmbeddingRetryService {
+  private static instance: EmbeddingRetryService;
+
+  private config: EmbeddingRetryConfig;
+  private embeddingService: EmbeddingService;
+  private vectorStore: VectorStore;
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private lastRunAt: string | null = null;
+  private lastResult: EmbeddingRetryResult | null = null;
+
+  private constructor() {
+    this.config = {
+      enabled: process.env.EMBEDDING_RETRY_ENABLED !== 'false',
+      interval_ms: parseInt(process.env.EMBEDDING_RETRY_INTERVAL_MS || '60000'),
+      base_delay_ms: parseInt(process.env.EMBEDDING_RETRY_BASE_DELAY_MS || '30000'),
+      max_delay_ms: parseInt(process.env.EMBEDDING_RETRY_MAX_DELAY_MS || '21600000'),
+      max_attempts: parseInt(process.env.EMBEDDING_RETRY_MAX_ATTEMPTS || '8'),
+      batch_size: parseInt(process.env.EMBEDDING_RETRY_BATCH_SIZE || '100')
+    };
+    this.embeddingService = new EmbeddingService();
+    this.vectorStore = getVectorStore();
+  }
+
+  static getInstance(): EmbeddingRetryService {
+    if (!EmbeddingRetryService.instance) {
+      EmbeddingRetryService.instance = new EmbeddingRetryService();
+    }
+    return EmbeddingRetryService.instance;
+  }
+
+  /**
+   * Start polling for chunks that are due for another attempt
+   */
+  start(): void {
+    if (!this.config.enabled || this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => console.error('Error processing embedding retry queue:', error));
+    }, this.config.interval_ms);
+    this.timer.unref();
+    console.log(`🔁 Embedding retry queue started (every ${this.config.interval_ms}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Re-embed failed chunks whose backoff has elapsed
+   */
+  async processDue(): Promise<EmbeddingRetryResult> {
+    const chunks = await ChunkModel.find({
+      embedding_status: 'failed',
+      embedding_attempts: { $lt: this.config.max_attempts },
+      next_embedding_attempt_at: { $lte: new Date() }
+    })
+      .sort({ next_embedding_attempt_at: 1 })
+      .limit(this.config.batch_size)
+      .lean();
+
+    return this.retryChunks(chunks);
+  }
+
+  /**
+   * Re-embed failed chunks immediately, ignoring backoff and the attempt limit
+   */
+  async forceRetry(filter: { chunk_ids?: string[]; document_id?: string } = {}): Promise<EmbeddingRetryResult> {
+    const query: any = { embedding_status: 'failed' };
+    if (filter.chunk_ids?.length) query.id = { $in: filter.chunk_ids };
+    if (filter.document_id) query.document_id = filter.document_id;
+
+    const chunks = await ChunkModel.find(query)
+      .sort({ document_id: 1, chunk_index: 1 })
+      .limit(this.config.batch_size)
+      .lean();
+
+    return this.retryChunks(chunks);
+  }
+
+  async listFailed(filter: { document_id?: string; limit?: number; offset?: number } = {}): Promise<{
+    chunks: FailedChunkSummary[];
+    total: number;
+  }> {
+    const query: any = { embedding_status: 'failed' };
+    if (filter.document_id) query.document_id = filter.document_id;
+
+    const [chunks, total] = await Promise.all([
+      ChunkModel.find(query)
+        .select('id document_id chunk_index metadata.filename embedding_error embedding_attempts next_embedding_attempt_at')
+        .sort({ next_embedding_attempt_at: 1 })
+        .skip(filter.offset || 0)
+        .limit(filter.limit || 50)
+        .lean(),
+      ChunkModel.countDocuments(query)
+    ]);
+
+    return {
+      chunks: chunks.map(chunk => ({
+        id: chunk.id,
+        document_id: chunk.document_id,
+        chunk_index: chunk.chunk_index,
+        filename: chunk.metadata?.filename,
+        error: chunk.embedding_error,
+        attempts: chunk.embedding_attempts || 0,
+        next_attempt_at: chunk.next_embedding_attempt_at,
+        exhausted: (chunk.embedding_attempts || 0) >= this.config.max_attempts
+      })),
+      total
+    };
+  }
+
+  async getStats(): Promise<EmbeddingRetryStats> {
+    const [failed, due, exhausted, partialDocuments] = await Promise.all([
+      ChunkModel.countDocuments({ embedding_status: 'failed' }),
+      ChunkModel.countDocuments({
+        embedding_status: 'failed',
+        embedding_attempts: { $lt: this.config.max_attempts },
+        next_embedding_attempt_at: { $lte: new Date() }
+      }),
+      ChunkModel.countDocuments({
+        embedding_status: 'failed',
+        embedding_attempts: { $gte: this.config.max_attempts }
+      }),
+      DocumentModel.countDocuments({ status: 'partial' })
+    ]);
+
+    return {
+      running: this.timer !== null,
+      failed_chunks: failed,
+      due_chunks: due,
+      exhausted_chunks: exhausted,
+      partial_documents: partialDocuments,
+      last_run_at: this.lastRunAt,
+      last_result: this.lastResult,
+      config: { ...this.config }
+    };
+  }
+
+  private async retryChunks(chunks: RetryableChunk[]): Promise<EmbeddingRetryResult> {
+    const result: EmbeddingRetryResult = {
+      attempted: 0,
+      succeeded: 0,
+      failed: 0,
+      documents_updated: []
+    };
+    // A previous run is still embedding; its chunks would otherwise be retried twice
+    if (chunks.length === 0 || this.processing) {
+      return result;
+    }
+
+    this.processing = true;
+    result.attempted = chunks.length;
+    try {
+      console.log(`🔁 Retrying embeddings for ${chunks.length} chunks`);
+      const embeddings = await this.embeddingService.generateEmbeddings(chunks.map(chunk => TextChunkingService.fromChunkRecord(chunk)));
+      const byChunkId = new Map(embeddings.map(embedding => [embedding.chunk_id, embedding]));
+      const now = new Date();
+
+      const succeeded = chunks.filter(chunk => !byChunkId.get(chunk.id)?.error && byChunkId.get(chunk.id)?.vector.length);
+      const failed = chunks.filter(chunk => !succeeded.includes(chunk));
+
+      if (succeeded.length > 0) {
+        await this.vectorStore.upsert(succeeded.map(chunk => {
+          const embedding = byChunkId.get(chunk.id)!;
+          return {
+            id: chunk.id,
+            document_id: chunk.document_id,
+            chunk_index: chunk.chunk_index,
+            vector: embedding.vector,
+            embedding_model: embedding.model,
+            embedding_dimensions: embedding.dimensions,
+            metadata: chunk.metadata
+          };
+        }));
+
+        await ChunkModel.updateMany(
+          { id: { $in: succeeded.map(chunk => chunk.id) } },
+          {
+            $set: { embedding_status: 'embedded', updated_at: now.toISOString() },
+            $unset: { embedding_error: '', next_embedding_attempt_at: '' }
+          }
+        );
+      }
+
+      if (failed.length > 0) {
+        await ChunkModel.bulkWrite(failed.map(chunk => {
+          const attempts = (chunk.embedding_attempts || 0) + 1;
+          return {
+            updateOne: {
+              filter: { id: chunk.id },
+              update: {
+                $set: {
+                  embedding_error: byChunkId.get(chunk.id)?.error || 'No embedding returned',
+                  embedding_attempts: attempts,
+                  next_embedding_attempt_at: new Date(now.getTime() + this.backoffDelay(attempts)),
+                  updated_at: now.toISOString()
+                }
+              }
+            }
+          };
+        }));
+      }
+
+      result.succeeded = succeeded.length;
+      result.failed = failed.length;
+      result.documents_updated = await this.refreshDocumentStatus([...new Set(chunks.map(chunk => chunk.document_id))]);
+
+      console.log(`✅ Re-embedded ${result.succeeded}/${result.attempted} chunks (${result.failed} still failing)`);
+      return result;
+    } catch (error) {
+      console.error('Error retrying embeddings:', error);
+      throw new Error(`Failed to retry embeddings: ${error}`);
+    } finally {
+      this.processing = false;
+      this.lastRunAt = new Date().toISOString();
+      this.lastResult = result;
+    }
+  }
+
+  /**
+   * Promote partial documents to ready once none of their chunks are failing
+   */
+  private async refreshDocumentStatus(documentIds: string[]): Promise<string[]> {
+    const updated: string[] = [];
+    for (const documentId of documentIds) {
+      const remaining = await ChunkModel.countDocuments({ document_id: documentId, embedding_status: 'failed' });
+      const status = remaining > 0 ? 'partial' : 'ready';
+      const { modifiedCount } = await DocumentModel.updateOne(
+        { id: documentId, status: { $in: ['ready', 'partial'], $ne: status } },
+        { $set: { status, updated_at: new Date().toISOString() } }
+      );
+      if (modifiedCount > 0) updated.push(documentId);
+    }
+    return updated;
+  }
+
+  private backoffDelay(attempts: number): number {
+    const delay = this.config.base_delay_ms * Math.pow(2, attempts - 1);
+    return Math.min(delay, this.config.max_delay_ms);
+  }
+}
@@ -1,7 +1,9 @@
-import OpenAI from 'openai';
-import { TextChunk } from '../types/file-parser.js';
+import { TextChunk, EmbeddingProvider, EmbeddingProviderName } from '../types/file-parser.js';
+import { getEmbeddingProvider } from './EmbeddingProviderFactory.js';
+import { EmbeddingCacheService } from './EmbeddingCacheService.js';
 
 export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
   model: string;
   dimensions: number;
   batch_size: number;
@@ -13,28 +15,26 @@ export interface EmbeddingResult {
   chunk_id: string;
   vector: number[];
   model: string;
+  dimensions: number;
   processing_time: number;
   token_count: number;
+  error?: string; // Set when the chunk could not be embedded; vector is then empty
 }
 
 export class EmbeddingService {
-  private openai: OpenAI;
-  private config: EmbeddingConfig;
-
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
-    }
+  private explicitProvider?: EmbeddingProvider;
+  private config: Pick<EmbeddingConfig, 'max_retries' | 'retry_delay'> & { batch_size?: number };
+  private cache: EmbeddingCacheService;
 
-    this.openai = new OpenAI({
-      apiKey: apiKey,
-    });
+  /**
+   * Without an explicit provider the service follows the active embedding space,
+   * so it switches over when a re-embedding migration is cut over.
+   */
+  constructor(provider?: EmbeddingProvider) {
+    this.explicitProvider = provider;
+    this.cache = EmbeddingCacheService.getInstance();
 
     this.config = {
-      model: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
-      dimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || '1536'),
-      batch_size: 100, // OpenAI allows up to 2048 inputs per request
       max_retries: 3,
       retry_delay: 1000
     };
@@ -44,64 +44,82 @@ export class EmbeddingService {
    * Generate embeddings for a single text
    */
   async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      const startTime = Date.now();
-      
-      const response = await this.openai.embeddings.create({
-        model: this.config.model,
-        input: text,
-        encoding_format: 'float',
-      });
-
-      const processingTime = Date.now() - startTime;
-      console.log(`Generated embedding in ${processingTime}ms for ${text.length} characters`);
-
-      return response.data[0].embedding;
-    } catch (error) {
-      console.error('Error generating embedding:', error);
-      throw new Error(`Failed to generate embedding: ${error}`);
-    }
+    return this.embedText(this.getProvider(), text);
   }
 
   /**
    * Generate embeddings for multiple text chunks in batches
    */
   async generateEmbeddings(chunks: TextChunk[]): Promise<EmbeddingResult[]> {
+    // Resolve the provider once so a cutover mid-call cannot mix embedding spaces
+    const provider = this.getProvider();
     const results: EmbeddingResult[] = [];
-    const batches = this.createBatches(chunks, this.config.batch_size);
 
-    console.log(`Processing ${chunks.length} chunks in ${batches.length} batches`);
+    // Only chunks whose text has not been embedded before are sent to the provider
+    const cached = await this.cache.getMany(
+      provider.model,
+      provider.dimensions,
+      chunks.map(chunk => chunk.content)
+    );
+    const misses: TextChunk[] = [];
+    chunks.forEach((chunk, index) => {
+      const vector = cached[index];
+      if (!vector) {
+        misses.push(chunk);
+        return;
+      }
+      results.push({
+        chunk_id: chunk.id,
+        vector,
+        model: provider.model,
+        dimensions: vector.length,
+        processing_time: 0,
+        token_count: chunk.token_count
+      });
+    });
+
+    const batches = this.createBatches(misses, this.config.batch_size || provider.max_batch_size);
+
+    console.log(`Processing ${chunks.length} chunks in ${batches.length} batches (${chunks.length - misses.length} cached)`);
 
     for (let i = 0; i < batches.length; i++) {
       const batch = batches[i];
       console.log(`Processing batch ${i + 1}/${batches.length} (${batch.length} chunks)`);
 
       try {
-        const batchResults = await this.processBatch(batch);
+        const batchResults = await this.processBatch(provider, batch);
         results.push(...batchResults);
+        await this.cache.setMany(
+          provider.model,
+          provider.dimensions,
+          batch.map((chunk, index) => ({ text: chunk.content, vector: batchResults[index].vector }))
+        );
       } catch (error) {
         console.error(`Error processing batch ${i + 1}:`, error);
         
         // Retry individual chunks if batch fails
         for (const chunk of batch) {
           try {
-            const vector = await this.generateEmbedding(chunk.content);
+            const vector = await this.embedText(provider, chunk.content);
             results.push({
               chunk_id: chunk.id,
               vector,
-              model: this.config.model,
+              model: provider.model,
+              dimensions: vector.length,
               processing_time: 0, // Not measured for individual retries
               token_count: chunk.token_count
             });
           } catch (chunkError) {
             console.error(`Failed to process chunk ${chunk.id}:`, chunkError);
-            // Add empty vector as fallback
+            // Report the failure instead of storing a vector that can never be retrieved
             results.push({
               chunk_id: chunk.id,
-              vector: new Array(this.config.dimensions).fill(0),
-              model: this.config.model,
+              vector: [],
+              model: provider.model,
+              dimensions: 0,
               processing_time: 0,
-              token_count: chunk.token_count
+              token_count: chunk.token_count,
+              error: chunkError instanceof Error ? chunkError.message : String(chunkError)
             });
           }
         }
@@ -113,28 +131,49 @@ export class EmbeddingService {
       }
     }
 
-    return results;
+    // Keep results in the same order as the input chunks
+    const order = new Map(chunks.map((chunk, index) => [chunk.id, index]));
+    return results.sort((a, b) => order.get(a.chunk_id)! - order.get(b.chunk_id)!);
+  }
+
+  private async embedText(provider: EmbeddingProvider, text: string): Promise<number[]> {
+    try {
+      const [cached] = await this.cache.getMany(provider.model, provider.dimensions, [text]);
+      if (cached) {
+        return cached;
+      }
+
+      const startTime = Date.now();
+      
+      const [embedding] = await provider.embed([text]);
+
+      const processingTime = Date.now() - startTime;
+      console.log(`Generated embedding in ${processingTime}ms for ${text.length} characters`);
+
+      await this.cache.setMany(provider.model, provider.dimensions, [{ text, vector: embedding }]);
+      return embedding;
+    } catch (error) {
+      console.error('Error generating embedding:', error);
+      throw new Error(`Failed to generate embedding: ${error}`);
+    }
   }
 
   /**
    * Process a batch of chunks
    */
-  private async processBatch(chunks: TextChunk[]): Promise<EmbeddingResult[]> {
+  private async processBatch(provider: EmbeddingProvider, chunks: TextChunk[]): Promise<EmbeddingResult[]> {
     const startTime = Date.now();
     const texts = chunks.map(chunk => chunk.content);
 
-    const response = await this.openai.embeddings.create({
-      model: this.config.model,
-      input: texts,
-      encoding_format: 'float',
-    });
+    const vectors = await provider.embed(texts);
 
     const processingTime = Date.now() - startTime;
 
     return chunks.map((chunk, index) => ({
       chunk_id: chunk.id,
-      vector: response.data[index].embedding,
-      model: this.config.model,
+      vector: vectors[index],
+      model: provider.model,
+      dimensions: vectors[index].length,
       processing_time: processingTime / chunks.length, // Average per chunk
       token_count: chunk.token_count
     }));
@@ -176,16 +215,28 @@ export class EmbeddingService {
    * Get embedding configuration
    */
   getConfig(): EmbeddingConfig {
-    return { ...this.config };
+    const provider = this.getProvider();
+    return {
+      provider: provider.name,
+      model: provider.model,
+      dimensions: provider.dimensions,
+      batch_size: this.config.batch_size || provider.max_batch_size,
+      max_retries: this.config.max_retries,
+      retry_delay: this.config.retry_delay
+    };
   }
 
   /**
-   * Update embedding configuration
+   * Update embedding configuration. Model and dimensions are fixed by the provider.
    */
-  updateConfig(updates: Partial<EmbeddingConfig>): void {
+  updateConfig(updates: Partial<Omit<EmbeddingConfig, 'provider' | 'model' | 'dimensions'>>): void {
     this.config = { ...this.config, ...updates };
   }
 
+  private getProvider(): EmbeddingProvider {
+    return this.explicitProvider || getEmbeddingProvider();
+  }
+
   /**
    * Create batches from array of chunks
    */
@@ -230,7 +281,7 @@ export class EmbeddingService {
       totalTokens,
       totalProcessingTime,
       averageProcessingTime: embeddings.length > 0 ? totalProcessingTime / embeddings.length : 0,
-      model: this.config.model
+      model: this.getProvider().model
     };
   }
 } 
\ No newline at end of file
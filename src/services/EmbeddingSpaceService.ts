@@ -0,0 +1,504 @@
+import mongoose from 'mongoose';
+import { EmbeddingSpaceRegistryModel } from '../models/EmbeddingSpace.js';
+import { ChunkModel } from '../models/Chunk.js';
+import { DocumentModel } from '../models/Document.js';
+import { EmbeddingSpace, EmbeddingSpaceRegistry, EmbeddingMigrationProgress, ChunkRecord, VectorRecord, VectorStore } from '../types/vector-db.js';
+import { EmbeddingProvider } from '../types/file-parser.js';
+import { EmbeddingService } from './EmbeddingService.js';
+import { TextChunkingService, StoredChunkText } from './TextChunkingService.js';
+import { getConfiguredEmbeddingProvider, getEmbeddingProviderForSpace, setActiveEmbeddingSpace } from './EmbeddingProviderFactory.js';
+import { getVectorStore } from './VectorStoreFactory.js';
+
+const REGISTRY_KEY = 'default';
+
+export interface EmbeddingMigrationTarget {
+  provider?: string;
+  model?: string;
+  dimensions?: number;
+}
+
+export interface EmbeddingMigrationReport {
+  configured: Pick<EmbeddingSpace, 'provider' | 'model' | 'dimensions'>;
+  active: EmbeddingSpace;
+  target: EmbeddingSpace | null;
+  in_sync: boolean; // Whether the configured model and dimensions are the ones serving queries
+  running: boolean;
+  progress_percent: number | null;
+  migration: EmbeddingMigrationProgress | null;
+  spaces: EmbeddingSpace[];
+}
+
+type MigratableChunk = StoredChunkText & Pick<ChunkRecord, 'document_id' | 'metadata'> & { _id: unknown };
+
+const MIGRATABLE_FIELDS = '_id id document_id chunk_index content token_count start_position end_position section_id section_ids page_number is_complete_section metadata';
+
+/**
+ * Versioned registry of embedding spaces and the background migration that
+ * re-embeds every chunk when the embedding model or dimensions change. The
+ * active space keeps serving until the new one is complete and cut over.
+ */
+export class EmbeddingSpaceService {
+  private static instance: EmbeddingSpaceService;
+
+  private vectorStore: VectorStore;
+  private running: Promise<void> | null = null;
+  private pauseRequested = false;
+  private batchSize: number;
+  private batchDelay: number;
+  private autoStart: boolean;
+  private autoCutover: boolean;
+
+  private constructor() {
+    this.vectorStore = getVectorStore();
+    this.batchSize = parseInt(process.env.EMBEDDING_MIGRATION_BATCH_SIZE || '200');
+    this.batchDelay = parseInt(process.env.EMBEDDING_MIGRATION_BATCH_DELAY_MS || '1000');
+    this.autoStart = process.env.EMBEDDING_MIGRATION_AUTO_START !== 'false';
+    this.autoCutover = process.env.EMBEDDING_MIGRATION_AUTO_CUTOVER === 'true';
+  }
+
+  static getInstance(): EmbeddingSpaceService {
+    if (!EmbeddingSpaceService.instance) {
+      EmbeddingSpaceService.instance = new EmbeddingSpaceService();
+    }
+    return EmbeddingSpaceService.instance;
+  }
+
+  /**
+   * Load the registry, serve the active space and start or resume a migration
+   * when the configured embeddings differ from it
+   */
+  async initialize(): Promise<EmbeddingSpace> {
+    const registry = await this.loadRegistry() || await this.registerInitialSpace();
+    const migration = registry.migration;
+
+    // A cutover was interrupted; finish it before serving anything
+    if (migration?.status === 'cutting_over') {
+      return this.cutover({ force: true });
+    }
+
+    const active = this.findSpace(registry, registry.active_version);
+    await this.vectorStore.switchSpace(active, () => setActiveEmbeddingSpace(active));
+    if (await ChunkModel.exists({ staged_namespace: active.namespace })) {
+      await this.finalizeChunks(active);
+    }
+    console.log(`🧮 Serving embedding space v${active.version} (${active.provider}, ${active.model}, ${active.dimensions} dimensions)`);
+
+    const configured = getConfiguredEmbeddingProvider();
+    if (migration?.status === 'running') {
+      this.resume();
+    } else if (!this.sameSpace(active, configured)) {
+      console.warn(`⚠️ Configured embeddings (${configured.model}, ${configured.dimensions} dimensions) differ from the active space; it keeps serving until a re-embedding migration is cut over`);
+
+      const target = migration && this.findSpace(registry, migration.target_version);
+      if (target && this.sameSpace(target, configured) && migration.status !== 'failed') {
+        console.log(`💡 Re-embedding migration to v${target.version} is ${migration.status}`);
+      } else if (this.autoStart) {
+        await this.startMigration();
+      }
+    }
+
+    return active;
+  }
+
+  /**
+   * Start re-embedding all chunks into a new space (defaults to the configured
+   * provider, model and dimensions). Resumes a paused or failed migration to the same space.
+   */
+  async startMigration(target: EmbeddingMigrationTarget = {}): Promise<EmbeddingMigrationReport> {
+    if (this.running) {
+      throw new Error('A re-embedding migration is already running');
+    }
+
+    const provider = this.resolveProvider(target);
+    const registry = await this.requireRegistry();
+    const active = this.findSpace(registry, registry.active_version);
+    if (this.sameSpace(active, provider)) {
+      throw new Error(`Embedding space ${provider.model} (${provider.dimensions} dimensions) is already active`);
+    }
+
+    const current = registry.migration && this.findSpace(registry, registry.migration.target_version);
+    if (current?.status === 'building' && this.sameSpace(current, provider)) {
+      if (registry.migration.status === 'ready_for_cutover') {
+        return this.getStatus();
+      }
+      await this.updateMigration({ status: 'running', error: undefined });
+      this.resume();
+      return this.getStatus();
+    }
+
+    const now = new Date().toISOString();
+    const version = Math.max(...registry.spaces.map(space => space.version)) + 1;
+    const space: EmbeddingSpace = {
+      version,
+      provider: provider.name,
+      model: provider.model,
+      dimensions: provider.dimensions,
+      namespace: `v${version}`,
+      status: 'building',
+      created_at: now
+    };
+    const migration: EmbeddingMigrationProgress = {
+      target_version: version,
+      status: 'running',
+      total_chunks: await ChunkModel.countDocuments(),
+      processed_chunks: 0,
+      failed_chunks: 0,
+      started_at: now,
+      updated_at: now
+    };
+
+    // Only one space is built at a time; drop whatever an earlier migration staged
+    if (current?.status === 'building') {
+      await ChunkModel.updateMany(
+        { staged_namespace: current.namespace },
+        { $unset: { staged_vector: '', staged_namespace: '', staged_embedding_model: '', staged_embedding_dimensions: '' } }
+      );
+    }
+
+    await EmbeddingSpaceRegistryModel.updateOne(
+      { key: REGISTRY_KEY },
+      {
+        $set: {
+          'spaces.$[building].status': 'abandoned',
+          migration
+        }
+      },
+      { arrayFilters: [{ 'building.status': 'building' }] }
+    );
+    await EmbeddingSpaceRegistryModel.updateOne({ key: REGISTRY_KEY }, { $push: { spaces: space } });
+
+    console.log(`🔁 Registered embedding space v${version} (${space.provider}, ${space.model}, ${space.dimensions} dimensions)`);
+    this.resume();
+    return this.getStatus();
+  }
+
+  /**
+   * Stop the running migration after the current batch; it can be resumed later
+   */
+  async pauseMigration(): Promise<EmbeddingMigrationReport> {
+    const registry = await this.requireRegistry();
+    if (registry.migration?.status !== 'running') {
+      throw new Error('No re-embedding migration is running');
+    }
+
+    this.pauseRequested = true;
+    if (this.running) {
+      await this.running;
+    } else {
+      await this.updateMigration({ status: 'paused' });
+    }
+    return this.getStatus();
+  }
+
+  /**
+   * Switch queries, new embeddings and the vector store to the migrated space in one step.
+   * Chunks that could not be re-embedded are handed to the retry queue.
+   */
+  async cutover(options: { force?: boolean } = {}): Promise<EmbeddingSpace> {
+    if (this.running) {
+      throw new Error('The re-embedding migration is still running; wait for it to finish or pause it');
+    }
+    return this.performCutover(options);
+  }
+
+  private async performCutover(options: { force?: boolean }): Promise<EmbeddingSpace> {
+    const registry = await this.requireRegistry();
+    const migration = registry.migration;
+    const cutoverStates = options.force ? ['ready_for_cutover', 'cutting_over', 'paused', 'failed'] : ['ready_for_cutover', 'cutting_over'];
+    if (!migration || !cutoverStates.includes(migration.status)) {
+      throw new Error('No re-embedding migration is ready for cutover');
+    }
+
+    const target = this.findSpace(registry, migration.target_version);
+    const previous = this.findSpace(registry, registry.active_version);
+    const embeddingService = new EmbeddingService(getEmbeddingProviderForSpace(target));
+
+    // Catch chunks added (or re-embedded in the old space) after the migration passed them
+    await this.updateMigration({ status: 'cutting_over' });
+    let cursor: string | undefined;
+    while (true) {
+      const chunks: MigratableChunk[] = await ChunkModel.find({
+        ...(cursor && { _id: { $gt: new mongoose.Types.ObjectId(cursor) } }),
+        staged_namespace: { $ne: target.namespace },
+        $or: [{ embedding_model: { $ne: target.model } }, { embedding_dimensions: { $ne: target.dimensions } }]
+      })
+        .select(MIGRATABLE_FIELDS)
+        .sort({ _id: 1 })
+        .limit(this.batchSize)
+        .lean();
+      if (chunks.length === 0) break;
+
+      await this.stageChunks(target, embeddingService, chunks);
+      cursor = String(chunks[chunks.length - 1]._id);
+    }
+
+    await this.vectorStore.switchSpace(target, () => setActiveEmbeddingSpace(target));
+
+    const now = new Date().toISOString();
+    await EmbeddingSpaceRegistryModel.updateOne(
+      { key: REGISTRY_KEY },
+      {
+        $set: {
+          active_version: target.version,
+          'spaces.$[target].status': 'active',
+          'spaces.$[target].activated_at': now,
+          'migration.status': 'completed',
+          'migration.completed_at': now,
+          'migration.updated_at': now,
+          ...(previous.version !== target.version && {
+            'spaces.$[previous].status': 'retired',
+            'spaces.$[previous].retired_at': now
+          })
+        }
+      },
+      {
+        arrayFilters: [
+          { 'target.version': target.version },
+          ...(previous.version !== target.version ? [{ 'previous.version': previous.version }] : [])
+        ]
+      }
+    );
+
+    const unembedded = await this.finalizeChunks(target);
+    console.log(`✅ Cut over to embedding space v${target.version} (${target.model}, ${target.dimensions} dimensions)${unembedded > 0 ? `; ${unembedded} chunks queued for re-embedding` : ''}`);
+    return { ...target, status: 'active', activated_at: now };
+  }
+
+  async getStatus(): Promise<EmbeddingMigrationReport> {
+    const registry = await this.requireRegistry();
+    const configured = getConfiguredEmbeddingProvider();
+    const active = this.findSpace(registry, registry.active_version);
+    const migration = registry.migration || null;
+    const target = migration && migration.status !== 'completed'
+      ? this.findSpace(registry, migration.target_version)
+      : null;
+
+    return {
+      configured: { provider: configured.name, model: configured.model, dimensions: configured.dimensions },
+      active,
+      target,
+      in_sync: this.sameSpace(active, configured),
+      running: this.running !== null,
+      progress_percent: migration && migration.total_chunks > 0
+        ? Math.min(100, Math.round((migration.processed_chunks / migration.total_chunks) * 1000) / 10)
+        : null,
+      migration,
+      spaces: registry.spaces
+    };
+  }
+
+  private resume(): void {
+    if (this.running) return;
+    this.pauseRequested = false;
+    this.running = this.migrate().finally(() => {
+      this.running = null;
+    });
+  }
+
+  /**
+   * Re-embed chunks in _id order from the stored cursor until done or paused
+   */
+  private async migrate(): Promise<void> {
+    const registry = await this.requireRegistry();
+    const migration = registry.migration;
+    const target = this.findSpace(registry, migration.target_version);
+    const embeddingService = new EmbeddingService(getEmbeddingProviderForSpace(target));
+    let cursor = migration.cursor;
+
+    const remaining = await ChunkModel.countDocuments(cursor ? { _id: { $gt: new mongoose.Types.ObjectId(cursor) } } : {});
+    await this.updateMigration({ total_chunks: migration.processed_chunks + remaining });
+    console.log(`🔁 ${cursor ? 'Resuming' : 'Starting'} re-embedding into space v${target.version}: ${remaining} chunks to go`);
+
+    try {
+      while (!this.pauseRequested) {
+        const chunks: MigratableChunk[] = await ChunkModel.find(cursor ? { _id: { $gt: new mongoose.Types.ObjectId(cursor) } } : {})
+          .select(MIGRATABLE_FIELDS)
+          .sort({ _id: 1 })
+          .limit(this.batchSize)
+          .lean();
+        if (chunks.length === 0) break;
+
+        const failed = await this.stageChunks(target, embeddingService, chunks);
+        cursor = String(chunks[chunks.length - 1]._id);
+
+        await EmbeddingSpaceRegistryModel.updateOne(
+          { key: REGISTRY_KEY, 'migration.target_version': target.version },
+          {
+            $set: { 'migration.cursor': cursor, 'migration.updated_at': new Date().toISOString() },
+            $inc: { 'migration.processed_chunks': chunks.length, 'migration.failed_chunks': failed }
+          }
+        );
+
+        await new Promise(resolve => setTimeout(resolve, this.batchDelay));
+      }
+
+      if (this.pauseRequested) {
+        await this.updateMigration({ status: 'paused' });
+        console.log(`⏸️ Re-embedding into space v${target.version} paused`);
+        return;
+      }
+
+      await this.updateMigration({ status: 'ready_for_cutover' });
+      console.log(`✅ Re-embedding into space v${target.version} complete and ready for cutover`);
+    } catch (error) {
+      console.error('Error re-embedding chunks:', error);
+      await this.updateMigration({ status: 'failed', error: String(error) });
+      return;
+    }
+
+    if (this.autoCutover) {
+      await this.performCutover({});
+    }
+  }
+
+  /**
+   * Embed a batch of chunks into the target space and stage the vectors. Returns the number that failed.
+   */
+  private async stageChunks(target: EmbeddingSpace, embeddingService: EmbeddingService, chunks: MigratableChunk[]): Promise<number> {
+    const embeddings = await embeddingService.generateEmbeddings(chunks.map(chunk => TextChunkingService.fromChunkRecord(chunk)));
+    const byChunkId = new Map(embeddings.map(embedding => [embedding.chunk_id, embedding]));
+
+    const records: VectorRecord[] = chunks
+      .filter(chunk => byChunkId.get(chunk.id)?.vector.length === target.dimensions)
+      .map(chunk => ({
+        id: chunk.id,
+        document_id: chunk.document_id,
+        chunk_index: chunk.chunk_index,
+        vector: byChunkId.get(chunk.id)!.vector,
+        embedding_model: target.model,
+        embedding_dimensions: target.dimensions,
+        metadata: chunk.metadata
+      }));
+
+    await this.vectorStore.stageVectors(target.namespace, records);
+    await ChunkModel.updateMany(
+      { id: { $in: records.map(record => record.id) } },
+      { $set: { staged_namespace: target.namespace } }
+    );
+
+    return chunks.length - records.length;
+  }
+
+  /**
+   * Mark staged chunks as embedded in the new space, queue everything else for
+   * re-embedding and bring document statuses in line. Returns the queued count.
+   */
+  private async finalizeChunks(target: EmbeddingSpace): Promise<number> {
+    const now = new Date();
+    await ChunkModel.updateMany(
+      { staged_namespace: target.namespace },
+      {
+        $set: {
+          embedding_model: target.model,
+          embedding_dimensions: target.dimensions,
+          embedding_status: 'embedded',
+          embedding_attempts: 0,
+          updated_at: now.toISOString()
+        },
+        $unset: { staged_namespace: '', embedding_error: '', next_embedding_attempt_at: '' }
+      }
+    );
+
+    const { modifiedCount } = await ChunkModel.updateMany(
+      { $or: [{ embedding_model: { $ne: target.model } }, { embedding_dimensions: { $ne: target.dimensions } }] },
+      {
+        $set: {
+          vector: [],
+          embedding_status: 'failed',
+          embedding_error: `Not embedded in embedding space v${target.version}`,
+          embedding_attempts: 0,
+          next_embedding_attempt_at: now,
+          updated_at: now.toISOString()
+        }
+      }
+    );
+
+    const failedDocuments = await ChunkModel.distinct('document_id', { embedding_status: 'failed' });
+    await DocumentModel.updateMany({ status: 'ready', id: { $in: failedDocuments } }, { $set: { status: 'partial' } });
+    await DocumentModel.updateMany({ status: 'partial', id: { $nin: failedDocuments } }, { $set: { status: 'ready' } });
+
+    return modifiedCount;
+  }
+
+  private async registerInitialSpace(): Promise<EmbeddingSpaceRegistry> {
+    const provider = getConfiguredEmbeddingProvider();
+    const now = new Date().toISOString();
+
+    // Existing chunks are adopted as version 1 of whatever is configured now
+    const registry = await EmbeddingSpaceRegistryModel.findOneAndUpdate(
+      { key: REGISTRY_KEY },
+      {
+        $setOnInsert: {
+          key: REGISTRY_KEY,
+          active_version: 1,
+          spaces: [{
+            version: 1,
+            provider: provider.name,
+            model: provider.model,
+            dimensions: provider.dimensions,
+            namespace: '',
+            status: 'active',
+            created_at: now,
+            activated_at: now
+          }]
+        }
+      },
+      { upsert: true, new: true }
+    ).lean();
+
+    console.log(`🧮 Registered embedding space v1 (${provider.name}, ${provider.model}, ${provider.dimensions} dimensions)`);
+    return registry;
+  }
+
+  private async loadRegistry(): Promise<EmbeddingSpaceRegistry | null> {
+    return EmbeddingSpaceRegistryModel.findOne({ key: REGISTRY_KEY }).lean();
+  }
+
+  private async requireRegistry(): Promise<EmbeddingSpaceRegistry> {
+    const registry = await this.loadRegistry();
+    if (!registry) {
+      throw new Error('Embedding space registry has not been initialized');
+    }
+    return registry;
+  }
+
+  private async updateMigration(updates: Partial<EmbeddingMigrationProgress>): Promise<void> {
+    const set: Record<string, any> = { 'migration.updated_at': new Date().toISOString() };
+    const unset: Record<string, ''> = {};
+    for (const [field, value] of Object.entries(updates)) {
+      if (value === undefined) {
+        unset[`migration.${field}`] = '';
+      } else {
+        set[`migration.${field}`] = value;
+      }
+    }
+    await EmbeddingSpaceRegistryModel.updateOne({ key: REGISTRY_KEY }, { $set: set, $unset: unset });
+  }
+
+  private resolveProvider(target: EmbeddingMigrationTarget): EmbeddingProvider {
+    const configured = getConfiguredEmbeddingProvider(target.provider);
+    if (!target.model && !target.dimensions) {
+      return configured;
+    }
+    return getEmbeddingProviderForSpace({
+      provider: configured.name,
+      model: target.model || configured.model,
+      dimensions: target.dimensions || configured.dimensions
+    });
+  }
+
+  private findSpace(registry: EmbeddingSpaceRegistry, version: number): EmbeddingSpace {
+    const space = registry.spaces.find(candidate => candidate.version === version);
+    if (!space) {
+      throw new Error(`Embedding space v${version} is missing from the registry`);
+    }
+    return space;
+  }
+
+  private sameSpace(
+    a: Pick<EmbeddingSpace, 'model' | 'dimensions'>,
+    b: Pick<EmbeddingSpace, 'model' | 'dimensions'>
+  ): boolean {
+    return a.model === b.model && a.dimensions === b.dimensions;
+  }
+}
@@ -2,6 +2,9 @@ import { GPTAssistantService, ChatMessage, ChatResponse } from './GPTAssistantSe
 import { VectorDBService } from './VectorDBService.js';
 import { DocumentModel } from '../models/Document.js';
 import { SearchFilters } from '../types/vector-db.js';
+import { RerankingReport } from '../types/reranking.js';
+import { RerankingService } from './RerankingService.js';
+import { getRetrievalConfig } from '../config/retrieval.js';
 
 export interface EnhancedContext {
   user_documents: Array<{
@@ -28,6 +31,10 @@ export interface EnhancedContext {
   }>;
   total_context_sources: number;
   context_quality_score: number;
+  reranking: {
+    user_documents?: RerankingReport;
+    knowledge_base?: RerankingReport;
+  };
 }
 
 export interface EnhancedChatResponse {
@@ -45,10 +52,12 @@ export interface EnhancedChatResponse {
 export class EnhancedRAGService {
   private gptAssistant: GPTAssistantService;
   private vectorDB: VectorDBService;
+  private reranker: RerankingService;
 
   constructor() {
     this.gptAssistant = new GPTAssistantService();
     this.vectorDB = new VectorDBService();
+    this.reranker = new RerankingService();
   }
 
   /**
@@ -107,11 +116,13 @@ export class EnhancedRAGService {
     uploadedFileContext?: any
   ): Promise<EnhancedContext> {
     try {
+      const reranking: EnhancedContext['reranking'] = {};
+
       // 1. Search user's uploaded documents
-      const userDocuments = await this.searchUserDocuments(query, userId);
+      const userDocuments = await this.searchUserDocuments(query, userId, reranking);
 
       // 2. Search knowledge base (scraped + curated content)
-      const knowledgeBase = await this.searchKnowledgeBase(query);
+      const knowledgeBase = await this.searchKnowledgeBase(query, reranking);
 
       // 3. Search specialized components from user's files
       const specializedComponents = await this.searchSpecializedComponents(query, userId);
@@ -128,7 +139,8 @@ export class EnhancedRAGService {
         knowledge_base: knowledgeBase,
         specialized_components: specializedComponents,
         total_context_sources: userDocuments.length + knowledgeBase.length + specializedComponents.length,
-        context_quality_score: contextQualityScore
+        context_quality_score: contextQualityScore,
+        reranking
       };
 
     } catch (error) {
@@ -138,7 +150,8 @@ export class EnhancedRAGService {
         knowledge_base: [],
         specialized_components: [],
         total_context_sources: 0,
-        context_quality_score: 0
+        context_quality_score: 0,
+        reranking: {}
       };
     }
   }
@@ -146,7 +159,11 @@ export class EnhancedRAGService {
   /**
    * Search user's uploaded documents
    */
-  private async searchUserDocuments(query: string, userId: string): Promise<Array<{
+  private async searchUserDocuments(
+    query: string,
+    userId: string,
+    reranking: EnhancedContext['reranking']
+  ): Promise<Array<{
     id: string;
     title: string;
     content_snippet: string;
@@ -154,13 +171,16 @@ export class EnhancedRAGService {
     source: 'user_upload';
   }>> {
     try {
-      const results = await this.vectorDB.search(query, {}, 3);
-      
-      return results
+      const { top_k, candidate_k } = getRetrievalConfig('user_upload');
+      const candidates = (await this.vectorDB.search(query, {}, candidate_k, { corpus: 'user_upload', user_id: userId }))
         .filter(result => {
           // Only include user's own documents that are uploaded files
           return result.metadata.filename && !result.metadata.filename.startsWith('knowledge_');
-        })
+        });
+      const { results, report } = await this.reranker.rerank(query, candidates, { limit: top_k });
+      reranking.user_documents = report;
+      
+      return results
         .map(result => ({
           id: result.document_id,
           title: result.metadata.filename,
@@ -177,7 +197,7 @@ export class EnhancedRAGService {
   /**
    * Search knowledge base (scraped and curated content)
    */
-  private async searchKnowledgeBase(query: string): Promise<Array<{
+  private async searchKnowledgeBase(query: string, reranking: EnhancedContext['reranking']): Promise<Array<{
     id: string;
     title: string;
     content_snippet: string;
@@ -191,10 +211,13 @@ export class EnhancedRAGService {
         categories: ['mozaik_knowledge']
       };
 
-      const results = await this.vectorDB.search(query, knowledgeFilter, 5);
+      const { top_k, candidate_k } = getRetrievalConfig('mozaik_knowledge');
+      const candidates = (await this.vectorDB.search(query, knowledgeFilter, candidate_k))
+        .filter(result => result.metadata.filename.startsWith('knowledge_'));
+      const { results, report } = await this.reranker.rerank(query, candidates, { limit: top_k });
+      reranking.knowledge_base = report;
       
       return results
-        .filter(result => result.metadata.filename.startsWith('knowledge_'))
         .map(result => ({
           id: result.document_id,
           title: result.metadata.filename.replace('knowledge_', ''),
@@ -220,11 +243,11 @@ export class EnhancedRAGService {
     source: 'user_specialzied';
   }>> {
     try {
-      const results = await this.vectorDB.searchSpecializedComponents(query, undefined, 3);
+      const results = await this.vectorDB.searchSpecializedComponents(query, { owner: userId }, getRetrievalConfig('specialized').top_k, { user_id: userId });
       
       return results.map(result => ({
         id: result.document_id,
-        component_type: this.extractComponentType(result.content_snippet),
+        component_type: result.metadata.component?.type || this.extractComponentType(result.content_snippet),
         content_snippet: result.content_snippet,
         similarity_score: result.similarity_score,
         source: 'user_specialzied' as const
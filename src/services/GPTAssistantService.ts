@@ -1,6 +1,9 @@
 import OpenAI from 'openai';
 import { VectorDBService } from './VectorDBService.js';
 import { SearchFilters } from '../types/vector-db.js';
+import { RerankingReport } from '../types/reranking.js';
+import { RerankingService } from './RerankingService.js';
+import { getRetrievalConfig } from '../config/retrieval.js';
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
@@ -27,6 +30,7 @@ export interface ChatContext {
     issues_found: string[];
     recommendations: string[];
   }>;
+  reranking?: RerankingReport;
 }
 
 export interface ChatResponse {
@@ -38,12 +42,14 @@ export interface ChatResponse {
     processing_time: number;
     context_sources: number;
     confidence_score: number;
+    reranking?: RerankingReport;
   };
 }
 
 export class GPTAssistantService {
   private openai: OpenAI;
   private vectorDB: VectorDBService;
+  private reranker: RerankingService;
   private systemPrompt: string;
 
   constructor() {
@@ -54,6 +60,7 @@ export class GPTAssistantService {
 
     this.openai = new OpenAI({ apiKey });
     this.vectorDB = new VectorDBService();
+    this.reranker = new RerankingService();
     
     this.systemPrompt = `You are Moe, an expert AI assistant specialized in Mozaik software and engineering diagnostics. You have access to a comprehensive knowledge base of Mozaik documentation, user discussions, technical specifications, and diagnostic data.
 
@@ -127,7 +134,8 @@ Context will be provided with each query to help you give the most relevant resp
           tokens_used: tokensUsed,
           processing_time: Date.now() - startTime,
           context_sources: context.relevant_documents.length,
-          confidence_score: confidenceScore
+          confidence_score: confidenceScore,
+          reranking: context.reranking
         }
       };
 
@@ -149,13 +157,15 @@ Context will be provided with each query to help you give the most relevant resp
     uploadedFileContext?: any
   ): Promise<ChatContext> {
     try {
-      // Search user's documents for relevant context
-      const documentResults = await this.vectorDB.search(query, {}, 5);
+      // Over-fetch candidates, then rerank down to the chunks worth prompting with
+      const { top_k, candidate_k } = getRetrievalConfig('default');
+      const candidates = await this.vectorDB.search(query, {}, candidate_k, { user_id: userId });
+      const { results: documentResults, report: reranking } = await this.reranker.rerank(query, candidates, { limit: top_k });
       
       // Search specialized components if query seems technical
       const isFileQuery = this.isFileRelatedQuery(query);
       const specializedResults = isFileQuery 
-        ? await this.vectorDB.searchSpecializedComponents(query, undefined, 3)
+        ? await this.vectorDB.searchSpecializedComponents(query, { owner: userId }, getRetrievalConfig('specialized').top_k, { user_id: userId })
         : [];
 
       // Build Mozaik-specific knowledge context
@@ -184,7 +194,8 @@ Context will be provided with each query to help you give the most relevant resp
           }))
         ],
         mozaik_knowledge: mozaikKnowledge,
-        file_diagnostics: fileDiagnostics
+        file_diagnostics: fileDiagnostics,
+        reranking
       };
 
       return context;
@@ -0,0 +1,424 @@
+// Hierarchical Navigable Small World graph for approximate nearest-neighbour search
+// See Malkov & Yashunin, "Efficient and robust approximate nearest neighbor search
+// using Hierarchical Navigable Small World graphs" (2016).
+
+export interface HNSWConfig {
+  M: number;               // Max neighbours per node on upper layers (level 0 uses 2 * M)
+  ef_construction: number; // Candidate list size while inserting
+  ef_search: number;       // Default candidate list size while querying
+}
+
+export interface HNSWMatch {
+  id: string;
+  score: number; // Cosine similarity
+}
+
+export interface SerializedHNSWIndex {
+  version: number;
+  dimensions: number;
+  config: HNSWConfig;
+  entry_point: number;
+  max_level: number;
+  nodes: Array<{
+    id: string;
+    level: number;
+    deleted: boolean;
+    vector: string; // Base64 encoded Float32Array
+    neighbors: number[][];
+  }>;
+}
+
+interface HeapItem {
+  node: number;
+  distance: number;
+}
+
+/**
+ * Minimal binary heap ordered by distance
+ */
+class DistanceHeap {
+  private items: HeapItem[] = [];
+
+  constructor(private readonly maxHeap: boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): HeapItem | undefined {
+    return this.items[0];
+  }
+
+  push(item: HeapItem): void {
+    this.items.push(item);
+    this.bubbleUp(this.items.length - 1);
+  }
+
+  pop(): HeapItem | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last) {
+      this.items[0] = last;
+      this.sinkDown(0);
+    }
+    return top;
+  }
+
+  toArray(): HeapItem[] {
+    return [...this.items];
+  }
+
+  private before(a: HeapItem, b: HeapItem): boolean {
+    return this.maxHeap ? a.distance > b.distance : a.distance < b.distance;
+  }
+
+  private bubbleUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.before(this.items[index], this.items[parent])) break;
+      [this.items[index], this.items[parent]] = [this.items[parent], this.items[index]];
+      index = parent;
+    }
+  }
+
+  private sinkDown(index: number): void {
+    const length = this.items.length;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let best = index;
+      if (left < length && this.before(this.items[left], this.items[best])) best = left;
+      if (right < length && this.before(this.items[right], this.items[best])) best = right;
+      if (best === index) break;
+      [this.items[index], this.items[best]] = [this.items[best], this.items[index]];
+      index = best;
+    }
+  }
+}
+
+export class HNSWIndex {
+  private config: HNSWConfig;
+  private dimensions: number;
+  private levelMultiplier: number;
+
+  private ids: string[] = [];
+  private vectors: Float32Array[] = [];
+  private levels: number[] = [];
+  private neighbors: number[][][] = [];
+  private deleted: boolean[] = [];
+  private idToNode: Map<string, number> = new Map();
+
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+
+  constructor(dimensions: number = 0, config?: Partial<HNSWConfig>) {
+    this.dimensions = dimensions;
+    this.config = {
+      M: 16,
+      ef_construction: 200,
+      ef_search: 64,
+      ...config
+    };
+    this.levelMultiplier = 1 / Math.log(this.config.M);
+  }
+
+  /**
+   * Number of live (non-deleted) vectors in the index
+   */
+  get size(): number {
+    return this.ids.length - this.deletedCount;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  has(id: string): boolean {
+    const node = this.idToNode.get(id);
+    return node !== undefined && !this.deleted[node];
+  }
+
+  /**
+   * Fraction of graph nodes that are tombstoned
+   */
+  getDeletedRatio(): number {
+    return this.ids.length > 0 ? this.deletedCount / this.ids.length : 0;
+  }
+
+  /**
+   * Insert a vector, replacing any existing vector with the same id
+   */
+  add(id: string, vector: number[]): void {
+    if (this.dimensions === 0) {
+      this.dimensions = vector.length;
+    }
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector dimension ${vector.length} does not match index dimension ${this.dimensions}`);
+    }
+
+    if (this.idToNode.has(id)) {
+      this.remove(id);
+    }
+
+    const normalized = this.normalize(vector);
+    const node = this.ids.length;
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+
+    this.ids.push(id);
+    this.vectors.push(normalized);
+    this.levels.push(level);
+    this.deleted.push(false);
+    this.neighbors.push(Array.from({ length: level + 1 }, () => []));
+    this.idToNode.set(id, node);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let current = this.entryPoint;
+
+    // Greedy descent through the layers above the new node's level
+    for (let l = this.maxLevel; l > level; l--) {
+      current = this.greedyClosest(normalized, current, l);
+    }
+
+    // Connect the node on every layer it participates in
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(normalized, [current], this.config.ef_construction, l);
+      const maxNeighbors = this.maxNeighbors(l);
+      const selected = candidates.slice(0, maxNeighbors);
+
+      this.neighbors[node][l] = selected.map(c => c.node);
+
+      for (const { node: neighbor } of selected) {
+        const links = this.neighbors[neighbor][l];
+        links.push(node);
+        if (links.length > maxNeighbors) {
+          this.neighbors[neighbor][l] = this.pruneNeighbors(neighbor, links, maxNeighbors);
+        }
+      }
+
+      if (candidates.length > 0) {
+        current = candidates[0].node;
+      }
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = node;
+    }
+  }
+
+  /**
+   * Remove a vector. Nodes are tombstoned so the graph stays navigable;
+   * callers should rebuild once getDeletedRatio() grows large.
+   */
+  remove(id: string): boolean {
+    const node = this.idToNode.get(id);
+    if (node === undefined) return false;
+
+    this.idToNode.delete(id);
+    if (!this.deleted[node]) {
+      this.deleted[node] = true;
+      this.deletedCount++;
+    }
+    return true;
+  }
+
+  /**
+   * Find the k most similar vectors to the query
+   */
+  search(vector: number[], k: number, ef?: number): HNSWMatch[] {
+    if (this.entryPoint === -1 || this.size === 0) return [];
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Query dimension ${vector.length} does not match index dimension ${this.dimensions}`);
+    }
+
+    const query = this.normalize(vector);
+    let current = this.entryPoint;
+
+    for (let l = this.maxLevel; l > 0; l--) {
+      current = this.greedyClosest(query, current, l);
+    }
+
+    // Widen the beam to compensate for tombstoned nodes that are traversed but not returned
+    const beam = Math.max(ef ?? this.config.ef_search, k) + Math.ceil(k * this.getDeletedRatio() * 2);
+    const candidates = this.searchLayer(query, [current], beam, 0);
+
+    return candidates
+      .filter(c => !this.deleted[c.node])
+      .slice(0, k)
+      .map(c => ({ id: this.ids[c.node], score: 1 - c.distance }));
+  }
+
+  /**
+   * Exact k most similar vectors among the given ids; unknown and tombstoned ids are skipped
+   */
+  searchAmong(vector: number[], ids: string[], k: number): HNSWMatch[] {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Query dimension ${vector.length} does not match index dimension ${this.dimensions}`);
+    }
+
+    const query = this.normalize(vector);
+    const matches: HNSWMatch[] = [];
+    for (const id of ids) {
+      const node = this.idToNode.get(id);
+      if (node === undefined || this.deleted[node]) continue;
+      matches.push({ id, score: 1 - this.distance(query, this.vectors[node]) });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * Rebuild the graph without tombstoned nodes
+   */
+  compact(): HNSWIndex {
+    const rebuilt = new HNSWIndex(this.dimensions, this.config);
+    for (let node = 0; node < this.ids.length; node++) {
+      if (!this.deleted[node]) {
+        rebuilt.add(this.ids[node], Array.from(this.vectors[node]));
+      }
+    }
+    return rebuilt;
+  }
+
+  serialize(): SerializedHNSWIndex {
+    return {
+      version: 1,
+      dimensions: this.dimensions,
+      config: { ...this.config },
+      entry_point: this.entryPoint,
+      max_level: this.maxLevel,
+      nodes: this.ids.map((id, node) => ({
+        id,
+        level: this.levels[node],
+        deleted: this.deleted[node],
+        vector: Buffer.from(this.vectors[node].buffer, this.vectors[node].byteOffset, this.vectors[node].byteLength).toString('base64'),
+        neighbors: this.neighbors[node]
+      }))
+    };
+  }
+
+  static deserialize(data: SerializedHNSWIndex): HNSWIndex {
+    if (data.version !== 1) {
+      throw new Error(`Unsupported HNSW index version: ${data.version}`);
+    }
+
+    const index = new HNSWIndex(data.dimensions, data.config);
+    index.entryPoint = data.entry_point;
+    index.maxLevel = data.max_level;
+
+    data.nodes.forEach((entry, node) => {
+      const bytes = Buffer.from(entry.vector, 'base64');
+      const vector = new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+
+      index.ids.push(entry.id);
+      index.vectors.push(vector);
+      index.levels.push(entry.level);
+      index.neighbors.push(entry.neighbors);
+      index.deleted.push(entry.deleted);
+
+      if (entry.deleted) {
+        index.deletedCount++;
+      } else {
+        index.idToNode.set(entry.id, node);
+      }
+    });
+
+    return index;
+  }
+
+  private maxNeighbors(level: number): number {
+    return level === 0 ? this.config.M * 2 : this.config.M;
+  }
+
+  private greedyClosest(query: Float32Array, start: number, level: number): number {
+    let current = start;
+    let currentDistance = this.distance(query, this.vectors[current]);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.neighbors[current][level] || []) {
+        const d = this.distance(query, this.vectors[neighbor]);
+        if (d < currentDistance) {
+          currentDistance = d;
+          current = neighbor;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Beam search on a single layer, returning candidates sorted by ascending distance
+   */
+  private searchLayer(query: Float32Array, entryPoints: number[], ef: number, level: number): HeapItem[] {
+    const visited = new Set<number>(entryPoints);
+    const candidates = new DistanceHeap(false);
+    const results = new DistanceHeap(true);
+
+    for (const node of entryPoints) {
+      const distance = this.distance(query, this.vectors[node]);
+      candidates.push({ node, distance });
+      results.push({ node, distance });
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      const furthest = results.peek()!;
+      if (closest.distance > furthest.distance && results.size >= ef) break;
+
+      for (const neighbor of this.neighbors[closest.node][level] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const distance = this.distance(query, this.vectors[neighbor]);
+        if (results.size < ef || distance < results.peek()!.distance) {
+          candidates.push({ node: neighbor, distance });
+          results.push({ node: neighbor, distance });
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  private pruneNeighbors(node: number, links: number[], maxNeighbors: number): number[] {
+    return links
+      .map(neighbor => ({ neighbor, distance: this.distance(this.vectors[node], this.vectors[neighbor]) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, maxNeighbors)
+      .map(entry => entry.neighbor);
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+    return 1 - dot;
+  }
+
+  private normalize(vector: number[]): Float32Array {
+    const normalized = new Float32Array(vector.length);
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+      norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm);
+    if (norm === 0) return normalized;
+
+    for (let i = 0; i < vector.length; i++) {
+      normalized[i] = vector[i] / norm;
+    }
+    return normalized;
+  }
+}
@@ -0,0 +1,196 @@
+import { BM25Index } from './BM25Index.js';
+import { ChunkModel } from '../models/Chunk.js';
+import { DocumentAccess, SearchFilters, VectorMatch, VectorRecordMetadata } from '../types/vector-db.js';
+import { canAccess } from '../utils/access.js';
+
+export interface IndexableChunk {
+  content: string;
+}
+
+export interface LexicalIndexStats {
+  ready: boolean;
+  documents: number;
+  chunks: number;
+  last_built_at: string | null;
+}
+
+/**
+ * Process-wide BM25 index over stored chunk text. Built from MongoDB on
+ * first use and kept in sync by VectorDBService on ingest, update and delete.
+ */
+export class LexicalIndexService {
+  private static instance: LexicalIndexService;
+
+  private index: BM25Index;
+  private documents: Map<string, number> = new Map(); // document id -> chunk count
+  private documentMetadata: Map<string, VectorRecordMetadata> = new Map(); // document id -> filter metadata
+  private loading: Promise<void> | null = null;
+  private ready = false;
+  private lastBuiltAt: string | null = null;
+
+  private constructor() {
+    this.index = new BM25Index({
+      k1: parseFloat(process.env.LEXICAL_INDEX_K1 || '1.2'),
+      b: parseFloat(process.env.LEXICAL_INDEX_B || '0.75')
+    });
+  }
+
+  static getInstance(): LexicalIndexService {
+    if (!LexicalIndexService.instance) {
+      LexicalIndexService.instance = new LexicalIndexService();
+    }
+    return LexicalIndexService.instance;
+  }
+
+  async ensureReady(): Promise<void> {
+    if (this.ready) return;
+    if (!this.loading) {
+      this.loading = this.buildFromDatabase()
+        .then(() => {
+          this.ready = true;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Add or replace all chunks for a document
+   */
+  async upsertDocument(documentId: string, chunks: IndexableChunk[], metadata: VectorRecordMetadata): Promise<void> {
+    await this.ensureReady();
+    this.indexDocument(documentId, chunks, metadata);
+  }
+
+  /**
+   * Replace who may retrieve a document without re-indexing its text
+   */
+  async updateAccess(documentId: string, access: DocumentAccess): Promise<void> {
+    await this.ensureReady();
+    const metadata = this.documentMetadata.get(documentId);
+    if (metadata) {
+      this.documentMetadata.set(documentId, { ...metadata, ...access });
+    }
+  }
+
+  async removeDocument(documentId: string): Promise<void> {
+    await this.ensureReady();
+    this.removeFromIndex(documentId);
+  }
+
+  /**
+   * Rank chunks against the query with BM25, applying search filters
+   */
+  async query(query: string, k: number, filters?: SearchFilters): Promise<VectorMatch[]> {
+    await this.ensureReady();
+
+    const accept = filters
+      ? (id: string) => this.matchesFilters(this.documentMetadata.get(this.documentIdOf(id)), filters)
+      : undefined;
+
+    return this.index.search(query, k, accept).map(match => ({
+      document_id: this.documentIdOf(match.id),
+      chunk_index: parseInt(match.id.substring(match.id.lastIndexOf('#') + 1)),
+      score: match.score
+    }));
+  }
+
+  async rebuild(): Promise<void> {
+    this.ready = false;
+    await this.buildFromDatabase();
+    this.ready = true;
+  }
+
+  clear(): void {
+    this.index.clear();
+    this.documents.clear();
+    this.documentMetadata.clear();
+    this.ready = true;
+  }
+
+  getStats(): LexicalIndexStats {
+    return {
+      ready: this.ready,
+      documents: this.documents.size,
+      chunks: this.index.size,
+      last_built_at: this.lastBuiltAt
+    };
+  }
+
+  private async buildFromDatabase(): Promise<void> {
+    const startTime = Date.now();
+    this.index.clear();
+    this.documents.clear();
+    this.documentMetadata.clear();
+
+    const cursor = ChunkModel.find({ status: 'ready' })
+      .select('document_id chunk_index content metadata')
+      .sort({ document_id: 1, chunk_index: 1 })
+      .lean()
+      .cursor();
+
+    // Chunks arrive grouped by document, so each document is indexed once all its chunks are read
+    let documentId: string | null = null;
+    let chunks: IndexableChunk[] = [];
+    let metadata: VectorRecordMetadata | null = null;
+
+    for await (const chunk of cursor) {
+      if (chunk.document_id !== documentId) {
+        if (documentId && metadata) this.indexDocument(documentId, chunks, metadata);
+        documentId = chunk.document_id;
+        chunks = [];
+        metadata = chunk.metadata;
+      }
+      chunks[chunk.chunk_index] = { content: chunk.content };
+    }
+    if (documentId && metadata) this.indexDocument(documentId, chunks, metadata);
+
+    this.lastBuiltAt = new Date().toISOString();
+    console.log(`✅ Built lexical index with ${this.index.size} chunks from ${this.documents.size} documents in ${Date.now() - startTime}ms`);
+  }
+
+  private indexDocument(documentId: string, chunks: IndexableChunk[], metadata: VectorRecordMetadata): void {
+    this.removeFromIndex(documentId);
+
+    for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
+      const content = chunks[chunkIndex]?.content;
+      if (content) {
+        this.index.add(`${documentId}#${chunkIndex}`, content);
+      }
+    }
+    this.documents.set(documentId, chunks.length);
+    this.documentMetadata.set(documentId, metadata);
+  }
+
+  private removeFromIndex(documentId: string): void {
+    const chunkCount = this.documents.get(documentId);
+    if (chunkCount === undefined) return;
+
+    for (let i = 0; i < chunkCount; i++) {
+      this.index.remove(`${documentId}#${i}`);
+    }
+    this.documents.delete(documentId);
+    this.documentMetadata.delete(documentId);
+  }
+
+  private documentIdOf(chunkId: string): string {
+    return chunkId.substring(0, chunkId.lastIndexOf('#'));
+  }
+
+  private matchesFilters(metadata: VectorRecordMetadata | undefined, filters: SearchFilters): boolean {
+    if (!metadata) return false;
+
+    if (filters.access && !canAccess(metadata, filters.access)) return false;
+    if (filters.file_types?.length && !filters.file_types.includes(metadata.file_type)) return false;
+    if (filters.categories?.length && !filters.categories.includes(metadata.category)) return false;
+    if (filters.tags?.length && !filters.tags.some(tag => metadata.tags.includes(tag))) return false;
+    if (filters.date_range) {
+      if (filters.date_range.start && metadata.created_at < filters.date_range.start) return false;
+      if (filters.date_range.end && metadata.created_at > filters.date_range.end) return false;
+    }
+
+    return true;
+  }
+}
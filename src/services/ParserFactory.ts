@@ -1,5 +1,11 @@
-import { ParserFactory, FileType, FileParser } from '../types/file-parser.js';
+import { ParserFactory, FileType, FileParser, ParserCapabilities } from '../types/file-parser.js';
 import { TextParser } from './parsers/TextParser.js';
+import { PDFParser } from './parsers/PDFParser.js';
+import { DOCXParser } from './parsers/DOCXParser.js';
+import { MarkdownParser } from './parsers/MarkdownParser.js';
+import { HTMLParser } from './parsers/HTMLParser.js';
+import { CSVParser } from './parsers/CSVParser.js';
+import { JSONParser } from './parsers/JSONParser.js';
 
 export class DocumentParserFactory implements ParserFactory {
   private parsers: Map<FileType, FileParser>;
@@ -12,13 +18,12 @@ export class DocumentParserFactory implements ParserFactory {
   private initializeParsers(): void {
     // Register all available parsers
     this.registerParser(FileType.TXT, new TextParser());
-    
-    // TODO: Add more parsers as they are implemented
-    // this.registerParser(FileType.PDF, new PDFParser());
-    // this.registerParser(FileType.DOCX, new DOCXParser());
-    // this.registerParser(FileType.MD, new MarkdownParser());
-    // this.registerParser(FileType.CSV, new CSVParser());
-    // this.registerParser(FileType.JSON, new JSONParser());
+    this.registerParser(FileType.PDF, new PDFParser());
+    this.registerParser(FileType.DOCX, new DOCXParser());
+    this.registerParser(FileType.MD, new MarkdownParser());
+    this.registerParser(FileType.HTML, new HTMLParser());
+    this.registerParser(FileType.CSV, new CSVParser());
+    this.registerParser(FileType.JSON, new JSONParser());
   }
 
   createParser(fileType: FileType): FileParser {
@@ -92,14 +97,7 @@ export class DocumentParserFactory implements ParserFactory {
   }
 
   // Helper method to get parser capabilities
-  getParserCapabilities(fileType: FileType): {
-    canExtractText: boolean;
-    canExtractMetadata: boolean;
-    canExtractSections: boolean;
-    canExtractTables: boolean;
-    canExtractImages: boolean;
-    canExtractLinks: boolean;
-  } {
+  getParserCapabilities(fileType: FileType): ParserCapabilities {
     const parser = this.parsers.get(fileType);
     if (!parser) {
       return {
@@ -112,15 +110,6 @@ export class DocumentParserFactory implements ParserFactory {
       };
     }
 
-    // For now, return basic capabilities for text parser
-    // This should be enhanced as more parsers are added
-    return {
-      canExtractText: true,
-      canExtractMetadata: true,
-      canExtractSections: true,
-      canExtractTables: false,
-      canExtractImages: false,
-      canExtractLinks: true
-    };
+    return parser.getCapabilities();
   }
 } 
\ No newline at end of file
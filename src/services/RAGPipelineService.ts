@@ -1,6 +1,7 @@
 import { GPTAssistantService, ChatMessage, ChatResponse } from './GPTAssistantService.js';
 import { VectorDBService } from './VectorDBService.js';
 import { DocumentModel } from '../models/Document.js';
+import { canAccess } from '../utils/access.js';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface ConversationSession {
@@ -115,7 +116,7 @@ export class RAGPipelineService {
 
       // Get file context from vector database
       const document = await this.vectorDB.getDocument(fileId);
-      if (!document) {
+      if (!document || !canAccess(document.metadata, { user_id: userId })) {
         throw new Error('File not found');
       }
 
@@ -226,7 +227,7 @@ export class RAGPipelineService {
   private async getFileContext(fileId: string, userId: string): Promise<any> {
     try {
       const document = await this.vectorDB.getDocument(fileId);
-      if (!document || document.metadata.uploaded_by !== userId) {
+      if (!document || !canAccess(document.metadata, { user_id: userId })) {
         throw new Error('File not found or access denied');
       }
 
@@ -287,7 +288,7 @@ export class RAGPipelineService {
     excludeIds: string[]
   ): Promise<Array<{ id: string; title: string; relevance_score: number }>> {
     try {
-      const searchResults = await this.vectorDB.search(query, {}, 5);
+      const searchResults = await this.vectorDB.search(query, {}, 5, { user_id: userId });
       
       return searchResults
         .filter(result => !excludeIds.includes(result.document_id))
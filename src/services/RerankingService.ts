@@ -0,0 +1,211 @@
+import { SearchResult } from '../types/vector-db.js';
+import {
+  Reranker,
+  RerankerName,
+  RerankCandidate,
+  RerankOptions,
+  RerankingReport,
+  DroppedChunk
+} from '../types/reranking.js';
+import { LexicalOverlapReranker } from './rerankers/LexicalOverlapReranker.js';
+import { LLMReranker } from './rerankers/LLMReranker.js';
+import { BM25Index } from './BM25Index.js';
+
+export interface RerankedResults {
+  results: SearchResult[];
+  report: RerankingReport;
+}
+
+/**
+ * Second retrieval stage: rescore first-stage hits with a pluggable reranker,
+ * then pick a diverse subset with maximal marginal relevance (MMR).
+ */
+export class RerankingService {
+  private reranker: Reranker | null;
+  private fallback: Reranker;
+
+  constructor(name: RerankerName = (process.env.RERANKER as RerankerName) || 'lexical') {
+    this.fallback = new LexicalOverlapReranker();
+    this.reranker = this.createReranker(name);
+  }
+
+  getRerankerName(): RerankerName {
+    return this.reranker?.name || 'none';
+  }
+
+  /**
+   * Rerank search results and keep at most `limit` of them
+   */
+  async rerank(query: string, results: SearchResult[], options: RerankOptions): Promise<RerankedResults> {
+    const minScore = options.min_score ?? parseFloat(process.env.RERANK_MIN_SCORE || '0.2');
+    const lambda = options.mmr_lambda ?? parseFloat(process.env.RERANK_MMR_LAMBDA || '0.7');
+    const redundancyThreshold = options.redundancy_threshold ?? 0.85;
+
+    const candidates = this.toCandidates(results);
+    const report: RerankingReport = {
+      reranker: this.getRerankerName(),
+      candidates: candidates.length,
+      kept: [],
+      dropped: [],
+      mmr_lambda: lambda
+    };
+
+    if (candidates.length === 0) {
+      return { results: [], report };
+    }
+
+    // Score candidates, falling back to local overlap scoring if the reranker fails
+    let scores = new Map<string, number>();
+    if (this.reranker) {
+      try {
+        scores = new Map((await this.reranker.score(query, candidates)).map(s => [s.id, s.score]));
+      } catch (error) {
+        console.warn(`⚠️ ${this.reranker.name} reranker failed, using lexical overlap:`, error);
+        report.reranker = this.fallback.name;
+        report.fallback_reason = error instanceof Error ? error.message : String(error);
+        scores = new Map((await this.fallback.score(query, candidates)).map(s => [s.id, s.score]));
+      }
+    } else {
+      candidates.forEach(candidate => scores.set(candidate.id, candidate.retrieval_score));
+    }
+
+    // Only LLM scores are an absolute judgement of relevance. Lexical overlap scores a
+    // paraphrase that vector search found at 0.3 at most, so a threshold there would cut
+    // exactly the hits lexical search misses; MMR and the limit do the trimming instead.
+    const scoreOf = (candidate: RerankCandidate) => scores.get(candidate.id) ?? 0;
+    const thresholded = report.reranker === 'llm';
+    const pool: RerankCandidate[] = [];
+    for (const candidate of candidates) {
+      if (thresholded && scoreOf(candidate) < minScore) {
+        report.dropped.push(this.toDropped(candidate, 'below_relevance_threshold', scoreOf(candidate)));
+      } else {
+        pool.push(candidate);
+      }
+    }
+
+    // Greedy MMR selection over token sets
+    const terms = new Map(pool.map(candidate => [candidate.id, new Set(BM25Index.tokenize(candidate.content))]));
+    const selected: RerankCandidate[] = [];
+
+    while (pool.length > 0 && selected.length < options.limit) {
+      let bestIndex = -1;
+      let bestMMR = -Infinity;
+
+      for (let i = 0; i < pool.length; i++) {
+        const { similarity, similarTo } = this.maxSimilarity(pool[i], selected, terms);
+
+        if (similarTo && similarity >= redundancyThreshold) {
+          const [redundant] = pool.splice(i--, 1);
+          report.dropped.push({
+            ...this.toDropped(redundant, 'redundant', scoreOf(redundant)),
+            similar_to: similarTo.id,
+            similarity: this.round(similarity)
+          });
+          continue;
+        }
+
+        const mmr = lambda * scoreOf(pool[i]) - (1 - lambda) * similarity;
+        if (mmr > bestMMR) {
+          bestMMR = mmr;
+          bestIndex = i;
+        }
+      }
+
+      if (bestIndex === -1) break;
+      const [chosen] = pool.splice(bestIndex, 1);
+      selected.push(chosen);
+      report.kept.push({ id: chosen.id, rerank_score: this.round(scoreOf(chosen)), mmr_score: this.round(bestMMR) });
+    }
+
+    for (const leftover of pool) {
+      report.dropped.push(this.toDropped(leftover, 'over_limit', scoreOf(leftover)));
+    }
+
+    const resultsById = new Map(results.map(result => [`${result.document_id}#${result.chunk_index}`, result]));
+    return {
+      results: selected.map(candidate => resultsById.get(candidate.id)!),
+      report
+    };
+  }
+
+  private createReranker(name: RerankerName): Reranker | null {
+    switch (name) {
+      case 'none':
+        return null;
+      case 'llm':
+        try {
+          return new LLMReranker();
+        } catch (error) {
+          console.warn('⚠️ LLM reranker unavailable, using lexical overlap:', error);
+          return this.fallback;
+        }
+      case 'lexical':
+      default:
+        return this.fallback;
+    }
+  }
+
+  private toCandidates(results: SearchResult[]): RerankCandidate[] {
+    const seen = new Set<string>();
+    const candidates: RerankCandidate[] = [];
+
+    for (const result of results) {
+      const id = `${result.document_id}#${result.chunk_index}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      candidates.push({
+        id,
+        document_id: result.document_id,
+        chunk_index: result.chunk_index,
+        title: result.metadata.filename,
+        content: result.context || result.content_snippet,
+        retrieval_score: result.similarity_score
+      });
+    }
+
+    return candidates;
+  }
+
+  private maxSimilarity(
+    candidate: RerankCandidate,
+    selected: RerankCandidate[],
+    terms: Map<string, Set<string>>
+  ): { similarity: number; similarTo?: RerankCandidate } {
+    let similarity = 0;
+    let similarTo: RerankCandidate | undefined;
+    const candidateTerms = terms.get(candidate.id)!;
+
+    for (const other of selected) {
+      const otherTerms = terms.get(other.id)!;
+      let intersection = 0;
+      for (const term of candidateTerms) {
+        if (otherTerms.has(term)) intersection++;
+      }
+      const union = candidateTerms.size + otherTerms.size - intersection;
+      const jaccard = union > 0 ? intersection / union : 0;
+
+      if (jaccard > similarity) {
+        similarity = jaccard;
+        similarTo = other;
+      }
+    }
+
+    return { similarity, similarTo };
+  }
+
+  private toDropped(candidate: RerankCandidate, reason: DroppedChunk['reason'], score: number): DroppedChunk {
+    return {
+      id: candidate.id,
+      document_id: candidate.document_id,
+      chunk_index: candidate.chunk_index,
+      title: candidate.title,
+      reason,
+      rerank_score: this.round(score)
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
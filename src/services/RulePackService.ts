@@ -0,0 +1,417 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { RulePackModel } from '../models/RulePack.js';
+import {
+  BrokenLogicDetection,
+  PackRule,
+  RulePack,
+  SpecializedFileType,
+  SpecializedParseResult
+} from '../types/specialized-parser.js';
+import { ValidationRuleEngine } from './constraints/ValidationRuleEngine.js';
+import { ConstraintExpressionParser } from './constraints/ConstraintExpressionParser.js';
+import { DependencyGraphAnalyzer } from './parsers/DependencyGraphAnalyzer.js';
+
+export interface RulePackFilter {
+  file_type?: SpecializedFileType;
+  mozaik_version?: string;
+  enabled_only?: boolean;
+}
+
+export interface RulePackValidation {
+  packs: Array<Pick<RulePack, 'id' | 'name' | 'version'>>;
+  issues: BrokenLogicDetection[];
+}
+
+type Version = [number, number, number];
+type Comparator = (version: Version) => boolean;
+
+const RULE_TYPES: PackRule['type'][] = ['min', 'max', 'pattern', 'enum', 'required', 'custom'];
+const SEVERITIES: PackRule['severity'][] = ['critical', 'high', 'medium', 'low'];
+const FILE_TYPES = Object.values(SpecializedFileType) as string[];
+const PACK_FIELDS = '-_id -__v';
+
+/**
+ * Versioned rule packs per file type and Mozaik version. Built-in packs are JSON or
+ * YAML files in RULE_PACKS_DIR (rule-packs/ by default); admins add packs to the
+ * database, and a database pack with the id of a built-in one replaces it.
+ */
+export class RulePackService {
+  private static instance: RulePackService;
+
+  private directory: string;
+  private builtin: RulePack[] | null = null;
+  private engine = new ValidationRuleEngine();
+  private expressionParser = new ConstraintExpressionParser();
+  private graphAnalyzer = new DependencyGraphAnalyzer();
+
+  private constructor() {
+    this.directory = path.resolve(process.env.RULE_PACKS_DIR || 'rule-packs');
+  }
+
+  static getInstance(): RulePackService {
+    if (!RulePackService.instance) {
+      RulePackService.instance = new RulePackService();
+    }
+    return RulePackService.instance;
+  }
+
+  async listPacks(filter: RulePackFilter = {}): Promise<RulePack[]> {
+    const custom = await RulePackModel.find({}).select(PACK_FIELDS).lean<RulePack[]>();
+    const overridden = new Set(custom.map(pack => pack.id));
+    const packs = [...this.loadBuiltin().filter(pack => !overridden.has(pack.id)), ...custom];
+
+    return packs
+      .filter(pack => !filter.enabled_only || pack.enabled)
+      .filter(pack => !filter.file_type || pack.file_types.includes(filter.file_type))
+      .filter(pack => !filter.mozaik_version || this.matchesVersion(filter.mozaik_version, pack.mozaik_versions))
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async getPack(id: string): Promise<RulePack | null> {
+    const custom = await RulePackModel.findOne({ id }).select(PACK_FIELDS).lean<RulePack>();
+    return custom || this.loadBuiltin().find(pack => pack.id === id) || null;
+  }
+
+  async createPack(input: any, userId?: string): Promise<RulePack> {
+    const problems = this.validatePack(input);
+    if (problems.length > 0) {
+      throw new Error(`Invalid rule pack: ${problems.join('; ')}`);
+    }
+    if (await RulePackModel.exists({ id: input.id })) {
+      throw new Error(`Rule pack "${input.id}" already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const pack: RulePack = {
+      ...this.normalizePack(input, 'custom'),
+      created_by: userId,
+      created_at: now,
+      updated_at: now
+    };
+    await RulePackModel.create(pack);
+    return pack;
+  }
+
+  /**
+   * Update a pack, bumping its patch version unless a new version is given. Updating
+   * a built-in pack stores an edited copy that replaces it.
+   */
+  async updatePack(id: string, input: any, userId?: string): Promise<RulePack | null> {
+    const current = await this.getPack(id);
+    if (!current) return null;
+
+    const merged = { ...current, ...input, id };
+    const problems = this.validatePack(merged);
+    if (problems.length > 0) {
+      throw new Error(`Invalid rule pack: ${problems.join('; ')}`);
+    }
+
+    const now = new Date().toISOString();
+    const pack: RulePack = {
+      ...this.normalizePack(merged, 'custom'),
+      version: input.version && input.version !== current.version ? input.version : this.nextVersion(current.version),
+      created_by: current.source === 'custom' ? current.created_by : userId,
+      created_at: current.source === 'custom' && current.created_at ? current.created_at : now,
+      updated_at: now
+    };
+    await RulePackModel.replaceOne({ id }, pack, { upsert: true });
+    return pack;
+  }
+
+  /**
+   * Delete a database pack; a built-in pack it replaced applies again
+   */
+  async deletePack(id: string): Promise<boolean> {
+    const result = await RulePackModel.deleteOne({ id });
+    if (result.deletedCount > 0) return true;
+
+    if (this.loadBuiltin().some(pack => pack.id === id)) {
+      throw new Error(`Rule pack "${id}" is built in; disable it with enabled: false instead`);
+    }
+    return false;
+  }
+
+  /**
+   * Rule packs given as YAML (or JSON, which YAML includes) text
+   */
+  parsePackText(text: string): any {
+    return parseYaml(text);
+  }
+
+  /**
+   * Evaluate the packs that apply to a parse result, without changing it
+   */
+  async validate(result: SpecializedParseResult): Promise<RulePackValidation> {
+    const packs = await this.listPacks({
+      file_type: result.file_type,
+      mozaik_version: result.version_metadata.version,
+      enabled_only: true
+    });
+
+    const issues: BrokenLogicDetection[] = [];
+    for (const pack of packs) {
+      const evaluation = this.engine.evaluate(result, pack.rules, pack.id);
+      issues.push(...evaluation.issues);
+      result.warnings.push(...evaluation.warnings);
+    }
+
+    return {
+      packs: packs.map(({ id, name, version }) => ({ id, name, version })),
+      issues: DependencyGraphAnalyzer.orderIssues(issues)
+    };
+  }
+
+  /**
+   * Evaluate the packs that apply to a parse result and merge their findings into
+   * its broken logic, errors, part statuses and statistics
+   */
+  async apply(result: SpecializedParseResult): Promise<RulePackValidation> {
+    const validation = await this.validate(result);
+    const issues = validation.issues;
+
+    result.broken_logic = DependencyGraphAnalyzer.orderIssues([...result.broken_logic, ...issues]);
+    for (const issue of issues) {
+      const breaking = issue.severity === 'critical' || issue.severity === 'high';
+      if (breaking) {
+        result.errors.push({ type: 'validation', message: issue.description, severity: 'error', line_number: issue.line_number, position: issue.position });
+      }
+
+      const part = result.parts.find(candidate => candidate.id === issue.part_id);
+      if (part) {
+        part.status = breaking ? 'broken' : part.status === 'valid' ? 'warning' : part.status;
+        part.errors.push({ type: 'logic', message: issue.description, severity: breaking ? 'error' : 'warning', line_number: issue.line_number, position: issue.position });
+      }
+    }
+    if (result.file_structure.dependency_graph) {
+      this.graphAnalyzer.annotate(result.file_structure.dependency_graph, issues);
+    }
+
+    result.statistics.broken_logic_count = result.broken_logic.length;
+    result.statistics.error_count = result.errors.length;
+    result.statistics.warning_count = result.warnings.length;
+
+    return validation;
+  }
+
+  /**
+   * Problems with a rule pack, as messages; empty when it is valid
+   */
+  validatePack(input: any): string[] {
+    const problems: string[] = [];
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return ['Rule pack must be an object'];
+    }
+
+    if (typeof input.id !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(input.id)) {
+      problems.push('id must be letters, digits, dots, dashes or underscores');
+    }
+    if (typeof input.name !== 'string' || input.name.trim() === '') {
+      problems.push('name is required');
+    }
+    if (input.version !== undefined && !/^\d+(\.\d+){0,2}$/.test(String(input.version))) {
+      problems.push('version must look like 1.2.0');
+    }
+    if (!Array.isArray(input.file_types) || input.file_types.length === 0) {
+      problems.push('file_types must list at least one file type');
+    } else {
+      for (const fileType of input.file_types.filter((type: unknown) => !FILE_TYPES.includes(String(type).toLowerCase()))) {
+        problems.push(`file type "${fileType}" is not one of ${FILE_TYPES.join(', ')}`);
+      }
+    }
+    if (input.mozaik_versions !== undefined && input.mozaik_versions !== '') {
+      try {
+        this.parseRange(String(input.mozaik_versions));
+      } catch (error) {
+        problems.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (!Array.isArray(input.rules) || input.rules.length === 0) {
+      problems.push('rules must list at least one rule');
+      return problems;
+    }
+    const ids = new Set<string>();
+    input.rules.forEach((rule: any, index: number) => {
+      const label = `rule ${rule?.id || index + 1}`;
+      if (!rule || typeof rule !== 'object') {
+        problems.push(`${label} must be an object`);
+        return;
+      }
+      if (typeof rule.id !== 'string' || rule.id === '') {
+        problems.push(`${label} has no id`);
+      } else if (ids.has(rule.id)) {
+        problems.push(`${label} is defined twice`);
+      }
+      ids.add(rule.id);
+      if (!RULE_TYPES.includes(rule.type)) {
+        problems.push(`${label} type must be one of ${RULE_TYPES.join(', ')}`);
+      }
+      if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity)) {
+        problems.push(`${label} severity must be one of ${SEVERITIES.join(', ')}`);
+      }
+      for (const field of ['part_types', 'parameters']) {
+        if (rule[field] !== undefined && (!Array.isArray(rule[field]) || rule[field].some((item: unknown) => typeof item !== 'string'))) {
+          problems.push(`${label} ${field} must be a list of names`);
+        }
+      }
+      problems.push(...this.validateRuleValue(rule, label));
+    });
+
+    return problems;
+  }
+
+  // Built-in packs
+
+  private loadBuiltin(): RulePack[] {
+    if (this.builtin) return this.builtin;
+
+    this.builtin = [];
+    if (!fs.existsSync(this.directory)) {
+      console.warn(`⚠️ Rule pack directory ${this.directory} not found; only database rule packs apply`);
+      return this.builtin;
+    }
+
+    for (const file of fs.readdirSync(this.directory).filter(name => /\.(json|ya?ml)$/i.test(name)).sort()) {
+      try {
+        const text = fs.readFileSync(path.join(this.directory, file), 'utf8');
+        const input = file.toLowerCase().endsWith('.json') ? JSON.parse(text) : this.parsePackText(text);
+        const problems = this.validatePack(input);
+        if (problems.length > 0) {
+          console.warn(`⚠️ Skipping rule pack ${file}: ${problems.join('; ')}`);
+          continue;
+        }
+        this.builtin.push(this.normalizePack(input, 'builtin'));
+      } catch (error) {
+        console.warn(`⚠️ Skipping rule pack ${file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(`📏 Loaded ${this.builtin.length} built-in rule packs from ${this.directory}`);
+    return this.builtin;
+  }
+
+  private normalizePack(input: any, source: RulePack['source']): RulePack {
+    return {
+      id: input.id,
+      name: input.name.trim(),
+      version: input.version ? String(input.version) : '1.0.0',
+      description: input.description,
+      file_types: input.file_types.map((type: string) => type.toLowerCase() as SpecializedFileType),
+      mozaik_versions: input.mozaik_versions || undefined,
+      enabled: input.enabled !== false,
+      rules: input.rules.map((rule: any): PackRule => ({
+        id: rule.id,
+        type: rule.type,
+        value: rule.value,
+        message: rule.message || '',
+        description: rule.description,
+        part_types: rule.part_types,
+        parameters: rule.parameters,
+        severity: rule.severity || 'medium',
+        suggested_fix: rule.suggested_fix
+      })),
+      source
+    };
+  }
+
+  private validateRuleValue(rule: any, label: string): string[] {
+    switch (rule.type) {
+      case 'min':
+      case 'max':
+        return typeof rule.value === 'number' || /^\s*-?(\d+(\.\d+)?|\.\d+)\s*[A-Za-z]*\s*$/.test(String(rule.value ?? ''))
+          ? []
+          : [`${label} value must be a number, optionally with a unit`];
+      case 'pattern':
+        try {
+          new RegExp(String(rule.value ?? ''));
+          return rule.value ? [] : [`${label} needs a pattern`];
+        } catch (error) {
+          return [`${label} pattern is not a valid regular expression`];
+        }
+      case 'enum':
+        return (Array.isArray(rule.value) && rule.value.length > 0) || (typeof rule.value === 'string' && rule.value.trim() !== '')
+          ? []
+          : [`${label} needs a list of allowed values`];
+      case 'required':
+        return rule.parameters?.length || (Array.isArray(rule.value) && rule.value.length > 0) || (typeof rule.value === 'string' && rule.value.trim() !== '')
+          ? []
+          : [`${label} must list the required parameters`];
+      case 'custom':
+        try {
+          this.expressionParser.parse(String(rule.value ?? ''));
+          return [];
+        } catch (error) {
+          return [`${label} condition is invalid: ${error instanceof Error ? error.message : error}`];
+        }
+      default:
+        return [];
+    }
+  }
+
+  // Version ranges
+
+  /**
+   * Whether a version is in a range like ">=1.0.0 <3.0.0", "^2.1", "1.x || 2.4.*"
+   */
+  private matchesVersion(version: string, range: string | undefined): boolean {
+    if (!range) return true;
+    const parsed = this.parseVersion(version);
+    if (!parsed) return true; // Files without a readable version get every pack
+
+    return this.parseRange(range).some(comparators => comparators.every(matches => matches(parsed)));
+  }
+
+  private parseRange(range: string): Comparator[][] {
+    return range.split('||').map(alternative => {
+      const terms = alternative.trim().split(/\s+/).filter(Boolean);
+      if (terms.length === 0) {
+        throw new Error(`Empty alternative in version range "${range}"`);
+      }
+      return terms.map(term => this.parseComparator(term, range));
+    });
+  }
+
+  private parseComparator(term: string, range: string): Comparator {
+    const match = term.match(/^(>=|<=|>|<|=|\^|~)?v?(\*|x|\d+)(?:\.(\*|x|\d+))?(?:\.(\*|x|\d+))?$/i);
+    if (!match) {
+      throw new Error(`Invalid version "${term}" in version range "${range}"`);
+    }
+
+    const [, operator = '', ...fields] = match;
+    const given = fields.filter(field => field !== undefined && !/^[*x]$/i.test(field)).map(Number);
+    const lower: Version = [given[0] || 0, given[1] || 0, given[2] || 0];
+    const compare = (version: Version) => this.compareVersions(version, lower);
+
+    // Upper bound of a partial version (1.x is <2.0.0), ^ (next major) and ~ (next minor)
+    const upperAt = operator === '^' ? Math.min(given.findIndex(field => field !== 0) + 1 || given.length, given.length)
+      : operator === '~' ? Math.min(2, given.length)
+      : given.length;
+    const upper: Version | null = upperAt === 0 ? null
+      : [0, 1, 2].map(index => index < upperAt - 1 ? lower[index] : index === upperAt - 1 ? lower[index] + 1 : 0) as Version;
+    const inPartial = (version: Version) => compare(version) >= 0 && (!upper || this.compareVersions(version, upper) < 0);
+
+    switch (operator) {
+      case '>=': return version => compare(version) >= 0;
+      case '>': return version => given.length < 3 && upper ? this.compareVersions(version, upper) >= 0 : compare(version) > 0;
+      case '<=': return version => given.length < 3 && upper ? this.compareVersions(version, upper) < 0 : compare(version) <= 0;
+      case '<': return version => compare(version) < 0;
+      default: return inPartial; // =, ^, ~ and bare versions
+    }
+  }
+
+  private parseVersion(version: string): Version | null {
+    const match = version.match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+    return match ? [parseInt(match[1]), parseInt(match[2] || '0'), parseInt(match[3] || '0')] : null;
+  }
+
+  private compareVersions(a: Version, b: Version): number {
+    return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+  }
+
+  private nextVersion(version: string): string {
+    const [major, minor, patch] = this.parseVersion(version) || [1, 0, 0];
+    return `${major}.${minor}.${patch + 1}`;
+  }
+}
@@ -0,0 +1,75 @@
+import path from 'path';
+import {
+  SpecializedFileParser,
+  SpecializedFileType,
+  SpecializedParserConfig,
+  SpecializedParseResult
+} from '../types/specialized-parser.js';
+import { SpecializedParser } from './parsers/SpecializedParser.js';
+import { CABParser } from './parsers/CABParser.js';
+import { CABXParser } from './parsers/CABXParser.js';
+
+const TYPE_DESCRIPTIONS: Record<SpecializedFileType, string> = {
+  [SpecializedFileType.XML]: 'XML files with parts, parameters, and constraints',
+  [SpecializedFileType.MOZ]: 'Mozaik project files with components and settings',
+  [SpecializedFileType.DAT]: 'Mozaik data files with parameters and values',
+  [SpecializedFileType.DES]: 'Mozaik design files with layout and configuration',
+  [SpecializedFileType.CAB]: 'Cabinet files with components, parameters, and constraints',
+  [SpecializedFileType.CABX]: 'Extended cabinet files, plain or as a ZIP container',
+  [SpecializedFileType.MZB]: 'Mozaik model files with variables, boundaries, and constraints'
+};
+
+export class SpecializedParserRegistry {
+  private parsers: Map<SpecializedFileType, SpecializedFileParser>;
+
+  constructor(config: Partial<SpecializedParserConfig> = {}) {
+    this.parsers = new Map();
+    this.initializeParsers(config);
+  }
+
+  private initializeParsers(config: Partial<SpecializedParserConfig>): void {
+    this.registerParser(new SpecializedParser(config));
+    this.registerParser(new CABParser(config));
+    this.registerParser(new CABXParser(config));
+  }
+
+  registerParser(parser: SpecializedFileParser): void {
+    for (const fileType of parser.getSupportedTypes()) {
+      this.parsers.set(fileType, parser);
+    }
+  }
+
+  createParser(fileType: SpecializedFileType): SpecializedFileParser {
+    const parser = this.parsers.get(fileType);
+    if (!parser) {
+      throw new Error(`No specialized parser available for file type: ${fileType}`);
+    }
+    return parser;
+  }
+
+  async parse(file: Buffer | string, fileType: SpecializedFileType): Promise<SpecializedParseResult> {
+    return this.createParser(fileType).parse(file, fileType);
+  }
+
+  getSupportedTypes(): SpecializedFileType[] {
+    return Array.from(this.parsers.keys());
+  }
+
+  getSupportedExtensions(): string[] {
+    return this.getSupportedTypes().map(fileType => `.${fileType}`);
+  }
+
+  getSupportedTypeInfo(): Array<{ type: SpecializedFileType; extensions: string[]; description: string }> {
+    return this.getSupportedTypes().map(fileType => ({
+      type: fileType,
+      extensions: [`.${fileType}`],
+      description: TYPE_DESCRIPTIONS[fileType]
+    }));
+  }
+
+  // Helper method to get file type from filename
+  getFileTypeFromFilename(filename: string): SpecializedFileType | null {
+    const extension = path.extname(filename).toLowerCase().substring(1);
+    return this.parsers.has(extension as SpecializedFileType) ? extension as SpecializedFileType : null;
+  }
+}
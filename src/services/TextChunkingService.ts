@@ -1,6 +1,20 @@
-import { ChunkingConfig, TextChunk } from '../types/file-parser.js';
+import { ChunkingConfig, DocumentSection, ParseResult, TableData, TextChunk } from '../types/file-parser.js';
+import { ChunkRecord } from '../types/vector-db.js';
 import { v4 as uuidv4 } from 'uuid';
 
+// A stretch of the content between tables, and the section it belongs to
+interface TextSpan {
+  start: number;
+  end: number;
+  section?: DocumentSection;
+  complete: boolean; // The whole section, not cut by a table
+  page?: number; // The page it starts on, for paged documents
+}
+
+export type StoredChunkText = Pick<ChunkRecord,
+  'id' | 'chunk_index' | 'content' | 'token_count' | 'start_position' | 'end_position' |
+  'section_id' | 'section_ids' | 'page_number' | 'is_complete_section'>;
+
 export class TextChunkingService {
   private defaultConfig: ChunkingConfig = {
     chunk_size: 1000,
@@ -30,6 +44,52 @@ export class TextChunkingService {
     return this.recursiveChunk(text, finalConfig);
   }
 
+  /**
+   * Chunk a parsed document along the structure the parser found. Sections are never
+   * split across a chunk boundary unless they are larger than the chunk size. Small
+   * sibling sections, the parts of a section that a table splits, and spans below the
+   * minimum chunk size are merged up to the chunk size, as long as they start on the
+   * same page. Tables become chunks of their own that repeat the header row. Every
+   * chunk keeps its section ids and page number.
+   */
+  async chunkParseResult(result: ParseResult, config?: Partial<ChunkingConfig>): Promise<TextChunk[]> {
+    const finalConfig = { ...this.defaultConfig, ...config };
+    const content = result.content || '';
+    const sections = result.sections || [];
+    const tables = [...(result.tables || [])].sort((a, b) => a.start_position - b.start_position);
+    const pageOffsets = result.pages && result.pages.length > 0 ? result.pages.map(page => page.start_position) : undefined;
+
+    const textChunks: TextChunk[] = [];
+    let group: TextSpan[] = [];
+    const flush = () => {
+      if (group.length > 0) textChunks.push(this.createSpanChunk(content, group));
+      group = [];
+    };
+
+    for (const span of this.sectionSpans(content, sections, tables, result.body_start || 0, pageOffsets)) {
+      if (span.end - span.start > finalConfig.chunk_size) {
+        flush();
+        const pieces = this.recursiveChunk(content.slice(span.start, span.end), finalConfig, span.start);
+        pieces.forEach(piece => this.tagChunk(piece, [span.section]));
+        textChunks.push(...pieces);
+      } else if (group.length > 0 && this.canMerge(group, span, finalConfig)) {
+        group.push(span);
+      } else {
+        flush();
+        group = [span];
+      }
+    }
+    flush();
+
+    const chunks = [
+      ...this.absorbSmallChunks(textChunks, finalConfig, pageOffsets),
+      ...tables.flatMap(table => this.chunkTable(table, this.sectionAt(sections, table.start_position), finalConfig))
+    ].sort((a, b) => a.start_position - b.start_position);
+
+    chunks.forEach((chunk, index) => { chunk.metadata.chunk_index = index; });
+    return this.assignPageNumbers(chunks, pageOffsets);
+  }
+
   /**
    * Chunk text by sections (headers)
    */
@@ -50,7 +110,7 @@ export class TextChunkingService {
         if (currentSection.trim()) {
           const sectionChunks = this.splitSectionIntoChunks(
             currentSection,
-            currentPosition,
+            currentPosition - currentSection.length,
             chunkIndex,
             config
           );
@@ -247,6 +307,237 @@ export class TextChunkingService {
     };
   }
 
+  /**
+   * The content cut into spans: one per section, running from its heading to the next
+   * heading, plus any text before the first. Table ranges are cut out of the spans, spans
+   * are split at page breaks, and nothing before the body start (e.g. front matter read
+   * as metadata) is kept.
+   */
+  private sectionSpans(
+    content: string,
+    sections: DocumentSection[],
+    tables: TableData[],
+    bodyStart: number,
+    pageOffsets?: number[]
+  ): TextSpan[] {
+    const sorted = [...sections].sort((a, b) => a.start_position - b.start_position);
+    const bounds: TextSpan[] = [];
+    if (sorted.length === 0 || sorted[0].start_position > bodyStart) {
+      bounds.push({ start: bodyStart, end: sorted.length > 0 ? sorted[0].start_position : content.length, complete: true });
+    }
+    sorted.forEach((section, index) => {
+      const end = index + 1 < sorted.length ? sorted[index + 1].start_position : content.length;
+      const start = Math.max(section.start_position, bodyStart);
+      if (end > start) {
+        bounds.push({ start, end, section, complete: true });
+      }
+    });
+
+    const spans: TextSpan[] = [];
+    for (const bound of bounds) {
+      let start = bound.start;
+      const cuts = tables.filter(table => table.start_position < bound.end && table.end_position > bound.start);
+      for (const table of cuts) {
+        spans.push({ ...bound, start, end: Math.max(start, table.start_position), complete: false });
+        start = Math.max(start, table.end_position);
+      }
+      spans.push({ ...bound, start, end: bound.end, complete: bound.complete && cuts.length === 0 });
+    }
+
+    // Spans also end at page breaks, so each cites the page its text is on
+    const paged = spans.flatMap(span => {
+      const breaks = (pageOffsets || []).filter(offset => offset > span.start && offset < span.end);
+      if (breaks.length === 0) return [span];
+      return [span.start, ...breaks].map((start, index) => ({
+        ...span,
+        start,
+        end: index < breaks.length ? breaks[index] : span.end,
+        complete: false
+      }));
+    });
+
+    return paged
+      .filter(span => content.slice(span.start, span.end).trim().length > 0)
+      .map(span => ({ ...span, page: this.pageAt(span.start, pageOffsets) }));
+  }
+
+  /**
+   * A span joins the group before it when both start on the same page, the result fits
+   * the chunk size, and they belong together: the same section, sibling sections at the
+   * same level, or either is below the minimum chunk size
+   */
+  private canMerge(group: TextSpan[], span: TextSpan, config: ChunkingConfig): boolean {
+    const last = group[group.length - 1];
+    const length = span.end - group[0].start - this.gapLength(group, span);
+    if (span.page !== group[0].page || length > config.chunk_size) return false;
+
+    const groupLength = group.reduce((total, item) => total + item.end - item.start, 0);
+    if (groupLength < config.min_chunk_size || span.end - span.start < config.min_chunk_size) return true;
+    if (last.section === span.section) return true;
+    if (!last.section || !span.section) return false;
+    return last.section.level === span.section.level;
+  }
+
+  /**
+   * Chunks below the minimum size are merged into the next chunk, or else the previous
+   * one, when it starts on the same page and the result stays within the maximum chunk
+   * size. One that fits nowhere, such as a short page, stays a chunk of its own so its
+   * text is still indexed.
+   */
+  private absorbSmallChunks(chunks: TextChunk[], config: ChunkingConfig, pageOffsets?: number[]): TextChunk[] {
+    const kept = [...chunks];
+    const fits = (a: TextChunk, b: TextChunk) => this.pageAt(a.start_position, pageOffsets) === this.pageAt(b.start_position, pageOffsets)
+      && a.content.length + b.content.length + 2 <= config.max_chunk_size;
+
+    for (let i = 0; i < kept.length;) {
+      const chunk = kept[i];
+      if (chunk.content.length >= config.min_chunk_size) {
+        i++;
+        continue;
+      }
+
+      const next = kept[i + 1];
+      const previous = kept[i - 1];
+      if (next && fits(chunk, next)) {
+        kept.splice(i, 2, this.joinChunks(chunk, next));
+      } else if (previous && fits(previous, chunk)) {
+        kept.splice(i - 1, 2, this.joinChunks(previous, chunk));
+      } else {
+        i++;
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Chunks of a table, each led by the title and header row and holding as many rows
+   * as fit in the chunk size (at least one)
+   */
+  private chunkTable(table: TableData, section: DocumentSection | undefined, config: ChunkingConfig): TextChunk[] {
+    const lead = [table.title, table.headers.length > 0 ? table.headers.join(' | ') : ''].filter(Boolean).join('\n');
+    const rows = table.rows.map(row => row.join(' | '));
+    const groups: string[][] = [];
+    let group: string[] = [];
+    let size = lead.length;
+
+    for (const row of rows) {
+      if (group.length > 0 && size + row.length + 1 > config.chunk_size) {
+        groups.push(group);
+        group = [];
+        size = lead.length;
+      }
+      group.push(row);
+      size += row.length + 1;
+    }
+    if (group.length > 0 || (groups.length === 0 && lead)) groups.push(group);
+
+    return groups.map((rowGroup, index) => {
+      const chunk = this.createChunk(
+        [lead, ...rowGroup].filter(Boolean).join('\n'),
+        table.start_position,
+        table.end_position,
+        index,
+        groups.length === 1
+      );
+      this.tagChunk(chunk, [section], table.page_number);
+      return chunk;
+    });
+  }
+
+  /**
+   * One chunk of consecutive spans, each trimmed and set apart by a blank line so a
+   * heading never runs into the text before it
+   */
+  private createSpanChunk(content: string, spans: TextSpan[]): TextChunk {
+    const chunk = this.createChunk(
+      spans.map(span => content.slice(span.start, span.end).trim()).join('\n\n'),
+      spans[0].start,
+      spans[spans.length - 1].end,
+      0,
+      spans.every(span => span.complete && span.section !== undefined)
+    );
+    return this.tagChunk(chunk, spans.map(span => span.section));
+  }
+
+  private joinChunks(first: TextChunk, second: TextChunk): TextChunk {
+    const chunk = this.createChunk(
+      `${first.content}\n\n${second.content}`,
+      first.start_position,
+      Math.max(first.end_position, second.end_position),
+      0,
+      first.metadata.is_complete_section && second.metadata.is_complete_section
+    );
+    const sectionIds = [first, second].flatMap(item => item.section_ids || (item.section_id ? [item.section_id] : []));
+    return this.tagChunk(chunk, sectionIds.map(id => ({ id })), first.metadata.page_number ?? second.metadata.page_number);
+  }
+
+  /**
+   * Record the sections a chunk holds text of: the first as section_id, and all of
+   * them as section_ids when there are several
+   */
+  private tagChunk(chunk: TextChunk, sections: Array<Pick<DocumentSection, 'id' | 'page_number'> | undefined>, pageNumber?: number): TextChunk {
+    const ids = [...new Set(sections.filter(section => section !== undefined).map(section => section!.id))];
+    if (ids.length > 0) chunk.section_id = ids[0];
+    if (ids.length > 1) chunk.section_ids = ids;
+    const page = pageNumber ?? sections.find(section => section?.page_number !== undefined)?.page_number;
+    if (page !== undefined) chunk.metadata.page_number = page;
+    return chunk;
+  }
+
+  private sectionAt(sections: DocumentSection[], position: number): DocumentSection | undefined {
+    let found: DocumentSection | undefined;
+    for (const section of [...sections].sort((a, b) => a.start_position - b.start_position)) {
+      if (section.start_position > position) break;
+      found = section;
+    }
+    return found;
+  }
+
+  // Characters between consecutive spans that the chunk leaves out, i.e. tables
+  private gapLength(group: TextSpan[], span: TextSpan): number {
+    const spans = [...group, span];
+    return spans.slice(1).reduce((total, item, index) => total + Math.max(0, item.start - spans[index].end), 0);
+  }
+
+  private pageAt(position: number, pageOffsets?: number[]): number | undefined {
+    if (!pageOffsets || pageOffsets.length === 0) return undefined;
+    let page = 0;
+    while (page + 1 < pageOffsets.length && pageOffsets[page + 1] <= position) page++;
+    return page + 1;
+  }
+
+  /**
+   * Set the page each chunk starts on, given where every page starts in the text
+   */
+  assignPageNumbers(chunks: TextChunk[], pageOffsets?: number[]): TextChunk[] {
+    if (!pageOffsets || pageOffsets.length === 0) return chunks;
+
+    for (const chunk of chunks) {
+      chunk.metadata.page_number = this.pageAt(chunk.start_position, pageOffsets);
+    }
+    return chunks;
+  }
+
+  /**
+   * Rebuild a text chunk from its stored record, keyed by the chunk record id
+   */
+  static fromChunkRecord(chunk: StoredChunkText): TextChunk {
+    return {
+      id: chunk.id,
+      content: chunk.content,
+      token_count: chunk.token_count,
+      start_position: chunk.start_position,
+      end_position: chunk.end_position,
+      section_id: chunk.section_id,
+      section_ids: chunk.section_ids,
+      metadata: {
+        chunk_index: chunk.chunk_index,
+        is_complete_section: chunk.is_complete_section,
+        page_number: chunk.page_number
+      }
+    };
+  }
+
   /**
    * Estimate token count (rough approximation)
    */
@@ -1,51 +1,89 @@
 import { v4 as uuidv4 } from 'uuid';
-import { VectorDBService as IVectorDBService, DocumentVector, User, SearchResult, SearchFilters } from '../types/vector-db.js';
+import { VectorDBService as IVectorDBService, DocumentVector, User, SearchResult, SearchResponse, SearchFilters, SearchOptions, SearchMode, RetrievalDetails, RetrievalCorpus, ThresholdDetails, ComponentSearchFilters, DocumentAccess, VectorStore, VectorRecord, VectorRecordMetadata, VectorMatch, ChunkRecord, ChunkStatus, DocumentStatus, EmbeddingSpaceReport } from '../types/vector-db.js';
 import { DocumentModel, SearchQueryModel } from '../models/Document.js';
+import { ChunkModel } from '../models/Chunk.js';
 import { EmbeddingService, EmbeddingResult } from './EmbeddingService.js';
 import { TextChunkingService } from './TextChunkingService.js';
-import { TextChunk } from '../types/file-parser.js';
+import { getVectorStore } from './VectorStoreFactory.js';
+import { LexicalIndexService } from './LexicalIndexService.js';
+import { ComponentIndexService, ParsedComponents } from './ComponentIndexService.js';
+import { ParseResult, TextChunk } from '../types/file-parser.js';
+import { getRetrievalConfig, getAdaptiveThresholdConfig, resolveCorpus } from '../config/retrieval.js';
+import { resolveAccess } from '../utils/access.js';
+
+interface RankedMatch extends VectorMatch {
+  retrieval?: RetrievalDetails;
+}
+
+type DocumentIdentity = Pick<DocumentVector, 'id' | 'metadata' | 'created_at'>;
 
 export class VectorDBService implements IVectorDBService {
   private embeddingService: EmbeddingService;
   private chunkingService: TextChunkingService;
+  private vectorStore: VectorStore;
+  private lexicalIndex: LexicalIndexService;
+  private componentIndex: ComponentIndexService;
 
   constructor() {
     this.embeddingService = new EmbeddingService();
     this.chunkingService = new TextChunkingService();
+    this.vectorStore = getVectorStore();
+    this.lexicalIndex = LexicalIndexService.getInstance();
+    this.componentIndex = new ComponentIndexService(this.embeddingService);
   }
 
   // Document operations
-  async addDocument(document: DocumentVector): Promise<string> {
+  async addDocument(document: DocumentVector, parseResult?: ParseResult): Promise<string> {
     try {
       console.log(`Adding document: ${document.title}`);
       
-      // Generate chunks from content
-      const chunks = await this.chunkingService.chunkText(document.content);
+      // Generate chunks along the parsed structure when there is one, else from content
+      const chunks = parseResult
+        ? await this.chunkingService.chunkParseResult(parseResult)
+        : this.chunkingService.assignPageNumbers(
+          await this.chunkingService.chunkText(document.content),
+          document.metadata.page_offsets
+        );
       console.log(`Generated ${chunks.length} chunks for document`);
       
       // Generate embeddings for chunks
       const embeddings = await this.embeddingService.generateEmbeddings(chunks);
-      console.log(`Generated ${embeddings.length} embeddings`);
+      const failedEmbeddings = embeddings.filter(emb => emb.error).length;
+      console.log(`Generated ${embeddings.length - failedEmbeddings} embeddings`);
+      if (failedEmbeddings > 0) {
+        console.warn(`⚠️ ${failedEmbeddings}/${chunks.length} chunks failed to embed and were queued for retry`);
+      }
       
-      // Update document with processed data
-      const documentWithEmbeddings = {
-        ...document,
+      // Chunk text and vectors are stored in the chunk collection, not on the document
+      const { content_chunks, vectors, ...documentFields } = document;
+      const documentRecord = {
+        ...documentFields,
         id: document.id || uuidv4(),
-        content_chunks: chunks.map(chunk => chunk.content),
-        vectors: embeddings.map(emb => emb.vector),
-        chunks: chunks,
+        metadata: { ...document.metadata, ...resolveAccess(document.metadata) },
+        chunk_count: chunks.length,
         embeddings_model: this.embeddingService.getConfig().model,
-        status: 'ready' as const,
+        status: failedEmbeddings > 0 ? 'partial' as const : 'ready' as const,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       };
 
       // Save to MongoDB
-      const mongoDoc = new DocumentModel(documentWithEmbeddings);
+      const mongoDoc = new DocumentModel(documentRecord);
       await mongoDoc.save();
+      await ChunkModel.insertMany(this.toChunkRecords(documentRecord, chunks, embeddings));
+
+      await this.vectorStore.upsert(this.toVectorRecords(
+        documentRecord,
+        embeddings.map(emb => emb.vector)
+      ));
+      await this.lexicalIndex.upsertDocument(
+        documentRecord.id,
+        chunks,
+        this.toRecordMetadata(documentRecord)
+      );
       
-      console.log(`✅ Document saved successfully with ID: ${documentWithEmbeddings.id}`);
-      return documentWithEmbeddings.id;
+      console.log(`✅ Document saved successfully with ID: ${documentRecord.id}`);
+      return documentRecord.id;
     } catch (error) {
       console.error('Error adding document:', error);
       throw new Error(`Failed to add document: ${error}`);
@@ -55,7 +93,13 @@ export class VectorDBService implements IVectorDBService {
   async getDocument(id: string): Promise<DocumentVector | null> {
     try {
       const doc = await DocumentModel.findOne({ id }).lean();
-      return doc ? this.convertToDocumentVector(doc) : null;
+      if (!doc) return null;
+
+      const chunks = await ChunkModel.find({ document_id: id })
+        .select('chunk_index content vector')
+        .sort({ chunk_index: 1 })
+        .lean();
+      return this.convertToDocumentVector(doc, chunks);
     } catch (error) {
       console.error('Error getting document:', error);
       throw new Error(`Failed to get document: ${error}`);
@@ -64,12 +108,40 @@ export class VectorDBService implements IVectorDBService {
 
   async updateDocument(id: string, updates: Partial<DocumentVector>): Promise<void> {
     try {
+      const { vectors, content_chunks, ...fields } = updates;
       const updateData = {
-        ...updates,
+        ...fields,
         updated_at: new Date().toISOString()
       };
 
       await DocumentModel.updateOne({ id }, { $set: updateData });
+
+      const doc = await DocumentModel.findOne({ id }).lean();
+      if (doc) {
+        // Keep the denormalised chunk metadata and status in step with the document
+        const metadata = this.toRecordMetadata(doc);
+        await ChunkModel.updateMany(
+          { document_id: id },
+          { $set: { metadata, status: this.toChunkStatus(doc.status), updated_at: updateData.updated_at } }
+        );
+
+        // Replace the document's vectors in the vector store
+        if (vectors) {
+          await this.vectorStore.deleteDocument(id);
+          await this.vectorStore.upsert(this.toVectorRecords(doc, vectors));
+        }
+
+        if (this.toChunkStatus(doc.status) === 'ready') {
+          const chunks = await ChunkModel.find({ document_id: id })
+            .select('chunk_index content')
+            .sort({ chunk_index: 1 })
+            .lean();
+          await this.lexicalIndex.upsertDocument(id, chunks, metadata);
+        } else {
+          await this.lexicalIndex.removeDocument(id);
+        }
+      }
+
       console.log(`✅ Document ${id} updated successfully`);
     } catch (error) {
       console.error('Error updating document:', error);
@@ -80,6 +152,10 @@ export class VectorDBService implements IVectorDBService {
   async deleteDocument(id: string): Promise<void> {
     try {
       await DocumentModel.deleteOne({ id });
+      await ChunkModel.deleteMany({ document_id: id });
+      await this.vectorStore.deleteDocument(id);
+      await this.lexicalIndex.removeDocument(id);
+      await this.componentIndex.deleteDocument(id);
       console.log(`✅ Document ${id} deleted successfully`);
     } catch (error) {
       console.error('Error deleting document:', error);
@@ -87,6 +163,35 @@ export class VectorDBService implements IVectorDBService {
     }
   }
 
+  /**
+   * Change who besides the owner may retrieve a document
+   */
+  async updateDocumentAccess(id: string, access: DocumentAccess): Promise<void> {
+    try {
+      const doc = await DocumentModel.findOne({ id }).select('chunk_count').lean();
+      if (!doc) {
+        throw new Error(`Document ${id} not found`);
+      }
+
+      const accessFields = {
+        'metadata.visibility': access.visibility,
+        'metadata.shared_with': access.shared_with
+      };
+      await DocumentModel.updateOne({ id }, { $set: { ...accessFields, updated_at: new Date().toISOString() } });
+      await ChunkModel.updateMany({ document_id: id }, { $set: accessFields });
+      await this.componentIndex.updateAccess(id, access);
+
+      const chunkIds = Array.from({ length: doc.chunk_count || 0 }, (_, chunkIndex) => `${id}#${chunkIndex}`);
+      await this.vectorStore.updateAccess(id, chunkIds, access);
+      await this.lexicalIndex.updateAccess(id, access);
+
+      console.log(`✅ Document ${id} is now ${access.visibility} (shared with ${access.shared_with.length} users)`);
+    } catch (error) {
+      console.error('Error updating document access:', error);
+      throw new Error(`Failed to update document access: ${error}`);
+    }
+  }
+
   async listDocuments(userId: string, filters?: SearchFilters): Promise<DocumentVector[]> {
     try {
       const query: any = { 'metadata.uploaded_by': userId };
@@ -114,6 +219,8 @@ export class VectorDBService implements IVectorDBService {
         .sort({ created_at: -1 })
         .lean();
 
+      // Chunks are not loaded for listings; use getDocument for the full record
+
       return docs.map(doc => this.convertToDocumentVector(doc));
     } catch (error) {
       console.error('Error listing documents:', error);
@@ -122,87 +229,222 @@ export class VectorDBService implements IVectorDBService {
   }
 
   // Search operations
-  async search(query: string, filters?: SearchFilters, limit: number = 10): Promise<SearchResult[]> {
+  async search(query: string, filters?: SearchFilters, limit: number = 10, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const response = await this.searchDetailed(query, filters, limit, options);
+    return response.results;
+  }
+
+  /**
+   * Search and report the similarity threshold that was applied, so callers can
+   * explain an empty result set
+   */
+  async searchDetailed(query: string, searchFilters?: SearchFilters, limit: number = 10, options: SearchOptions = {}): Promise<SearchResponse> {
     try {
-      console.log(`Searching for: "${query}" with limit: ${limit}`);
-      
-      // Generate embedding for query
+      const filters = this.scopeFilters(searchFilters, options);
+      const mode: SearchMode = options.mode || (process.env.SEARCH_MODE as SearchMode) || 'hybrid';
+      console.log(`Searching for: "${query}" with limit: ${limit} (mode: ${mode})`);
+
+      // Over-fetch from each retriever so fusion can promote chunks ranked lower by one of them,
+      // and so adaptive thresholds see enough of the score distribution
+      const candidateCount = Math.max(limit * 4, 20);
+
+      if (mode === 'vector') {
+        const queryVector = await this.embeddingService.generateQueryEmbedding(query);
+        return this.searchVectorDetailed(queryVector, filters, limit, candidateCount, options);
+      }
+
+      const lexicalMatches = await this.lexicalIndex.query(query, candidateCount, filters);
+      if (mode === 'lexical') {
+        const topScore = lexicalMatches[0]?.score || 1;
+        const results = await this.resolveMatches(lexicalMatches.slice(0, limit).map((match, index) => ({
+          ...match,
+          score: match.score / topScore,
+          retrieval: { mode, lexical_rank: index + 1, lexical_score: match.score }
+        })));
+        return { results, threshold: null };
+      }
+
       const queryVector = await this.embeddingService.generateQueryEmbedding(query);
-      
-      // Perform vector search
-      return this.searchByVector(queryVector, filters, limit);
+      const candidates = await this.vectorStore.query(queryVector, candidateCount, filters);
+      const { passed: vectorMatches, threshold } = this.applyThreshold(candidates, resolveCorpus(filters, options.corpus), options);
+
+      const fused = this.fuseRankings(vectorMatches, lexicalMatches, options);
+      const results = await this.resolveMatches(fused.slice(0, limit).map(match => ({
+        ...match,
+        retrieval: { ...match.retrieval, threshold }
+      })));
+      return { results, threshold };
     } catch (error) {
       console.error('Error searching:', error);
       throw new Error(`Failed to search: ${error}`);
     }
   }
 
-  async searchByVector(vector: number[], filters?: SearchFilters, limit: number = 10): Promise<SearchResult[]> {
+  async searchByVector(vector: number[], filters?: SearchFilters, limit: number = 10, options: SearchOptions = {}): Promise<SearchResult[]> {
     try {
-      // Build MongoDB query with filters
-      const mongoQuery: any = { status: 'ready' };
-      
-      if (filters) {
-        if (filters.file_types?.length) {
-          mongoQuery['metadata.file_type'] = { $in: filters.file_types };
-        }
-        if (filters.categories?.length) {
-          mongoQuery['metadata.category'] = { $in: filters.categories };
-        }
-        if (filters.tags?.length) {
-          mongoQuery['metadata.tags'] = { $in: filters.tags };
-        }
-        if (filters.date_range) {
-          mongoQuery.created_at = {
-            ...(filters.date_range.start && { $gte: filters.date_range.start }),
-            ...(filters.date_range.end && { $lte: filters.date_range.end })
-          };
-        }
+      const response = await this.searchVectorDetailed(vector, this.scopeFilters(filters, options), limit, Math.max(limit * 4, 20), options);
+      return response.results;
+    } catch (error) {
+      console.error('Error searching by vector:', error);
+      throw new Error(`Failed to search by vector: ${error}`);
+    }
+  }
+
+  /**
+   * Restrict a search to what the searching user may see. Any access scope in the
+   * incoming filters is replaced, so request input can never widen it.
+   */
+  private scopeFilters<T extends SearchFilters | ComponentSearchFilters>(filters: T | undefined, options: Pick<SearchOptions, 'user_id'>): T {
+    return { ...(filters || {} as T), access: { user_id: options.user_id || null } };
+  }
+
+  private async searchVectorDetailed(
+    vector: number[],
+    filters: SearchFilters | undefined,
+    limit: number,
+    candidateCount: number,
+    options: SearchOptions
+  ): Promise<SearchResponse> {
+    const candidates = await this.vectorStore.query(vector, candidateCount, filters);
+    const { passed, threshold } = this.applyThreshold(candidates, resolveCorpus(filters, options.corpus), options);
+    const results = await this.resolveMatches(passed.slice(0, limit).map((match, index) => ({
+      ...match,
+      retrieval: { mode: 'vector' as const, vector_rank: index + 1, vector_score: match.score, threshold }
+    })));
+
+    // Sort by similarity and limit results
+    results.sort((a, b) => b.similarity_score - a.similarity_score);
+    return { results: results.slice(0, limit), threshold };
+  }
+
+  /**
+   * Drop matches below the corpus similarity threshold. In adaptive mode the threshold
+   * follows the query's score distribution: results close to the best score, or clearly
+   * above the mean, pass; the configured threshold acts as a floor.
+   */
+  private applyThreshold<T extends { score: number }>(
+    matches: T[],
+    corpus: RetrievalCorpus,
+    options: SearchOptions = {}
+  ): { passed: T[]; threshold: ThresholdDetails } {
+    const config = getRetrievalConfig(corpus);
+    const mode = options.threshold_mode || config.threshold_mode;
+    const floor = options.threshold ?? config.threshold;
+    const scores = matches.map(match => match.score);
+    const topScore = scores.length > 0 ? Math.max(...scores) : null;
+
+    let value = floor;
+    if (mode === 'adaptive' && topScore !== null) {
+      const { max_gap, z } = getAdaptiveThresholdConfig();
+      const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+      const std = Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length);
+      value = Math.max(floor, Math.min(topScore - max_gap, mean + z * std));
+    }
+
+    const passed = matches.filter(match => match.score >= value);
+    return {
+      passed,
+      threshold: {
+        corpus,
+        mode,
+        value: Math.round(value * 10000) / 10000,
+        candidates: matches.length,
+        passed: passed.length,
+        top_score: topScore
       }
+    };
+  }
 
-      // Get relevant documents
-      const documents = await DocumentModel.find(mongoQuery).lean();
-      
-      const results: SearchResult[] = [];
-
-      // Calculate similarities for each document's chunks
-      for (const doc of documents) {
-        const docWithChunks = doc as any; // Type assertion for additional fields
-        if (!docWithChunks.vectors || !docWithChunks.chunks) continue;
-
-        for (let i = 0; i < docWithChunks.vectors.length && i < docWithChunks.chunks.length; i++) {
-          const chunkVector = docWithChunks.vectors[i];
-          const chunk = docWithChunks.chunks[i];
-          
-          if (!chunkVector || !chunk) continue;
-
-          // Calculate similarity
-          const similarity = this.embeddingService.calculateSimilarity(vector, chunkVector);
-          
-          if (similarity > 0.7) { // Similarity threshold
-            results.push({
-              document_id: doc.id,
-              chunk_index: i,
-              similarity_score: similarity,
-              content_snippet: this.createSnippet(chunk.content),
-              context: this.createContext(docWithChunks.chunks, i),
-              metadata: {
-                filename: doc.metadata.filename,
-                page_number: chunk.metadata?.page_number,
-                section_title: this.extractSectionTitle(chunk.content)
-              }
-            });
-          }
+  /**
+   * Combine vector and lexical rankings with weighted reciprocal rank fusion.
+   * Scores are normalised so a chunk ranked first by both retrievers scores 1.
+   */
+  private fuseRankings(vectorMatches: VectorMatch[], lexicalMatches: VectorMatch[], options: SearchOptions): RankedMatch[] {
+    const k = options.rrf_k ?? 60;
+    const vectorWeight = options.weights?.vector ?? 1;
+    const lexicalWeight = options.weights?.lexical ?? 1;
+    const maxScore = (vectorWeight + lexicalWeight) / (k + 1) || 1;
+
+    const fused: Map<string, RankedMatch & { retrieval: RetrievalDetails }> = new Map();
+    const entryFor = (match: VectorMatch) => {
+      const key = `${match.document_id}#${match.chunk_index}`;
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = {
+          document_id: match.document_id,
+          chunk_index: match.chunk_index,
+          score: 0,
+          retrieval: { mode: 'hybrid', fused_score: 0 }
+        };
+        fused.set(key, entry);
+      }
+      return entry;
+    };
+
+    vectorMatches.forEach((match, index) => {
+      const entry = entryFor(match);
+      entry.retrieval.fused_score! += vectorWeight / (k + index + 1);
+      entry.retrieval.vector_rank = index + 1;
+      entry.retrieval.vector_score = match.score;
+    });
+
+    lexicalMatches.forEach((match, index) => {
+      const entry = entryFor(match);
+      entry.retrieval.fused_score! += lexicalWeight / (k + index + 1);
+      entry.retrieval.lexical_rank = index + 1;
+      entry.retrieval.lexical_score = match.score;
+    });
+
+    return [...fused.values()]
+      .map(entry => ({ ...entry, score: entry.retrieval.fused_score! / maxScore }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Turn ranked chunk matches into search results with chunk text and context
+   */
+  private async resolveMatches(matches: RankedMatch[]): Promise<SearchResult[]> {
+    if (matches.length === 0) return [];
+
+    // Load each matched chunk together with its neighbours for context
+    const chunkIds = new Set<string>();
+    for (const match of matches) {
+      for (let offset = -1; offset <= 1; offset++) {
+        if (match.chunk_index + offset >= 0) {
+          chunkIds.add(`${match.document_id}#${match.chunk_index + offset}`);
         }
       }
+    }
 
-      // Sort by similarity and limit results
-      results.sort((a, b) => b.similarity_score - a.similarity_score);
-      return results.slice(0, limit);
-    } catch (error) {
-      console.error('Error searching by vector:', error);
-      throw new Error(`Failed to search by vector: ${error}`);
+    const chunks = await ChunkModel.find({ status: 'ready', id: { $in: [...chunkIds] } })
+      .select('id content page_number metadata.filename')
+      .lean();
+    const chunksById = new Map(chunks.map(chunk => [chunk.id, chunk]));
+
+    const results: SearchResult[] = [];
+    for (const match of matches) {
+      const chunk = chunksById.get(`${match.document_id}#${match.chunk_index}`);
+      if (!chunk) continue;
+
+      const previous = chunksById.get(`${match.document_id}#${match.chunk_index - 1}`);
+      const next = chunksById.get(`${match.document_id}#${match.chunk_index + 1}`);
+
+      results.push({
+        document_id: match.document_id,
+        chunk_index: match.chunk_index,
+        similarity_score: match.score,
+        content_snippet: this.createSnippet(chunk.content),
+        context: this.createContext(chunk.content, previous?.content, next?.content),
+        metadata: {
+          filename: chunk.metadata.filename,
+          page_number: chunk.page_number,
+          section_title: this.extractSectionTitle(chunk.content),
+          ...(match.retrieval && { retrieval: match.retrieval })
+        }
+      });
     }
+
+    return results;
   }
 
   // User operations (using in-memory for now, can be extended to database)
@@ -245,23 +487,20 @@ export class VectorDBService implements IVectorDBService {
     total_documents: number;
     total_users: number;
     total_vectors: number;
+    total_chunks: number;
   }> {
     try {
       const totalDocuments = await DocumentModel.countDocuments();
       const totalUsers = this.users.size;
       
-      // Calculate total vectors
-      const vectorAggregation = await DocumentModel.aggregate([
-        { $project: { vectorCount: { $size: { $ifNull: ['$vectors', []] } } } },
-        { $group: { _id: null, totalVectors: { $sum: '$vectorCount' } } }
-      ]);
-      
-      const totalVectors = vectorAggregation[0]?.totalVectors || 0;
+      const totalVectors = await this.vectorStore.count();
+      const totalChunks = await ChunkModel.countDocuments();
 
       return {
         total_documents: totalDocuments,
         total_users: totalUsers,
-        total_vectors: totalVectors
+        total_vectors: totalVectors,
+        total_chunks: totalChunks
       };
     } catch (error) {
       console.error('Error getting stats:', error);
@@ -269,10 +508,59 @@ export class VectorDBService implements IVectorDBService {
     }
   }
 
+  /**
+   * Report which embedding models and dimensions the stored chunks were embedded with.
+   * Chunks from different embedding spaces cannot be compared with each other.
+   */
+  async getEmbeddingSpaceReport(): Promise<EmbeddingSpaceReport> {
+    try {
+      const config = this.embeddingService.getConfig();
+      const spaces = await ChunkModel.aggregate([
+        {
+          $group: {
+            _id: { model: '$embedding_model', dimensions: '$embedding_dimensions' },
+            chunks: { $sum: 1 }
+          }
+        },
+        { $sort: { chunks: -1 } }
+      ]);
+
+      const report: EmbeddingSpaceReport = {
+        active: {
+          provider: config.provider,
+          model: config.model,
+          dimensions: config.dimensions
+        },
+        spaces: spaces.map(space => ({
+          model: space._id.model ?? null,
+          dimensions: space._id.dimensions ?? null,
+          chunks: space.chunks
+        })),
+        mixed: spaces.length > 1,
+        matches_active: spaces.every(space =>
+          space._id.model === config.model && space._id.dimensions === config.dimensions
+        )
+      };
+
+      if (report.mixed || !report.matches_active) {
+        console.warn(`⚠️ Chunk store contains embeddings from ${spaces.length} embedding space(s) that do not all match ${config.model} (${config.dimensions} dimensions)`);
+      }
+
+      return report;
+    } catch (error) {
+      console.error('Error getting embedding space report:', error);
+      throw new Error(`Failed to get embedding space report: ${error}`);
+    }
+  }
+
   async clearData(): Promise<void> {
     try {
       await DocumentModel.deleteMany({});
+      await ChunkModel.deleteMany({});
       await SearchQueryModel.deleteMany({});
+      await this.vectorStore.clear();
+      this.lexicalIndex.clear();
+      await this.componentIndex.clear();
       this.users.clear();
       console.log('✅ All data cleared successfully');
     } catch (error) {
@@ -281,64 +569,43 @@ export class VectorDBService implements IVectorDBService {
     }
   }
 
+  /**
+   * Embed the parts, parameters and constraints of a specialized upload for component search
+   */
+  async indexSpecializedComponents(document: DocumentIdentity, components: ParsedComponents): Promise<number> {
+    return this.componentIndex.indexDocument(document, components);
+  }
+
   // Specialized search for parsed components
   async searchSpecializedComponents(
     query: string, 
-    componentTypes?: ('parts' | 'parameters' | 'constraints')[],
-    limit: number = 10
+    filters: ComponentSearchFilters = {},
+    limit: number = 10,
+    options: Pick<SearchOptions, 'user_id'> = {}
   ): Promise<SearchResult[]> {
     try {
-      const mongoQuery: any = { 
-        status: 'ready'
-      };
-
-      const documents = await DocumentModel.find(mongoQuery).lean();
       const queryVector = await this.embeddingService.generateQueryEmbedding(query);
-      const results: SearchResult[] = [];
-
-      for (const doc of documents) {
-        const docWithSpecialized = doc as any; // Type assertion for additional fields
-        if (!docWithSpecialized.specialized_data) continue;
-
-        const specializedData = docWithSpecialized.specialized_data;
-        
-        // Search in parts
-        if (!componentTypes || componentTypes.includes('parts')) {
-          const partResults = this.searchInComponents(
-            queryVector, 
-            specializedData.parts || [], 
-            doc.id, 
-            'parts'
-          );
-          results.push(...partResults);
-        }
-
-        // Search in parameters
-        if (!componentTypes || componentTypes.includes('parameters')) {
-          const paramResults = this.searchInComponents(
-            queryVector, 
-            specializedData.parameters || [], 
-            doc.id, 
-            'parameters'
-          );
-          results.push(...paramResults);
-        }
-
-        // Search in constraints
-        if (!componentTypes || componentTypes.includes('constraints')) {
-          const constraintResults = this.searchInComponents(
-            queryVector, 
-            specializedData.constraints || [], 
-            doc.id, 
-            'constraints'
-          );
-          results.push(...constraintResults);
+      const candidates = await this.componentIndex.query(queryVector, this.scopeFilters(filters, options));
+      const { passed, threshold } = this.applyThreshold(candidates, 'specialized');
+
+      return passed.slice(0, limit).map(({ component, score }, index) => ({
+        document_id: component.document_id,
+        chunk_index: ComponentIndexService.indexInDocument(component),
+        similarity_score: score,
+        content_snippet: this.createSnippet(component.text),
+        context: `${component.component_type}: ${component.name}`,
+        metadata: {
+          filename: component.metadata.filename,
+          section_title: component.name,
+          retrieval: { mode: 'vector' as const, vector_rank: index + 1, vector_score: score, threshold },
+          component: {
+            type: component.component_type,
+            id: component.component_id,
+            name: component.name,
+            position: component.position
+          }
         }
-      }
-
-      // Sort by similarity and limit results
-      results.sort((a, b) => b.similarity_score - a.similarity_score);
-      return results.slice(0, limit);
+      }));
     } catch (error) {
       console.error('Error searching specialized components:', error);
       throw new Error(`Failed to search specialized components: ${error}`);
@@ -346,13 +613,83 @@ export class VectorDBService implements IVectorDBService {
   }
 
   // Helper methods
-  private convertToDocumentVector(doc: any): DocumentVector {
+  private toChunkRecords(
+    document: DocumentIdentity & Pick<DocumentVector, 'status'>,
+    chunks: TextChunk[],
+    embeddings: EmbeddingResult[]
+  ): ChunkRecord[] {
+    const metadata = this.toRecordMetadata(document);
+    const now = new Date();
+    return chunks.map((chunk, chunkIndex) => ({
+      id: `${document.id}#${chunkIndex}`,
+      document_id: document.id,
+      chunk_index: chunkIndex,
+      content: chunk.content,
+      token_count: chunk.token_count,
+      start_position: chunk.start_position,
+      end_position: chunk.end_position,
+      section_id: chunk.section_id,
+      section_ids: chunk.section_ids,
+      page_number: chunk.metadata?.page_number,
+      is_complete_section: chunk.metadata?.is_complete_section ?? false,
+      vector: [],
+      embedding_model: embeddings[chunkIndex]?.model,
+      embedding_dimensions: embeddings[chunkIndex]?.dimensions,
+      ...(embeddings[chunkIndex]?.error
+        ? {
+            embedding_status: 'failed' as const,
+            embedding_error: embeddings[chunkIndex].error,
+            embedding_attempts: 1,
+            next_embedding_attempt_at: now
+          }
+        : { embedding_status: 'embedded' as const }),
+      metadata,
+      status: this.toChunkStatus(document.status),
+      created_at: document.created_at,
+      updated_at: document.created_at
+    }));
+  }
+
+  private toVectorRecords(document: DocumentIdentity, vectors: number[][]): VectorRecord[] {
+    const metadata = this.toRecordMetadata(document);
+    const model = this.embeddingService.getConfig().model;
+    return vectors
+      .map((vector, chunkIndex) => ({
+        id: `${document.id}#${chunkIndex}`,
+        document_id: document.id,
+        chunk_index: chunkIndex,
+        vector,
+        embedding_model: model,
+        embedding_dimensions: vector.length,
+        metadata
+      }))
+      .filter(record => record.vector.length > 0); // Failed chunks are embedded later by the retry queue
+  }
+
+  private toChunkStatus(status: DocumentStatus): ChunkStatus {
+    return status === 'partial' ? 'ready' : status;
+  }
+
+  private toRecordMetadata(document: DocumentIdentity): VectorRecordMetadata {
+    return {
+      filename: document.metadata.filename,
+      file_type: document.metadata.file_type,
+      category: document.metadata.category,
+      tags: document.metadata.tags || [],
+      uploaded_by: document.metadata.uploaded_by,
+      created_at: document.created_at,
+      ...resolveAccess(document.metadata)
+    };
+  }
+
+  private convertToDocumentVector(doc: any, chunks: Array<Pick<ChunkRecord, 'content' | 'vector'>> = []): DocumentVector {
     return {
       id: doc.id,
       title: doc.title,
       content: doc.content,
-      content_chunks: doc.content_chunks || [],
-      vectors: doc.vectors || [],
+      content_chunks: chunks.map(chunk => chunk.content),
+      vectors: chunks.map(chunk => chunk.vector || []),
+      chunk_count: doc.chunk_count ?? chunks.length,
       metadata: doc.metadata,
       embeddings_model: doc.embeddings_model,
       created_at: doc.created_at,
@@ -366,20 +703,20 @@ export class VectorDBService implements IVectorDBService {
     return content.substring(0, maxLength) + '...';
   }
 
-  private createContext(chunks: TextChunk[], currentIndex: number): string {
+  private createContext(current: string, previous?: string, next?: string): string {
     const contextChunks = [];
     
     // Add previous chunk if exists
-    if (currentIndex > 0 && chunks[currentIndex - 1]) {
-      contextChunks.push(this.createSnippet(chunks[currentIndex - 1].content, 100));
+    if (previous) {
+      contextChunks.push(this.createSnippet(previous, 100));
     }
     
     // Add current chunk
-    contextChunks.push(chunks[currentIndex].content);
+    contextChunks.push(current);
     
     // Add next chunk if exists
-    if (currentIndex < chunks.length - 1 && chunks[currentIndex + 1]) {
-      contextChunks.push(this.createSnippet(chunks[currentIndex + 1].content, 100));
+    if (next) {
+      contextChunks.push(this.createSnippet(next, 100));
     }
     
     return contextChunks.join(' ... ');
@@ -395,51 +732,4 @@ export class VectorDBService implements IVectorDBService {
     }
     return undefined;
   }
-
-  private searchInComponents(
-    queryVector: number[], 
-    components: any[], 
-    documentId: string, 
-    componentType: string
-  ): SearchResult[] {
-    const results: SearchResult[] = [];
-    
-    for (let i = 0; i < components.length; i++) {
-      const component = components[i];
-      const componentText = JSON.stringify(component);
-      
-      // For now, use text similarity (could be improved with component-specific embeddings)
-      const textSimilarity = this.calculateTextSimilarity(
-        queryVector.join(' '), // Simple text conversion for now
-        componentText
-      );
-      
-      if (textSimilarity > 0.3) {
-        results.push({
-          document_id: documentId,
-          chunk_index: i,
-          similarity_score: textSimilarity,
-          content_snippet: this.createSnippet(componentText),
-          context: `${componentType}: ${component.name || component.id || 'Unknown'}`,
-          metadata: {
-            filename: `${componentType}_${i}`,
-            section_title: component.name || component.id
-          }
-        });
-      }
-    }
-    
-    return results;
-  }
-
-  private calculateTextSimilarity(text1: string, text2: string): number {
-    // Simple Jaccard similarity for now - can be improved
-    const set1 = new Set(text1.toLowerCase().split(/\s+/));
-    const set2 = new Set(text2.toLowerCase().split(/\s+/));
-    
-    const intersection = new Set([...set1].filter(x => set2.has(x)));
-    const union = new Set([...set1, ...set2]);
-    
-    return intersection.size / union.size;
-  }
-} 
\ No newline at end of file
+}
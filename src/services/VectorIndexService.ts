@@ -0,0 +1,382 @@
+import fs from 'fs';
+import path from 'path';
+import { HNSWIndex, HNSWConfig, HNSWMatch, SerializedHNSWIndex } from './HNSWIndex.js';
+import { ChunkModel } from '../models/Chunk.js';
+
+export interface IndexedChunkMatch {
+  document_id: string;
+  chunk_index: number;
+  score: number;
+}
+
+export interface VectorIndexStats {
+  ready: boolean;
+  size: number;
+  dimensions: number;
+  deleted_ratio: number;
+  index_path: string;
+  last_persisted_at: string | null;
+  last_built_at: string | null;
+}
+
+// Chunk fields an index can be built from
+export interface IndexSourceChunk {
+  document_id: string;
+  chunk_index: number;
+  vector?: number[];
+  embedding_model?: string;
+  embedding_dimensions?: number;
+  staged_vector?: number[];
+  staged_namespace?: string;
+}
+
+interface BuiltIndex {
+  index: HNSWIndex;
+  documents: Map<string, number>;
+}
+
+interface PersistedIndexFile {
+  saved_at: string;
+  fingerprint: string; // Chunks the index was built from, see databaseFingerprint
+  document_count: number;
+  vector_count: number;
+  documents: Record<string, number>; // document id -> chunk count
+  index: SerializedHNSWIndex;
+}
+
+/**
+ * Process-wide approximate nearest-neighbour index over stored chunk vectors.
+ * Built from MongoDB on first use, kept in sync by VectorDBService and
+ * persisted to disk so restarts can skip the rebuild.
+ */
+export class VectorIndexService {
+  private static instance: VectorIndexService;
+
+  private index: HNSWIndex;
+  private documents: Map<string, number> = new Map();
+  private indexPath: string;
+  private config: Partial<HNSWConfig>;
+  private loading: Promise<void> | null = null;
+  private ready = false;
+  private persistTimer: NodeJS.Timeout | null = null;
+  private lastPersistedAt: string | null = null;
+  private lastBuiltAt: string | null = null;
+  private prepared: BuiltIndex | null = null;
+
+  private constructor() {
+    this.indexPath = process.env.VECTOR_INDEX_PATH || 'data/vector-index.json';
+    this.config = {
+      M: parseInt(process.env.VECTOR_INDEX_M || '16'),
+      ef_construction: parseInt(process.env.VECTOR_INDEX_EF_CONSTRUCTION || '200'),
+      ef_search: parseInt(process.env.VECTOR_INDEX_EF_SEARCH || '64')
+    };
+    this.index = new HNSWIndex(0, this.config);
+  }
+
+  static getInstance(): VectorIndexService {
+    if (!VectorIndexService.instance) {
+      VectorIndexService.instance = new VectorIndexService();
+    }
+    return VectorIndexService.instance;
+  }
+
+  /**
+   * Load the index from disk, or build it from MongoDB if no usable snapshot exists
+   */
+  async ensureReady(): Promise<void> {
+    if (this.ready) return;
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Add or replace all chunk vectors for a document
+   */
+  async upsertDocument(documentId: string, vectors: number[][]): Promise<void> {
+    await this.ensureReady();
+
+    this.removeFromIndex(documentId);
+
+    let indexed = 0;
+    vectors.forEach((vector, chunkIndex) => {
+      if (!this.isIndexable(vector)) return;
+      this.index.add(this.chunkKey(documentId, chunkIndex), vector);
+      indexed++;
+    });
+    this.documents.set(documentId, vectors.length);
+
+    if (indexed < vectors.length) {
+      console.warn(`⚠️ Indexed ${indexed}/${vectors.length} vectors for document ${documentId} (dimension mismatch or empty vectors skipped)`);
+    }
+
+    // Replacing a document leaves its old vectors behind as tombstones
+    this.compactIfNeeded();
+    this.schedulePersist();
+  }
+
+  /**
+   * Remove all chunk vectors for a document
+   */
+  async removeDocument(documentId: string): Promise<void> {
+    await this.ensureReady();
+    this.removeFromIndex(documentId);
+    this.compactIfNeeded();
+    this.schedulePersist();
+  }
+
+  /**
+   * Query the index for the nearest chunks
+   */
+  async query(vector: number[], k: number): Promise<IndexedChunkMatch[]> {
+    await this.ensureReady();
+    if (this.index.size === 0) return [];
+
+    if (vector.length !== this.index.getDimensions()) {
+      console.warn(`⚠️ Query vector has ${vector.length} dimensions but the index holds ${this.index.getDimensions()}; the embedding model has changed since these chunks were indexed`);
+      return [];
+    }
+
+    const efSearch = Math.max(this.config.ef_search || 64, k * 2);
+    return this.index.search(vector, Math.min(k, this.index.size), efSearch).map(match => this.toChunkMatch(match));
+  }
+
+  /**
+   * Score only the given chunks (`documentId#chunkIndex`) exactly, for queries
+   * whose filters leave few candidates
+   */
+  async queryAmong(vector: number[], chunkIds: string[], k: number): Promise<IndexedChunkMatch[]> {
+    await this.ensureReady();
+    if (this.index.size === 0) return [];
+
+    if (vector.length !== this.index.getDimensions()) {
+      console.warn(`⚠️ Query vector has ${vector.length} dimensions but the index holds ${this.index.getDimensions()}; the embedding model has changed since these chunks were indexed`);
+      return [];
+    }
+
+    return this.index.searchAmong(vector, chunkIds, k).map(match => this.toChunkMatch(match));
+  }
+
+  /**
+   * Discard the in-memory index and rebuild it from MongoDB
+   */
+  async rebuild(): Promise<void> {
+    this.ready = false;
+    await this.buildFromDatabase();
+    this.ready = true;
+    await this.persist();
+  }
+
+  /**
+   * Build a replacement index from MongoDB while the current one keeps serving.
+   * Nothing changes until activatePrepared() swaps it in.
+   */
+  async prepare(vectorFor: (chunk: IndexSourceChunk) => number[] | undefined): Promise<void> {
+    this.prepared = await this.buildIndex(vectorFor);
+  }
+
+  /**
+   * Swap the prepared index in. The swap happens before the first await, so callers
+   * can switch over in the same tick; the returned promise resolves once the new
+   * index is on disk, so a restart right after a cutover cannot load the old one.
+   */
+  async activatePrepared(): Promise<void> {
+    if (!this.prepared) {
+      throw new Error('No prepared vector index to activate');
+    }
+
+    this.index = this.prepared.index;
+    this.documents = this.prepared.documents;
+    this.prepared = null;
+    this.ready = true;
+    this.lastBuiltAt = new Date().toISOString();
+    await this.persist();
+  }
+
+  async clear(): Promise<void> {
+    this.index = new HNSWIndex(0, this.config);
+    this.documents.clear();
+    this.ready = true;
+    await this.persist();
+  }
+
+  getStats(): VectorIndexStats {
+    return {
+      ready: this.ready,
+      size: this.index.size,
+      dimensions: this.index.getDimensions(),
+      deleted_ratio: this.index.getDeletedRatio(),
+      index_path: this.indexPath,
+      last_persisted_at: this.lastPersistedAt,
+      last_built_at: this.lastBuiltAt
+    };
+  }
+
+  /**
+   * Write the index snapshot to disk
+   */
+  async persist(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+
+    try {
+      const snapshot: PersistedIndexFile = {
+        saved_at: new Date().toISOString(),
+        fingerprint: await this.databaseFingerprint(),
+        document_count: this.documents.size,
+        vector_count: this.index.size,
+        documents: Object.fromEntries(this.documents),
+        index: this.index.serialize()
+      };
+
+      await fs.promises.mkdir(path.dirname(this.indexPath), { recursive: true });
+      const tempPath = `${this.indexPath}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(snapshot));
+      await fs.promises.rename(tempPath, this.indexPath);
+
+      this.lastPersistedAt = snapshot.saved_at;
+    } catch (error) {
+      console.error('Error persisting vector index:', error);
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      if (await this.loadFromDisk()) {
+        this.ready = true;
+        return;
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not load vector index snapshot, rebuilding:', error);
+    }
+
+    await this.buildFromDatabase();
+    this.ready = true;
+    await this.persist();
+  }
+
+  /**
+   * Restore the snapshot if it still matches the documents stored in MongoDB
+   */
+  private async loadFromDisk(): Promise<boolean> {
+    if (!fs.existsSync(this.indexPath)) return false;
+
+    const raw = await fs.promises.readFile(this.indexPath, 'utf8');
+    const snapshot = JSON.parse(raw) as PersistedIndexFile;
+
+    const fingerprint = await this.databaseFingerprint();
+    if (fingerprint !== snapshot.fingerprint) {
+      console.log(`🔁 Vector index snapshot is stale (built from ${snapshot.fingerprint || 'unknown chunks'}, stored ${fingerprint})`);
+      return false;
+    }
+
+    this.index = HNSWIndex.deserialize(snapshot.index);
+    this.documents = new Map(Object.entries(snapshot.documents));
+    this.lastPersistedAt = snapshot.saved_at;
+
+    console.log(`✅ Loaded vector index snapshot with ${this.index.size} vectors from ${this.indexPath}`);
+    return true;
+  }
+
+  /**
+   * The number of indexable chunks and the newest chunk id, plus what their vectors
+   * are: how many are embedded and with which models. Any chunk added since the
+   * snapshot changes the id and any removed one the count, a retried embedding changes
+   * the embedded count, and an embedding space cutover changes the models, so none of
+   * these leaves a stale snapshot looking current.
+   */
+  private async databaseFingerprint(): Promise<string> {
+    const [chunkCount, newest, embedded, models] = await Promise.all([
+      ChunkModel.countDocuments({ status: 'ready' }),
+      ChunkModel.findOne({ status: 'ready' }).sort({ _id: -1 }).select('_id').lean(),
+      ChunkModel.countDocuments({ status: 'ready', embedding_status: { $ne: 'failed' }, 'vector.0': { $exists: true } }),
+      ChunkModel.aggregate([
+        { $match: { status: 'ready' } },
+        { $group: { _id: { model: '$embedding_model', dimensions: '$embedding_dimensions' } } }
+      ])
+    ]);
+    const spaces = models
+      .map(space => `${space._id.model ?? 'none'}/${space._id.dimensions ?? 0}`)
+      .sort()
+      .join(',');
+    return `${chunkCount}:${newest?._id ?? 'none'}:${embedded}:${spaces}`;
+  }
+
+  private async buildFromDatabase(): Promise<void> {
+    const startTime = Date.now();
+    const built = await this.buildIndex(chunk => chunk.vector);
+    this.index = built.index;
+    this.documents = built.documents;
+
+    this.lastBuiltAt = new Date().toISOString();
+    console.log(`✅ Built vector index with ${this.index.size} vectors from ${this.documents.size} documents in ${Date.now() - startTime}ms`);
+  }
+
+  private async buildIndex(vectorFor: (chunk: IndexSourceChunk) => number[] | undefined): Promise<BuiltIndex> {
+    const index = new HNSWIndex(0, this.config);
+    const documents = new Map<string, number>();
+
+    const cursor = ChunkModel.find({ status: 'ready' })
+      .select('document_id chunk_index vector embedding_model embedding_dimensions staged_vector staged_namespace')
+      .lean()
+      .cursor();
+    for await (const chunk of cursor) {
+      const vector = vectorFor(chunk);
+      if (vector?.length && (index.getDimensions() === 0 || vector.length === index.getDimensions())) {
+        index.add(this.chunkKey(chunk.document_id, chunk.chunk_index), vector);
+      }
+      documents.set(chunk.document_id, Math.max(documents.get(chunk.document_id) || 0, chunk.chunk_index + 1));
+    }
+
+    return { index, documents };
+  }
+
+  private removeFromIndex(documentId: string): void {
+    const chunkCount = this.documents.get(documentId);
+    if (chunkCount === undefined) return;
+
+    for (let i = 0; i < chunkCount; i++) {
+      this.index.remove(this.chunkKey(documentId, i));
+    }
+    this.documents.delete(documentId);
+  }
+
+  private compactIfNeeded(): void {
+    if (this.index.getDeletedRatio() > 0.25) {
+      console.log('🧹 Compacting vector index');
+      this.index = this.index.compact();
+    }
+  }
+
+  private isIndexable(vector: number[] | undefined): vector is number[] {
+    if (!vector || vector.length === 0) return false;
+    const dimensions = this.index.getDimensions();
+    return dimensions === 0 || vector.length === dimensions;
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persist();
+    }, 5000);
+    this.persistTimer.unref();
+  }
+
+  private chunkKey(documentId: string, chunkIndex: number): string {
+    return `${documentId}#${chunkIndex}`;
+  }
+
+  private toChunkMatch(match: HNSWMatch): IndexedChunkMatch {
+    const separator = match.id.lastIndexOf('#');
+    return {
+      document_id: match.id.substring(0, separator),
+      chunk_index: parseInt(match.id.substring(separator + 1)),
+      score: match.score
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { VectorStore, VectorStoreProvider } from '../types/vector-db.js';
+import { MongoVectorStore } from './stores/MongoVectorStore.js';
+import { PineconeVectorStore } from './stores/PineconeVectorStore.js';
+import { InMemoryVectorStore } from './stores/InMemoryVectorStore.js';
+
+const SUPPORTED_PROVIDERS: VectorStoreProvider[] = ['mongodb', 'pinecone', 'memory'];
+
+// Stores are shared across VectorDBService instances so every route sees the same data
+const stores: Map<VectorStoreProvider, VectorStore> = new Map();
+
+/**
+ * Resolve the configured vector store backend (VECTOR_DB_PROVIDER, default mongodb)
+ */
+export function getVectorStore(provider?: string): VectorStore {
+  const selected = (provider || process.env.VECTOR_DB_PROVIDER || 'mongodb').toLowerCase() as VectorStoreProvider;
+  if (!SUPPORTED_PROVIDERS.includes(selected)) {
+    throw new Error(`Unsupported vector store provider: ${selected}. Supported providers: ${SUPPORTED_PROVIDERS.join(', ')}`);
+  }
+
+  let store = stores.get(selected);
+  if (!store) {
+    store = createVectorStore(selected);
+    stores.set(selected, store);
+    console.log(`🗄️ Using ${selected} vector store`);
+  }
+  return store;
+}
+
+function createVectorStore(provider: VectorStoreProvider): VectorStore {
+  switch (provider) {
+    case 'pinecone':
+      return new PineconeVectorStore();
+    case 'memory':
+      return new InMemoryVectorStore();
+    case 'mongodb':
+    default:
+      return new MongoVectorStore();
+  }
+}
@@ -1,6 +1,9 @@
 import { v4 as uuidv4 } from 'uuid';
 import { DocumentModel } from '../models/Document.js';
 import { DocumentVector } from '../types/vector-db.js';
+import { SpecializedParseResult, StructuralDiff } from '../types/specialized-parser.js';
+import { SpecializedDiffEngine } from './parsers/SpecializedDiffEngine.js';
+import { diffStats } from '../utils/diff.js';
 
 export interface DocumentVersion {
   id: string;
@@ -25,6 +28,7 @@ export interface VersionHistory {
 export class VersionControlService {
   private static instance: VersionControlService;
   private versions: Map<string, DocumentVersion[]> = new Map();
+  private diffEngine = new SpecializedDiffEngine();
 
   private constructor() {}
 
@@ -221,7 +225,8 @@ export class VersionControlService {
   }
 
   /**
-   * Compare two versions
+   * Compare two versions. Versions of specialized files are also compared by their
+   * parts, parameters and constraints.
    */
   async compareVersions(
     documentId: string, 
@@ -239,6 +244,7 @@ export class VersionControlService {
         deletions: number;
         changes: number;
       };
+      structural?: StructuralDiff;
     };
   }> {
     try {
@@ -249,23 +255,9 @@ export class VersionControlService {
       const titleChanged = version1.title !== version2.title;
       const contentChanged = version1.content !== version2.content;
       
-      // Basic content difference statistics
-      const content1Lines = version1.content.split('\n');
-      const content2Lines = version2.content.split('\n');
-      
-      let additions = 0;
-      let deletions = 0;
-      let changes = 0;
-
-      const maxLines = Math.max(content1Lines.length, content2Lines.length);
-      for (let i = 0; i < maxLines; i++) {
-        const line1 = content1Lines[i] || '';
-        const line2 = content2Lines[i] || '';
-        
-        if (line1 && !line2) deletions++;
-        else if (!line1 && line2) additions++;
-        else if (line1 !== line2) changes++;
-      }
+      const structural = version1.metadata?.category === 'specialized'
+        ? this.compareSpecialized(version1.content, version2.content)
+        : undefined;
 
       return {
         version1,
@@ -273,11 +265,8 @@ export class VersionControlService {
         differences: {
           title_changed: titleChanged,
           content_changed: contentChanged,
-          content_diff_stats: {
-            additions,
-            deletions,
-            changes
-          }
+          content_diff_stats: diffStats(version1.content, version2.content),
+          structural
         }
       };
     } catch (error) {
@@ -286,6 +275,20 @@ export class VersionControlService {
     }
   }
 
+  /**
+   * Structural diff of two stored parse results; undefined when either is not one
+   */
+  private compareSpecialized(content1: string, content2: string): StructuralDiff | undefined {
+    try {
+      const before: SpecializedParseResult = JSON.parse(content1);
+      const after: SpecializedParseResult = JSON.parse(content2);
+      if (!Array.isArray(before.parts) || !Array.isArray(after.parts)) return undefined;
+      return this.diffEngine.compare(before, after);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Delete a specific version (with restrictions)
    */
@@ -0,0 +1,413 @@
+import {
+  BrokenLogicDetection,
+  Constraint,
+  ExpressionNode,
+  IssueRemedy,
+  Parameter,
+  ParseError,
+  Part,
+  SourceRange
+} from '../../types/specialized-parser.js';
+import { ConstraintExpressionParser } from './ConstraintExpressionParser.js';
+import { Dimensions, combineDimensions, formatDimensions, lookupUnit, sameDimensions } from './units.js';
+
+// A number with a unit, held in base units; factor converts from the unit it was given in
+interface Quantity {
+  kind: 'quantity';
+  value: number;
+  dimensions: Dimensions;
+  factor: number;
+  unit: string;
+}
+
+// An identifier that names no parameter, e.g. plastic in `material = plastic`
+interface BareWord {
+  kind: 'word';
+  name: string;
+}
+
+type Value = number | string | boolean | Quantity | BareWord | Value[];
+
+interface Scope {
+  lookup: Map<string, { parameter: Parameter; field?: string }>;
+  used: Map<string, Parameter>; // Parameters read while evaluating, by id
+}
+
+export interface ConstraintEvaluationResult {
+  issues: BrokenLogicDetection[];
+  warnings: ParseError[]; // Constraints that could not be evaluated
+}
+
+const SEVERITY: Record<Constraint['severity'], BrokenLogicDetection['severity']> = {
+  error: 'high',
+  warning: 'medium',
+  info: 'low'
+};
+
+/**
+ * Runs constraints against the parameter values of a parsed file. A custom
+ * constraint's condition describes the violation, e.g. `size > 300 AND material = plastic`;
+ * range, enum and regex constraints are violated by affected parameters outside them.
+ */
+export class ConstraintEvaluator {
+  private parser = new ConstraintExpressionParser();
+
+  evaluate(file: { parts?: Part[]; parameters: Parameter[]; constraints: Constraint[] }): ConstraintEvaluationResult {
+    const result: ConstraintEvaluationResult = { issues: [], warnings: [] };
+    const parameters = new Map(file.parameters.map(parameter => [parameter.id, parameter]));
+    const lookup = this.buildLookup(file.parameters);
+
+    for (const constraint of file.constraints) {
+      const partId = file.parts?.find(part => part.constraints.some(candidate => candidate.id === constraint.id))?.id || '';
+      try {
+        const offending = constraint.type === 'custom'
+          ? this.evaluateCondition(typeof constraint.value === 'string' ? constraint.value : '', lookup)
+          : this.evaluateBounds(constraint, parameters);
+
+        if (offending) {
+          result.issues.push(this.createViolation(constraint, partId, offending));
+        }
+      } catch (error) {
+        result.warnings.push({
+          type: 'validation',
+          message: `Could not evaluate constraint "${constraint.name}": ${error instanceof Error ? error.message : error}`,
+          severity: 'warning',
+          line_number: constraint.position?.line,
+          position: constraint.position
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Evaluate a condition against some parameters; the parameters it read when it
+   * holds, null when it does not. Throws when the condition cannot be evaluated.
+   */
+  matches(condition: string, parameters: Parameter[]): Parameter[] | null {
+    return this.evaluateCondition(condition, this.buildLookup(parameters));
+  }
+
+  /**
+   * Evaluate a parsed condition; the parameters it read are recorded in scope.used
+   */
+  private evaluateExpression(node: ExpressionNode, scope: Scope): Value {
+    switch (node.kind) {
+      case 'number':
+        return node.unit ? this.quantity(node.value, node.unit) : node.value;
+      case 'string':
+      case 'boolean':
+        return node.value;
+      case 'identifier':
+        return this.resolveIdentifier(node.name, scope);
+      case 'list':
+        return node.items.map(item => this.evaluateExpression(item, scope));
+      case 'unary': {
+        const operand = this.evaluateExpression(node.operand, scope);
+        return node.operator === 'NOT' ? !this.toBoolean(operand, 'NOT') : this.negate(operand);
+      }
+      case 'in': {
+        const value = this.evaluateExpression(node.value, scope);
+        const list = this.evaluateExpression(node.list, scope);
+        const items = Array.isArray(list) ? list : [list];
+        const found = items.some(item => this.equals(value, item));
+        return node.negated ? !found : found;
+      }
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, scope);
+    }
+  }
+
+  private evaluateCondition(condition: string, lookup: Scope['lookup']): Parameter[] | null {
+    const scope: Scope = { lookup, used: new Map() };
+    const result = this.evaluateExpression(this.parser.parse(condition), scope);
+
+    if (typeof result !== 'boolean') {
+      throw new Error(`Condition "${condition}" does not evaluate to true or false`);
+    }
+    return result ? [...scope.used.values()] : null;
+  }
+
+  private evaluateBounds(constraint: Constraint, parameters: Map<string, Parameter>): Parameter[] | null {
+    const affected = constraint.affected_parameters
+      .map(id => parameters.get(id))
+      .filter((parameter): parameter is Parameter => !!parameter);
+
+    const offending = affected.filter(parameter => {
+      const value = this.parameterValue(parameter);
+      switch (constraint.type) {
+        case 'range': {
+          const { min, max } = constraint.value || {};
+          const number = Number(value);
+          if (value === '' || isNaN(number)) return false;
+          return (min !== undefined && number < Number(min)) || (max !== undefined && number > Number(max));
+        }
+        case 'enum':
+          return value !== '' && !(constraint.value as any[]).some(allowed => this.equals(value as Value, allowed));
+        case 'regex':
+          return value !== '' && !new RegExp(constraint.value).test(String(value));
+        default:
+          return false;
+      }
+    });
+
+    return offending.length > 0 ? offending : null;
+  }
+
+  private evaluateBinary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode, scope: Scope): Value {
+    if (operator === 'AND' || operator === 'OR') {
+      const left = this.toBoolean(this.evaluateExpression(leftNode, scope), operator);
+      if (operator === 'AND' ? !left : left) return left;
+      return this.toBoolean(this.evaluateExpression(rightNode, scope), operator);
+    }
+
+    const left = this.evaluateExpression(leftNode, scope);
+    const right = this.evaluateExpression(rightNode, scope);
+
+    switch (operator) {
+      case '=': return this.equals(left, right);
+      case '!=': return !this.equals(left, right);
+      case '<': return this.compare(left, right, operator) < 0;
+      case '<=': return this.compare(left, right, operator) <= 0;
+      case '>': return this.compare(left, right, operator) > 0;
+      case '>=': return this.compare(left, right, operator) >= 0;
+      case '+': case '-': case '%': {
+        const [a, b, unit] = this.align(left, right, operator);
+        const value = operator === '+' ? a + b : operator === '-' ? a - b : a % b;
+        return unit ? { ...unit, value } : value;
+      }
+      case '*': case '/':
+        return this.scale(left, right, operator);
+      case '^':
+        return this.power(left, right);
+    }
+    throw new Error(`Unknown operator ${operator}`);
+  }
+
+  // Arithmetic on numbers and quantities
+
+  private quantity(value: number, unit: string): Quantity {
+    const definition = lookupUnit(unit)!;
+    return { kind: 'quantity', value: value * definition.factor, dimensions: definition.dimensions, factor: definition.factor, unit };
+  }
+
+  private isQuantity(value: Value): value is Quantity {
+    return typeof value === 'object' && !Array.isArray(value) && value.kind === 'quantity';
+  }
+
+  private toNumeric(value: Value, operator: string): number | Quantity {
+    if (typeof value === 'number' || this.isQuantity(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+    throw new Error(`${operator} needs numbers, got ${this.describe(value)}`);
+  }
+
+  /**
+   * Both operands in base units. A plain number next to a quantity is read in the
+   * quantity's unit, so `size > 500` means 500mm when size is in mm.
+   */
+  private align(left: Value, right: Value, operator: string): [number, number, Quantity | undefined] {
+    const a = this.toNumeric(left, operator);
+    const b = this.toNumeric(right, operator);
+
+    if (typeof a === 'number' && typeof b === 'number') return [a, b, undefined];
+    if (typeof a === 'number') return [a * (b as Quantity).factor, (b as Quantity).value, b as Quantity];
+    if (typeof b === 'number') return [a.value, b * a.factor, a];
+    if (!sameDimensions(a.dimensions, b.dimensions)) {
+      throw new Error(`Cannot apply ${operator} to ${formatDimensions(a.dimensions)} (${a.unit}) and ${formatDimensions(b.dimensions)} (${b.unit})`);
+    }
+    return [a.value, b.value, a];
+  }
+
+  private compare(left: Value, right: Value, operator: string): number {
+    const [a, b] = this.align(left, right, operator);
+    return Math.abs(a - b) < 1e-9 * Math.max(1, Math.abs(a), Math.abs(b)) ? 0 : a - b;
+  }
+
+  private scale(left: Value, right: Value, operator: '*' | '/'): Value {
+    const a = this.toNumeric(left, operator);
+    const b = this.toNumeric(right, operator);
+    const combine = (x: number, y: number) => operator === '*' ? x * y : x / y;
+
+    if (typeof a === 'number' && typeof b === 'number') return combine(a, b);
+    if (typeof b === 'number') return { ...a as Quantity, value: combine((a as Quantity).value, b) };
+    if (typeof a === 'number' && operator === '*') return { ...b, value: a * b.value };
+
+    const first = typeof a === 'number' ? { value: a, dimensions: {}, factor: 1, unit: '' } : a;
+    const dimensions = combineDimensions(first.dimensions, b.dimensions, operator === '*' ? 1 : -1);
+    const value = combine(first.value, b.value);
+    if (Object.keys(dimensions).length === 0) return value;
+    return {
+      kind: 'quantity',
+      value,
+      dimensions,
+      factor: combine(first.factor, b.factor),
+      unit: [first.unit, b.unit].filter(Boolean).join(operator)
+    };
+  }
+
+  private power(left: Value, right: Value): Value {
+    const base = this.toNumeric(left, '^');
+    const exponent = this.toNumeric(right, '^');
+    if (typeof exponent !== 'number') {
+      throw new Error('Exponent must be a plain number');
+    }
+    if (typeof base === 'number') return Math.pow(base, exponent);
+
+    const dimensions: Dimensions = {};
+    for (const [key, value] of Object.entries(base.dimensions)) dimensions[key] = value * exponent;
+    return {
+      kind: 'quantity',
+      value: Math.pow(base.value, exponent),
+      dimensions,
+      factor: Math.pow(base.factor, exponent),
+      unit: `${base.unit}^${exponent}`
+    };
+  }
+
+  private negate(value: Value): Value {
+    const numeric = this.toNumeric(value, '-');
+    return typeof numeric === 'number' ? -numeric : { ...numeric, value: -numeric.value };
+  }
+
+  // Comparison and truthiness
+
+  private equals(left: Value, right: Value): boolean {
+    const numeric = (value: Value) => typeof value === 'number' || this.isQuantity(value)
+      || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+    if (numeric(left) && numeric(right)) {
+      return this.compare(left, right, '=') === 0;
+    }
+    if (typeof left === 'boolean' || typeof right === 'boolean') {
+      return String(this.text(left)).toLowerCase() === String(this.text(right)).toLowerCase();
+    }
+    return this.text(left).toLowerCase() === this.text(right).toLowerCase();
+  }
+
+  private toBoolean(value: Value, operator: string): boolean {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    throw new Error(`${operator} needs true or false, got ${this.describe(value)}`);
+  }
+
+  // Parameter lookup
+
+  /**
+   * Parameters by id and name, and fields of object-valued parameters by
+   * `name.field` and, when unambiguous, by the bare field name
+   */
+  private buildLookup(parameters: Parameter[]): Scope['lookup'] {
+    const lookup: Scope['lookup'] = new Map();
+    const add = (key: string, entry: { parameter: Parameter; field?: string }) => {
+      if (!lookup.has(key.toLowerCase())) lookup.set(key.toLowerCase(), entry);
+    };
+
+    for (const parameter of parameters) {
+      add(parameter.id, { parameter });
+      add(parameter.name, { parameter });
+    }
+    for (const parameter of parameters) {
+      if (typeof parameter.value !== 'object' || parameter.value === null) continue;
+      for (const field of Object.keys(parameter.value)) {
+        add(`${parameter.name}.${field}`, { parameter, field });
+        add(`${parameter.id}.${field}`, { parameter, field });
+        add(field, { parameter, field });
+      }
+    }
+    return lookup;
+  }
+
+  private resolveIdentifier(name: string, scope: Scope): Value {
+    const entry = scope.lookup.get(name.toLowerCase());
+    if (!entry) {
+      return { kind: 'word', name };
+    }
+
+    const { parameter, field } = entry;
+    scope.used.set(parameter.id, parameter);
+    const value = field ? (parameter.value as Record<string, string | number | boolean>)[field] : this.parameterValue(parameter);
+
+    if (typeof value === 'object' && value !== null) {
+      throw new Error(`Parameter "${parameter.name}" has several values; use ${parameter.name}.<field>`);
+    }
+    const raw = value as string | number | boolean;
+    if (raw === '' || raw === undefined) {
+      throw new Error(`Parameter "${parameter.name}" has no value`);
+    }
+    if (parameter.type === 'array' && typeof raw === 'string') {
+      return raw.split(',').map(item => item.trim());
+    }
+
+    const unit = lookupUnit(parameter.unit) ? parameter.unit! : undefined;
+    if (unit && typeof raw === 'number') {
+      return this.quantity(raw, unit);
+    }
+    return raw;
+  }
+
+  private parameterValue(parameter: Parameter): Parameter['value'] {
+    return parameter.value === '' && parameter.default_value !== undefined ? parameter.default_value : parameter.value;
+  }
+
+  // Helper methods
+
+  private text(value: Value): string {
+    if (Array.isArray(value)) return value.map(item => this.text(item)).join(', ');
+    if (typeof value === 'object') return value.kind === 'word' ? value.name : `${value.value / value.factor}${value.unit}`;
+    return String(value);
+  }
+
+  private describe(value: Value): string {
+    if (typeof value === 'object' && !Array.isArray(value) && value.kind === 'word') {
+      return `unknown parameter "${value.name}"`;
+    }
+    return `"${this.text(value)}"`;
+  }
+
+  private createViolation(constraint: Constraint, partId: string, offending: Parameter[]): BrokenLogicDetection {
+    const values = offending
+      .map(parameter => `${parameter.name} = ${this.formatParameter(parameter)}`)
+      .join(', ');
+    const summary = constraint.message || `Constraint "${constraint.name}" is violated`;
+
+    return {
+      part_id: partId,
+      issue_type: 'constraint_violation',
+      severity: SEVERITY[constraint.severity] || 'medium',
+      description: values ? `${summary} (${values})` : summary,
+      suggested_fix: offending.length > 0
+        ? `Change ${offending.map(parameter => parameter.name).join(' or ')} to satisfy the constraint`
+        : undefined,
+      line_number: constraint.position?.line,
+      position: constraint.position,
+      constraint_id: constraint.id,
+      parameter_ids: offending.map(parameter => parameter.id),
+      parameter_positions: offending.map(parameter => parameter.position).filter((position): position is SourceRange => !!position),
+      remedies: this.boundRemedies(constraint, offending)
+    };
+  }
+
+  /**
+   * Range violations are fixed by clamping to the nearest bound, enum violations
+   * only when a single value is allowed
+   */
+  private boundRemedies(constraint: Constraint, offending: Parameter[]): IssueRemedy[] | undefined {
+    if (constraint.type === 'range') {
+      const { min, max } = constraint.value || {};
+      return offending.map((parameter): IssueRemedy => {
+        const value = Number(this.parameterValue(parameter));
+        return { action: 'set_value', parameter_id: parameter.id, value: min !== undefined && value < Number(min) ? Number(min) : Number(max) };
+      });
+    }
+    if (constraint.type === 'enum' && Array.isArray(constraint.value) && constraint.value.length === 1) {
+      return offending.map((parameter): IssueRemedy => ({ action: 'set_value', parameter_id: parameter.id, value: constraint.value[0] }));
+    }
+    return undefined;
+  }
+
+  private formatParameter(parameter: Parameter): string {
+    const value = this.parameterValue(parameter);
+    const text = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+    return parameter.unit && typeof value !== 'object' ? `${text} ${parameter.unit}` : text;
+  }
+}
@@ -0,0 +1,301 @@
+import { BinaryOperator, ExpressionNode } from '../../types/specialized-parser.js';
+import { lookupUnit } from './units.js';
+
+type TokenType = 'number' | 'string' | 'identifier' | 'keyword' | 'operator' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string; // Keywords and operators normalized, e.g. AND for &&
+  offset: number;
+  unit?: string; // Attached to numbers, e.g. 500mm
+}
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT', 'IN', 'TRUE', 'FALSE']);
+const OPERATOR_ALIASES: Record<string, string> = { '&&': 'AND', '||': 'OR', '!': 'NOT', '==': '=', '<>': '!=' };
+const OPERATORS = ['&&', '||', '==', '!=', '<>', '<=', '>=', '<', '>', '=', '!', '+', '-', '*', '/', '%', '^'];
+const COMPARISONS = new Set(['=', '!=', '<', '<=', '>', '>=']);
+
+/**
+ * Parses constraint conditions into an expression tree. The language has numbers
+ * with optional units (500mm, 2.5 kg, 3/4 in), quoted strings, true/false, parameter
+ * names (dotted for fields of object-valued parameters), arithmetic (+ - * / % ^),
+ * comparisons (= != < <= > >=), AND/OR/NOT and [NOT] IN with a parenthesized list.
+ */
+export class ConstraintExpressionParser {
+  private tokens: Token[] = [];
+  private index = 0;
+  private source = '';
+
+  parse(source: string): ExpressionNode {
+    this.source = source;
+    this.tokens = this.tokenize(source);
+    this.index = 0;
+
+    if (this.peek().type === 'end') {
+      throw this.error('Empty condition', 0);
+    }
+    const expression = this.parseOr();
+    if (this.peek().type !== 'end') {
+      throw this.error(`Unexpected "${this.peek().text}"`, this.peek().offset);
+    }
+    return expression;
+  }
+
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    while (position < source.length) {
+      const rest = source.substring(position);
+      const whitespace = rest.match(/^\s+/);
+      if (whitespace) {
+        position += whitespace[0].length;
+        continue;
+      }
+
+      const number = rest.match(/^(\d+(?:\.\d+)?|\.\d+)(?:[eE][+-]?\d+)?([A-Za-z]+)?/);
+      if (number) {
+        const unit = number[2];
+        if (unit && !lookupUnit(unit)) {
+          throw this.error(`Unknown unit "${unit}"`, position + number[1].length);
+        }
+        tokens.push({ type: 'number', text: number[0].substring(0, number[0].length - (unit || '').length), offset: position, unit });
+        position += number[0].length;
+        continue;
+      }
+
+      const quote = rest[0];
+      if (quote === '"' || quote === "'") {
+        const end = source.indexOf(quote, position + 1);
+        if (end === -1) {
+          throw this.error('Unterminated string', position);
+        }
+        tokens.push({ type: 'string', text: source.substring(position + 1, end), offset: position });
+        position = end + 1;
+        continue;
+      }
+
+      const word = rest.match(/^[A-Za-z_][A-Za-z0-9_.]*/);
+      if (word) {
+        const upper = word[0].toUpperCase();
+        tokens.push(KEYWORDS.has(upper)
+          ? { type: 'keyword', text: upper, offset: position }
+          : { type: 'identifier', text: word[0], offset: position });
+        position += word[0].length;
+        continue;
+      }
+
+      const operator = OPERATORS.find(candidate => rest.startsWith(candidate));
+      if (operator) {
+        const text = OPERATOR_ALIASES[operator] || operator;
+        tokens.push({ type: KEYWORDS.has(text) ? 'keyword' : 'operator', text, offset: position });
+        position += operator.length;
+        continue;
+      }
+
+      if ('()[],'.includes(rest[0])) {
+        tokens.push({ type: 'punctuation', text: rest[0], offset: position });
+        position++;
+        continue;
+      }
+
+      throw this.error(`Unexpected character "${rest[0]}"`, position);
+    }
+
+    tokens.push({ type: 'end', text: 'end of condition', offset: source.length });
+    return tokens;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.accept('keyword', 'OR')) {
+      left = this.binary('OR', left, this.parseAnd());
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.accept('keyword', 'AND')) {
+      left = this.binary('AND', left, this.parseNot());
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    const token = this.peek();
+    if (this.accept('keyword', 'NOT')) {
+      return { kind: 'unary', operator: 'NOT', operand: this.parseNot(), offset: token.offset };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (token.type === 'operator' && COMPARISONS.has(token.text)) {
+      this.index++;
+      return this.binary(token.text as BinaryOperator, left, this.parseAdditive());
+    }
+
+    const negated = token.type === 'keyword' && token.text === 'NOT' && this.peek(1).text === 'IN';
+    if (negated) this.index++;
+    if (this.accept('keyword', 'IN')) {
+      return { kind: 'in', negated, value: left, list: this.parseList(), offset: token.offset };
+    }
+    if (negated) {
+      throw this.error('Expected IN after NOT', this.peek().offset);
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    for (let token = this.peek(); token.type === 'operator' && (token.text === '+' || token.text === '-'); token = this.peek()) {
+      this.index++;
+      left = this.binary(token.text as BinaryOperator, left, this.parseMultiplicative());
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    for (let token = this.peek(); token.type === 'operator' && ['*', '/', '%'].includes(token.text); token = this.peek()) {
+      this.index++;
+      left = this.binary(token.text as BinaryOperator, left, this.parseUnary());
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (this.accept('operator', '-')) {
+      return { kind: 'unary', operator: '-', operand: this.parseUnary(), offset: token.offset };
+    }
+    if (this.accept('operator', '+')) {
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    if (this.accept('operator', '^')) {
+      return this.binary('^', base, this.parseUnary()); // Right-associative
+    }
+    return base;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.type) {
+      case 'number': {
+        let value = Number(token.text);
+        let unit = token.unit || this.acceptUnit();
+
+        // A fraction with a unit, e.g. 3/4 in, is one quantity rather than 3 divided by 4 in
+        const divisor = this.peek(1);
+        if (!unit && this.peek().text === '/' && divisor.type === 'number') {
+          const start = this.index;
+          this.index += 2;
+          unit = divisor.unit || this.acceptUnit();
+          if (unit) {
+            value /= Number(divisor.text);
+          } else {
+            this.index = start;
+          }
+        }
+        return { kind: 'number', value, unit, offset: token.offset };
+      }
+      case 'string':
+        return { kind: 'string', value: token.text, offset: token.offset };
+      case 'identifier':
+        return { kind: 'identifier', name: token.text, offset: token.offset };
+      case 'keyword':
+        if (token.text === 'TRUE' || token.text === 'FALSE') {
+          return { kind: 'boolean', value: token.text === 'TRUE', offset: token.offset };
+        }
+        break;
+      case 'punctuation':
+        if (token.text === '(') {
+          const expression = this.parseOr();
+          this.expect(')');
+          return expression;
+        }
+        if (token.text === '[') {
+          this.index--;
+          return this.parseList();
+        }
+        break;
+    }
+
+    throw this.error(token.type === 'end' ? 'Condition ends unexpectedly' : `Unexpected "${token.text}"`, token.offset);
+  }
+
+  /**
+   * (a, b, c) or [a, b, c]; a bare parameter name is also accepted for list-valued parameters
+   */
+  private parseList(): ExpressionNode {
+    const open = this.peek();
+    const close = open.text === '(' ? ')' : open.text === '[' ? ']' : null;
+    if (open.type !== 'punctuation' || !close) {
+      return this.parsePrimary();
+    }
+
+    this.index++;
+    const items: ExpressionNode[] = [];
+    if (!this.accept('punctuation', close)) {
+      do {
+        items.push(this.parseAdditive());
+      } while (this.accept('punctuation', ','));
+      this.expect(close);
+    }
+    return { kind: 'list', items, offset: open.offset };
+  }
+
+  // Helper methods
+
+  /**
+   * A unit written after a space, e.g. 500 mm. IN is the inch unit here unless a
+   * list or list-valued parameter follows, as in `300 IN (300, 600)`.
+   */
+  private acceptUnit(): string | undefined {
+    const token = this.peek();
+    const isUnit = token.type === 'identifier'
+      || (token.type === 'keyword' && token.text === 'IN' && this.peek(1).type !== 'identifier' && !['(', '['].includes(this.peek(1).text));
+    if (!isUnit || !lookupUnit(token.text)) return undefined;
+
+    this.index++;
+    return token.type === 'keyword' ? token.text.toLowerCase() : token.text;
+  }
+
+  private binary(operator: BinaryOperator, left: ExpressionNode, right: ExpressionNode): ExpressionNode {
+    return { kind: 'binary', operator, left, right, offset: left.offset };
+  }
+
+  private peek(ahead: number = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+  }
+
+  private accept(type: TokenType, text: string): boolean {
+    const token = this.peek();
+    if (token.type === type && token.text === text) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): void {
+    if (!this.accept('punctuation', text)) {
+      throw this.error(`Expected "${text}"`, this.peek().offset);
+    }
+  }
+
+  private error(message: string, offset: number): Error {
+    return new Error(`${message} at column ${offset + 1} of "${this.source}"`);
+  }
+}
@@ -0,0 +1,387 @@
+import {
+  BrokenLogicDetection,
+  IssueRemedy,
+  PackRule,
+  Parameter,
+  ParseError,
+  Part,
+  SourceRange,
+  ValidationRule
+} from '../../types/specialized-parser.js';
+import { ConstraintEvaluator } from './ConstraintEvaluator.js';
+import { Dimensions, formatDimensions, lookupUnit, sameDimensions } from './units.js';
+
+export interface RuleEvaluationInput {
+  parts: Part[];
+  parameters: Parameter[];
+}
+
+export interface RuleEvaluationResult {
+  issues: BrokenLogicDetection[];
+  warnings: ParseError[]; // Rules that could not be evaluated
+}
+
+// A number in base units when its unit is known
+interface Measure {
+  value: number;
+  dimensions?: Dimensions;
+  unit?: string;
+}
+
+const NO_POSITION: SourceRange = { start: 0, end: 0 };
+
+/**
+ * Checks parameter values against validation rules: the rules a file declares on
+ * its own parameters, and rules from rule packs, which are scoped by part type and
+ * parameter name. min/max compare in the parameter's unit unless the rule value
+ * carries one, e.g. `32mm`; a custom rule's condition describes the violation, as
+ * for custom constraints.
+ */
+export class ValidationRuleEngine {
+  private evaluator = new ConstraintEvaluator();
+
+  /**
+   * The validation_rules every parameter declares
+   */
+  evaluateDeclared(file: RuleEvaluationInput): RuleEvaluationResult {
+    const result: RuleEvaluationResult = { issues: [], warnings: [] };
+    const owners = this.ownerMap(file.parts);
+
+    for (const parameter of file.parameters) {
+      for (const rule of parameter.validation_rules || []) {
+        // Required parameters without a value are already reported as missing_parameter
+        if (rule.type === 'required' && parameter.required) continue;
+        if (rule.type === 'custom' && !rule.value) continue;
+
+        const packRule: PackRule = { ...rule, id: `${parameter.id}_${rule.type}`, severity: rule.type === 'required' ? 'high' : 'medium' };
+        this.checkParameter(packRule, parameter, owners.get(parameter.id), file, result);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Rules of a rule pack, or of the parser configuration when packId is omitted
+   */
+  evaluate(file: RuleEvaluationInput, rules: PackRule[], packId?: string): RuleEvaluationResult {
+    const result: RuleEvaluationResult = { issues: [], warnings: [] };
+    const owners = this.ownerMap(file.parts);
+
+    for (const rule of rules) {
+      const parts = rule.part_types?.length
+        ? file.parts.filter(part => rule.part_types!.some(type => type.toLowerCase() === part.type.toLowerCase()))
+        : file.parts;
+
+      if (rule.type === 'required') {
+        this.checkRequired(rule, parts, result, packId);
+        continue;
+      }
+      if (rule.type === 'custom') {
+        this.checkCondition(rule, parts, file, result, packId);
+        continue;
+      }
+
+      // Parameters outside any part only fall under rules that are not scoped to part types
+      const candidates = rule.part_types?.length ? parts.flatMap(part => part.parameters) : file.parameters;
+      for (const parameter of candidates.filter(parameter => this.inScope(rule, parameter))) {
+        this.checkParameter(rule, parameter, owners.get(parameter.id), file, result, packId);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * A value for a parameter that has none, when its own rules determine one: the
+   * minimum, else the maximum, else the only allowed value; false for booleans
+   */
+  suggestedValue(parameter: Parameter): string | number | boolean | undefined {
+    const rules = parameter.validation_rules || [];
+    const rule = (type: ValidationRule['type']) => rules.find(candidate => candidate.type === type);
+    const unit = lookupUnit(parameter.unit) ? parameter.unit : undefined;
+
+    for (const bound of [rule('min'), rule('max')]) {
+      const measure = bound && this.measure(bound.value, unit);
+      if (measure) {
+        // In the parameter's unit, or as the rule writes it when the parameter has none
+        const factor = measure.dimensions ? lookupUnit(unit || measure.unit)!.factor : 1;
+        return Number((measure.value / factor).toPrecision(12));
+      }
+    }
+    const allowed = rule('enum')?.value;
+    if (Array.isArray(allowed) && allowed.length === 1) return allowed[0];
+    if (parameter.type === 'boolean') return false;
+    return undefined;
+  }
+
+  private checkParameter(
+    rule: PackRule,
+    parameter: Parameter,
+    part: Part | undefined,
+    file: RuleEvaluationInput,
+    result: RuleEvaluationResult,
+    packId?: string
+  ): void {
+    const value = this.parameterValue(parameter);
+
+    try {
+      let violation: { description: string; fix: string; remedy?: IssueRemedy } | null = null;
+      switch (rule.type) {
+        case 'min':
+        case 'max': {
+          if (value === '' || typeof value === 'object') break;
+          const [actual, limit] = this.measures(value, rule.value, parameter.unit);
+          if (!actual || !limit) {
+            throw new Error(`${rule.type} needs numbers, got "${value}" and "${rule.value}"`);
+          }
+          const outside = rule.type === 'min' ? actual.value < limit.value : actual.value > limit.value;
+          if (outside) {
+            violation = {
+              description: `${parameter.name} is ${this.format(parameter)}, ${rule.type === 'min' ? 'below the minimum' : 'above the maximum'} of ${this.formatLimit(rule.value, parameter.unit)}`,
+              fix: `Set ${parameter.name} to ${rule.type === 'min' ? 'at least' : 'at most'} ${this.formatLimit(rule.value, parameter.unit)}`,
+              remedy: this.setValue(parameter, this.convertTo(value, rule.value, parameter.unit))
+            };
+          }
+          break;
+        }
+        case 'pattern':
+          if (value === '' || typeof value === 'object') break;
+          if (!new RegExp(rule.value).test(String(value))) {
+            violation = {
+              description: `${parameter.name} "${value}" does not match ${rule.value}`,
+              fix: `Change ${parameter.name} to match ${rule.value}`
+            };
+          }
+          break;
+        case 'enum': {
+          if (value === '' || typeof value === 'object') break;
+          const allowed: unknown[] = Array.isArray(rule.value) ? rule.value : String(rule.value).split(',').map(item => item.trim());
+          if (!allowed.some(item => this.equals(value, item, parameter.unit))) {
+            violation = {
+              description: `${parameter.name} "${this.format(parameter)}" is not one of ${allowed.join(', ')}`,
+              fix: `Set ${parameter.name} to one of ${allowed.join(', ')}`,
+              // Only a single allowed value is a deterministic fix
+              remedy: allowed.length === 1
+                ? this.setValue(parameter, this.convertTo(value, allowed[0], parameter.unit) ?? String(allowed[0]))
+                : undefined
+            };
+          }
+          break;
+        }
+        case 'required':
+          if (value === '' || value === undefined) {
+            violation = {
+              description: `Required parameter "${parameter.name}" has no value`,
+              fix: `Set a value for ${parameter.name}`,
+              remedy: this.setValue(parameter, this.suggestedValue(parameter))
+            };
+          }
+          break;
+        case 'custom':
+          if (this.evaluator.matches(String(rule.value), part ? part.parameters : file.parameters)?.some(used => used.id === parameter.id)) {
+            violation = {
+              description: `${parameter.name} = ${this.format(parameter)}`,
+              fix: `Change ${parameter.name} to satisfy the rule`
+            };
+          }
+          break;
+      }
+
+      if (violation) {
+        const issue = this.createIssue(rule, part, [parameter], parameter.position, violation.description, violation.fix, packId);
+        if (violation.remedy) issue.remedies = [violation.remedy];
+        result.issues.push(issue);
+      }
+    } catch (error) {
+      result.warnings.push(this.createWarning(rule, error, parameter.position));
+    }
+  }
+
+  /**
+   * Every part in scope must have the listed parameters, with a value
+   */
+  private checkRequired(rule: PackRule, parts: Part[], result: RuleEvaluationResult, packId?: string): void {
+    const names = rule.parameters?.length ? rule.parameters : this.listValue(rule.value);
+
+    for (const part of parts) {
+      for (const name of names) {
+        const parameter = part.parameters.find(candidate => this.matchesName(candidate, name));
+        if (!parameter) {
+          result.issues.push(this.createIssue(rule, part, [], part.position,
+            `${part.type} "${part.name}" has no ${name} parameter`, `Add a ${name} parameter to ${part.name}`, packId));
+        } else if (this.parameterValue(parameter) === '') {
+          const issue = this.createIssue(rule, part, [parameter], parameter.position,
+            `Required parameter "${parameter.name}" of ${part.name} has no value`, `Set a value for ${parameter.name}`, packId);
+          const remedy = this.setValue(parameter, this.suggestedValue(parameter));
+          if (remedy) issue.remedies = [remedy];
+          result.issues.push(issue);
+        }
+      }
+    }
+  }
+
+  /**
+   * The condition is evaluated once per part in scope, against that part's parameters
+   */
+  private checkCondition(rule: PackRule, parts: Part[], file: RuleEvaluationInput, result: RuleEvaluationResult, packId?: string): void {
+    const scopes: Array<{ part?: Part; parameters: Parameter[] }> = parts.length > 0 || rule.part_types?.length
+      ? parts.map(part => ({ part, parameters: part.parameters }))
+      : [{ parameters: file.parameters }];
+
+    for (const scope of scopes) {
+      // A part without the parameters the rule is about is not checked
+      if (rule.parameters?.some(name => !scope.parameters.some(parameter => this.matchesName(parameter, name)))) continue;
+
+      try {
+        const offending = this.evaluator.matches(String(rule.value), scope.parameters);
+        if (offending) {
+          const values = offending.map(parameter => `${parameter.name} = ${this.format(parameter)}`).join(', ');
+          result.issues.push(this.createIssue(rule, scope.part, offending, offending[0]?.position || scope.part?.position,
+            values || `Condition ${rule.value} holds`,
+            offending.length > 0 ? `Change ${offending.map(parameter => parameter.name).join(' or ')} to satisfy the rule` : '',
+            packId));
+        }
+      } catch (error) {
+        result.warnings.push(this.createWarning(rule, error, scope.part?.position));
+      }
+    }
+  }
+
+  // Values and units
+
+  /**
+   * The parameter value and the rule value in the same base units. A plain rule
+   * value is in the parameter's unit; a plain parameter value is in the rule's.
+   */
+  private measures(value: unknown, limit: unknown, parameterUnit?: string): [Measure | null, Measure | null] {
+    let actual = this.measure(value, lookupUnit(parameterUnit) ? parameterUnit : undefined);
+    const bound = this.measure(limit, actual?.unit);
+    if (actual && !actual.dimensions && bound?.dimensions) {
+      actual = this.measure(value, bound.unit);
+    }
+
+    if (actual?.dimensions && bound?.dimensions && !sameDimensions(actual.dimensions, bound.dimensions)) {
+      throw new Error(`Cannot compare ${formatDimensions(actual.dimensions)} (${actual.unit}) with ${formatDimensions(bound.dimensions)} (${bound.unit})`);
+    }
+    return [actual, bound];
+  }
+
+  /**
+   * A rule value written the way the parameter value is, e.g. 1.6 for a value of
+   * 1.2 in cm against a 16mm minimum, or "16mm" for a value of "12mm"
+   */
+  private convertTo(value: unknown, limit: unknown, parameterUnit?: string): string | number | undefined {
+    const [actual, bound] = this.measures(value, limit, parameterUnit);
+    if (!actual || !bound) return undefined;
+
+    const factor = actual.dimensions ? lookupUnit(actual.unit)!.factor : 1;
+    const number = Number((bound.value / factor).toPrecision(12));
+    const suffix = typeof value === 'string' ? value.match(/\d\s*([A-Za-z]+)\s*$/)?.[0].substring(1) : undefined;
+    return suffix ? `${number}${suffix}` : number;
+  }
+
+  private measure(value: unknown, defaultUnit?: string): Measure | null {
+    let number: number;
+    let unit = defaultUnit;
+
+    if (typeof value === 'number') {
+      number = value;
+    } else if (typeof value === 'string') {
+      const match = value.match(/^\s*(-?(?:\d+(?:\.\d+)?|\.\d+))\s*([A-Za-z]+)?\s*$/);
+      if (!match || (match[2] && !lookupUnit(match[2]))) return null;
+      number = Number(match[1]);
+      unit = match[2] || defaultUnit;
+    } else {
+      return null;
+    }
+
+    const definition = lookupUnit(unit);
+    return definition
+      ? { value: number * definition.factor, dimensions: definition.dimensions, unit }
+      : { value: number };
+  }
+
+  private equals(value: unknown, allowed: unknown, parameterUnit?: string): boolean {
+    const [a, b] = this.measures(value, allowed, parameterUnit);
+    if (a && b) {
+      return Math.abs(a.value - b.value) < 1e-9 * Math.max(1, Math.abs(a.value), Math.abs(b.value));
+    }
+    return String(value).trim().toLowerCase() === String(allowed).trim().toLowerCase();
+  }
+
+  private parameterValue(parameter: Parameter): Parameter['value'] {
+    return parameter.value === '' && parameter.default_value !== undefined ? parameter.default_value : parameter.value;
+  }
+
+  // Helper methods
+
+  private inScope(rule: PackRule, parameter: Parameter): boolean {
+    return !rule.parameters?.length || rule.parameters.some(name => this.matchesName(parameter, name));
+  }
+
+  private matchesName(parameter: Parameter, name: string): boolean {
+    return parameter.id === name || parameter.name.toLowerCase() === name.toLowerCase();
+  }
+
+  private listValue(value: unknown): string[] {
+    if (Array.isArray(value)) return value.map(item => String(item));
+    return typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+  }
+
+  private setValue(parameter: Parameter, value: string | number | boolean | undefined): IssueRemedy | undefined {
+    return value === undefined ? undefined : { action: 'set_value', parameter_id: parameter.id, value };
+  }
+
+  private ownerMap(parts: Part[]): Map<string, Part> {
+    const owners = new Map<string, Part>();
+    for (const part of parts) {
+      for (const parameter of part.parameters) owners.set(parameter.id, part);
+    }
+    return owners;
+  }
+
+  private format(parameter: Parameter): string {
+    const value = this.parameterValue(parameter);
+    const text = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+    return parameter.unit && typeof value === 'number' ? `${text} ${parameter.unit}` : text;
+  }
+
+  private formatLimit(limit: unknown, parameterUnit?: string): string {
+    return typeof limit === 'number' && parameterUnit ? `${limit} ${parameterUnit}` : String(limit);
+  }
+
+  private createIssue(
+    rule: PackRule,
+    part: Part | undefined,
+    parameters: Parameter[],
+    position: SourceRange = NO_POSITION,
+    details: string,
+    defaultFix: string,
+    packId?: string
+  ): BrokenLogicDetection {
+    return {
+      part_id: part?.id || '',
+      issue_type: 'rule_violation',
+      severity: rule.severity,
+      description: rule.message ? `${rule.message} (${details})` : details,
+      suggested_fix: rule.suggested_fix || defaultFix || undefined,
+      line_number: position.line,
+      position,
+      parameter_ids: parameters.map(parameter => parameter.id),
+      parameter_positions: parameters.map(parameter => parameter.position).filter((range): range is SourceRange => !!range),
+      rule_id: rule.id,
+      rule_pack_id: packId
+    };
+  }
+
+  private createWarning(rule: ValidationRule & { id?: string }, error: unknown, position: SourceRange = NO_POSITION): ParseError {
+    return {
+      type: 'validation',
+      message: `Could not evaluate rule "${rule.id || rule.type}": ${error instanceof Error ? error.message : error}`,
+      severity: 'warning',
+      line_number: position.line,
+      position
+    };
+  }
+}
@@ -0,0 +1,64 @@
+// Physical dimension as exponents of base units, e.g. { length: 3 } for a volume
+export type Dimensions = Record<string, number>;
+
+export interface UnitDefinition {
+  factor: number; // Multiplier to the base unit of the dimension
+  dimensions: Dimensions;
+}
+
+const length = (factor: number): UnitDefinition => ({ factor, dimensions: { length: 1 } });
+const mass = (factor: number): UnitDefinition => ({ factor, dimensions: { mass: 1 } });
+const force = (factor: number): UnitDefinition => ({ factor, dimensions: { force: 1 } });
+const angle = (factor: number): UnitDefinition => ({ factor, dimensions: { angle: 1 } });
+const time = (factor: number): UnitDefinition => ({ factor, dimensions: { time: 1 } });
+
+// Keyed by lower-case symbol; base units are m, kg, N, rad and s
+const UNITS: Record<string, UnitDefinition> = {
+  mm: length(0.001),
+  millimeter: length(0.001),
+  millimeters: length(0.001),
+  cm: length(0.01),
+  m: length(1),
+  meter: length(1),
+  meters: length(1),
+  in: length(0.0254),
+  inch: length(0.0254),
+  inches: length(0.0254),
+  ft: length(0.3048),
+  feet: length(0.3048),
+  g: mass(0.001),
+  kg: mass(1),
+  lb: mass(0.45359237),
+  lbs: mass(0.45359237),
+  n: force(1),
+  kn: force(1000),
+  deg: angle(Math.PI / 180),
+  degrees: angle(Math.PI / 180),
+  rad: angle(1),
+  ms: time(0.001),
+  s: time(1),
+  sec: time(1)
+};
+
+export function lookupUnit(symbol: string | undefined): UnitDefinition | undefined {
+  return symbol ? UNITS[symbol.trim().toLowerCase()] : undefined;
+}
+
+export function sameDimensions(a: Dimensions, b: Dimensions): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => (a[key] || 0) === (b[key] || 0));
+}
+
+export function combineDimensions(a: Dimensions, b: Dimensions, sign: 1 | -1): Dimensions {
+  const result: Dimensions = { ...a };
+  for (const [key, exponent] of Object.entries(b)) {
+    result[key] = (result[key] || 0) + sign * exponent;
+    if (result[key] === 0) delete result[key];
+  }
+  return result;
+}
+
+export function formatDimensions(dimensions: Dimensions): string {
+  const parts = Object.entries(dimensions).map(([key, exponent]) => exponent === 1 ? key : `${key}^${exponent}`);
+  return parts.length > 0 ? parts.join('*') : 'dimensionless';
+}
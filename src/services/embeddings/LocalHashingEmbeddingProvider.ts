@@ -0,0 +1,67 @@
+import { EmbeddingProvider, EmbeddingProviderOptions } from '../../types/file-parser.js';
+import { BM25Index } from '../BM25Index.js';
+
+/**
+ * Deterministic, dependency-free embeddings built with the hashing trick over
+ * word, word-bigram and character-trigram features. Much weaker than a trained
+ * model, but identical text always maps to the identical vector, which makes it
+ * suitable for offline development and tests.
+ */
+export class LocalHashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly max_batch_size = 1000;
+
+  constructor(options: EmbeddingProviderOptions = {}) {
+    // The model name is derived from the dimensions, so only the dimensions can be overridden
+    this.dimensions = options.dimensions || parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS || '512');
+    this.model = `local-hashing-v1-${this.dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const features = new Map<string, number>();
+    const addFeature = (feature: string, weight: number) => {
+      features.set(feature, (features.get(feature) || 0) + weight);
+    };
+
+    const words = BM25Index.tokenize(text);
+    for (let i = 0; i < words.length; i++) {
+      addFeature(`w:${words[i]}`, 1);
+      if (i > 0) addFeature(`b:${words[i - 1]} ${words[i]}`, 0.7);
+
+      const padded = `#${words[i]}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        addFeature(`c:${padded.substring(j, j + 3)}`, 0.3);
+      }
+    }
+
+    const vector = new Array(this.dimensions).fill(0);
+    for (const [feature, weight] of features) {
+      const hash = this.fnv1a(feature);
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      vector[hash % this.dimensions] += sign * Math.log1p(weight); // Dampen repeated features
+    }
+
+    let norm = 0;
+    for (const value of vector) norm += value * value;
+    norm = Math.sqrt(norm);
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  /**
+   * 32-bit FNV-1a hash
+   */
+  private fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
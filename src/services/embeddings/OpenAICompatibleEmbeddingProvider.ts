@@ -0,0 +1,61 @@
+import axios from 'axios';
+import { EmbeddingProvider, EmbeddingProviderOptions } from '../../types/file-parser.js';
+
+/**
+ * Embeddings from any server exposing an OpenAI-style `POST /embeddings` endpoint,
+ * e.g. self-hosted text-embeddings-inference, vLLM, Ollama or LocalAI
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai-compatible' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly max_batch_size: number;
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeout: number;
+
+  constructor(options: EmbeddingProviderOptions = {}) {
+    const baseUrl = process.env.EMBEDDING_API_URL;
+    if (!baseUrl) {
+      throw new Error('EMBEDDING_API_URL environment variable is required for the openai-compatible embedding provider');
+    }
+
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = process.env.EMBEDDING_API_KEY;
+    this.model = options.model || process.env.EMBEDDING_MODEL || 'nomic-embed-text';
+    this.dimensions = options.dimensions || parseInt(process.env.EMBEDDING_DIMENSIONS || '768');
+    this.max_batch_size = parseInt(process.env.EMBEDDING_BATCH_SIZE || '32');
+    this.timeout = parseInt(process.env.EMBEDDING_API_TIMEOUT || '30000');
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await axios.post(
+      `${this.baseUrl}/embeddings`,
+      { model: this.model, input: texts },
+      {
+        timeout: this.timeout,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+        }
+      }
+    );
+
+    const data: Array<{ index?: number; embedding: number[] }> = response.data?.data;
+    if (!Array.isArray(data) || data.length !== texts.length) {
+      throw new Error(`Embedding endpoint returned ${Array.isArray(data) ? data.length : 'no'} embeddings for ${texts.length} inputs`);
+    }
+
+    const embeddings = data
+      .map((item, position) => ({ index: item.index ?? position, embedding: item.embedding }))
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+
+    const mismatched = embeddings.find(embedding => embedding.length !== this.dimensions);
+    if (mismatched) {
+      throw new Error(`Embedding endpoint returned ${mismatched.length} dimensions, expected ${this.dimensions} (set EMBEDDING_DIMENSIONS)`);
+    }
+
+    return embeddings;
+  }
+}
@@ -0,0 +1,38 @@
+import OpenAI from 'openai';
+import { EmbeddingProvider, EmbeddingProviderOptions } from '../../types/file-parser.js';
+
+/**
+ * Embeddings from the OpenAI API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly max_batch_size = 100; // OpenAI allows up to 2048 inputs per request
+  private openai: OpenAI;
+
+  constructor(options: EmbeddingProviderOptions = {}) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is required for the openai embedding provider');
+    }
+
+    this.openai = new OpenAI({ apiKey });
+    this.model = options.model || process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+    this.dimensions = options.dimensions || parseInt(process.env.EMBEDDING_DIMENSIONS || '1536');
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input: texts,
+      encoding_format: 'float',
+      // text-embedding-3 models can shorten their vectors to the configured size
+      ...(this.model.startsWith('text-embedding-3') && { dimensions: this.dimensions }),
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
@@ -1,11 +1,14 @@
-import { FileParser, FileType, FileMetadata, ParseResult, DocumentSection, TableData, ImageData, LinkData, ParseError } from '../../types/file-parser.js';
+import { FileParser, FileType, FileMetadata, ParseResult, ParserCapabilities, DocumentSection, TableData, ImageData, LinkData, ParseError } from '../../types/file-parser.js';
 import { v4 as uuidv4 } from 'uuid';
+import { DecodedText, decodeText } from '../../utils/encoding.js';
 
 export abstract class BaseParser implements FileParser {
   protected supportedTypes: FileType[];
+  protected capabilities: ParserCapabilities;
 
-  constructor(supportedTypes: FileType[]) {
+  constructor(supportedTypes: FileType[], capabilities: ParserCapabilities) {
     this.supportedTypes = supportedTypes;
+    this.capabilities = capabilities;
   }
 
   abstract parse(file: Buffer, metadata: FileMetadata): Promise<ParseResult>;
@@ -17,6 +20,10 @@ export abstract class BaseParser implements FileParser {
     return this.supportedTypes;
   }
 
+  getCapabilities(): ParserCapabilities {
+    return this.capabilities;
+  }
+
   protected createDocumentSection(
     title: string,
     content: string,
@@ -99,59 +106,91 @@ export abstract class BaseParser implements FileParser {
     };
   }
 
+  /**
+   * Metadata the file declares about itself over what the caller passed in, keeping
+   * the caller's filename
+   */
+  protected mergeMetadata(given: FileMetadata, extracted: FileMetadata): FileMetadata {
+    return {
+      ...given,
+      ...Object.fromEntries(Object.entries(extracted).filter(([, value]) => value !== undefined)),
+      filename: given.filename || extracted.filename
+    };
+  }
+
+  /**
+   * Sections of plain text, each running from a heading line to the next heading.
+   * See determineHeaderLevel for what counts as a heading.
+   */
   protected extractSectionsFromText(text: string): DocumentSection[] {
     const sections: DocumentSection[] = [];
     const lines = text.split('\n');
     let currentSection: DocumentSection | null = null;
     let position = 0;
 
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      
-      // Check for headers (simple heuristic)
-      if (trimmedLine && trimmedLine.length < 100 && !trimmedLine.includes('.')) {
-        const level = this.determineHeaderLevel(trimmedLine);
-        
-        if (level > 0) {
-          // Close previous section
-          if (currentSection) {
-            currentSection.end_position = position - line.length - 1;
-            sections.push(currentSection);
-          }
-          
-          // Start new section
-          currentSection = this.createDocumentSection(
-            trimmedLine,
-            '',
-            level,
-            position,
-            position + line.length
-          );
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const level = this.determineHeaderLevel(line, lines[i - 1], lines[i + 1]);
+
+      if (level > 0) {
+        // Close previous section
+        if (currentSection) {
+          currentSection.end_position = position;
+          sections.push(currentSection);
         }
+
+        // Start new section
+        currentSection = this.createDocumentSection(
+          line.replace(/^\s*#+\s*/, '').replace(/\s*#*\s*$/, ''),
+          '',
+          level,
+          position,
+          position + line.length
+        );
       }
-      
+
       if (currentSection) {
-        currentSection.content += line + '\n';
+        currentSection.content += i + 1 < lines.length ? line + '\n' : line;
       }
-      
+
       position += line.length + 1; // +1 for newline
     }
 
     // Close last section
     if (currentSection) {
-      currentSection.end_position = position;
+      currentSection.end_position = text.length;
       sections.push(currentSection);
     }
 
     return sections;
   }
 
-  private determineHeaderLevel(text: string): number {
-    // Simple heuristic for determining header level
-    if (text.length < 30 && text.toUpperCase() === text) return 1;
-    if (text.length < 50 && /^[A-Z][a-z]/.test(text)) return 2;
-    if (text.length < 80) return 3;
-    return 0; // Not a header
+  /**
+   * Heading level of a line, or 0 when it is not a heading. Markdown-style # headings
+   * and lines underlined with === or --- always are; otherwise a heading is a short
+   * line standing on its own between blank lines, in capitals, in title case or
+   * numbered like "2.1 Scope", that does not end like a sentence.
+   */
+  private determineHeaderLevel(line: string, previous?: string, next?: string): number {
+    const text = line.trim();
+    if (!text || text.length > 80) return 0;
+
+    const hashes = text.match(/^(#{1,6})\s+\S/);
+    if (hashes) return hashes[1].length;
+    if (next !== undefined && /^\s*=+\s*$/.test(next) && !/^[=-]+$/.test(text)) return 1;
+    if (next !== undefined && /^\s*-+\s*$/.test(next) && !/^[=-]+$/.test(text)) return 2;
+
+    const standsAlone = !previous?.trim() && !next?.trim();
+    if (!standsAlone || /[.,;!?]$/.test(text) || !/[A-Za-z]/.test(text)) return 0;
+
+    const numbered = text.match(/^(\d+(?:\.\d+)*)\.?\s+\S/);
+    if (numbered) return Math.min(numbered[1].split('.').length, 6);
+    if (text.length < 60 && text.toUpperCase() === text) return 1;
+
+    const words = text.split(/\s+/).filter(word => /^[A-Za-z]/.test(word));
+    const capitalized = words.filter(word => /^[A-Z]/.test(word)).length;
+    if (text.length < 60 && words.length > 0 && capitalized >= words.length * 0.7) return 2;
+    return 0;
   }
 
   protected extractLinksFromText(text: string): LinkData[] {
@@ -172,12 +211,36 @@ export abstract class BaseParser implements FileParser {
     return links;
   }
 
+  /**
+   * Text of a file in whatever encoding it was written in, with \n line endings so
+   * positions line up with what the parser reads
+   */
+  protected readText(file: Buffer): DecodedText {
+    const decoded = decodeText(file);
+    return { ...decoded, text: decoded.text.replace(/\r\n?/g, '\n') };
+  }
+
+  /**
+   * A date as an ISO string, or undefined when it does not parse
+   */
+  protected parseDate(value?: string): string | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  /**
+   * Tidy plain text without losing its lines: control characters are dropped, runs
+   * of spaces inside a line become one (indentation is kept), trailing spaces go and
+   * at most one blank line is kept between paragraphs
+   */
   protected sanitizeText(text: string): string {
     return text
-      .replace(/\r\n/g, '\n')
-      .replace(/\r/g, '\n')
-      .replace(/\t/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
+      .replace(/\r\n?/g, '\n')
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+      .replace(/(\S)[ \t\u00A0]+/g, '$1 ')
+      .replace(/[ \t\u00A0]+$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/^\n+|\n+$/g, '');
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,617 @@
+import {
+  SpecializedFileParser,
+  SpecializedFileType,
+  SpecializedParserConfig,
+  SpecializedParseResult,
+  SourceRange,
+  Part,
+  Parameter,
+  Constraint,
+  ValidationRule,
+  PackRule,
+  VersionMetadata,
+  ChangeLog,
+  BrokenLogicDetection,
+  FileSection,
+  HierarchyNode,
+  Dependency,
+  DependencyGraph,
+  ParseError
+} from '../../types/specialized-parser.js';
+import { ConstraintEvaluator } from '../constraints/ConstraintEvaluator.js';
+import { ValidationRuleEngine } from '../constraints/ValidationRuleEngine.js';
+import { DependencyGraphAnalyzer } from './DependencyGraphAnalyzer.js';
+import { sourceRange } from '../../utils/xml.js';
+
+// Reads a named field of an element or block, whatever the format stores it as
+export type FieldReader = (name: string) => string | undefined;
+
+/**
+ * Everything collected from one file, or from every entry of an archive, before
+ * references are resolved and broken logic is detected
+ */
+export interface ParseContext {
+  parts: Part[];
+  parameters: Parameter[];
+  constraints: Constraint[];
+  dependencies: Dependency[];
+  changes: ChangeLog[];
+  sections: FileSection[];
+  hierarchy: HierarchyNode[];
+  hierarchyNodes: Map<string, HierarchyNode>; // First hierarchy node with each id
+  errors: ParseError[];
+  warnings: ParseError[];
+  parameterOwners: Map<string, string>; // parameter id -> part id
+  constraintOwners: Map<string, string>; // constraint id -> part id
+  dependency_graph?: DependencyGraph;
+  version?: string; // Declared file version, if any
+  release_date?: string;
+  compatibility: string[];
+}
+
+export const ROOT_NODE_ID = 'root';
+
+const DEFAULT_CONFIG: Omit<SpecializedParserConfig, 'allowed_file_types'> = {
+  enable_version_detection: true,
+  enable_broken_logic_detection: true,
+  enable_dependency_analysis: true,
+  strict_mode: false,
+  max_file_size: parseInt(process.env.MAX_FILE_SIZE || '10485760'),
+  validation_rules: []
+};
+
+/**
+ * Shared pipeline for specialized formats: subclasses collect parts, parameters and
+ * constraints from the source, this class resolves references, detects broken logic
+ * and assembles the SpecializedParseResult.
+ */
+export abstract class BaseSpecializedParser implements SpecializedFileParser {
+  protected config: SpecializedParserConfig;
+  private constraintEvaluator = new ConstraintEvaluator();
+  private ruleEngine = new ValidationRuleEngine();
+  private graphAnalyzer = new DependencyGraphAnalyzer();
+
+  constructor(supportedTypes: SpecializedFileType[], config: Partial<SpecializedParserConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, allowed_file_types: supportedTypes, ...config };
+  }
+
+  /**
+   * Add the contents of one source file to the context. `file` names the archive
+   * entry when the source comes from a container.
+   */
+  abstract collect(source: string, context: ParseContext, file?: string): void;
+
+  getSupportedTypes(): SpecializedFileType[] {
+    return this.config.allowed_file_types;
+  }
+
+  async parse(file: Buffer | string, fileType: SpecializedFileType): Promise<SpecializedParseResult> {
+    const startTime = Date.now();
+    const fileSize = this.checkFile(file, fileType);
+    const context = this.createContext();
+
+    this.collect(this.decode(file), context);
+
+    return this.buildResult(context, fileType, fileSize, startTime);
+  }
+
+  protected checkFile(file: Buffer | string, fileType: SpecializedFileType): number {
+    if (!this.config.allowed_file_types.includes(fileType)) {
+      throw new Error(`Unsupported specialized file type: ${fileType}`);
+    }
+
+    const fileSize = typeof file === 'string' ? Buffer.byteLength(file) : file.length;
+    if (fileSize > this.config.max_file_size) {
+      throw new Error(`File is ${fileSize} bytes; the limit is ${this.config.max_file_size} bytes`);
+    }
+    return fileSize;
+  }
+
+  protected decode(file: Buffer | string): string {
+    return (typeof file === 'string' ? file : file.toString('utf8')).replace(/^﻿/, '');
+  }
+
+  protected createContext(): ParseContext {
+    const root = this.createHierarchyNode(ROOT_NODE_ID, ROOT_NODE_ID, 'file', 0);
+    return {
+      parts: [],
+      parameters: [],
+      constraints: [],
+      dependencies: [],
+      changes: [],
+      sections: [],
+      hierarchy: [root],
+      hierarchyNodes: new Map([[ROOT_NODE_ID, root]]),
+      errors: [],
+      warnings: [],
+      parameterOwners: new Map(),
+      constraintOwners: new Map(),
+      compatibility: []
+    };
+  }
+
+  protected buildResult(
+    context: ParseContext,
+    fileType: SpecializedFileType,
+    fileSize: number,
+    startTime: number
+  ): SpecializedParseResult {
+    this.resolveReferences(context);
+
+    const versionMetadata = this.createVersionMetadata(context, fileType);
+    const brokenLogic = this.config.enable_broken_logic_detection
+      ? this.detectBrokenLogic(context, versionMetadata)
+      : [];
+    this.applyPartStatus(context, brokenLogic);
+
+    return {
+      file_type: fileType,
+      parts: context.parts,
+      parameters: context.parameters,
+      constraints: context.constraints,
+      version_metadata: versionMetadata,
+      broken_logic: brokenLogic,
+      file_structure: {
+        sections: context.sections,
+        hierarchy: context.hierarchy,
+        dependencies: context.dependencies,
+        dependency_graph: context.dependency_graph
+      },
+      statistics: {
+        total_parts: context.parts.length,
+        total_parameters: context.parameters.length,
+        total_constraints: context.constraints.length,
+        broken_logic_count: brokenLogic.length,
+        error_count: context.errors.length,
+        warning_count: context.warnings.length,
+        processing_time: Date.now() - startTime,
+        file_size: fileSize,
+        complexity_score: this.calculateComplexity(context)
+      },
+      errors: context.errors,
+      warnings: context.warnings
+    };
+  }
+
+  // Building blocks for subclasses
+
+  protected createPart(context: ParseContext, id: string | undefined, field: FieldReader, defaultType: string, position: SourceRange): Part {
+    const partId = id || `part_${context.parts.length + 1}`;
+    return {
+      id: partId,
+      name: field('name') || partId,
+      type: field('type') || defaultType,
+      parameters: [],
+      constraints: [],
+      metadata: {
+        version: field('version') || '',
+        created_date: field('created_date') || '',
+        modified_date: field('modified_date') || '',
+        author: field('author'),
+        description: field('description')
+      },
+      position,
+      status: 'valid',
+      errors: []
+    };
+  }
+
+  protected createParameter(
+    context: ParseContext,
+    id: string | undefined,
+    field: FieldReader,
+    position: SourceRange,
+    validationRules: ValidationRule[] = []
+  ): Parameter {
+    const parameterId = id || `param_${context.parameters.length + 1}`;
+    const rawValue = field('value');
+    const type = this.parameterType(field('type'), rawValue);
+    const defaultValue = field('default_value') ?? field('default');
+
+    return {
+      id: parameterId,
+      name: field('name') || parameterId,
+      value: rawValue === undefined ? '' : this.coerceValue(rawValue, type),
+      type,
+      unit: field('unit') ?? field('unit_system'),
+      description: field('description'),
+      required: this.isTrue(field('required')),
+      default_value: defaultValue === undefined ? undefined : this.coerceValue(defaultValue, type),
+      validation_rules: [...validationRules, ...this.fieldRules(field)],
+      position
+    };
+  }
+
+  protected createConstraint(context: ParseContext, id: string | undefined, field: FieldReader, position: SourceRange): Constraint {
+    const constraintId = id || `constraint_${context.constraints.length + 1}`;
+    const rawType = (field('type') || '').toLowerCase();
+    const min = field('min');
+    const max = field('max');
+    const values = field('values');
+    const pattern = field('pattern');
+    const condition = field('condition');
+
+    let type: Constraint['type'] = 'custom';
+    let value: any = condition ?? field('value') ?? '';
+    if (rawType === 'range' || (!condition && (min !== undefined || max !== undefined))) {
+      type = 'range';
+      if (min !== undefined || max !== undefined) value = { min, max };
+    } else if (rawType === 'enum' || (!condition && values !== undefined)) {
+      type = 'enum';
+      value = this.splitList(values ?? value);
+    } else if (rawType === 'regex' || rawType === 'pattern' || (!condition && pattern !== undefined)) {
+      type = 'regex';
+      value = pattern ?? value;
+    }
+
+    return {
+      id: constraintId,
+      name: field('name') || constraintId,
+      type,
+      value,
+      description: field('description'),
+      message: field('message'),
+      severity: this.constraintSeverity(field('severity')),
+      // Names or ids as written; resolveReferences turns them into parameter ids
+      affected_parameters: this.splitList(field('affected_parameters') ?? field('parameters') ?? field('applies_to')),
+      position
+    };
+  }
+
+  protected createDependency(field: FieldReader, position: SourceRange, from?: string, to?: string): Dependency {
+    return {
+      from: field('from') || from || '',
+      to: field('to') || to || '',
+      type: this.dependencyType(field('type')),
+      description: field('description'),
+      position
+    };
+  }
+
+  protected createChangeLog(field: FieldReader): ChangeLog {
+    const type = (field('type') || '').toLowerCase();
+    return {
+      version: field('version') || '',
+      date: field('date') || '',
+      type: ['feature', 'bugfix', 'breaking', 'deprecation'].includes(type) ? type as ChangeLog['type'] : 'feature',
+      description: field('description') || '',
+      affected_parts: this.splitList(field('affected_parts'))
+    };
+  }
+
+  protected addPart(context: ParseContext, part: Part, level: number, parent?: Part): void {
+    context.parts.push(part);
+    this.addHierarchy(context, part.id, part.name, 'part', level, parent?.id);
+  }
+
+  protected addParameter(context: ParseContext, parameter: Parameter, level: number, part?: Part): void {
+    context.parameters.push(parameter);
+    if (part) {
+      part.parameters.push(parameter);
+      context.parameterOwners.set(parameter.id, part.id);
+    }
+    this.addHierarchy(context, parameter.id, parameter.name, 'parameter', level, part?.id);
+  }
+
+  protected addConstraint(context: ParseContext, constraint: Constraint, level: number, part?: Part): void {
+    context.constraints.push(constraint);
+    if (part) {
+      part.constraints.push(constraint);
+      context.constraintOwners.set(constraint.id, part.id);
+    }
+    this.addHierarchy(context, constraint.id, constraint.name, 'constraint', level, part?.id);
+  }
+
+  /**
+   * Constraints may name the parameters they affect by id, by name, or by a field of
+   * an object-valued parameter; store parameter ids
+   */
+  private resolveReferences(context: ParseContext): void {
+    const ids = new Set(context.parameters.map(parameter => parameter.id));
+    const idsByName = new Map<string, string>();
+    for (const parameter of context.parameters) {
+      const names = [parameter.name, ...(this.isObjectValue(parameter.value) ? Object.keys(parameter.value) : [])];
+      for (const name of names) {
+        if (!idsByName.has(name.toLowerCase())) idsByName.set(name.toLowerCase(), parameter.id);
+      }
+    }
+
+    for (const constraint of context.constraints) {
+      const resolved = constraint.affected_parameters
+        .map(reference => ids.has(reference) ? reference : idsByName.get(reference.toLowerCase()) || reference);
+      constraint.affected_parameters = [...new Set(resolved)];
+    }
+
+    const seen = new Map<string, string>();
+    for (const [kind, items] of [['part', context.parts], ['parameter', context.parameters], ['constraint', context.constraints]] as const) {
+      for (const item of items) {
+        const previous = seen.get(item.id);
+        if (previous) {
+          context.warnings.push(this.createParseError(
+            'structure',
+            `Duplicate id "${item.id}" is used by a ${previous} and a ${kind}`,
+            'warning',
+            item.position
+          ));
+        } else {
+          seen.set(item.id, kind);
+        }
+      }
+    }
+
+    if (this.config.enable_dependency_analysis) {
+      const partIds = new Set(context.parts.map(part => part.id));
+      for (const node of context.hierarchy) {
+        if (node.type === 'part' && node.parent_id && partIds.has(node.parent_id)) {
+          context.dependencies.push({ from: node.parent_id, to: node.id, type: 'includes' });
+        }
+      }
+      for (const part of context.parts) {
+        for (const parameter of part.parameters) {
+          context.dependencies.push({ from: part.id, to: parameter.id, type: 'includes' });
+        }
+        for (const constraint of part.constraints) {
+          context.dependencies.push({ from: part.id, to: constraint.id, type: 'includes' });
+        }
+      }
+      for (const constraint of context.constraints) {
+        for (const parameterId of constraint.affected_parameters) {
+          context.dependencies.push({ from: constraint.id, to: parameterId, type: 'references' });
+        }
+      }
+    }
+  }
+
+  private createVersionMetadata(context: ParseContext, fileType: SpecializedFileType): VersionMetadata {
+    const version = (this.config.enable_version_detection && context.version) || '1.0.0';
+    const match = version.match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+.](.+))?$/);
+
+    return {
+      version,
+      major: match ? parseInt(match[1]) : 0,
+      minor: match?.[2] ? parseInt(match[2]) : 0,
+      patch: match?.[3] ? parseInt(match[3]) : 0,
+      build: match?.[4],
+      release_date: context.release_date,
+      compatibility: context.compatibility.length > 0 ? context.compatibility : [fileType],
+      changes: context.changes
+    };
+  }
+
+  private detectBrokenLogic(context: ParseContext, versionMetadata: VersionMetadata): BrokenLogicDetection[] {
+    const issues: BrokenLogicDetection[] = [];
+    const parameterIds = new Set(context.parameters.map(parameter => parameter.id));
+    const invalidConstraints = new Set<string>();
+
+    for (const parameter of context.parameters) {
+      const missingValue = parameter.value === '' && (parameter.default_value === undefined || parameter.default_value === '');
+      if (parameter.required && missingValue) {
+        const issue = this.createIssue(context.parameterOwners.get(parameter.id), 'missing_parameter', 'high',
+          `Required parameter "${parameter.name}" has no value`, parameter.position,
+          'Set a value or a default_value for the parameter');
+        const value = this.ruleEngine.suggestedValue(parameter);
+        if (value !== undefined) issue.remedies = [{ action: 'set_value', parameter_id: parameter.id, value }];
+        issues.push(issue);
+      }
+    }
+
+    for (const constraint of context.constraints) {
+      const partId = context.constraintOwners.get(constraint.id);
+      const emptyValue = constraint.value === '' || (Array.isArray(constraint.value) && constraint.value.length === 0);
+      const issueCount = issues.length;
+
+      if (emptyValue) {
+        issues.push(this.createIssue(partId, 'invalid_constraint', 'high', `Constraint "${constraint.name}" has no condition or value`,
+          constraint.position, 'Add a condition, or remove the constraint'));
+      } else if (constraint.type === 'range' && typeof constraint.value === 'object') {
+        const { min, max } = constraint.value;
+        if ((min !== undefined && isNaN(Number(min))) || (max !== undefined && isNaN(Number(max)))) {
+          issues.push(this.createIssue(partId, 'invalid_constraint', 'medium', `Range constraint "${constraint.name}" has non-numeric bounds`,
+            constraint.position));
+        } else if (min !== undefined && max !== undefined && Number(min) > Number(max)) {
+          issues.push(this.createIssue(partId, 'invalid_constraint', 'medium', `Range constraint "${constraint.name}" has min ${min} above max ${max}`,
+            constraint.position, 'Swap the min and max bounds'));
+        }
+      }
+
+      // Unknown parameters are reported by the dependency graph analysis
+      if (issues.length > issueCount || constraint.affected_parameters.some(id => !parameterIds.has(id))) {
+        invalidConstraints.add(constraint.id);
+      }
+    }
+
+    // Check the parameter values against every well-formed constraint
+    const evaluation = this.constraintEvaluator.evaluate({
+      parts: context.parts,
+      parameters: context.parameters,
+      constraints: context.constraints.filter(constraint => !invalidConstraints.has(constraint.id))
+    });
+    issues.push(...evaluation.issues);
+    context.warnings.push(...evaluation.warnings);
+
+    // Validation rules of the parameters themselves, then those of the parser configuration
+    const configRules = this.config.validation_rules.map((rule, index): PackRule => ({
+      id: `config_rule_${index + 1}`,
+      severity: 'medium',
+      ...rule
+    }));
+    for (const rules of [this.ruleEngine.evaluateDeclared(context), this.ruleEngine.evaluate(context, configRules)]) {
+      issues.push(...rules.issues);
+      context.warnings.push(...rules.warnings);
+    }
+
+    // Parts can only disagree with a version the file actually declares
+    if (this.config.enable_version_detection && context.version) {
+      for (const part of context.parts) {
+        const major = parseInt(part.metadata.version);
+        if (part.metadata.version && !isNaN(major) && major !== versionMetadata.major) {
+          issues.push(this.createIssue(part.id, 'version_mismatch', 'medium',
+            `Part "${part.name}" is version ${part.metadata.version} but the file is version ${versionMetadata.version}`, part.position));
+        }
+      }
+    }
+
+    if (this.config.enable_dependency_analysis) {
+      const analysis = this.graphAnalyzer.analyze(context);
+      issues.push(...analysis.issues);
+      this.graphAnalyzer.annotate(analysis.graph, issues);
+      context.dependency_graph = analysis.graph;
+    }
+
+    // Issues that break the file are errors as well
+    for (const issue of issues) {
+      if (issue.severity === 'critical' || issue.severity === 'high') {
+        context.errors.push(this.createParseError('validation', issue.description, 'error', issue.position));
+      }
+    }
+
+    return DependencyGraphAnalyzer.orderIssues(issues);
+  }
+
+  private applyPartStatus(context: ParseContext, issues: BrokenLogicDetection[]): void {
+    for (const part of context.parts) {
+      const partIssues = issues.filter(issue => issue.part_id === part.id);
+      if (partIssues.some(issue => issue.severity === 'critical' || issue.severity === 'high')) {
+        part.status = 'broken';
+      } else if (partIssues.length > 0) {
+        part.status = 'warning';
+      }
+      part.errors = partIssues.map(issue => this.createParseError(
+        'logic',
+        issue.description,
+        issue.severity === 'critical' || issue.severity === 'high' ? 'error' : 'warning',
+        issue.position
+      ));
+    }
+  }
+
+  private calculateComplexity(context: ParseContext): number {
+    const depth = context.hierarchy.reduce((deepest, node) => Math.max(deepest, node.level), 0);
+    const score = context.parts.length
+      + context.parameters.length * 0.5
+      + context.constraints.length * 2
+      + context.dependencies.filter(dependency => dependency.type === 'requires' || dependency.type === 'extends').length
+      + depth;
+    return Math.round(score * 100) / 100;
+  }
+
+  // Helper methods
+
+  /**
+   * Validation rules given as min/max/pattern fields or min_value/max_value/allowed_values
+   */
+  private fieldRules(field: FieldReader): ValidationRule[] {
+    const rules: ValidationRule[] = [];
+    const min = field('min_value') ?? field('min');
+    const max = field('max_value') ?? field('max');
+    const pattern = field('pattern');
+    const allowed = field('allowed_values');
+
+    if (min !== undefined) rules.push({ type: 'min', value: Number(min), message: `min ${min}` });
+    if (max !== undefined) rules.push({ type: 'max', value: Number(max), message: `max ${max}` });
+    if (pattern !== undefined) rules.push({ type: 'pattern', value: pattern, message: `pattern ${pattern}` });
+    if (allowed !== undefined) rules.push({ type: 'enum', value: this.splitList(allowed), message: `one of ${allowed}` });
+
+    return rules;
+  }
+
+  protected parameterType(rawType: string | undefined, rawValue: string | undefined): Parameter['type'] {
+    switch ((rawType || '').toLowerCase()) {
+      case 'number': case 'int': case 'integer': case 'float': case 'double': case 'decimal':
+        return 'number';
+      case 'bool': case 'boolean':
+        return 'boolean';
+      case 'array': case 'list':
+        return 'array';
+      case 'object':
+        return 'object';
+      case 'string': case 'text':
+        return 'string';
+    }
+    if (rawValue !== undefined && rawValue !== '' && !isNaN(Number(rawValue))) return 'number';
+    if (rawValue === 'true' || rawValue === 'false') return 'boolean';
+    return 'string';
+  }
+
+  protected coerceValue(rawValue: string, type: Parameter['type']): string | number | boolean {
+    if (type === 'number' && rawValue !== '' && !isNaN(Number(rawValue))) return Number(rawValue);
+    if (type === 'boolean' && (rawValue === 'true' || rawValue === 'false')) return rawValue === 'true';
+    return rawValue;
+  }
+
+  private isObjectValue(value: Parameter['value']): value is Record<string, string | number | boolean> {
+    return typeof value === 'object' && value !== null;
+  }
+
+  private constraintSeverity(rawSeverity: string | undefined): Constraint['severity'] {
+    switch ((rawSeverity || '').toLowerCase()) {
+      case 'warning': case 'medium': return 'warning';
+      case 'info': case 'low': return 'info';
+      default: return 'error';
+    }
+  }
+
+  private dependencyType(rawType: string | undefined): Dependency['type'] {
+    const type = (rawType || '').toLowerCase();
+    return ['requires', 'includes', 'references', 'extends'].includes(type) ? type as Dependency['type'] : 'references';
+  }
+
+  protected isTrue(value: string | undefined): boolean {
+    return ['true', '1', 'yes'].includes((value || '').toLowerCase());
+  }
+
+  protected splitList(value: string | undefined): string[] {
+    return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  }
+
+  private addHierarchy(context: ParseContext, id: string, name: string, type: string, level: number, parentId?: string): void {
+    const parent = context.hierarchyNodes.get(parentId || ROOT_NODE_ID);
+    parent?.children.push(id);
+    const node = this.createHierarchyNode(id, name, type, level, parent?.id);
+    context.hierarchy.push(node);
+    if (!context.hierarchyNodes.has(id)) context.hierarchyNodes.set(id, node);
+  }
+
+  private createHierarchyNode(id: string, name: string, type: string, level: number, parentId?: string): HierarchyNode {
+    return { id, name, type, level, parent_id: parentId, children: [], metadata: {} };
+  }
+
+  // Source range for character offsets, with line and column of the first and last character
+  protected rangeAt(source: string, start: number, end: number, file?: string): SourceRange {
+    return sourceRange(source, start, end, file);
+  }
+
+  private createIssue(
+    partId: string | undefined,
+    issueType: BrokenLogicDetection['issue_type'],
+    severity: BrokenLogicDetection['severity'],
+    description: string,
+    position: SourceRange,
+    suggestedFix?: string
+  ): BrokenLogicDetection {
+    return {
+      part_id: partId || '',
+      issue_type: issueType,
+      severity,
+      description,
+      suggested_fix: suggestedFix,
+      line_number: position.line,
+      position
+    };
+  }
+
+  protected createParseError(
+    type: ParseError['type'],
+    message: string,
+    severity: ParseError['severity'],
+    position: SourceRange
+  ): ParseError {
+    return {
+      type,
+      message,
+      severity,
+      line_number: position.line,
+      position
+    };
+  }
+}
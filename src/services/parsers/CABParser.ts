@@ -0,0 +1,168 @@
+import {
+  SpecializedFileType,
+  SpecializedParserConfig,
+  SourceRange,
+  Part
+} from '../../types/specialized-parser.js';
+import { BaseSpecializedParser, FieldReader, ParseContext } from './BaseSpecializedParser.js';
+
+// A header line followed by key=value lines, ended by a blank line
+interface Block {
+  header?: string; // Absent for a leading block of file-level fields
+  fields: Map<string, string>; // Keys lower-cased, in file order
+  position: SourceRange;
+}
+
+const FORMAT_PREFIXES = ['CABX_', 'CAB_', 'MZB_'];
+
+// Fields that describe a parameter rather than hold one of its values
+const PARAMETER_FIELDS = new Set([
+  'name', 'type', 'unit', 'unit_system', 'required', 'description', 'default_value', 'default',
+  'min', 'max', 'min_value', 'max_value', 'allowed_values', 'pattern'
+]);
+
+/**
+ * Parses the block formats of .cab and .mzb files:
+ *
+ *   CAB_MAIN_COMPONENT        part
+ *   CAB_PARAMETER_SIZE        parameter of the preceding part
+ *   CONSTRAINT_SIZE_MATERIAL  constraint of the preceding part
+ *   DEPENDENCY_SUB_TO_MAIN    dependency
+ *
+ * each followed by key=value lines. A parameter without a `value` key keeps its
+ * other keys as an object value, e.g. length/width/height.
+ */
+export class CABParser extends BaseSpecializedParser {
+  constructor(
+    config: Partial<SpecializedParserConfig> = {},
+    supportedTypes: SpecializedFileType[] = [SpecializedFileType.CAB, SpecializedFileType.MZB]
+  ) {
+    super(supportedTypes, config);
+  }
+
+  collect(source: string, context: ParseContext, file?: string): void {
+    let currentPart: Part | undefined;
+    const firstPartIndex = context.parts.length;
+
+    for (const block of this.readBlocks(source, context, file)) {
+      const field: FieldReader = name => block.fields.get(name);
+
+      if (!block.header) {
+        // File-level fields before the first block
+        context.version = context.version || field('version');
+        context.release_date = context.release_date || field('release_date');
+        context.compatibility.push(...this.splitList(field('compatibility')));
+        this.addSection(context, source, block, 'metadata');
+        continue;
+      }
+
+      const name = block.header.replace(new RegExp(`^(${FORMAT_PREFIXES.join('|')})`), '');
+      const prefixed = name !== block.header;
+      const readable = (prefix: string) => name.substring(prefix.length).toLowerCase();
+
+      if (name.startsWith('CONSTRAINT_')) {
+        const constraint = this.createConstraint(context, block.header, this.withName(field, readable('CONSTRAINT_')), block.position);
+        this.addConstraint(context, constraint, currentPart ? 2 : 1, currentPart);
+      } else if (name.startsWith('DEPENDENCY_')) {
+        if (this.config.enable_dependency_analysis) {
+          // Without from/to, a dependency relates the enclosing part to the file's main part
+          const mainPart = context.parts[firstPartIndex];
+          context.dependencies.push(this.createDependency(field, block.position, currentPart?.id, mainPart !== currentPart ? mainPart?.id : undefined));
+        }
+      } else if (name.startsWith('CHANGE_')) {
+        context.changes.push(this.createChangeLog(field));
+      } else if (prefixed && name.startsWith('PARAMETER_')) {
+        const parameter = this.createParameter(context, block.header, this.withName(field, readable('PARAMETER_')), block.position);
+        const values = [...block.fields.entries()].filter(([key]) => !PARAMETER_FIELDS.has(key) && key !== 'value');
+        if (field('value') === undefined && values.length > 0) {
+          parameter.type = 'object';
+          parameter.value = Object.fromEntries(
+            values.map(([key, value]) => [key, this.coerceValue(value, this.parameterType(undefined, value))])
+          );
+        }
+        this.addParameter(context, parameter, currentPart ? 2 : 1, currentPart);
+      } else if (prefixed) {
+        currentPart = this.createPart(context, block.header, this.withName(field, this.humanize(name)), 'component', block.position);
+        this.addPart(context, currentPart, 1);
+        this.addSection(context, source, block, 'body');
+      } else {
+        context.warnings.push(this.createParseError('structure', `Unrecognized block "${block.header}"`, 'warning', block.position));
+      }
+    }
+  }
+
+  /**
+   * Split the source into blocks. Lines starting with # or ; are comments.
+   */
+  private readBlocks(source: string, context: ParseContext, file?: string): Block[] {
+    const blocks: Block[] = [];
+    let current: Block | null = null;
+    let lastLineEnd = 0;
+
+    const close = () => {
+      if (current) {
+        current.position = this.rangeAt(source, current.position.start, lastLineEnd, file);
+        blocks.push(current);
+        current = null;
+      }
+    };
+
+    const lines = /[^\r\n]*(?:\r?\n|$)/g;
+    for (let match = lines.exec(source); match && match[0] !== ''; match = lines.exec(source)) {
+      const text = match[0].replace(/\r?\n$/, '');
+      const line = text.trim();
+      const lineStart = match.index + (text.length - text.trimStart().length);
+      const lineEnd = match.index + text.trimEnd().length;
+
+      if (line === '') {
+        close();
+        continue;
+      }
+      if (line.startsWith('#') || line.startsWith(';')) continue;
+
+      const separator = line.indexOf('=');
+      if (separator > 0) {
+        if (!current) current = { fields: new Map(), position: { start: lineStart, end: lineEnd } };
+        current.fields.set(line.substring(0, separator).trim().toLowerCase(), line.substring(separator + 1).trim());
+      } else if (/^[A-Za-z][A-Za-z0-9_]*$/.test(line)) {
+        close();
+        current = { header: line.toUpperCase(), fields: new Map(), position: { start: lineStart, end: lineEnd } };
+      } else {
+        const position = this.rangeAt(source, lineStart, lineEnd, file);
+        if (this.config.strict_mode) {
+          throw new Error(`Invalid line ${position.line}: ${line}`);
+        }
+        context.errors.push(this.createParseError('parsing', `Expected a block header or key=value, found "${line}"`, 'error', position));
+        continue;
+      }
+      lastLineEnd = lineEnd;
+    }
+    close();
+
+    return blocks;
+  }
+
+  private addSection(context: ParseContext, source: string, block: Block, type: 'metadata' | 'body'): void {
+    context.sections.push({
+      id: `section_${context.sections.length + 1}`,
+      name: block.header || 'metadata',
+      type,
+      content: source.substring(block.position.start, block.position.end),
+      position: block.position,
+      subsections: []
+    });
+  }
+
+  // Helper methods
+
+  /**
+   * Blocks name their subject in the header; a `name` field takes precedence
+   */
+  private withName(field: FieldReader, name: string): FieldReader {
+    return key => key === 'name' ? field('name') ?? name : field(key);
+  }
+
+  private humanize(name: string): string {
+    return name.toLowerCase().split('_').filter(Boolean).map(word => word[0].toUpperCase() + word.substring(1)).join(' ');
+  }
+}
@@ -0,0 +1,66 @@
+import path from 'path';
+import {
+  SpecializedFileType,
+  SpecializedParserConfig,
+  SpecializedParseResult
+} from '../../types/specialized-parser.js';
+import { BaseSpecializedParser } from './BaseSpecializedParser.js';
+import { CABParser } from './CABParser.js';
+import { SpecializedParser } from './SpecializedParser.js';
+import { isZipArchive, readZipEntries } from '../../utils/zip.js';
+
+/**
+ * Parses .cabx files. A .cabx is either a ZIP container of .cab, .mzb and XML entries
+ * or a single extended CAB block file. Entries are parsed into one result; positions
+ * in it name the entry they refer to.
+ */
+export class CABXParser extends CABParser {
+  private entryParsers: Array<{ extensions: string[]; parser: BaseSpecializedParser }>;
+
+  constructor(config: Partial<SpecializedParserConfig> = {}) {
+    super(config, [SpecializedFileType.CABX]);
+    this.entryParsers = [
+      { extensions: ['.cab', '.cabx', '.mzb', '.txt'], parser: new CABParser(config) },
+      { extensions: ['.xml', '.moz', '.dat', '.des'], parser: new SpecializedParser(config) }
+    ];
+  }
+
+  async parse(file: Buffer | string, fileType: SpecializedFileType): Promise<SpecializedParseResult> {
+    if (typeof file === 'string' || !isZipArchive(file)) {
+      return super.parse(file, fileType);
+    }
+
+    const startTime = Date.now();
+    const fileSize = this.checkFile(file, fileType);
+    const context = this.createContext();
+
+    let entries;
+    try {
+      entries = readZipEntries(file, this.config.max_file_size * 10);
+    } catch (error) {
+      if (this.config.strict_mode) throw error;
+      context.errors.push(this.createParseError('parsing', String(error instanceof Error ? error.message : error), 'error', { start: 0, end: 0 }));
+      entries = [];
+    }
+
+    for (const entry of entries) {
+      const extension = path.extname(entry.name).toLowerCase();
+      const entryParser = this.entryParsers.find(candidate => candidate.extensions.includes(extension));
+      if (!entryParser) {
+        context.warnings.push(this.createParseError('extraction', `Skipped unsupported archive entry ${entry.name}`, 'info', {
+          start: 0,
+          end: 0,
+          file: entry.name
+        }));
+        continue;
+      }
+      entryParser.parser.collect(this.decode(entry.data), context, entry.name);
+    }
+
+    if (entries.length > 0 && context.parts.length === 0 && context.parameters.length === 0) {
+      context.warnings.push(this.createParseError('extraction', 'Archive contains no parts or parameters', 'warning', { start: 0, end: 0 }));
+    }
+
+    return this.buildResult(context, fileType, fileSize, startTime);
+  }
+}
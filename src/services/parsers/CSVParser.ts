@@ -0,0 +1,186 @@
+import { BaseParser } from './BaseParser.js';
+import { FileType, FileMetadata, ParseResult, ParseError } from '../../types/file-parser.js';
+import { DecodedText } from '../../utils/encoding.js';
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Lines looked at when guessing the delimiter
+const SNIFF_LINES = 20;
+
+/**
+ * Parses delimited text. The delimiter is guessed from the first lines, fields may be
+ * quoted (with "" for a quote inside), and the first row is the header. Besides the
+ * table, the content renders every row as "header: value" pairs on one line, which
+ * embeds far better than the raw delimited text.
+ */
+export class CSVParser extends BaseParser {
+  constructor() {
+    super([FileType.CSV], {
+      canExtractText: true,
+      canExtractMetadata: true,
+      canExtractSections: false,
+      canExtractTables: true,
+      canExtractImages: false,
+      canExtractLinks: true
+    });
+  }
+
+  async parse(file: Buffer, metadata: FileMetadata): Promise<ParseResult> {
+    try {
+      const decoded = this.readText(file);
+      const text = decoded.text;
+      const { rows, errors } = this.readRows(text, this.sniffDelimiter(text));
+      const [header = [], ...records] = rows;
+      const headers = header.map((name, index) => name.trim() || `column_${index + 1}`);
+      const content = this.render(headers, records);
+
+      const width = headers.length;
+      const ragged = records.filter(record => record.length !== width).length;
+      if (ragged > 0) {
+        errors.push(this.createParseError('validation', `${ragged} row(s) do not have ${width} fields like the header`, 'warning'));
+      }
+
+      return {
+        content,
+        metadata: this.mergeMetadata(metadata, this.readMetadata(file, decoded)),
+        sections: [],
+        tables: rows.length > 0
+          ? [this.createTableData(headers, records.map(record => headers.map((_, index) => record[index] ?? '')), 0, content.length)]
+          : [],
+        images: [],
+        links: this.extractLinksFromText(content),
+        errors
+      };
+    } catch (error) {
+      return {
+        content: '',
+        metadata,
+        sections: [],
+        tables: [],
+        images: [],
+        links: [],
+        errors: [this.createParseError('parsing', `Failed to parse CSV file: ${error}`)]
+      };
+    }
+  }
+
+  async extractText(file: Buffer): Promise<string> {
+    const text = this.readText(file).text;
+    const [header = [], ...records] = this.readRows(text, this.sniffDelimiter(text)).rows;
+    return this.render(header.map((name, index) => name.trim() || `column_${index + 1}`), records);
+  }
+
+  async extractMetadata(file: Buffer): Promise<FileMetadata> {
+    return this.readMetadata(file, this.readText(file));
+  }
+
+  async validateFile(file: Buffer): Promise<boolean> {
+    return file.length > 0 && !file.subarray(0, 8000).includes(0);
+  }
+
+  /**
+   * The delimiter that splits the first lines into the same number of fields, more
+   * than one; the most fields wins a tie. Quoted text is ignored while counting.
+   */
+  private sniffDelimiter(text: string): string {
+    const lines = text
+      .replace(/"(?:[^"]|"")*"/g, '""')
+      .split('\n')
+      .filter(line => line.trim())
+      .slice(0, SNIFF_LINES);
+    if (lines.length === 0) return ',';
+
+    let best = { delimiter: ',', consistency: 0, fields: 0 };
+    for (const delimiter of DELIMITERS) {
+      const counts = lines.map(line => line.split(delimiter).length);
+      const fields = counts[0];
+      if (fields < 2) continue;
+
+      const consistency = counts.filter(count => count === fields).length / counts.length;
+      if (consistency > best.consistency || (consistency === best.consistency && fields > best.fields)) {
+        best = { delimiter, consistency, fields };
+      }
+    }
+    return best.delimiter;
+  }
+
+  /**
+   * Split the text into rows of fields (RFC 4180). Quoted fields may hold delimiters
+   * and line breaks; blank lines are skipped.
+   */
+  private readRows(text: string, delimiter: string): { rows: string[][]; errors: ParseError[] } {
+    const rows: string[][] = [];
+    const errors: ParseError[] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    let quoteStart = 0;
+
+    const endRow = () => {
+      row.push(field);
+      if (row.length > 1 || row[0].trim()) rows.push(row);
+      row = [];
+      field = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field.trim() === '') {
+        quoted = true;
+        quoteStart = i;
+        field = '';
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        endRow();
+      } else {
+        field += char;
+      }
+    }
+
+    if (quoted) {
+      errors.push(this.createParseError('parsing', 'Quoted field is not closed before the end of the file', 'warning', quoteStart));
+    }
+    if (field || row.length > 0) endRow();
+
+    return { rows: rows.map(fields => fields.map(value => value.trim())), errors };
+  }
+
+  /**
+   * One line per row, e.g. "Name: Base unit; Width: 600", leaving out empty fields.
+   * A value holding a semicolon or starting with a quote is quoted, with "" for a quote
+   * inside, so the pairs can always be told apart: Finish: "Oak; oiled".
+   */
+  private render(headers: string[], records: string[][]): string {
+    const quote = (value: string) => /;|^"/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    return records
+      .map(record => record
+        .map((value, index) => value ? `${headers[index] ?? `column_${index + 1}`}: ${quote(value.replace(/\s*\n\s*/g, ' '))}` : '')
+        .filter(Boolean)
+        .join('; '))
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private readMetadata(file: Buffer, decoded: DecodedText): FileMetadata {
+    return {
+      filename: 'unknown.csv',
+      file_type: FileType.CSV,
+      file_size: file.length,
+      mime_type: 'text/csv',
+      encoding: decoded.encoding,
+      newline: decoded.newline
+    };
+  }
+}
@@ -0,0 +1,426 @@
+import path from 'path';
+import { BaseParser } from './BaseParser.js';
+import {
+  FileType,
+  FileMetadata,
+  ParseResult,
+  DocumentSection,
+  TableData,
+  ImageData,
+  LinkData,
+  ParseError
+} from '../../types/file-parser.js';
+import { isZipArchive, readZipEntries } from '../../utils/zip.js';
+import { parseXml, XmlElement } from '../../utils/xml.js';
+
+// Limit on the unpacked size of a package, so a small upload cannot expand without bound
+const MAX_PACKAGE_SIZE = 200 * 1024 * 1024;
+
+const OFFICE_DOCUMENT = '/officeDocument';
+const STYLES = '/styles';
+
+// Elements whose text is not part of the document as it reads: run and paragraph
+// properties, field instructions, and deleted or moved-away runs
+const SKIPPED_INLINE = new Set(['ppr', 'rpr', 'del', 'movefrom', 'instrtext']);
+
+interface DocxPackage {
+  document: XmlElement;
+  relationships: Map<string, string>; // Relationship id -> target, for hyperlinks
+  headingLevels: Map<string, number>; // Paragraph style id -> heading level
+  core: XmlElement | null;
+  app: XmlElement | null;
+  errors: ParseError[];
+}
+
+// What reading the body collects; positions are offsets into content
+interface DocxBody {
+  content: string;
+  headings: Array<{ title: string; level: number; start: number }>;
+  tables: TableData[];
+  images: ImageData[];
+  links: LinkData[];
+  tableDepth: number; // Paragraphs inside table cells are joined with spaces, not newlines
+}
+
+/**
+ * Parses Word documents by reading the OOXML package: paragraph text in reading
+ * order, heading styles as levelled sections, tables with their header rows,
+ * embedded images with their alt text, hyperlinks and the core properties.
+ */
+export class DOCXParser extends BaseParser {
+  constructor() {
+    super([FileType.DOCX], {
+      canExtractText: true,
+      canExtractMetadata: true,
+      canExtractSections: true,
+      canExtractTables: true,
+      canExtractImages: true,
+      canExtractLinks: true
+    });
+  }
+
+  async parse(file: Buffer, metadata: FileMetadata): Promise<ParseResult> {
+    try {
+      const docx = this.readPackage(file);
+      const body = this.readBody(docx);
+
+      return {
+        content: body.content,
+        metadata: this.mergeMetadata(metadata, this.readMetadata(docx, file)),
+        sections: this.buildSections(body),
+        tables: body.tables,
+        images: body.images,
+        links: body.links,
+        errors: docx.errors
+      };
+    } catch (error) {
+      return {
+        content: '',
+        metadata,
+        sections: [],
+        tables: [],
+        images: [],
+        links: [],
+        errors: [this.createParseError('parsing', `Failed to parse DOCX file: ${error}`)]
+      };
+    }
+  }
+
+  async extractText(file: Buffer): Promise<string> {
+    try {
+      return this.readBody(this.readPackage(file)).content;
+    } catch (error) {
+      throw new Error(`DOCX text extraction failed: ${error}`);
+    }
+  }
+
+  async extractMetadata(file: Buffer): Promise<FileMetadata> {
+    return this.readMetadata(this.readPackage(file), file);
+  }
+
+  async validateFile(file: Buffer): Promise<boolean> {
+    if (!isZipArchive(file)) return false;
+    try {
+      const names = readZipEntries(file, MAX_PACKAGE_SIZE).map(entry => entry.name);
+      return names.includes('[Content_Types].xml') && names.some(name => name.startsWith('word/'));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Unpack the parts the parser needs, following the package relationships to find
+   * the main document and its styles
+   */
+  private readPackage(file: Buffer): DocxPackage {
+    if (!isZipArchive(file)) {
+      throw new Error('File is not a ZIP package');
+    }
+
+    const entries = new Map(readZipEntries(file, MAX_PACKAGE_SIZE).map(entry => [entry.name, entry.data]));
+    const errors: ParseError[] = [];
+    const read = (name: string): XmlElement | null => {
+      const data = entries.get(name);
+      if (!data) return null;
+      return parseXml(data.toString('utf8').replace(/^\uFEFF/, ''), message => {
+        errors.push(this.createParseError('parsing', `${name}: ${message}`, 'warning'));
+      });
+    };
+
+    const packageRelationships = this.readRelationships(read('_rels/.rels'), '');
+    const documentName = this.findRelationship(packageRelationships, OFFICE_DOCUMENT) || 'word/document.xml';
+    const document = read(documentName);
+    if (!document) {
+      throw new Error(`Package has no main document (${documentName})`);
+    }
+
+    const documentDirectory = path.posix.dirname(documentName);
+    const relationships = this.readRelationships(
+      read(path.posix.join(documentDirectory, '_rels', `${path.posix.basename(documentName)}.rels`)),
+      documentDirectory
+    );
+    const stylesName = this.findRelationship(relationships, STYLES) || path.posix.join(documentDirectory, 'styles.xml');
+
+    return {
+      document,
+      relationships: new Map([...relationships.values()].map(relationship => [relationship.id, relationship.target])),
+      headingLevels: this.readHeadingLevels(read(stylesName)),
+      core: read('docProps/core.xml'),
+      app: read('docProps/app.xml'),
+      errors
+    };
+  }
+
+  /**
+   * Relationships by id. Internal targets are resolved against the directory of the
+   * part that owns them; external ones (hyperlinks) are kept as written.
+   */
+  private readRelationships(root: XmlElement | null, directory: string): Map<string, { id: string; type: string; target: string }> {
+    const relationships = new Map<string, { id: string; type: string; target: string }>();
+    for (const relationship of root?.children || []) {
+      const { id, type = '', target = '', targetmode } = relationship.attributes;
+      if (relationship.name !== 'relationship' || !id) continue;
+      const resolved = targetmode === 'External'
+        ? target
+        : target.startsWith('/') ? target.slice(1) : path.posix.normalize(path.posix.join(directory, target));
+      relationships.set(id, { id, type, target: resolved });
+    }
+    return relationships;
+  }
+
+  private findRelationship(relationships: Map<string, { type: string; target: string }>, typeSuffix: string): string | undefined {
+    return [...relationships.values()].find(relationship => relationship.type.endsWith(typeSuffix))?.target;
+  }
+
+  /**
+   * Heading level of every paragraph style that is a heading: the built-in
+   * "heading N" styles, styles with an outline level, and styles based on either
+   */
+  private readHeadingLevels(styles: XmlElement | null): Map<string, number> {
+    const definitions = new Map<string, { level?: number; basedOn?: string }>();
+    for (const style of styles?.children || []) {
+      if (style.name !== 'style' || style.attributes.type !== 'paragraph' || !style.attributes.styleid) continue;
+
+      const name = this.child(style, 'name')?.attributes.val || '';
+      const outlineLevel = this.child(this.child(style, 'ppr'), 'outlinelvl')?.attributes.val;
+      const heading = name.match(/^heading\s*(\d)$/i);
+      let level: number | undefined;
+      if (heading) {
+        level = parseInt(heading[1], 10);
+      } else if (outlineLevel !== undefined && parseInt(outlineLevel, 10) < 9) {
+        level = parseInt(outlineLevel, 10) + 1;
+      }
+      definitions.set(style.attributes.styleid, { level, basedOn: this.child(style, 'basedon')?.attributes.val });
+    }
+
+    const levels = new Map<string, number>();
+    for (const id of definitions.keys()) {
+      const visited = new Set<string>();
+      let current: string | undefined = id;
+      while (current && !visited.has(current)) {
+        visited.add(current);
+        const definition = definitions.get(current);
+        if (definition?.level) {
+          levels.set(id, definition.level);
+          break;
+        }
+        current = definition?.basedOn;
+      }
+    }
+    return levels;
+  }
+
+  private readBody(docx: DocxPackage): DocxBody {
+    const body: DocxBody = { content: '', headings: [], tables: [], images: [], links: [], tableDepth: 0 };
+    const documentBody = this.child(docx.document, 'body');
+    if (documentBody) {
+      this.readBlocks(documentBody, body, docx);
+    }
+    body.content = body.content.replace(/\s+$/, '');
+    for (const table of body.tables) {
+      table.end_position = Math.min(table.end_position, body.content.length);
+    }
+    return body;
+  }
+
+  /**
+   * Paragraphs and tables in document order; content controls and custom XML
+   * wrappers are read through
+   */
+  private readBlocks(element: XmlElement, body: DocxBody, docx: DocxPackage): void {
+    for (const child of element.children) {
+      if (child.name === 'p') {
+        this.readParagraph(child, body, docx);
+      } else if (child.name === 'tbl') {
+        this.readTable(child, body, docx);
+      } else if (child.name !== 'sectpr' && !SKIPPED_INLINE.has(child.name)) {
+        this.readBlocks(child, body, docx);
+      }
+    }
+  }
+
+  private readParagraph(paragraph: XmlElement, body: DocxBody, docx: DocxPackage): void {
+    const start = body.content.length;
+    this.readInline(paragraph, body, docx);
+
+    const properties = this.child(paragraph, 'ppr');
+    const styleId = this.child(properties, 'pstyle')?.attributes.val;
+    const outlineLevel = this.child(properties, 'outlinelvl')?.attributes.val;
+    const level = outlineLevel !== undefined && parseInt(outlineLevel, 10) < 9
+      ? parseInt(outlineLevel, 10) + 1
+      : styleId ? docx.headingLevels.get(styleId) : undefined;
+    const title = body.content.slice(start).trim();
+
+    if (level && title && body.tableDepth === 0) {
+      body.headings.push({ title, level, start });
+    }
+    body.content += body.tableDepth > 0 ? ' ' : '\n';
+  }
+
+  /**
+   * Text of runs in reading order, recording hyperlinks and images where they occur
+   */
+  private readInline(element: XmlElement, body: DocxBody, docx: DocxPackage): void {
+    for (const child of element.children) {
+      switch (child.name) {
+        case 't':
+          body.content += child.text;
+          break;
+        case 'tab':
+          body.content += '\t';
+          break;
+        case 'br':
+        case 'cr':
+          body.content += body.tableDepth > 0 ? ' ' : '\n';
+          break;
+        case 'nobreakhyphen':
+          body.content += '-';
+          break;
+        case 'hyperlink':
+        case 'fldsimple': {
+          const start = body.content.length;
+          this.readInline(child, body, docx);
+          this.addLink(child, start, body, docx);
+          break;
+        }
+        case 'drawing':
+        case 'pict':
+          this.addImage(child, body, docx);
+          break;
+        default:
+          if (!SKIPPED_INLINE.has(child.name)) this.readInline(child, body, docx);
+      }
+    }
+  }
+
+  /**
+   * A table as tab-separated lines in the content, one per row. Rows marked to repeat
+   * as a header are the headers; without any, the first row is.
+   */
+  private readTable(table: XmlElement, body: DocxBody, docx: DocxPackage): void {
+    const start = body.content.length;
+    const rows: string[][] = [];
+    let headerRows = 0;
+
+    body.tableDepth++;
+    for (const row of table.children.filter(child => child.name === 'tr')) {
+      const cells: string[] = [];
+      for (const cell of row.children.filter(child => child.name === 'tc')) {
+        if (cells.length > 0) body.content += '\t';
+        const cellStart = body.content.length;
+        this.readBlocks(cell, body, docx);
+        body.content = body.content.replace(/ +$/, '');
+        cells.push(body.content.slice(cellStart).trim());
+
+        // Keep columns aligned with the header when a cell spans several
+        const span = parseInt(this.child(this.child(cell, 'tcpr'), 'gridspan')?.attributes.val || '1', 10);
+        for (let i = 1; i < span; i++) cells.push('');
+      }
+
+      const header = this.child(this.child(row, 'trpr'), 'tblheader');
+      if (header && !['false', '0', 'off'].includes(header.attributes.val) && headerRows === rows.length) {
+        headerRows++;
+      }
+      rows.push(cells);
+      body.content += body.tableDepth > 1 ? ' ' : '\n';
+    }
+    body.tableDepth--;
+
+    if (rows.length === 0) return;
+    headerRows = headerRows || 1;
+    const headers = rows.slice(0, headerRows).reduce((merged, row) =>
+      row.map((cell, index) => [merged[index], cell].filter(Boolean).join(' ')), [] as string[]);
+
+    body.tables.push(this.createTableData(
+      headers,
+      rows.slice(headerRows),
+      start,
+      body.content.length,
+      this.child(this.child(table, 'tblpr'), 'tblcaption')?.attributes.val
+    ));
+  }
+
+  /**
+   * Hyperlinks point at a relationship (external) or a bookmark (internal); simple
+   * HYPERLINK fields carry the URL in their instruction
+   */
+  private addLink(element: XmlElement, start: number, body: DocxBody, docx: DocxPackage): void {
+    let url: string | undefined;
+    if (element.name === 'fldsimple') {
+      url = (element.attributes.instr || '').match(/^\s*HYPERLINK\s+"([^"]+)"/)?.[1];
+    } else if (element.attributes.id) {
+      url = docx.relationships.get(element.attributes.id);
+    } else if (element.attributes.anchor) {
+      url = `#${element.attributes.anchor}`;
+    }
+    if (!url) return;
+
+    const text = body.content.slice(start).trim() || url;
+    body.links.push(this.createLinkData(text, url, start));
+  }
+
+  /**
+   * DrawingML images take their alt text from the drawing's description or title;
+   * legacy VML images from the shape's alt text or the image title
+   */
+  private addImage(element: XmlElement, body: DocxBody, docx: DocxPackage): void {
+    const properties = this.find(element, 'docpr');
+    const blip = this.find(element, 'blip');
+    const shape = this.find(element, 'shape');
+    const imageData = this.find(element, 'imagedata');
+    if (!blip && !imageData) return; // Shapes and charts without a picture
+
+    const altText = properties?.attributes.descr || properties?.attributes.title
+      || shape?.attributes.alt || imageData?.attributes.title || '';
+    const caption = properties?.attributes.descr && properties.attributes.title ? properties.attributes.title : undefined;
+    body.images.push(this.createImageData(altText, body.content.length, undefined, caption));
+  }
+
+  /**
+   * Sections run from their heading to the next heading
+   */
+  private buildSections(body: DocxBody): DocumentSection[] {
+    return body.headings.map((heading, index) => {
+      const end = index + 1 < body.headings.length ? body.headings[index + 1].start : body.content.length;
+      return this.createDocumentSection(heading.title, body.content.slice(heading.start, end), heading.level, heading.start, end);
+    });
+  }
+
+  /**
+   * Core properties (title, author, subject, keywords, dates) and the page count
+   * Word last saved in the extended properties
+   */
+  private readMetadata(docx: DocxPackage, file: Buffer): FileMetadata {
+    const core = (name: string) => this.child(docx.core, name)?.text.trim() || undefined;
+    const pages = parseInt(this.child(docx.app, 'pages')?.text || '', 10);
+
+    return {
+      filename: 'unknown.docx',
+      file_type: FileType.DOCX,
+      file_size: file.length,
+      mime_type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      title: core('title'),
+      author: core('creator') || core('lastmodifiedby'),
+      subject: core('subject'),
+      keywords: core('keywords')?.split(/[,;]/).map(keyword => keyword.trim()).filter(Boolean),
+      language: core('language'),
+      page_count: isNaN(pages) ? undefined : pages,
+      created_date: this.parseDate(core('created')),
+      modified_date: this.parseDate(core('modified'))
+    };
+  }
+
+  // Helper methods
+
+  private child(element: XmlElement | null | undefined, name: string): XmlElement | undefined {
+    return element?.children.find(child => child.name === name);
+  }
+
+  private find(element: XmlElement, name: string): XmlElement | undefined {
+    for (const child of element.children) {
+      const found = child.name === name ? child : this.find(child, name);
+      if (found) return found;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,294 @@
+import {
+  BrokenLogicDetection,
+  Constraint,
+  Dependency,
+  DependencyGraph,
+  DependencyGraphEdge,
+  DependencyGraphNode,
+  HierarchyNode,
+  IssueRemedy,
+  Parameter,
+  Part,
+  SourceRange
+} from '../../types/specialized-parser.js';
+
+export interface DependencyGraphInput {
+  parts: Part[];
+  parameters: Parameter[];
+  constraints: Constraint[];
+  dependencies: Dependency[];
+  hierarchy?: HierarchyNode[];
+}
+
+export interface DependencyGraphAnalysis {
+  graph: DependencyGraph;
+  issues: BrokenLogicDetection[];
+}
+
+const SEVERITY_ORDER: Record<BrokenLogicDetection['severity'], number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3
+};
+
+const NO_POSITION: SourceRange = { start: 0, end: 0 };
+
+/**
+ * Builds the graph of parts, parameters and constraints of a parsed file and finds
+ * cycles, references to undefined nodes, parameters nothing uses and parts with no
+ * connections at all.
+ */
+export class DependencyGraphAnalyzer {
+  analyze(file: DependencyGraphInput): DependencyGraphAnalysis {
+    const nodes = this.buildNodes(file);
+    const issues: BrokenLogicDetection[] = [];
+    const edges: DependencyGraphEdge[] = [];
+    const seen = new Set<string>();
+
+    for (const dependency of file.dependencies) {
+      const source = nodes.get(dependency.from);
+      if (!dependency.from || !dependency.to) {
+        issues.push(this.createIssue(file, 'dangling_reference', 'medium',
+          `Dependency${dependency.description ? ` "${dependency.description}"` : ''} has no ${dependency.from ? 'target' : 'source'}`,
+          [dependency.from || dependency.to].filter(Boolean), dependency.position || source?.position,
+          'Add the missing end, or remove the dependency', this.removal(dependency, source)));
+        continue;
+      }
+
+      const key = `${dependency.from}->${dependency.to}:${dependency.type}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      for (const endpoint of [dependency.from, dependency.to]) {
+        if (!nodes.has(endpoint)) {
+          nodes.set(endpoint, { id: endpoint, label: endpoint, type: 'missing', status: 'error' });
+          const referrer = nodes.get(endpoint === dependency.to ? dependency.from : dependency.to);
+          issues.push(this.createIssue(file, 'dangling_reference', 'medium',
+            `${this.describe(referrer)} references "${endpoint}", which is not defined in the file`,
+            [endpoint, ...(referrer ? [referrer.id] : [])], referrer?.position,
+            `Define "${endpoint}", or remove the reference`, this.removal(dependency, source)));
+        }
+      }
+
+      edges.push({
+        id: `edge_${edges.length + 1}`,
+        source: dependency.from,
+        target: dependency.to,
+        type: dependency.type,
+        description: dependency.description
+      });
+    }
+
+    const cycles = this.findCycles([...nodes.keys()], edges);
+    for (const cycle of cycles) {
+      const first = nodes.get(cycle[0]);
+      issues.push(this.createIssue(file, 'circular_dependency', 'high',
+        `Circular dependency: ${cycle.map(id => nodes.get(id)?.label || id).join(' -> ')}`,
+        cycle.slice(0, -1), first?.position, 'Remove one of the dependencies in the cycle'));
+    }
+
+    const incoming = new Set(edges.map(edge => edge.target));
+    const connected = new Set([...incoming, ...edges.map(edge => edge.source)]);
+    for (const parameter of file.parameters) {
+      if (!incoming.has(parameter.id)) {
+        issues.push(this.createIssue(file, 'unused_parameter', 'low',
+          `Parameter "${parameter.name}" belongs to no part and no constraint or dependency references it`,
+          [parameter.id], parameter.position, 'Move the parameter into a part, or remove it'));
+      }
+    }
+    for (const part of file.parts) {
+      if (!connected.has(part.id)) {
+        issues.push(this.createIssue(file, 'orphan_part', 'low',
+          `Part "${part.name}" has no parameters, constraints or dependencies`,
+          [part.id], part.position));
+      }
+    }
+
+    const graph: DependencyGraph = { nodes: [...nodes.values()], edges, cycles };
+    this.annotate(graph, issues);
+
+    return { graph, issues: DependencyGraphAnalyzer.orderIssues(issues) };
+  }
+
+  /**
+   * Mark the nodes involved in issues so the graph can be colored by them
+   */
+  annotate(graph: DependencyGraph, issues: BrokenLogicDetection[]): void {
+    const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+    for (const issue of issues) {
+      const ids = issue.node_ids || [issue.constraint_id, ...(issue.parameter_ids || []), issue.part_id];
+      const status = SEVERITY_ORDER[issue.severity] <= SEVERITY_ORDER.high ? 'error' : 'warning';
+      for (const id of ids) {
+        const node = id ? nodes.get(id) : undefined;
+        if (node && node.status !== 'error') node.status = status;
+      }
+    }
+  }
+
+  /**
+   * Most severe first, then in file order
+   */
+  static orderIssues(issues: BrokenLogicDetection[]): BrokenLogicDetection[] {
+    return [...issues].sort((a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+      || (a.position?.file || '').localeCompare(b.position?.file || '')
+      || (a.position?.start ?? 0) - (b.position?.start ?? 0)
+    );
+  }
+
+  private buildNodes(file: DependencyGraphInput): Map<string, DependencyGraphNode> {
+    const nodes = new Map<string, DependencyGraphNode>();
+    const parents = new Map((file.hierarchy || []).map(node => [node.id, node.parent_id]));
+    const partIds = new Set(file.parts.map(part => part.id));
+    const parentPart = (id: string) => {
+      const parent = parents.get(id);
+      return parent && partIds.has(parent) ? parent : undefined;
+    };
+    const add = (id: string, label: string, type: DependencyGraphNode['type'], position: SourceRange) => {
+      if (!nodes.has(id)) {
+        nodes.set(id, { id, label, type, parent_id: parentPart(id), position, status: 'ok' });
+      }
+    };
+
+    file.parts.forEach(part => add(part.id, part.name, 'part', part.position));
+    file.parameters.forEach(parameter => add(parameter.id, parameter.name, 'parameter', parameter.position));
+    file.constraints.forEach(constraint => add(constraint.id, constraint.name, 'constraint', constraint.position));
+
+    return nodes;
+  }
+
+  /**
+   * One cycle per strongly connected component (Tarjan), walked from its first
+   * node in document order so the reported path is stable
+   */
+  private findCycles(order: string[], edges: DependencyGraphEdge[]): string[][] {
+    const adjacency = new Map<string, string[]>();
+    for (const edge of edges) {
+      adjacency.set(edge.source, [...(adjacency.get(edge.source) || []), edge.target]);
+    }
+
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let counter = 0;
+
+    const connect = (node: string) => {
+      index.set(node, counter);
+      lowLink.set(node, counter);
+      counter++;
+      stack.push(node);
+      onStack.add(node);
+
+      for (const next of adjacency.get(node) || []) {
+        if (!index.has(next)) {
+          connect(next);
+          lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+        } else if (onStack.has(next)) {
+          lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+        }
+      }
+
+      if (lowLink.get(node) === index.get(node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+        components.push(component);
+      }
+    };
+    for (const node of order) {
+      if (!index.has(node)) connect(node);
+    }
+
+    const position = new Map(order.map((node, i) => [node, i]));
+    return components
+      .filter(component => component.length > 1 || (adjacency.get(component[0]) || []).includes(component[0]))
+      .map(component => {
+        const members = new Set(component);
+        const start = component.reduce((a, b) => position.get(a)! <= position.get(b)! ? a : b);
+        return this.cyclePath(start, members, adjacency);
+      })
+      .sort((a, b) => position.get(a[0])! - position.get(b[0])!);
+  }
+
+  /**
+   * A path from start back to start through the members of its component
+   */
+  private cyclePath(start: string, members: Set<string>, adjacency: Map<string, string[]>): string[] {
+    const visited = new Set<string>();
+    const walk = (node: string, path: string[]): string[] | null => {
+      for (const next of adjacency.get(node) || []) {
+        if (next === start) return [...path, start];
+        if (members.has(next) && !visited.has(next)) {
+          visited.add(next);
+          const found = walk(next, [...path, next]);
+          if (found) return found;
+        }
+      }
+      return null;
+    };
+    return walk(start, [start]) || [start, start];
+  }
+
+  // Helper methods
+
+  /**
+   * Dropping a dangling reference: a declared dependency is removed, a constraint
+   * stops listing the parameter
+   */
+  private removal(dependency: Dependency, source: DependencyGraphNode | undefined): IssueRemedy[] | undefined {
+    if (dependency.position) {
+      return [{ action: 'remove_dependency', from: dependency.from, to: dependency.to }];
+    }
+    if (dependency.type === 'references' && source?.type === 'constraint') {
+      return [{ action: 'remove_reference', constraint_id: dependency.from, reference: dependency.to }];
+    }
+    return undefined;
+  }
+
+  private describe(node: DependencyGraphNode | undefined): string {
+    if (!node) return 'A dependency';
+    const type = node.type === 'missing' ? 'Node' : node.type[0].toUpperCase() + node.type.substring(1);
+    return `${type} "${node.label}"`;
+  }
+
+  private ownerPart(file: DependencyGraphInput, nodeIds: string[]): string {
+    for (const id of nodeIds) {
+      if (file.parts.some(part => part.id === id)) return id;
+      const owner = file.parts.find(part =>
+        part.parameters.some(parameter => parameter.id === id) || part.constraints.some(constraint => constraint.id === id)
+      );
+      if (owner) return owner.id;
+    }
+    return '';
+  }
+
+  private createIssue(
+    file: DependencyGraphInput,
+    issueType: BrokenLogicDetection['issue_type'],
+    severity: BrokenLogicDetection['severity'],
+    description: string,
+    nodeIds: string[],
+    position: SourceRange = NO_POSITION,
+    suggestedFix?: string,
+    remedies?: IssueRemedy[]
+  ): BrokenLogicDetection {
+    return {
+      part_id: this.ownerPart(file, nodeIds),
+      issue_type: issueType,
+      severity,
+      description,
+      suggested_fix: suggestedFix,
+      line_number: position.line,
+      position,
+      node_ids: nodeIds,
+      remedies
+    };
+  }
+}
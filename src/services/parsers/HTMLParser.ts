@@ -0,0 +1,332 @@
+import * as cheerio from 'cheerio';
+import { BaseParser } from './BaseParser.js';
+import {
+  FileType,
+  FileMetadata,
+  ParseResult,
+  DocumentSection,
+  TableData,
+  ImageData,
+  LinkData
+} from '../../types/file-parser.js';
+import { DecodedText } from '../../utils/encoding.js';
+
+// Never part of the readable text
+const NOISE = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed',
+  'form', 'button', 'select', 'textarea', 'nav', '[hidden]', '[aria-hidden="true"]', '[role="navigation"]'
+].join(', ');
+
+// Page chrome around the content, dropped when the page does not mark its main content
+const CHROME = [
+  'header', 'footer', 'aside', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '.sidebar', '.menu', '.breadcrumb', '.breadcrumbs', '.cookie-banner', '.advertisement'
+].join(', ');
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset',
+  'figcaption', 'figure', 'footer', 'header', 'hr', 'li', 'main', 'ol', 'p', 'section', 'summary', 'ul'
+]);
+
+const HEADING = /^h([1-6])$/;
+
+// What reading the content collects; positions are offsets into content
+interface HtmlBody {
+  content: string;
+  headings: Array<{ title: string; level: number; start: number }>;
+  tables: TableData[];
+  images: ImageData[];
+  links: LinkData[];
+  tableDepth: number; // Line breaks inside table cells become spaces
+  preformatted: number; // Inside <pre>, whitespace is kept
+  baseUrl?: string;
+}
+
+/**
+ * Parses HTML with cheerio. Only the readable content is kept: scripts, styles,
+ * navigation and forms are dropped, and the page's main content (<main>, the
+ * role="main" element or a single <article>) is preferred over the whole body.
+ * Headings become levelled sections, tables keep their header rows, and links and
+ * images are recorded where they occur in the text.
+ */
+export class HTMLParser extends BaseParser {
+  constructor() {
+    super([FileType.HTML], {
+      canExtractText: true,
+      canExtractMetadata: true,
+      canExtractSections: true,
+      canExtractTables: true,
+      canExtractImages: true,
+      canExtractLinks: true
+    });
+  }
+
+  async parse(file: Buffer, metadata: FileMetadata): Promise<ParseResult> {
+    try {
+      const decoded = this.readText(file);
+      const $ = cheerio.load(decoded.text);
+      const info = this.readMetadata($, file, decoded);
+      const body = this.readContent($);
+
+      return {
+        content: body.content,
+        metadata: this.mergeMetadata(metadata, info),
+        sections: this.buildSections(body),
+        tables: body.tables,
+        images: body.images,
+        links: body.links,
+        errors: []
+      };
+    } catch (error) {
+      return {
+        content: '',
+        metadata,
+        sections: [],
+        tables: [],
+        images: [],
+        links: [],
+        errors: [this.createParseError('parsing', `Failed to parse HTML file: ${error}`)]
+      };
+    }
+  }
+
+  async extractText(file: Buffer): Promise<string> {
+    try {
+      return this.readContent(cheerio.load(this.readText(file).text)).content;
+    } catch (error) {
+      throw new Error(`HTML text extraction failed: ${error}`);
+    }
+  }
+
+  async extractMetadata(file: Buffer): Promise<FileMetadata> {
+    const decoded = this.readText(file);
+    return this.readMetadata(cheerio.load(decoded.text), file, decoded);
+  }
+
+  async validateFile(file: Buffer): Promise<boolean> {
+    return /<(!doctype\s+html|html|head|body|p|div|h[1-6]|table)[\s>]/i.test(file.subarray(0, 4096).toString('utf8'));
+  }
+
+  /**
+   * Title, author, description and keywords from the head; dates from the Open Graph
+   * article properties when the page has them
+   */
+  private readMetadata($: cheerio.CheerioAPI, file: Buffer, decoded: DecodedText): FileMetadata {
+    const meta = (selector: string) => $(selector).first().attr('content')?.trim() || undefined;
+    const keywords = meta('meta[name="keywords"]');
+
+    return {
+      filename: 'unknown.html',
+      file_type: FileType.HTML,
+      file_size: file.length,
+      mime_type: 'text/html',
+      encoding: decoded.encoding,
+      newline: decoded.newline,
+      title: $('head title').first().text().trim() || meta('meta[property="og:title"]') || $('h1').first().text().trim() || undefined,
+      author: meta('meta[name="author"]') || meta('meta[property="article:author"]'),
+      subject: meta('meta[name="description"]') || meta('meta[property="og:description"]'),
+      keywords: keywords?.split(/[,;]/).map(keyword => keyword.trim()).filter(Boolean),
+      language: $('html').attr('lang')?.trim() || undefined,
+      created_date: this.parseDate(meta('meta[property="article:published_time"]') || meta('meta[name="date"]')),
+      modified_date: this.parseDate(meta('meta[property="article:modified_time"]'))
+    };
+  }
+
+  private readContent($: cheerio.CheerioAPI): HtmlBody {
+    const body: HtmlBody = {
+      content: '',
+      headings: [],
+      tables: [],
+      images: [],
+      links: [],
+      tableDepth: 0,
+      preformatted: 0,
+      baseUrl: $('base[href]').first().attr('href')
+    };
+
+    $(NOISE).remove();
+    const articles = $('article');
+    let main: cheerio.Cheerio<any> = $('main, [role="main"]').first();
+    if (main.length === 0 && articles.length === 1) main = articles.first();
+    if (main.length === 0) {
+      $(CHROME).remove();
+      main = $('body').length > 0 ? $('body') : $.root();
+    }
+
+    for (const node of main.toArray()) {
+      this.readNode(node, body, $);
+    }
+    body.content = body.content.replace(/\s+$/, '');
+    for (const table of body.tables) {
+      table.end_position = Math.min(table.end_position, body.content.length);
+    }
+    return body;
+  }
+
+  private readNode(node: any, body: HtmlBody, $: cheerio.CheerioAPI): void {
+    if (node.type === 'text') {
+      this.append(body, node.data);
+      return;
+    }
+    if (node.type !== 'tag' && node.type !== 'root') return;
+
+    const name: string = node.name || '';
+    const heading = name.match(HEADING);
+
+    if (heading) {
+      this.lineBreak(body);
+      const start = body.content.length;
+      this.readChildren(node, body, $);
+      const title = body.content.slice(start).trim();
+      if (title && body.tableDepth === 0) {
+        body.headings.push({ title, level: parseInt(heading[1], 10), start });
+      }
+      this.lineBreak(body);
+    } else if (name === 'table') {
+      this.readTable(node, body, $);
+    } else if (name === 'br') {
+      this.lineBreak(body, true);
+    } else if (name === 'a') {
+      const start = body.content.length;
+      this.readChildren(node, body, $);
+      this.addLink(node, start, body);
+    } else if (name === 'img') {
+      this.addImage(node, body, $);
+    } else if (name === 'pre') {
+      this.lineBreak(body);
+      body.preformatted++;
+      this.readChildren(node, body, $);
+      body.preformatted--;
+      this.lineBreak(body);
+    } else if (BLOCK_ELEMENTS.has(name)) {
+      this.lineBreak(body);
+      if (name === 'li') body.content += '- ';
+      this.readChildren(node, body, $);
+      this.lineBreak(body);
+    } else {
+      this.readChildren(node, body, $);
+    }
+  }
+
+  private readChildren(node: any, body: HtmlBody, $: cheerio.CheerioAPI): void {
+    for (const child of node.children || []) {
+      this.readNode(child, body, $);
+    }
+  }
+
+  /**
+   * A table as tab-separated lines in the content, one per row. Rows in <thead>, or a
+   * first row of only <th> cells, are the headers.
+   */
+  private readTable(table: any, body: HtmlBody, $: cheerio.CheerioAPI): void {
+    this.lineBreak(body);
+    const start = body.content.length;
+    const rows: string[][] = [];
+    let headerRows = 0;
+
+    body.tableDepth++;
+    const tableRows = $(table).find('tr').toArray().filter(row => $(row).closest('table').get(0) === table);
+    for (const row of tableRows) {
+      const cells: string[] = [];
+      const cellNodes: any[] = (row.children || []).filter((child: any) => child.name === 'td' || child.name === 'th');
+      for (const cell of cellNodes) {
+        if (cells.length > 0) body.content += '\t';
+        const cellStart = body.content.length;
+        this.readChildren(cell, body, $);
+        body.content = body.content.replace(/ +$/, '');
+        cells.push(body.content.slice(cellStart).trim());
+
+        // Keep columns aligned with the header when a cell spans several
+        const span = parseInt(cell.attribs?.colspan || '1', 10);
+        for (let i = 1; i < span && i < 100; i++) cells.push('');
+      }
+
+      const isHeader = $(row).parent().is('thead')
+        || (cellNodes.length > 0 && cellNodes.every((cell: any) => cell.name === 'th'));
+      if (isHeader && headerRows === rows.length) headerRows++;
+      rows.push(cells);
+      body.content += body.tableDepth > 1 ? ' ' : '\n';
+    }
+    body.tableDepth--;
+
+    if (rows.length === 0) return;
+    const headers = rows.slice(0, headerRows).reduce((merged, row) =>
+      row.map((cell, index) => [merged[index], cell].filter(Boolean).join(' ')), [] as string[]);
+
+    body.tables.push(this.createTableData(
+      headers,
+      rows.slice(headerRows),
+      start,
+      body.content.length,
+      $(table).children('caption').first().text().replace(/\s+/g, ' ').trim() || undefined
+    ));
+  }
+
+  private addLink(node: any, start: number, body: HtmlBody): void {
+    const href = node.attribs?.href?.trim();
+    if (!href || /^javascript:/i.test(href)) return;
+
+    const url = this.resolveUrl(href, body.baseUrl);
+    const text = body.content.slice(start).trim() || node.attribs?.title?.trim() || url;
+    body.links.push(this.createLinkData(text, url, start));
+  }
+
+  /**
+   * Images with their alt text; the caption comes from an enclosing <figure>
+   */
+  private addImage(node: any, body: HtmlBody, $: cheerio.CheerioAPI): void {
+    const altText = node.attribs?.alt?.trim() || node.attribs?.title?.trim() || '';
+    const caption = $(node).closest('figure').children('figcaption').first().text().replace(/\s+/g, ' ').trim();
+    body.images.push(this.createImageData(altText, body.content.length, undefined, caption || undefined));
+  }
+
+  /**
+   * Sections run from their heading to the next heading
+   */
+  private buildSections(body: HtmlBody): DocumentSection[] {
+    return body.headings.map((heading, index) => {
+      const end = index + 1 < body.headings.length ? body.headings[index + 1].start : body.content.length;
+      return this.createDocumentSection(heading.title, body.content.slice(heading.start, end), heading.level, heading.start, end);
+    });
+  }
+
+  // Helper methods
+
+  /**
+   * Add text the way a browser lays it out: runs of whitespace become one space, and
+   * none is kept at the start of a line. Preformatted text is added as it is.
+   */
+  private append(body: HtmlBody, text: string): void {
+    if (body.preformatted > 0) {
+      body.content += body.tableDepth > 0 ? text.replace(/\s+/g, ' ') : text;
+      return;
+    }
+
+    let collapsed = text.replace(/\s+/g, ' ');
+    if (body.content === '' || /[ \n\t]$/.test(body.content)) {
+      collapsed = collapsed.replace(/^ /, '');
+    }
+    body.content += collapsed;
+  }
+
+  /**
+   * End the current line; unless forced, an empty line is not repeated
+   */
+  private lineBreak(body: HtmlBody, force = false): void {
+    body.content = body.content.replace(/ +$/, '');
+    if (body.tableDepth > 0) {
+      if (body.content && !/[ \t]$/.test(body.content)) body.content += ' ';
+    } else if (force || (body.content && !body.content.endsWith('\n'))) {
+      body.content += '\n';
+    }
+  }
+
+  private resolveUrl(href: string, baseUrl?: string): string {
+    if (!baseUrl) return href;
+    try {
+      return new URL(href, baseUrl).toString();
+    } catch (error) {
+      return href;
+    }
+  }
+}
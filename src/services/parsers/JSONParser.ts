@@ -0,0 +1,182 @@
+import { BaseParser } from './BaseParser.js';
+import { FileType, FileMetadata, ParseResult, DocumentSection, TableData } from '../../types/file-parser.js';
+import { DecodedText } from '../../utils/encoding.js';
+
+// Keys that can follow a dot in a path; anything else is written as ["key"]
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// What flattening collects; positions are offsets into content
+interface Flattened {
+  content: string;
+  sections: DocumentSection[];
+  tables: TableData[];
+}
+
+/**
+ * Parses JSON into one "path: value" line per value, e.g. `parts[0].size: 600`, so
+ * both keys and values are searchable and every value keeps the context of where it
+ * sits. Top-level members become sections, and arrays of flat objects become tables.
+ */
+export class JSONParser extends BaseParser {
+  constructor() {
+    super([FileType.JSON], {
+      canExtractText: true,
+      canExtractMetadata: true,
+      canExtractSections: true,
+      canExtractTables: true,
+      canExtractImages: false,
+      canExtractLinks: true
+    });
+  }
+
+  async parse(file: Buffer, metadata: FileMetadata): Promise<ParseResult> {
+    try {
+      const decoded = this.readText(file);
+      const data = JSON.parse(decoded.text);
+      const flattened = this.flatten(data);
+
+      return {
+        content: flattened.content,
+        metadata: this.mergeMetadata(metadata, this.readMetadata(file, decoded, data)),
+        sections: flattened.sections,
+        tables: flattened.tables,
+        images: [],
+        links: this.extractLinksFromText(flattened.content).map(link => {
+          const url = link.url.replace(/[",]+$/, '');
+          return { ...link, text: url, url };
+        }),
+        errors: []
+      };
+    } catch (error) {
+      return {
+        content: '',
+        metadata,
+        sections: [],
+        tables: [],
+        images: [],
+        links: [],
+        errors: [this.createParseError('parsing', `Failed to parse JSON file: ${error}`)]
+      };
+    }
+  }
+
+  async extractText(file: Buffer): Promise<string> {
+    try {
+      return this.flatten(JSON.parse(this.readText(file).text)).content;
+    } catch (error) {
+      throw new Error(`JSON text extraction failed: ${error}`);
+    }
+  }
+
+  async extractMetadata(file: Buffer): Promise<FileMetadata> {
+    const decoded = this.readText(file);
+    return this.readMetadata(file, decoded, JSON.parse(decoded.text));
+  }
+
+  async validateFile(file: Buffer): Promise<boolean> {
+    try {
+      JSON.parse(this.readText(file).text);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private flatten(data: any): Flattened {
+    const flattened: Flattened = { content: '', sections: [], tables: [] };
+
+    if (data !== null && typeof data === 'object') {
+      const members = Array.isArray(data)
+        ? data.map((value, index) => [`[${index}]`, value] as const)
+        : Object.entries(data).map(([key, value]) => [this.appendKey('', key), value] as const);
+
+      for (const [path, value] of members) {
+        const start = flattened.content.length;
+        this.writeValue(path, value, flattened);
+        flattened.sections.push(this.createDocumentSection(
+          path,
+          flattened.content.slice(start),
+          1,
+          start,
+          flattened.content.length
+        ));
+      }
+    } else {
+      this.writeValue('', data, flattened);
+    }
+
+    flattened.content = flattened.content.replace(/\n$/, '');
+    for (const item of [...flattened.sections, ...flattened.tables]) {
+      item.end_position = Math.min(item.end_position, flattened.content.length);
+    }
+    for (const section of flattened.sections) {
+      section.content = section.content.replace(/\n$/, '');
+    }
+    return flattened;
+  }
+
+  /**
+   * One line per scalar, empty object or empty array, depth first in document order
+   */
+  private writeValue(path: string, value: any, flattened: Flattened): void {
+    if (Array.isArray(value) && value.length > 0) {
+      const start = flattened.content.length;
+      value.forEach((item, index) => this.writeValue(`${path}[${index}]`, item, flattened));
+      this.addTable(path, value, start, flattened);
+    } else if (value !== null && typeof value === 'object' && Object.keys(value).length > 0) {
+      for (const [key, child] of Object.entries(value)) {
+        this.writeValue(this.appendKey(path, key), child, flattened);
+      }
+    } else {
+      const text = typeof value === 'string'
+        ? value.replace(/\s*\n\s*/g, ' ')
+        : Array.isArray(value) ? '[]' : value !== null && typeof value === 'object' ? '{}' : String(value);
+      flattened.content += path ? `${path}: ${text}\n` : `${text}\n`;
+    }
+  }
+
+  /**
+   * Arrays whose items are all objects with only scalar values read as a table, one
+   * column per key in the order keys first appear
+   */
+  private addTable(path: string, items: any[], start: number, flattened: Flattened): void {
+    const isRecord = (item: any) => item !== null && typeof item === 'object' && !Array.isArray(item)
+      && Object.values(item).every(value => value === null || typeof value !== 'object');
+    if (!items.every(isRecord)) return;
+
+    const headers = [...new Set(items.flatMap(item => Object.keys(item)))];
+    if (headers.length === 0) return;
+
+    flattened.tables.push(this.createTableData(
+      headers,
+      items.map(item => headers.map(header => item[header] === undefined || item[header] === null ? '' : String(item[header]))),
+      start,
+      flattened.content.length,
+      path || undefined
+    ));
+  }
+
+  private readMetadata(file: Buffer, decoded: DecodedText, data: any): FileMetadata {
+    const field = (key: string) => data !== null && typeof data === 'object' && !Array.isArray(data)
+      && typeof data[key] === 'string' && data[key].trim() ? data[key].trim() : undefined;
+
+    return {
+      filename: 'unknown.json',
+      file_type: FileType.JSON,
+      file_size: file.length,
+      mime_type: 'application/json',
+      encoding: decoded.encoding,
+      newline: decoded.newline,
+      title: field('title') || field('name'),
+      author: field('author'),
+      subject: field('description')
+    };
+  }
+
+  // Helper methods
+
+  private appendKey(path: string, key: string): string {
+    if (IDENTIFIER.test(key)) return path ? `${path}.${key}` : key;
+    return `${path}[${JSON.stringify(key)}]`;
+  }
+}
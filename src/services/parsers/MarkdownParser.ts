@@ -0,0 +1,340 @@
+import { parse as parseYaml } from 'yaml';
+import { BaseParser } from './BaseParser.js';
+import {
+  FileType,
+  FileMetadata,
+  ParseResult,
+  DocumentSection,
+  TableData,
+  ImageData,
+  LinkData
+} from '../../types/file-parser.js';
+import { DecodedText } from '../../utils/encoding.js';
+
+interface Line {
+  text: string;
+  start: number; // Offset of the line in the content
+  code: boolean; // Inside a fenced code block, or a fence itself
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+|$)(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const LIST_ITEM = /^ {0,3}([-+*]|\d{1,9}[.)])[ \t]/;
+const FRONT_MATTER = /^---[ \t]*\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/;
+
+/**
+ * Parses Markdown: ATX (#) and setext (underlined) headings become levelled sections,
+ * pipe tables become tables, and inline, reference and automatic links and images are
+ * collected. Nothing inside fenced code blocks is read as structure. The content is
+ * the Markdown source, so positions point into the original text.
+ */
+export class MarkdownParser extends BaseParser {
+  constructor() {
+    super([FileType.MD], {
+      canExtractText: true,
+      canExtractMetadata: true,
+      canExtractSections: true,
+      canExtractTables: true,
+      canExtractImages: true,
+      canExtractLinks: true
+    });
+  }
+
+  async parse(file: Buffer, metadata: FileMetadata): Promise<ParseResult> {
+    try {
+      const decoded = this.readText(file);
+      const text = decoded.text;
+      const lines = this.readLines(text);
+      const sections = this.extractSections(text, lines);
+      const { links, images } = this.extractInline(text, lines);
+
+      return {
+        content: text,
+        metadata: this.mergeMetadata(metadata, this.readMetadata(file, decoded, sections)),
+        sections,
+        tables: this.extractTables(lines),
+        images,
+        links,
+        errors: [],
+        body_start: text.match(FRONT_MATTER)?.[0].length
+      };
+    } catch (error) {
+      return {
+        content: '',
+        metadata,
+        sections: [],
+        tables: [],
+        images: [],
+        links: [],
+        errors: [this.createParseError('parsing', `Failed to parse Markdown file: ${error}`)]
+      };
+    }
+  }
+
+  async extractText(file: Buffer): Promise<string> {
+    return this.readText(file).text;
+  }
+
+  async extractMetadata(file: Buffer): Promise<FileMetadata> {
+    const decoded = this.readText(file);
+    return this.readMetadata(file, decoded, this.extractSections(decoded.text, this.readLines(decoded.text)));
+  }
+
+  async validateFile(file: Buffer): Promise<boolean> {
+    return file.length > 0 && !file.subarray(0, 8000).includes(0);
+  }
+
+  /**
+   * Lines with their offsets, marking the ones that belong to fenced code blocks.
+   * A fence closes on the same character repeated at least as often; an unclosed
+   * fence runs to the end of the file. Front matter counts as code.
+   */
+  private readLines(text: string): Line[] {
+    const lines: Line[] = [];
+    const frontMatter = text.match(FRONT_MATTER);
+    let fence: string | null = null;
+    let position = 0;
+
+    for (const line of text.split('\n')) {
+      let code = fence !== null || (frontMatter !== null && position < frontMatter[0].length);
+      const marker = line.match(FENCE)?.[1];
+
+      if (fence === null && marker && !(marker[0] === '`' && line.slice(line.indexOf(marker) + marker.length).includes('`'))) {
+        fence = marker;
+        code = true;
+      } else if (fence !== null && marker && marker[0] === fence[0] && marker.length >= fence.length && !line.trim().slice(marker.length)) {
+        fence = null;
+      }
+
+      lines.push({ text: line, start: position, code });
+      position += line.length + 1;
+    }
+
+    return lines;
+  }
+
+  /**
+   * Sections run from their heading to the next heading
+   */
+  private extractSections(text: string, lines: Line[]): DocumentSection[] {
+    const headings: Array<{ title: string; level: number; start: number }> = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (line.code) continue;
+
+      const atx = line.text.match(ATX_HEADING);
+      if (atx) {
+        headings.push({ title: atx[2].trim() || atx[1], level: atx[1].length, start: line.start });
+        continue;
+      }
+
+      // Setext: a paragraph line underlined with = (level 1) or - (level 2)
+      const next = lines[i + 1];
+      const underline = next && !next.code ? next.text.match(SETEXT_UNDERLINE) : null;
+      if (underline && this.isParagraphLine(line.text) && (i === 0 || !this.isParagraphLine(lines[i - 1].text) || lines[i - 1].code)) {
+        headings.push({ title: line.text.trim(), level: underline[1][0] === '=' ? 1 : 2, start: line.start });
+        i++;
+      }
+    }
+
+    return headings.map((heading, index) => {
+      const end = index + 1 < headings.length ? headings[index + 1].start : text.length;
+      return this.createDocumentSection(
+        this.plainText(heading.title),
+        text.slice(heading.start, end),
+        heading.level,
+        heading.start,
+        end
+      );
+    });
+  }
+
+  /**
+   * Pipe tables: a header row, a delimiter row of dashes, then rows up to the first
+   * line that is blank or has no pipe
+   */
+  private extractTables(lines: Line[]): TableData[] {
+    const tables: TableData[] = [];
+
+    for (let i = 0; i + 1 < lines.length; i++) {
+      const header = lines[i];
+      const delimiter = lines[i + 1];
+      if (header.code || delimiter.code || !header.text.includes('|') || !delimiter.text.includes('|')
+        || !TABLE_DELIMITER.test(delimiter.text)) {
+        continue;
+      }
+
+      const headers = this.splitRow(header.text);
+      if (headers.length !== this.splitRow(delimiter.text).length) continue;
+
+      const rows: string[][] = [];
+      let last = i + 1;
+      while (last + 1 < lines.length && !lines[last + 1].code && lines[last + 1].text.trim() && lines[last + 1].text.includes('|')) {
+        last++;
+        const cells = this.splitRow(lines[last].text);
+        rows.push(headers.map((_, index) => cells[index] ?? ''));
+      }
+
+      tables.push(this.createTableData(
+        headers.map(cell => this.plainText(cell)),
+        rows.map(row => row.map(cell => this.plainText(cell))),
+        header.start,
+        lines[last].start + lines[last].text.length
+      ));
+      i = last;
+    }
+
+    return tables;
+  }
+
+  /**
+   * Links and images outside code: inline [text](url), reference [text][label] with
+   * their [label]: url definitions, <autolinks> and bare URLs. Whatever matched is
+   * blanked out before the next pattern runs, keeping offsets as they are.
+   */
+  private extractInline(text: string, lines: Line[]): { links: LinkData[]; images: ImageData[] } {
+    const links: LinkData[] = [];
+    const images: ImageData[] = [];
+    const definitions = new Map<string, string>();
+    const blank = (value: string) => ' '.repeat(value.length);
+
+    let prose = lines
+      .map(line => line.code ? blank(line.text) : line.text.replace(/`[^`\n]*`/g, blank))
+      .join('\n');
+
+    prose = prose.replace(/^ {0,3}\[([^\]]+)\]:[ \t]*<?(\S+?)>?(?:[ \t]+["'(].*)?$/gm, (definition, label: string, url: string) => {
+      if (!definitions.has(label.trim().toLowerCase())) definitions.set(label.trim().toLowerCase(), url);
+      return blank(definition);
+    });
+
+    prose = prose.replace(
+      /(!?)\[([^\]]*)\](?:\(\s*<?([^\s)>]*)>?(?:\s+["'(]([^"')]*)["')])?\s*\)|\[([^\]]*)\])?/g,
+      (whole, bang: string, label: string, inlineUrl: string | undefined, title: string | undefined, reference: string | undefined, offset: number) => {
+        const url = inlineUrl ?? definitions.get((reference || label).trim().toLowerCase());
+        if (url === undefined) return whole;
+
+        const linkText = this.plainText(text.slice(offset + bang.length + 1, offset + bang.length + 1 + label.length));
+        if (bang) {
+          images.push(this.createImageData(linkText, offset, undefined, title));
+        } else {
+          links.push(this.createLinkData(linkText || url, url, offset));
+        }
+        return blank(whole);
+      }
+    );
+
+    prose = prose.replace(/<((?:https?|ftp|mailto):[^\s>]+)>/g, (autolink, url: string, offset: number) => {
+      links.push(this.createLinkData(url, url, offset));
+      return blank(autolink);
+    });
+
+    for (const link of this.extractLinksFromText(prose)) {
+      const url = link.url.replace(/[).,;:!?'"\]]+$/, '');
+      links.push({ ...link, text: url, url });
+    }
+
+    return {
+      links: links.sort((a, b) => a.position - b.position),
+      images
+    };
+  }
+
+  private readMetadata(file: Buffer, decoded: DecodedText, sections: DocumentSection[]): FileMetadata {
+    const frontMatter = this.readFrontMatter(decoded.text);
+    const value = (key: string) => {
+      const field = frontMatter[key];
+      return typeof field === 'string' || typeof field === 'number' ? String(field) : field instanceof Date ? field.toISOString() : undefined;
+    };
+    const list = (key: string) => {
+      const field = frontMatter[key];
+      if (Array.isArray(field)) return field.map(String);
+      return typeof field === 'string' ? field.split(/[,;]/).map(item => item.trim()).filter(Boolean) : undefined;
+    };
+
+    return {
+      filename: 'unknown.md',
+      file_type: FileType.MD,
+      file_size: file.length,
+      mime_type: 'text/markdown',
+      encoding: decoded.encoding,
+      newline: decoded.newline,
+      title: value('title') || sections.find(section => section.level === 1)?.title,
+      author: value('author'),
+      subject: value('description') || value('subject'),
+      keywords: list('keywords') || list('tags'),
+      language: value('lang') || value('language'),
+      created_date: this.parseDate(value('date') || value('created')),
+      modified_date: this.parseDate(value('updated') || value('modified'))
+    };
+  }
+
+  /**
+   * YAML front matter between --- lines at the very start of the file
+   */
+  private readFrontMatter(text: string): Record<string, any> {
+    const match = text.match(FRONT_MATTER);
+    if (!match) return {};
+    try {
+      const data = parseYaml(match[1]);
+      return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  // Helper methods
+
+  private isParagraphLine(line: string): boolean {
+    return line.trim().length > 0
+      && !ATX_HEADING.test(line)
+      && !LIST_ITEM.test(line)
+      && !/^ {0,3}>/.test(line)
+      && !/^( {4}|\t)/.test(line);
+  }
+
+  /**
+   * Cells of a table row, splitting on pipes that are not escaped or in code spans
+   */
+  private splitRow(row: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let inCode = false;
+
+    const trimmed = row.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+    for (let i = 0; i < trimmed.length; i++) {
+      const char = trimmed[i];
+      if (char === '\\' && trimmed[i + 1] === '|') {
+        cell += '|';
+        i++;
+      } else if (char === '`') {
+        inCode = !inCode;
+        cell += char;
+      } else if (char === '|' && !inCode) {
+        cells.push(cell.trim());
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell.trim());
+    return cells;
+  }
+
+  /**
+   * Inline Markdown reduced to its text: emphasis, code spans, links and images
+   */
+  private plainText(markdown: string): string {
+    return markdown
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/!?\[([^\]]*)\]\[[^\]]*\]/g, '$1')
+      .replace(/`([^`]*)`/g, '$1')
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/(\*|_)(.+?)\1/g, '$2')
+      .replace(/~~(.+?)~~/g, '$1')
+      .replace(/\\([\\`*_{}[\]()#+\-.!|])/g, '$1')
+      .trim();
+  }
+}
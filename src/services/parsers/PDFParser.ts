@@ -0,0 +1,255 @@
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { BaseParser } from './BaseParser.js';
+import { FileType, FileMetadata, ParseResult, DocumentSection, LinkData, PageText } from '../../types/file-parser.js';
+
+type PDFDocument = Awaited<ReturnType<typeof getDocument>['promise']>;
+
+interface OutlineEntry {
+  title: string;
+  level: number;
+  page_number?: number;
+}
+
+export class PDFParser extends BaseParser {
+  constructor() {
+    super([FileType.PDF], {
+      canExtractText: true,
+      canExtractMetadata: true,
+      canExtractSections: true,
+      canExtractTables: false,
+      canExtractImages: false,
+      canExtractLinks: true
+    });
+  }
+
+  async parse(file: Buffer, metadata: FileMetadata): Promise<ParseResult> {
+    let pdf: PDFDocument | undefined;
+    try {
+      pdf = await this.load(file);
+      const { content, pages } = await this.readPages(pdf);
+
+      return {
+        content,
+        metadata: this.mergeMetadata(metadata, await this.readMetadata(pdf, file)),
+        sections: await this.extractSections(pdf, content, pages),
+        tables: [],
+        images: [],
+        links: await this.extractLinks(pdf, content, pages),
+        errors: [],
+        pages
+      };
+    } catch (error) {
+      return {
+        content: '',
+        metadata,
+        sections: [],
+        tables: [],
+        images: [],
+        links: [],
+        errors: [this.createParseError('parsing', `Failed to parse PDF file: ${error}`)]
+      };
+    } finally {
+      await pdf?.destroy();
+    }
+  }
+
+  async extractText(file: Buffer): Promise<string> {
+    const pdf = await this.load(file);
+    try {
+      return (await this.readPages(pdf)).content;
+    } catch (error) {
+      throw new Error(`PDF text extraction failed: ${error}`);
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  async extractMetadata(file: Buffer): Promise<FileMetadata> {
+    const pdf = await this.load(file);
+    try {
+      return await this.readMetadata(pdf, file);
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  async validateFile(file: Buffer): Promise<boolean> {
+    return file.length > 0 && file.subarray(0, 1024).includes('%PDF-');
+  }
+
+  private async load(file: Buffer): Promise<PDFDocument> {
+    // pdf.js takes ownership of the buffer it is given, so hand it a copy
+    return getDocument({
+      data: new Uint8Array(file),
+      isEvalSupported: false,
+      useSystemFonts: true
+    }).promise;
+  }
+
+  /**
+   * Text of every page, pages separated by a blank line, and where each page starts
+   */
+  private async readPages(pdf: PDFDocument): Promise<{ content: string; pages: PageText[] }> {
+    const pages: PageText[] = [];
+    let content = '';
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const text = textContent.items
+        .map((item: any) => (item.str ?? '') + (item.hasEOL ? '\n' : ''))
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .trim();
+      page.cleanup();
+
+      if (pageNumber > 1) content += '\n\n';
+      pages.push({ page_number: pageNumber, start_position: content.length, end_position: content.length + text.length });
+      content += text;
+    }
+
+    return { content, pages };
+  }
+
+  private async readMetadata(pdf: PDFDocument, file: Buffer): Promise<FileMetadata> {
+    const { info } = await pdf.getMetadata().catch(() => ({ info: {} as any }));
+    const documentInfo = (info || {}) as Record<string, any>;
+
+    return {
+      filename: 'unknown.pdf',
+      file_type: FileType.PDF,
+      file_size: file.length,
+      mime_type: 'application/pdf',
+      page_count: pdf.numPages,
+      title: this.textValue(documentInfo.Title),
+      author: this.textValue(documentInfo.Author),
+      subject: this.textValue(documentInfo.Subject),
+      keywords: this.textValue(documentInfo.Keywords)?.split(/[,;]/).map(keyword => keyword.trim()).filter(Boolean),
+      created_date: this.parsePdfDate(documentInfo.CreationDate),
+      modified_date: this.parsePdfDate(documentInfo.ModDate)
+    };
+  }
+
+  /**
+   * Sections from the document outline, falling back to headings found in the text
+   * when the PDF has no outline
+   */
+  private async extractSections(pdf: PDFDocument, content: string, pages: PageText[]): Promise<DocumentSection[]> {
+    const outline = await this.readOutline(pdf);
+    if (outline.length === 0) {
+      return this.extractSectionsFromText(content).map(section => ({
+        ...section,
+        page_number: this.pageAt(pages, section.start_position)
+      }));
+    }
+
+    const located = outline.map(entry => {
+      const page = pages[(entry.page_number ?? 1) - 1] || pages[0];
+      const pageText = content.slice(page.start_position, page.end_position);
+      const index = pageText.toLowerCase().indexOf(entry.title.toLowerCase());
+      return { entry, start: page.start_position + Math.max(index, 0) };
+    }).sort((a, b) => a.start - b.start);
+
+    return located.map(({ entry, start }, index) => {
+      const end = index + 1 < located.length ? Math.max(located[index + 1].start, start) : content.length;
+      return this.createDocumentSection(
+        entry.title,
+        content.slice(start, end),
+        entry.level,
+        start,
+        end,
+        entry.page_number ?? this.pageAt(pages, start)
+      );
+    });
+  }
+
+  private async readOutline(pdf: PDFDocument): Promise<OutlineEntry[]> {
+    const entries: OutlineEntry[] = [];
+    const visit = async (items: any[], level: number) => {
+      for (const item of items || []) {
+        const title = (item.title || '').trim();
+        if (title) {
+          entries.push({ title, level, page_number: await this.resolvePage(pdf, item.dest) });
+        }
+        await visit(item.items, level + 1);
+      }
+    };
+
+    await visit(await pdf.getOutline().catch(() => null), 1);
+    return entries;
+  }
+
+  private async resolvePage(pdf: PDFDocument, dest: any): Promise<number | undefined> {
+    try {
+      const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+      if (!Array.isArray(explicit) || explicit.length === 0) return undefined;
+      const target = explicit[0];
+      return (typeof target === 'number' ? target : await pdf.getPageIndex(target)) + 1;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Link annotations, then any URLs written out in the text that are not already links
+   */
+  private async extractLinks(pdf: PDFDocument, content: string, pages: PageText[]): Promise<LinkData[]> {
+    const links: LinkData[] = [];
+    const seen = new Set<string>();
+
+    for (const page of pages) {
+      const annotations = await (await pdf.getPage(page.page_number)).getAnnotations();
+      for (const annotation of annotations) {
+        if (annotation.subtype !== 'Link' || !annotation.url) continue;
+        const text = this.textValue(annotation.overlaidText) || annotation.url;
+        const index = content.indexOf(text, page.start_position);
+        const position = index >= 0 && index <= page.end_position ? index : page.start_position;
+        seen.add(`${page.page_number}:${annotation.url}`);
+        links.push(this.createLinkData(text, annotation.url, position, page.page_number));
+      }
+    }
+
+    for (const link of this.extractLinksFromText(content)) {
+      const pageNumber = this.pageAt(pages, link.position);
+      if (seen.has(`${pageNumber}:${link.url}`)) continue;
+      seen.add(`${pageNumber}:${link.url}`);
+      links.push({ ...link, page_number: pageNumber });
+    }
+
+    return links.sort((a, b) => a.position - b.position);
+  }
+
+  // Helper methods
+
+  private pageAt(pages: PageText[], position: number): number | undefined {
+    let found: PageText | undefined;
+    for (const page of pages) {
+      if (page.start_position > position) break;
+      found = page;
+    }
+    return found?.page_number;
+  }
+
+  private textValue(value: any): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  /**
+   * PDF dates look like D:20240131120000+01'00'; everything after the year is optional
+   */
+  private parsePdfDate(value: any): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const match = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz]|[+-]\d{2}'?\d{2}'?)?/);
+    if (!match) return undefined;
+
+    const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match;
+    let offset = 'Z';
+    if (zone && !/^[Zz]$/.test(zone)) {
+      const digits = zone.replace(/'/g, '');
+      offset = `${digits.slice(0, 3)}:${digits.slice(3, 5) || '00'}`;
+    }
+
+    const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+}
@@ -0,0 +1,370 @@
+import { SourceRange, TextEdit } from '../../types/specialized-parser.js';
+import { SpecializedParser } from './SpecializedParser.js';
+import { XmlElement } from '../../utils/xml.js';
+
+// An opening tag, attributes may contain > inside quotes
+const START_TAG = /^<[^\s/>]+(?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*\s*\/?>/;
+
+/**
+ * Builds text edits against one source file. Edits only touch the text they change,
+ * so formatting, comments and line endings elsewhere stay as they were; apply them
+ * all at once with SourceEditor.apply.
+ */
+export abstract class SourceEditor {
+  readonly newline: string;
+
+  constructor(readonly source: string) {
+    this.newline = source.match(/\r?\n/)?.[0] || '\n';
+  }
+
+  /**
+   * Apply edits made against the same source. Insertions at the same offset keep
+   * the order they were made in.
+   */
+  static apply(source: string, edits: TextEdit[]): string {
+    const ordered = edits
+      .map((edit, index) => ({ edit, index }))
+      .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index);
+
+    let result = source;
+    for (const { edit } of ordered) {
+      result = result.substring(0, edit.start) + edit.text + result.substring(edit.end);
+    }
+    return result;
+  }
+
+  /**
+   * Remove an element or block with the lines it stands on, and a blank line that
+   * would otherwise double up with the one before it
+   */
+  removeLines(range: SourceRange): TextEdit {
+    const source = this.source;
+    const lineStart = source.lastIndexOf('\n', range.start - 1) + 1;
+    const lineBreak = source.indexOf('\n', range.end);
+    const lineEnd = lineBreak === -1 ? source.length : lineBreak + 1;
+
+    const ownLines = source.substring(lineStart, range.start).trim() === '' && source.substring(range.end, lineEnd).trim() === '';
+    if (!ownLines) {
+      return { start: range.start, end: range.end, text: '' };
+    }
+
+    let end = lineEnd;
+    const previousLine = source.substring(source.lastIndexOf('\n', lineStart - 2) + 1, lineStart);
+    const nextBreak = source.indexOf('\n', end);
+    const nextLine = source.substring(end, nextBreak === -1 ? source.length : nextBreak + 1);
+    if (nextLine !== '' && nextLine.trim() === '' && (lineStart === 0 || previousLine.trim() === '')) {
+      end += nextLine.length;
+    }
+    return { start: lineStart, end, text: '' };
+  }
+
+  /**
+   * Remove one item of a comma separated list with the separator before it (after
+   * it for the first item), keeping the spacing of the others
+   */
+  protected removeListItem(list: string, offset: number, reference: string): TextEdit[] | null {
+    const items = [...list.matchAll(/[^,]+/g)].map(match => {
+      const leading = match[0].length - match[0].trimStart().length;
+      return { text: match[0].trim(), start: match.index! + leading, end: match.index! + match[0].trimEnd().length };
+    });
+    const index = items.findIndex(item => item.text.toLowerCase() === reference.toLowerCase());
+    if (index === -1) return null;
+
+    const item = items[index];
+    const start = index > 0 ? items[index - 1].end : item.start;
+    const end = index > 0 || items.length === 1 ? item.end : items[index + 1].start;
+    return [{ start: offset + start, end: offset + end, text: '' }];
+  }
+
+  /**
+   * Replace a value without the blanks around it
+   */
+  protected replaceTrimmed(start: number, end: number, text: string): TextEdit {
+    const value = this.source.substring(start, end);
+    const leading = value.length - value.trimStart().length;
+    const trailing = value.length - value.trimEnd().length;
+    return value.trim() === ''
+      ? { start, end, text }
+      : { start: start + leading, end: end - trailing, text };
+  }
+
+  protected lineIndent(offset: number): string {
+    const lineStart = this.source.lastIndexOf('\n', offset - 1) + 1;
+    return this.source.substring(lineStart).match(/^[ \t]*/)![0];
+  }
+
+  protected startsLine(offset: number): boolean {
+    const lineStart = this.source.lastIndexOf('\n', offset - 1) + 1;
+    return this.source.substring(lineStart, offset).trim() === '';
+  }
+}
+
+/**
+ * Edits of XML elements. A field is an attribute or a direct child element, the
+ * way SpecializedParser reads it; new fields are added as attributes.
+ */
+export class XmlSourceEditor extends SourceEditor {
+  readonly root: XmlElement | null;
+  readonly indentUnit: string;
+  private elements = new Map<number, XmlElement>();
+
+  constructor(source: string) {
+    super(source);
+    this.root = new SpecializedParser().parseXml(source);
+    if (this.root) this.index(this.root);
+    this.indentUnit = this.detectIndentUnit();
+  }
+
+  /**
+   * The element a parsed part, parameter, constraint or dependency came from
+   */
+  elementAt(range: SourceRange): XmlElement | undefined {
+    if (range.file) return undefined;
+    const element = this.elements.get(range.start);
+    return element && element.position.end === range.end ? element : undefined;
+  }
+
+  field(element: XmlElement, name: string): string | undefined {
+    if (element.attributes[name] !== undefined) return element.attributes[name];
+    return element.children.find(child => child.name === name)?.text.trim();
+  }
+
+  setField(element: XmlElement, name: string, value: string): TextEdit[] {
+    const startTag = this.startTag(element);
+    const attribute = this.findAttribute(startTag, name);
+    if (attribute) {
+      const offset = element.position.start;
+      return [{ start: offset + attribute.start, end: offset + attribute.end, text: XmlSourceEditor.escape(value, true) }];
+    }
+
+    const child = element.children.find(candidate => candidate.name === name);
+    if (child) return [this.setText(child, value)];
+
+    return [this.addAttribute(element, name, value)];
+  }
+
+  /**
+   * The value attribute, else a <value> child, else the text of a leaf element;
+   * without any of them a value attribute is added
+   */
+  setValue(element: XmlElement, value: string): TextEdit[] {
+    const hasField = this.findAttribute(this.startTag(element), 'value') || element.children.some(child => child.name === 'value');
+    if (!hasField && element.children.length === 0 && element.text.trim() !== '') {
+      return [this.setText(element, value)];
+    }
+    return this.setField(element, 'value', value);
+  }
+
+  removeField(element: XmlElement, name: string): TextEdit[] {
+    const attribute = this.findAttribute(this.startTag(element), name, true);
+    if (attribute) {
+      const offset = element.position.start;
+      return [{ start: offset + attribute.start, end: offset + attribute.end, text: '' }];
+    }
+    const child = element.children.find(candidate => candidate.name === name);
+    return child ? [this.removeLines(child.position)] : [];
+  }
+
+  /**
+   * Remove one reference from the first of the given list fields the element has
+   */
+  removeReference(element: XmlElement, names: string[], reference: string): TextEdit[] | null {
+    const startTag = this.startTag(element);
+    for (const name of names) {
+      const attribute = this.findAttribute(startTag, name);
+      if (attribute) {
+        return this.removeListItem(startTag.substring(attribute.start, attribute.end), element.position.start + attribute.start, reference);
+      }
+    }
+
+    const child = element.children.find(candidate => names.includes(candidate.name));
+    const inner = child && child.children.length === 0 ? this.inner(child) : null;
+    if (!inner) return null;
+    return this.removeListItem(this.source.substring(inner.start, inner.end), inner.start, reference);
+  }
+
+  /**
+   * Insert lines of markup after an element, indented like it
+   */
+  insertAfter(element: XmlElement, lines: string[]): TextEdit {
+    const indent = this.lineIndent(element.position.start);
+    const text = lines.map(line => `${this.newline}${indent}${line}`).join('');
+    return { start: element.position.end, end: element.position.end, text };
+  }
+
+  /**
+   * Insert lines of markup as the last children of an element, one level deeper
+   */
+  insertInto(element: XmlElement, lines: string[]): TextEdit {
+    const indent = this.lineIndent(element.position.start);
+    const childIndent = this.childIndent(element);
+    const inner = this.inner(element);
+
+    if (!inner) {
+      const startTag = this.startTag(element);
+      const start = element.position.start + startTag.substring(0, startTag.length - 2).trimEnd().length;
+      const children = lines.map(line => `${this.newline}${childIndent}${line}`).join('');
+      return { start, end: element.position.end, text: `>${children}${this.newline}${indent}</${this.rawName(element)}>` };
+    }
+
+    if (this.startsLine(inner.end) && this.source.substring(inner.start, inner.end).includes('\n')) {
+      const lineStart = this.source.lastIndexOf('\n', inner.end - 1) + 1;
+      const text = lines.map(line => `${childIndent}${line}${this.newline}`).join('');
+      return { start: lineStart, end: lineStart, text };
+    }
+
+    const text = lines.map(line => `${this.newline}${childIndent}${line}`).join('') + this.newline + indent;
+    return { start: inner.end, end: inner.end, text };
+  }
+
+  /**
+   * Insert lines of markup before an element, indented like it
+   */
+  insertBefore(element: XmlElement, lines: string[]): TextEdit {
+    const indent = this.lineIndent(element.position.start);
+    if (!this.startsLine(element.position.start)) {
+      const text = lines.map(line => `${line}${this.newline}${indent}`).join('');
+      return { start: element.position.start, end: element.position.start, text };
+    }
+    const lineStart = this.source.lastIndexOf('\n', element.position.start - 1) + 1;
+    const text = lines.map(line => `${indent}${line}${this.newline}`).join('');
+    return { start: lineStart, end: lineStart, text };
+  }
+
+  /**
+   * Replace an element with lines of markup, indented like it
+   */
+  replace(element: XmlElement, lines: string[]): TextEdit {
+    const indent = this.lineIndent(element.position.start);
+    const text = lines.map((line, index) => index === 0 ? line : `${this.newline}${indent}${line}`).join('');
+    return { start: element.position.start, end: element.position.end, text };
+  }
+
+  static escape(value: string, attribute: boolean = false): string {
+    const text = value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return attribute ? text.replace(/"/g, '&quot;').replace(/'/g, '&apos;') : text;
+  }
+
+  // Helper methods
+
+  private index(element: XmlElement): void {
+    this.elements.set(element.position.start, element);
+    element.children.forEach(child => this.index(child));
+  }
+
+  private startTag(element: XmlElement): string {
+    return this.source.substring(element.position.start, element.position.end).match(START_TAG)?.[0] || '';
+  }
+
+  private rawName(element: XmlElement): string {
+    return this.startTag(element).match(/^<([^\s/>]+)/)?.[1] || element.name;
+  }
+
+  /**
+   * Offsets of the content between an element's tags; null when it is self-closing
+   */
+  private inner(element: XmlElement): { start: number; end: number } | null {
+    const startTag = this.startTag(element);
+    if (startTag.endsWith('/>')) return null;
+    const start = element.position.start + startTag.length;
+    const end = this.source.lastIndexOf('</', element.position.end - 1);
+    return end >= start ? { start, end } : { start, end: start };
+  }
+
+  private setText(element: XmlElement, value: string): TextEdit {
+    const inner = this.inner(element);
+    if (!inner) {
+      const raw = this.rawName(element);
+      return { start: element.position.start, end: element.position.end, text: `<${raw}>${XmlSourceEditor.escape(value)}</${raw}>` };
+    }
+    return this.replaceTrimmed(inner.start, inner.end, XmlSourceEditor.escape(value));
+  }
+
+  private addAttribute(element: XmlElement, name: string, value: string): TextEdit {
+    const startTag = this.startTag(element);
+    const tagEnd = startTag.length - (startTag.endsWith('/>') ? 2 : 1);
+    const insertAt = element.position.start + startTag.substring(0, tagEnd).trimEnd().length;
+    return { start: insertAt, end: insertAt, text: ` ${name}="${XmlSourceEditor.escape(value, true)}"` };
+  }
+
+  /**
+   * Offsets of an attribute's value within a start tag, or of the whole attribute
+   * with the blank before it
+   */
+  private findAttribute(startTag: string, name: string, whole: boolean = false): { start: number; end: number } | null {
+    const match = startTag.match(new RegExp(`\\s(?:[\\w.-]+:)?${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+    if (!match) return null;
+    const end = match.index! + match[0].length;
+    if (whole) {
+      const before = startTag.substring(0, match.index!);
+      return { start: before.trimEnd().length, end };
+    }
+    const value = match[1] ?? match[2];
+    return { start: end - 1 - value.length, end: end - 1 };
+  }
+
+  private childIndent(element: XmlElement): string {
+    const child = element.children.find(candidate => this.startsLine(candidate.position.start));
+    return child ? this.lineIndent(child.position.start) : this.lineIndent(element.position.start) + this.indentUnit;
+  }
+
+  private detectIndentUnit(): string {
+    const root = this.root;
+    const child = root?.children.find(candidate => this.startsLine(candidate.position.start));
+    if (root && child) {
+      const unit = this.lineIndent(child.position.start).substring(this.lineIndent(root.position.start).length);
+      if (unit) return unit;
+    }
+    return '  ';
+  }
+}
+
+/**
+ * Edits of key=value blocks (CAB, CABX entries, MZB)
+ */
+export class BlockSourceEditor extends SourceEditor {
+  /**
+   * The field's line, or a new one under the header, indented and spaced like the
+   * block's other fields
+   */
+  setField(range: SourceRange, name: string, value: string): TextEdit[] {
+    const segment = this.source.substring(range.start, range.end);
+    const field = this.findField(segment, name);
+    if (field) {
+      return [{ start: range.start + field.start, end: range.start + field.end, text: value }];
+    }
+
+    const headerEnd = segment.search(/\r?\n/);
+    const sample = segment.match(/\n([ \t]*)[^\s=]+([ \t]*=[ \t]*)/);
+    const insertAt = range.start + (headerEnd === -1 ? segment.length : headerEnd);
+    return [{
+      start: insertAt,
+      end: insertAt,
+      text: `${this.newline}${sample ? sample[1] : ''}${name}${sample ? sample[2] : '='}${value}`
+    }];
+  }
+
+  /**
+   * Remove one reference from the first of the given list fields the block has
+   */
+  removeReference(range: SourceRange, names: string[], reference: string): TextEdit[] | null {
+    const segment = this.source.substring(range.start, range.end);
+    for (const name of names) {
+      const field = this.findField(segment, name);
+      if (field) {
+        return this.removeListItem(segment.substring(field.start, field.end), range.start + field.start, reference);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Offsets of a key=value line's value within a block, without surrounding blanks
+   */
+  private findField(segment: string, name: string): { start: number; end: number } | null {
+    const match = segment.match(new RegExp(`^([ \\t]*${name}[ \\t]*=[ \\t]*)([^\\r\\n]*?)[ \\t]*\\r?$`, 'im'));
+    if (!match) return null;
+    const start = match.index! + match[1].length;
+    return { start, end: start + match[2].length };
+  }
+}
@@ -0,0 +1,264 @@
+import {
+  Constraint,
+  Dependency,
+  FieldChange,
+  Parameter,
+  Part,
+  SpecializedParseResult,
+  StructuralChange,
+  StructuralDiff
+} from '../../types/specialized-parser.js';
+
+// The fields of a result the diff looks at; stored results may lack any of them
+type DiffInput = Pick<SpecializedParseResult, 'parts' | 'parameters' | 'constraints'> & {
+  version_metadata?: Partial<SpecializedParseResult['version_metadata']>;
+  file_structure?: Partial<SpecializedParseResult['file_structure']>;
+};
+
+interface Layout {
+  parts: Map<string, Part>;
+  parameters: Map<string, Parameter>;
+  constraints: Map<string, Constraint>;
+  dependencies: Map<string, Dependency>;
+  owners: Map<string, string>; // parameter, constraint or child part id -> part id
+}
+
+interface NamedRecord {
+  id: string;
+  name: string;
+}
+
+const KIND_LABELS: { [kind in StructuralChange['kind']]: [string, string] } = {
+  part: ['part', 'parts'],
+  parameter: ['parameter', 'parameters'],
+  constraint: ['constraint', 'constraints'],
+  dependency: ['dependency', 'dependencies']
+};
+
+/**
+ * Compares two parsed versions of a specialized file by what they contain rather than
+ * by line: parts, parameters and constraints are matched by id, so an inserted line
+ * does not show up as everything after it changing, and a new name under the same id
+ * is a rename.
+ */
+export class SpecializedDiffEngine {
+  compare(before: DiffInput, after: DiffInput): StructuralDiff {
+    const old = this.layout(before);
+    const current = this.layout(after);
+    const changes: StructuralChange[] = [
+      ...this.compareRecords('part', old.parts, current.parts, old, current, part => ({
+        type: part.type,
+        version: part.metadata?.version,
+        description: part.metadata?.description
+      })),
+      ...this.compareRecords('parameter', old.parameters, current.parameters, old, current, parameter => ({
+        value: parameter.value,
+        unit: parameter.unit,
+        type: parameter.type,
+        required: parameter.required,
+        default_value: parameter.default_value,
+        description: parameter.description
+      })),
+      ...this.compareRecords('constraint', old.constraints, current.constraints, old, current, constraint => ({
+        type: constraint.type,
+        value: constraint.value,
+        severity: constraint.severity,
+        affected_parameters: [...(constraint.affected_parameters || [])].sort(),
+        message: constraint.message,
+        description: constraint.description
+      })),
+      ...this.compareDependencies(old.dependencies, current.dependencies)
+    ];
+
+    const summary = Object.fromEntries(Object.keys(KIND_LABELS).map(kind => {
+      const ofKind = changes.filter(change => change.kind === kind);
+      return [kind, {
+        added: ofKind.filter(change => change.change === 'added').length,
+        removed: ofKind.filter(change => change.change === 'removed').length,
+        modified: ofKind.filter(change => change.change === 'modified').length,
+        renamed: ofKind.filter(change => change.renamed_from !== undefined).length
+      }];
+    })) as StructuralDiff['summary'];
+
+    return {
+      from_version: before.version_metadata?.version || '',
+      to_version: after.version_metadata?.version || '',
+      changes,
+      summary
+    };
+  }
+
+  /**
+   * The diff as plain text, one line per change, for chat context or a changelog
+   */
+  describe(diff: StructuralDiff): string {
+    const versions = diff.from_version && diff.to_version && diff.from_version !== diff.to_version
+      ? ` (version ${diff.from_version} to ${diff.to_version})`
+      : '';
+    if (diff.changes.length === 0) {
+      return `No structural changes${versions}.`;
+    }
+
+    const counts = Object.entries(diff.summary).flatMap(([kind, summary]) => {
+      const [singular, plural] = KIND_LABELS[kind as StructuralChange['kind']];
+      return (['added', 'removed', 'modified'] as const)
+        .filter(change => summary[change] > 0)
+        .map(change => `${summary[change]} ${summary[change] === 1 ? singular : plural} ${change === 'modified' ? 'changed' : change}`);
+    });
+
+    const lines = diff.changes.map(change => {
+      const [label] = KIND_LABELS[change.kind];
+      const subject = change.kind === 'dependency' ? `${label} ${change.id}` : `${label} "${change.name}" (${change.id})`;
+      const where = change.part_name ? ` ${change.change === 'removed' ? 'from' : change.change === 'added' ? 'to' : 'in'} part "${change.part_name}"` : '';
+
+      if (change.change !== 'modified') {
+        return `- ${change.change === 'added' ? 'Added' : 'Removed'} ${subject}${where}`;
+      }
+      const details = (change.fields || [])
+        .filter(field => field.field !== 'name')
+        .map(field => `${field.field} ${this.format(field.before)} -> ${this.format(field.after)}`)
+        .join('; ');
+      if (change.renamed_from !== undefined) {
+        return `- Renamed ${label} "${change.renamed_from}" (${change.id})${where} to "${change.name}"${details ? `: ${details}` : ''}`;
+      }
+      return `- Changed ${subject}${where}: ${details}`;
+    });
+
+    return [`Changes${versions}: ${counts.join(', ')}.`, ...lines].join('\n');
+  }
+
+  private compareRecords<T extends NamedRecord>(
+    kind: StructuralChange['kind'],
+    before: Map<string, T>,
+    after: Map<string, T>,
+    old: Layout,
+    current: Layout,
+    fields: (item: T) => { [field: string]: any }
+  ): StructuralChange[] {
+    const changes: StructuralChange[] = [];
+
+    for (const [id, item] of after) {
+      const previous = before.get(id);
+      const owner = this.owner(current, id);
+      if (!previous) {
+        changes.push({ kind, change: 'added', id, name: item.name, ...owner });
+        continue;
+      }
+
+      const fieldChanges: FieldChange[] = [];
+      if (previous.name !== item.name) {
+        fieldChanges.push({ field: 'name', before: previous.name, after: item.name });
+      }
+      const previousOwner = this.owner(old, id);
+      if (previousOwner.part_id !== owner.part_id) {
+        fieldChanges.push({ field: 'part', before: previousOwner.part_id ?? null, after: owner.part_id ?? null });
+      }
+      const oldFields = fields(previous);
+      const newFields = fields(item);
+      for (const field of Object.keys(newFields)) {
+        if (!this.same(oldFields[field], newFields[field])) {
+          fieldChanges.push({ field, before: oldFields[field] ?? null, after: newFields[field] ?? null });
+        }
+      }
+
+      if (fieldChanges.length > 0) {
+        changes.push({
+          kind,
+          change: 'modified',
+          id,
+          name: item.name,
+          ...owner,
+          ...(previous.name !== item.name ? { renamed_from: previous.name } : {}),
+          fields: fieldChanges
+        });
+      }
+    }
+
+    for (const [id, item] of before) {
+      if (!after.has(id)) {
+        changes.push({ kind, change: 'removed', id, name: item.name, ...this.owner(old, id) });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Declared dependencies only; the ones implied by nesting and references follow
+   * the records they connect
+   */
+  private compareDependencies(before: Map<string, Dependency>, after: Map<string, Dependency>): StructuralChange[] {
+    const changes: StructuralChange[] = [];
+    for (const [key, dependency] of after) {
+      const previous = before.get(key);
+      if (!previous) {
+        changes.push({ kind: 'dependency', change: 'added', id: key, name: dependency.type });
+      } else if (!this.same(previous.description, dependency.description)) {
+        changes.push({
+          kind: 'dependency',
+          change: 'modified',
+          id: key,
+          name: dependency.type,
+          fields: [{ field: 'description', before: previous.description ?? null, after: dependency.description ?? null }]
+        });
+      }
+    }
+    for (const [key, dependency] of before) {
+      if (!after.has(key)) changes.push({ kind: 'dependency', change: 'removed', id: key, name: dependency.type });
+    }
+    return changes;
+  }
+
+  // Helper methods
+
+  private layout(result: DiffInput): Layout {
+    const parts = new Map((result.parts || []).map(part => [part.id, part]));
+    const parameters = new Map((result.parameters || []).map(parameter => [parameter.id, parameter]));
+    const constraints = new Map((result.constraints || []).map(constraint => [constraint.id, constraint]));
+    const owners = new Map<string, string>();
+
+    for (const part of parts.values()) {
+      for (const parameter of part.parameters || []) {
+        if (!parameters.has(parameter.id)) parameters.set(parameter.id, parameter);
+        if (!owners.has(parameter.id)) owners.set(parameter.id, part.id);
+      }
+      for (const constraint of part.constraints || []) {
+        if (!constraints.has(constraint.id)) constraints.set(constraint.id, constraint);
+        if (!owners.has(constraint.id)) owners.set(constraint.id, part.id);
+      }
+    }
+    for (const node of result.file_structure?.hierarchy || []) {
+      if (node.type === 'part' && node.parent_id && parts.has(node.parent_id) && !owners.has(node.id)) {
+        owners.set(node.id, node.parent_id);
+      }
+    }
+
+    const dependencies = new Map<string, Dependency>();
+    for (const dependency of result.file_structure?.dependencies || []) {
+      const declared = dependency.position || (dependency.type !== 'includes' && dependency.type !== 'references');
+      const key = `${dependency.from}->${dependency.to} (${dependency.type})`;
+      if (declared && !dependencies.has(key)) dependencies.set(key, dependency);
+    }
+
+    return { parts, parameters, constraints, dependencies, owners };
+  }
+
+  private owner(layout: Layout, id: string): Pick<StructuralChange, 'part_id' | 'part_name'> {
+    const partId = layout.owners.get(id);
+    return partId ? { part_id: partId, part_name: layout.parts.get(partId)?.name || partId } : {};
+  }
+
+  /**
+   * Equal values, where a missing value and an empty one are the same
+   */
+  private same(a: any, b: any): boolean {
+    const normalize = (value: any) => value === undefined || value === null || value === '' ? null : value;
+    return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+  }
+
+  private format(value: any): string {
+    if (value === undefined || value === null || value === '') return '(none)';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  FixApplication,
+  IssueRemedy,
+  SourceRange,
+  SpecializedFileType,
+  SpecializedFix,
+  SpecializedParseResult,
+  TextEdit
+} from '../../types/specialized-parser.js';
+import { createUnifiedDiff } from '../../utils/diff.js';
+import { isZipArchive } from '../../utils/zip.js';
+import { BlockSourceEditor, SourceEditor, XmlSourceEditor } from './SourceEditor.js';
+
+const BLOCK_FORMATS = new Set<SpecializedFileType>([SpecializedFileType.CAB, SpecializedFileType.CABX, SpecializedFileType.MZB]);
+
+// Fields a constraint lists its parameters in, as createConstraint reads them
+const REFERENCE_FIELDS = ['affected_parameters', 'parameters', 'applies_to'];
+
+/**
+ * Turns the remedies attached to detected issues into edits of the original file.
+ * Edits touch only the value, list item or element being fixed, so formatting,
+ * comments and line endings elsewhere stay as they were. Entries of CABX archives
+ * are not patched.
+ */
+export class SpecializedFixEngine {
+  /**
+   * Every fix the issues of a parse result allow, one per remedy, each with its own diff
+   */
+  proposeFixes(file: Buffer | string, result: SpecializedParseResult, filename: string = 'file'): SpecializedFix[] {
+    if (Buffer.isBuffer(file) && isZipArchive(file)) return [];
+
+    const { text } = this.decode(file);
+    const editor = BLOCK_FORMATS.has(result.file_type) ? new BlockSourceEditor(text) : new XmlSourceEditor(text);
+    const fixes = new Map<string, SpecializedFix>();
+
+    for (const issue of result.broken_logic) {
+      for (const remedy of issue.remedies || []) {
+        const id = this.fixId(remedy);
+        if (fixes.has(id)) continue;
+
+        const edits = this.createEdits(remedy, editor, result);
+        if (!edits) continue;
+
+        fixes.set(id, {
+          id,
+          issue_type: issue.issue_type,
+          severity: issue.severity,
+          description: issue.suggested_fix ? `${issue.description}. ${issue.suggested_fix}` : issue.description,
+          remedy,
+          edits,
+          diff: createUnifiedDiff(text, SourceEditor.apply(text, edits), `a/${filename}`, `b/${filename}`)
+        });
+      }
+    }
+
+    return [...fixes.values()];
+  }
+
+  /**
+   * Apply the selected fixes (all of them when fixIds is omitted). A fix whose edits
+   * overlap one applied before it is skipped.
+   */
+  applyFixes(file: Buffer | string, result: SpecializedParseResult, fixIds?: string[], filename: string = 'file'): FixApplication {
+    const { text, bom } = this.decode(file);
+    const fixes = this.proposeFixes(file, result, filename);
+    const skipped: FixApplication['skipped'] = [];
+    const applied: SpecializedFix[] = [];
+    const edits: TextEdit[] = [];
+
+    const selected = fixIds
+      ? fixIds.map(id => fixes.find(fix => fix.id === id) || id)
+      : fixes;
+    for (const fix of selected) {
+      if (typeof fix === 'string') {
+        skipped.push({ id: fix, reason: 'No such fix for this file' });
+      } else if (fix.edits.some(edit => edits.some(taken => this.overlaps(edit, taken)))) {
+        skipped.push({ id: fix.id, reason: 'Changes the same text as a fix applied before it' });
+      } else {
+        edits.push(...fix.edits);
+        applied.push(fix);
+      }
+    }
+
+    const content = SourceEditor.apply(text, edits);
+    return {
+      content: bom + content,
+      diff: createUnifiedDiff(text, content, `a/${filename}`, `b/${filename}`),
+      applied,
+      skipped
+    };
+  }
+
+  private createEdits(remedy: IssueRemedy, editor: XmlSourceEditor | BlockSourceEditor, result: SpecializedParseResult): TextEdit[] | null {
+    const source = editor.source;
+
+    switch (remedy.action) {
+      case 'set_value': {
+        const parameter = result.parameters.find(candidate => candidate.id === remedy.parameter_id);
+        if (!parameter || !this.inFile(parameter.position, source)) return null;
+        if (editor instanceof BlockSourceEditor) return editor.setField(parameter.position, 'value', String(remedy.value));
+        const element = editor.elementAt(parameter.position);
+        return element ? editor.setValue(element, String(remedy.value)) : null;
+      }
+      case 'remove_reference': {
+        const constraint = result.constraints.find(candidate => candidate.id === remedy.constraint_id);
+        if (!constraint || !this.inFile(constraint.position, source)) return null;
+        if (editor instanceof BlockSourceEditor) return editor.removeReference(constraint.position, REFERENCE_FIELDS, remedy.reference);
+        const element = editor.elementAt(constraint.position);
+        return element ? editor.removeReference(element, REFERENCE_FIELDS, remedy.reference) : null;
+      }
+      case 'remove_dependency': {
+        const dependency = result.file_structure.dependencies.find(candidate =>
+          candidate.from === remedy.from && candidate.to === remedy.to && candidate.position);
+        if (!dependency || !this.inFile(dependency.position!, source)) return null;
+        return [editor.removeLines(dependency.position!)];
+      }
+    }
+  }
+
+  // Helper methods
+
+  private fixId(remedy: IssueRemedy): string {
+    switch (remedy.action) {
+      case 'set_value': return `set_value:${remedy.parameter_id}`;
+      case 'remove_reference': return `remove_reference:${remedy.constraint_id}:${remedy.reference}`;
+      case 'remove_dependency': return `remove_dependency:${remedy.from}->${remedy.to}`;
+    }
+  }
+
+  /**
+   * Positions inside archive entries, or past the end of the source, cannot be patched
+   */
+  private inFile(range: SourceRange, source: string): boolean {
+    return !range.file && range.end > range.start && range.end <= source.length;
+  }
+
+  private overlaps(a: TextEdit, b: TextEdit): boolean {
+    return (a.start < b.end && b.start < a.end) || a.start === b.start;
+  }
+
+  private decode(file: Buffer | string): { text: string; bom: string } {
+    const text = typeof file === 'string' ? file : file.toString('utf8');
+    const bom = text.startsWith('\uFEFF') ? '\uFEFF' : '';
+    return { text: text.substring(bom.length), bom };
+  }
+}
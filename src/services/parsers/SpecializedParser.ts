@@ -0,0 +1,133 @@
+import {
+  SpecializedFileType,
+  SpecializedParserConfig,
+  SourceRange,
+  Part,
+  ValidationRule,
+  FileSection
+} from '../../types/specialized-parser.js';
+import { BaseSpecializedParser, FieldReader, ParseContext } from './BaseSpecializedParser.js';
+import { parseXml, XmlElement } from '../../utils/xml.js';
+
+const PART_ELEMENTS = new Set(['part', 'component', 'cabinet', 'product']);
+const PARAMETER_ELEMENTS = new Set(['parameter', 'param', 'prm']);
+const CONSTRAINT_ELEMENTS = new Set(['constraint']);
+
+/**
+ * Parses Mozaik XML files (.xml, .moz, .dat, .des) into parts with their nested
+ * parameters and constraints, version metadata and broken-logic findings.
+ * Every element keeps its character range and line/column in the source file.
+ */
+export class SpecializedParser extends BaseSpecializedParser {
+  constructor(config: Partial<SpecializedParserConfig> = {}) {
+    super([
+      SpecializedFileType.XML,
+      SpecializedFileType.MOZ,
+      SpecializedFileType.DAT,
+      SpecializedFileType.DES
+    ], config);
+  }
+
+  collect(source: string, context: ParseContext, file?: string): void {
+    const root = this.parseXml(source, context, file);
+    if (!root) return;
+
+    const metadata = root.children.find(child => child.name === 'metadata');
+    context.version = context.version || this.field(root, 'version') || (metadata && this.field(metadata, 'version'));
+    context.release_date = context.release_date || this.field(root, 'release_date')
+      || (metadata && (this.field(metadata, 'release_date') || this.field(metadata, 'created_date')));
+    context.compatibility.push(...this.splitList(this.field(root, 'compatibility')));
+
+    context.sections.push(...root.children.map((child, index): FileSection => ({
+      id: `section_${context.sections.length + index + 1}`,
+      name: child.attributes.name || child.name,
+      type: child.name === 'metadata' ? 'metadata' : child.name === 'header' ? 'header' : child.name === 'footer' ? 'footer' : 'body',
+      content: source.substring(child.position.start, child.position.end),
+      position: child.position,
+      subsections: []
+    })));
+
+    this.walk(root, context, undefined, 0);
+  }
+
+  /**
+   * Build an element tree that keeps every element's source range. Malformed XML is
+   * reported as parse errors; strict mode throws instead.
+   */
+  parseXml(source: string, context: Pick<ParseContext, 'errors'> = { errors: [] }, file?: string): XmlElement | null {
+    return parseXml(source, (message, position) => this.reportSyntaxError(context, message, position), file);
+  }
+
+  private reportSyntaxError(context: Pick<ParseContext, 'errors'>, message: string, position: SourceRange): void {
+    if (this.config.strict_mode) {
+      throw new Error(`Invalid XML at line ${position.line}, column ${position.column}: ${message}`);
+    }
+    context.errors.push(this.createParseError('parsing', message, 'error', position));
+  }
+
+  /**
+   * Walk the element tree, turning part, parameter and constraint elements into typed
+   * records. Parameters and constraints belong to the nearest enclosing part.
+   */
+  private walk(element: XmlElement, context: ParseContext, currentPart: Part | undefined, level: number): void {
+    for (const child of element.children) {
+      const field = this.fieldReader(child);
+
+      if (PART_ELEMENTS.has(child.name)) {
+        const part = this.createPart(context, child.attributes.id, field, child.name, child.position);
+        this.addPart(context, part, level + 1, currentPart);
+        this.walk(child, context, part, level + 1);
+      } else if (PARAMETER_ELEMENTS.has(child.name)) {
+        const parameter = this.createParameter(context, child.attributes.id, field, child.position, this.extractValidationRules(child));
+        this.addParameter(context, parameter, level + 1, currentPart);
+      } else if (CONSTRAINT_ELEMENTS.has(child.name)) {
+        const constraint = this.createConstraint(context, child.attributes.id, field, child.position);
+        this.addConstraint(context, constraint, level + 1, currentPart);
+      } else if (child.name === 'dependency' && this.config.enable_dependency_analysis) {
+        context.dependencies.push(this.createDependency(field, child.position));
+      } else if (child.name === 'change') {
+        context.changes.push(this.createChangeLog(name => field(name) ?? (name === 'description' ? child.text.trim() : undefined)));
+      } else {
+        this.walk(child, context, currentPart, level);
+      }
+    }
+  }
+
+  /**
+   * Validation rules from <validation>/<rule> children
+   */
+  private extractValidationRules(element: XmlElement): ValidationRule[] {
+    const ruleElements = element.children.flatMap(child =>
+      child.name === 'validation' ? child.children.filter(rule => rule.name === 'rule') : child.name === 'rule' ? [child] : []
+    );
+
+    return ruleElements.map(rule => {
+      const type = (this.field(rule, 'type') || 'custom').toLowerCase();
+      const value = this.field(rule, 'value') ?? '';
+      return {
+        type: ['min', 'max', 'pattern', 'enum', 'required'].includes(type) ? type as ValidationRule['type'] : 'custom',
+        value: type === 'min' || type === 'max' ? Number(value) : type === 'enum' ? this.splitList(value) : value,
+        message: this.field(rule, 'message') || rule.text.trim()
+      };
+    });
+  }
+
+  // Helper methods
+
+  /**
+   * Fields of an element; a leaf element's own text is its value
+   */
+  private fieldReader(element: XmlElement): FieldReader {
+    const ownText = element.children.length === 0 ? element.text.trim() : '';
+    return name => this.field(element, name) ?? (name === 'value' && ownText ? ownText : undefined);
+  }
+
+  /**
+   * A field given either as an attribute or as a direct child element
+   */
+  private field(element: XmlElement, name: string): string | undefined {
+    if (element.attributes[name] !== undefined) return element.attributes[name];
+    const child = element.children.find(candidate => candidate.name === name);
+    return child ? child.text.trim() : undefined;
+  }
+}
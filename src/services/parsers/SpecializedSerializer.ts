@@ -0,0 +1,499 @@
+import {
+  Constraint,
+  Dependency,
+  Parameter,
+  Part,
+  SpecializedFileType,
+  SpecializedParseResult,
+  TextEdit,
+  ValidationRule
+} from '../../types/specialized-parser.js';
+import { SpecializedParser } from './SpecializedParser.js';
+import { XmlElement } from '../../utils/xml.js';
+import { SourceEditor, XmlSourceEditor } from './SourceEditor.js';
+
+const XML_FORMATS = new Set<SpecializedFileType>([
+  SpecializedFileType.XML,
+  SpecializedFileType.MOZ,
+  SpecializedFileType.DAT,
+  SpecializedFileType.DES
+]);
+
+// A field of a record as written to the file, under the first of its names the element already uses
+interface FieldSpec<T> {
+  name: string;
+  aliases?: string[];
+  read: (item: T) => string | undefined;
+}
+
+// A parsed record with the part it belongs to (its parent, for parts)
+interface Entry<T> {
+  item: T;
+  owner?: string;
+}
+
+interface Layout {
+  parts: Part[];
+  parameters: Parameter[];
+  constraints: Constraint[];
+  partParents: Map<string, string | undefined>;
+  parameterOwners: Map<string, string>;
+  constraintOwners: Map<string, string>;
+}
+
+const PART_FIELDS: FieldSpec<Part>[] = [
+  { name: 'name', read: part => part.name },
+  { name: 'type', read: part => part.type },
+  { name: 'version', read: part => part.metadata?.version || undefined },
+  { name: 'author', read: part => part.metadata?.author || undefined },
+  { name: 'created_date', read: part => part.metadata?.created_date || undefined },
+  { name: 'modified_date', read: part => part.metadata?.modified_date || undefined },
+  { name: 'description', read: part => part.metadata?.description }
+];
+
+const PARAMETER_FIELDS: FieldSpec<Parameter>[] = [
+  { name: 'name', read: parameter => parameter.name },
+  { name: 'type', read: parameter => parameter.type },
+  { name: 'unit', aliases: ['unit_system'], read: parameter => parameter.unit },
+  { name: 'required', read: parameter => parameter.required ? 'true' : undefined },
+  { name: 'default_value', aliases: ['default'], read: parameter => parameter.default_value === undefined ? undefined : String(parameter.default_value) },
+  { name: 'description', read: parameter => parameter.description }
+];
+
+// Constraint fields written as child elements of a new constraint
+const TEXT_FIELDS = ['condition', 'description', 'message', 'affected_parameters'];
+
+const CONSTRAINT_FIELDS: FieldSpec<Constraint>[] = [
+  { name: 'name', read: constraint => constraint.name },
+  { name: 'type', read: constraint => constraint.type },
+  { name: 'severity', read: constraint => constraint.severity },
+  {
+    name: 'min',
+    read: constraint => constraint.type === 'range' && typeof constraint.value === 'object' ? constraint.value?.min?.toString() : undefined
+  },
+  {
+    name: 'max',
+    read: constraint => constraint.type === 'range' && typeof constraint.value === 'object' ? constraint.value?.max?.toString() : undefined
+  },
+  { name: 'values', aliases: ['value'], read: constraint => constraint.type === 'enum' ? (Array.isArray(constraint.value) ? constraint.value : [constraint.value]).join(',') : undefined },
+  { name: 'pattern', aliases: ['value'], read: constraint => constraint.type === 'regex' ? String(constraint.value) : undefined },
+  {
+    name: 'condition',
+    aliases: ['value'],
+    read: constraint => constraint.type === 'custom' || (constraint.type === 'range' && typeof constraint.value !== 'object')
+      ? String(constraint.value ?? '') || undefined
+      : undefined
+  },
+  { name: 'description', read: constraint => constraint.description },
+  { name: 'message', read: constraint => constraint.message },
+  { name: 'affected_parameters', aliases: ['parameters', 'applies_to'], read: constraint => constraint.affected_parameters.join(',') || undefined }
+];
+
+const DEPENDENCY_FIELDS: FieldSpec<Dependency>[] = [
+  { name: 'description', read: dependency => dependency.description }
+];
+
+interface RecordKind<T> {
+  group: string; // Element the file groups these records in, e.g. <parameters>
+  markup: (item: T) => string[];
+  update: (element: XmlElement, before: T, after: T) => TextEdit[];
+}
+
+/**
+ * Writes a SpecializedParseResult back out as a Mozaik XML file.
+ *
+ * Given the original file, the model is compared with a fresh parse of it and only
+ * what changed is rewritten: fields in place, removed records with their lines, new
+ * records next to their siblings. An unchanged model gives the original bytes back,
+ * and comments, attribute order and whitespace survive edits. Parameter values and
+ * fields are read from result.parameters and result.constraints; part.parameters and
+ * part.constraints only say which part a record belongs to. Validation rules and the
+ * change log are written only when generating a new file.
+ */
+export class SpecializedSerializer {
+  private parser = new SpecializedParser({ enable_broken_logic_detection: false });
+
+  async serialize(result: SpecializedParseResult, original?: Buffer | string): Promise<string> {
+    if (original === undefined) return this.generate(result);
+
+    if (!XML_FORMATS.has(result.file_type)) {
+      throw new Error(`Cannot write ${result.file_type} files back; only XML based formats are supported`);
+    }
+
+    const source = typeof original === 'string' ? original : original.toString('utf8');
+    const bom = source.startsWith('\uFEFF') ? '\uFEFF' : '';
+    const text = source.substring(bom.length);
+
+    const editor = new XmlSourceEditor(text);
+    if (!editor.root) {
+      throw new Error('The original file is not XML');
+    }
+    const baseline = await this.parser.parse(text, result.file_type);
+
+    return bom + SourceEditor.apply(text, this.diff(baseline, result, editor));
+  }
+
+  /**
+   * A new XML document for the model, whatever format it was parsed from
+   */
+  generate(result: SpecializedParseResult, unit: string = '  '): string {
+    const model = this.layout(result);
+    const lines: string[] = [];
+
+    const metadata = result.version_metadata.release_date
+      ? this.element('metadata', [], this.element('release_date', [], [], result.version_metadata.release_date, unit), undefined, unit)
+      : [];
+    const parts = model.parts.filter(part => !model.partParents.get(part.id));
+    const parameters = model.parameters.filter(parameter => !model.parameterOwners.get(parameter.id));
+    const constraints = model.constraints.filter(constraint => !model.constraintOwners.get(constraint.id));
+    const dependencies = result.file_structure.dependencies.filter(dependency => this.isDeclared(dependency));
+    const changes = result.version_metadata.changes || [];
+
+    lines.push(...metadata);
+    if (parts.length > 0) {
+      lines.push(...this.element('parts', [], parts.flatMap(part => this.partMarkup(part, model, unit)), undefined, unit));
+    }
+    if (parameters.length > 0) {
+      lines.push(...this.element('parameters', [], parameters.flatMap(parameter => this.parameterMarkup(parameter, unit)), undefined, unit));
+    }
+    if (constraints.length > 0) {
+      lines.push(...this.element('constraints', [], constraints.flatMap(constraint => this.constraintMarkup(constraint, unit)), undefined, unit));
+    }
+    if (dependencies.length > 0) {
+      lines.push(...this.element('dependencies', [], dependencies.flatMap(dependency => this.dependencyMarkup(dependency, unit)), undefined, unit));
+    }
+    if (changes.length > 0) {
+      const changeLines = changes.flatMap(change => this.element('change', [
+        ['version', change.version],
+        ['date', change.date],
+        ['type', change.type],
+        ['affected_parts', change.affected_parts.join(',')]
+      ], [], change.description, unit));
+      lines.push(...this.element('changes', [], changeLines, undefined, unit));
+    }
+
+    const compatibility = result.version_metadata.compatibility || [];
+    const root = this.element('root', [
+      ['version', result.version_metadata.version],
+      ['compatibility', compatibility.length === 1 && compatibility[0] === result.file_type ? undefined : compatibility.join(',')]
+    ], lines, undefined, unit);
+
+    return ['<?xml version="1.0" encoding="UTF-8"?>', ...root].join('\n') + '\n';
+  }
+
+  /**
+   * Edits that turn the baseline's source into the model
+   */
+  private diff(baseline: SpecializedParseResult, result: SpecializedParseResult, editor: XmlSourceEditor): TextEdit[] {
+    const before = this.layout(baseline);
+    const after = this.layout(result);
+    const unit = editor.indentUnit;
+    const edits: TextEdit[] = [];
+    const removals: TextEdit[] = [];
+
+    const parts = this.reconcile(editor, edits, removals, {
+      group: 'parts',
+      markup: part => this.partMarkup(part, after, unit),
+      update: (element, old, part) => this.updateFields(editor, element, PART_FIELDS, old, part)
+    }, this.entries(before.parts, before.partParents), this.entries(after.parts, after.partParents));
+
+    this.reconcile(editor, edits, removals, {
+      group: 'parameters',
+      markup: parameter => this.parameterMarkup(parameter, unit),
+      update: (element, old, parameter) => this.updateParameter(editor, element, old, parameter)
+    }, this.entries(before.parameters, before.parameterOwners), this.entries(after.parameters, after.parameterOwners), parts);
+
+    this.reconcile(editor, edits, removals, {
+      group: 'constraints',
+      markup: constraint => this.constraintMarkup(constraint, unit),
+      update: (element, old, constraint) => old.type === constraint.type
+        ? this.updateFields(editor, element, CONSTRAINT_FIELDS, old, constraint)
+        : [editor.replace(element, this.constraintMarkup(constraint, unit))]
+    }, this.entries(before.constraints, before.constraintOwners), this.entries(after.constraints, after.constraintOwners), parts);
+
+    this.reconcileDependencies(editor, edits, removals, baseline, result);
+    edits.push(...this.updateDocument(editor, baseline, result));
+
+    // Nothing inside a removed element needs editing
+    const removed = (edit: TextEdit, removal: TextEdit) => edit !== removal
+      && edit.start >= removal.start && edit.end <= removal.end
+      && !(edit.start === edit.end && (edit.start === removal.start || edit.start === removal.end));
+    return [...removals, ...edits].filter(edit => !removals.some(removal => removed(edit, removal)));
+  }
+
+  /**
+   * Update records kept in place, remove the ones that are gone or moved to another
+   * part, and insert new ones after their nearest kept sibling. Records of a new
+   * part are written with it. Returns the elements of the records kept.
+   */
+  private reconcile<T extends { id: string; position: Part['position'] }>(
+    editor: XmlSourceEditor,
+    edits: TextEdit[],
+    removals: TextEdit[],
+    kind: RecordKind<T>,
+    before: Entry<T>[],
+    after: Entry<T>[],
+    parts?: Map<string, XmlElement>
+  ): Map<string, XmlElement> {
+    const previous = new Map(before.map(entry => [entry.item.id, entry]));
+    const kept = new Map<string, XmlElement>();
+
+    for (const entry of after) {
+      const old = previous.get(entry.item.id);
+      const element = old && editor.elementAt(old.item.position);
+      if (old && element && old.owner === entry.owner && !kept.has(entry.item.id)) {
+        kept.set(entry.item.id, element);
+        edits.push(...kind.update(element, old.item, entry.item));
+      }
+    }
+
+    for (const entry of before) {
+      const element = editor.elementAt(entry.item.position);
+      if (element && kept.get(entry.item.id) !== element) removals.push(editor.removeLines(element.position));
+    }
+
+    // Parts nest in parts, so the owners of parts are among themselves
+    const owners = parts || kept;
+    for (const entry of after) {
+      if (kept.has(entry.item.id) || (entry.owner && !owners.has(entry.owner))) continue;
+
+      const siblings = after.filter(candidate => candidate.owner === entry.owner);
+      const index = siblings.indexOf(entry);
+      const previousSibling = siblings.slice(0, index).reverse().find(sibling => kept.has(sibling.item.id));
+      const nextSibling = siblings.slice(index + 1).find(sibling => kept.has(sibling.item.id));
+      const markup = kind.markup(entry.item);
+
+      if (previousSibling) {
+        edits.push(editor.insertAfter(kept.get(previousSibling.item.id)!, markup));
+      } else if (nextSibling) {
+        edits.push(editor.insertBefore(kept.get(nextSibling.item.id)!, markup));
+      } else {
+        const container = entry.owner ? owners.get(entry.owner)! : editor.root!;
+        const group = container.children.find(child => child.name === kind.group);
+        edits.push(editor.insertInto(group || container, markup));
+      }
+    }
+
+    return kept;
+  }
+
+  private reconcileDependencies(
+    editor: XmlSourceEditor,
+    edits: TextEdit[],
+    removals: TextEdit[],
+    baseline: SpecializedParseResult,
+    result: SpecializedParseResult
+  ): void {
+    const key = (dependency: Dependency) => `${dependency.from}|${dependency.to}|${dependency.type}`;
+    const before = new Map<string, { dependency: Dependency; element: XmlElement }>();
+    for (const dependency of baseline.file_structure.dependencies) {
+      const element = dependency.position && editor.elementAt(dependency.position);
+      if (element && !before.has(key(dependency))) before.set(key(dependency), { dependency, element });
+    }
+
+    const after = result.file_structure.dependencies.filter(dependency => this.isDeclared(dependency));
+    const kept = new Set<string>();
+    let last: XmlElement | undefined;
+
+    for (const dependency of after) {
+      const old = before.get(key(dependency));
+      if (old && !kept.has(key(dependency))) {
+        kept.add(key(dependency));
+        last = old.element;
+        edits.push(...this.updateFields(editor, old.element, DEPENDENCY_FIELDS, old.dependency, dependency));
+      }
+    }
+    for (const [dependencyKey, { element }] of before) {
+      if (!kept.has(dependencyKey)) removals.push(editor.removeLines(element.position));
+    }
+
+    const added = after.filter(dependency => !kept.has(key(dependency)));
+    if (added.length === 0) return;
+    const markup = added.flatMap(dependency => this.dependencyMarkup(dependency, editor.indentUnit));
+    if (last) {
+      edits.push(editor.insertAfter(last, markup));
+    } else {
+      const group = editor.root!.children.find(child => child.name === 'dependencies');
+      edits.push(editor.insertInto(group || editor.root!, markup));
+    }
+  }
+
+  /**
+   * Version and release date, where the file declares them: on the root element or
+   * in its <metadata>
+   */
+  private updateDocument(editor: XmlSourceEditor, baseline: SpecializedParseResult, result: SpecializedParseResult): TextEdit[] {
+    const root = editor.root!;
+    const metadata = root.children.find(child => child.name === 'metadata');
+    const edits: TextEdit[] = [];
+
+    const update = (names: string[], before: string | undefined, after: string | undefined) => {
+      if (before === after) return;
+      const targets = names.flatMap(name => [[root, name], [metadata, name]] as [XmlElement | undefined, string][]);
+      const [element, name] = targets.find(([candidate, field]) => candidate && editor.field(candidate, field) !== undefined) || [root, names[0]];
+      edits.push(...(after === undefined ? editor.removeField(element!, name) : editor.setField(element!, name, after)));
+    };
+
+    update(['version'], baseline.version_metadata.version, result.version_metadata.version);
+    update(['release_date', 'created_date'], baseline.version_metadata.release_date, result.version_metadata.release_date);
+    return edits;
+  }
+
+  private updateParameter(editor: XmlSourceEditor, element: XmlElement, before: Parameter, after: Parameter): TextEdit[] {
+    const edits = this.updateFields(editor, element, PARAMETER_FIELDS, before, after);
+    const value = this.text(after.value) ?? '';
+    if (value !== (this.text(before.value) ?? '')) edits.push(...editor.setValue(element, value));
+    return edits;
+  }
+
+  private updateFields<T>(editor: XmlSourceEditor, element: XmlElement, fields: FieldSpec<T>[], before: T, after: T): TextEdit[] {
+    return fields.flatMap(spec => {
+      const value = spec.read(after);
+      if (value === spec.read(before)) return [];
+      const name = [spec.name, ...(spec.aliases || [])].find(candidate => editor.field(element, candidate) !== undefined) || spec.name;
+      return value === undefined ? editor.removeField(element, name) : editor.setField(element, name, value);
+    });
+  }
+
+  // Markup
+
+  private partMarkup(part: Part, model: Layout, unit: string): string[] {
+    const parameters = model.parameters.filter(parameter => model.parameterOwners.get(parameter.id) === part.id);
+    const constraints = model.constraints.filter(constraint => model.constraintOwners.get(constraint.id) === part.id);
+    const children = model.parts.filter(child => model.partParents.get(child.id) === part.id);
+
+    const content = [
+      ...this.textElement('description', part.metadata?.description),
+      ...(parameters.length > 0 ? this.element('parameters', [], parameters.flatMap(parameter => this.parameterMarkup(parameter, unit)), undefined, unit) : []),
+      ...(constraints.length > 0 ? this.element('constraints', [], constraints.flatMap(constraint => this.constraintMarkup(constraint, unit)), undefined, unit) : []),
+      ...children.flatMap(child => this.partMarkup(child, model, unit))
+    ];
+    return this.element('part', [
+      ['id', part.id],
+      ...PART_FIELDS.filter(spec => spec.name !== 'description').map(spec => [spec.name, spec.read(part)] as [string, string | undefined])
+    ], content, undefined, unit);
+  }
+
+  private parameterMarkup(parameter: Parameter, unit: string): string[] {
+    const rules = (parameter.validation_rules || []).map(rule => this.element('rule', [
+      ['type', rule.type],
+      ['value', this.ruleValue(rule)],
+      ['message', rule.message]
+    ], [], undefined, unit)[0]);
+
+    const content = [
+      ...this.textElement('description', parameter.description),
+      ...(rules.length > 0 ? this.element('validation', [], rules, undefined, unit) : [])
+    ];
+    return this.element('parameter', [
+      ['id', parameter.id],
+      ['name', parameter.name],
+      ['type', parameter.type],
+      ['value', this.text(parameter.value)],
+      ...PARAMETER_FIELDS.filter(spec => !['name', 'type', 'description'].includes(spec.name)).map(spec => [spec.name, spec.read(parameter)] as [string, string | undefined])
+    ], content, undefined, unit);
+  }
+
+  private constraintMarkup(constraint: Constraint, unit: string): string[] {
+    const attributes = CONSTRAINT_FIELDS.filter(spec => !TEXT_FIELDS.includes(spec.name));
+    const content = CONSTRAINT_FIELDS
+      .filter(spec => TEXT_FIELDS.includes(spec.name))
+      .flatMap(spec => this.textElement(spec.name, spec.read(constraint)));
+
+    return this.element('constraint', [
+      ['id', constraint.id],
+      ...attributes.map(spec => [spec.name, spec.read(constraint)] as [string, string | undefined])
+    ], content, undefined, unit);
+  }
+
+  private dependencyMarkup(dependency: Dependency, unit: string): string[] {
+    return this.element('dependency', [
+      ['from', dependency.from],
+      ['to', dependency.to],
+      ['type', dependency.type]
+    ], this.textElement('description', dependency.description), undefined, unit);
+  }
+
+  /**
+   * An element as lines: attributes without a value are left out, children are
+   * indented one level
+   */
+  private element(name: string, attributes: [string, string | undefined][], children: string[], text: string | undefined, unit: string): string[] {
+    const written = attributes
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => ` ${key}="${XmlSourceEditor.escape(value!, true)}"`)
+      .join('');
+
+    if (children.length > 0) return [`<${name}${written}>`, ...children.map(line => unit + line), `</${name}>`];
+    if (text !== undefined && text !== '') return [`<${name}${written}>${XmlSourceEditor.escape(text)}</${name}>`];
+    return [`<${name}${written}/>`];
+  }
+
+  private textElement(name: string, text: string | undefined): string[] {
+    return text === undefined || text === '' ? [] : [`<${name}>${XmlSourceEditor.escape(text)}</${name}>`];
+  }
+
+  // Helper methods
+
+  /**
+   * Records with the part each belongs to. Part membership comes from the parts'
+   * lists, nesting of parts from the hierarchy.
+   */
+  private layout(result: SpecializedParseResult): Layout {
+    const partIds = new Set(result.parts.map(part => part.id));
+    const partParents = new Map<string, string | undefined>();
+    for (const node of result.file_structure.hierarchy || []) {
+      if (node.type === 'part' && node.parent_id && partIds.has(node.parent_id) && !partParents.has(node.id)) {
+        partParents.set(node.id, node.parent_id);
+      }
+    }
+
+    const parameters = new Map(result.parameters.map(parameter => [parameter.id, parameter]));
+    const constraints = new Map(result.constraints.map(constraint => [constraint.id, constraint]));
+    const parameterOwners = new Map<string, string>();
+    const constraintOwners = new Map<string, string>();
+    for (const part of result.parts) {
+      for (const parameter of part.parameters) {
+        if (!parameters.has(parameter.id)) parameters.set(parameter.id, parameter);
+        if (!parameterOwners.has(parameter.id)) parameterOwners.set(parameter.id, part.id);
+      }
+      for (const constraint of part.constraints) {
+        if (!constraints.has(constraint.id)) constraints.set(constraint.id, constraint);
+        if (!constraintOwners.has(constraint.id)) constraintOwners.set(constraint.id, part.id);
+      }
+    }
+
+    return {
+      parts: result.parts,
+      parameters: [...parameters.values()],
+      constraints: [...constraints.values()],
+      partParents,
+      parameterOwners,
+      constraintOwners
+    };
+  }
+
+  private entries<T extends { id: string }>(items: T[], owners: Map<string, string | undefined>): Entry<T>[] {
+    return items.map(item => ({ item, owner: owners.get(item.id) }));
+  }
+
+  /**
+   * Dependencies the file states; includes and references without a position are
+   * implied by the structure and are not written
+   */
+  private isDeclared(dependency: Dependency): boolean {
+    return Boolean(dependency.position) || (dependency.type !== 'includes' && dependency.type !== 'references');
+  }
+
+  private ruleValue(rule: ValidationRule): string | undefined {
+    return Array.isArray(rule.value) ? rule.value.join(',') : this.text(rule.value);
+  }
+
+  private text(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (Array.isArray(value)) return value.join(',');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+}
+
@@ -239,7 +239,7 @@ description=Sub system supports main component functionality`;
       sample_file_path: filePath,
       expected_results: {
         parts_count: 2,
-        parameters_count: 6,
+        parameters_count: 4, // Multi-valued blocks (dimensions, properties, loading) are one object-valued parameter each
         constraints_count: 2,
         broken_logic_count: 0,
         errors_count: 0
@@ -318,7 +318,7 @@ description=Sub model calculates derived values for main model`;
       sample_file_path: filePath,
       expected_results: {
         parts_count: 2,
-        parameters_count: 7,
+        parameters_count: 4, // Multi-valued blocks (variables, constants, boundaries) are one object-valued parameter each
         constraints_count: 2,
         broken_logic_count: 0,
         errors_count: 0
@@ -3,7 +3,14 @@ import { FileType, FileMetadata, ParseResult } from '../../types/file-parser.js'
 
 export class TextParser extends BaseParser {
   constructor() {
-    super([FileType.TXT]);
+    super([FileType.TXT], {
+      canExtractText: true,
+      canExtractMetadata: true,
+      canExtractSections: true,
+      canExtractTables: false,
+      canExtractImages: false,
+      canExtractLinks: true
+    });
   }
 
   async parse(file: Buffer, metadata: FileMetadata): Promise<ParseResult> {
@@ -14,7 +21,7 @@ export class TextParser extends BaseParser {
       
       return {
         content: text,
-        metadata: await this.extractMetadata(file),
+        metadata: this.mergeMetadata(metadata, await this.extractMetadata(file)),
         sections,
         tables: [],
         images: [],
@@ -36,28 +43,15 @@ export class TextParser extends BaseParser {
 
   async extractText(file: Buffer): Promise<string> {
     try {
-      // Try different encodings
-      const encodings = ['utf8', 'utf16le', 'latin1', 'ascii'];
-      
-      for (const encoding of encodings) {
-        try {
-          const text = file.toString(encoding as BufferEncoding);
-          if (text && text.length > 0) {
-            return this.sanitizeText(text);
-          }
-        } catch (e) {
-          continue;
-        }
-      }
-      
-      throw new Error('Unable to decode text file with any supported encoding');
+      return this.sanitizeText(this.readText(file).text);
     } catch (error) {
       throw new Error(`Text extraction failed: ${error}`);
     }
   }
 
   async extractMetadata(file: Buffer): Promise<FileMetadata> {
-    const text = await this.extractText(file);
+    const decoded = this.readText(file);
+    const text = this.sanitizeText(decoded.text);
     const lines = text.split('\n');
     
     // Extract basic metadata
@@ -66,7 +60,8 @@ export class TextParser extends BaseParser {
       file_type: FileType.TXT,
       file_size: file.length,
       mime_type: 'text/plain',
-      encoding: 'utf8',
+      encoding: decoded.encoding,
+      newline: decoded.newline,
       language: this.detectLanguage(text),
       page_count: this.estimatePageCount(text),
       created_date: new Date().toISOString(),
@@ -92,9 +87,9 @@ export class TextParser extends BaseParser {
         return false;
       }
 
-      // Try to extract text to validate it's readable
-      const text = await this.extractText(file);
-      return text.length > 0;
+      // Try to extract text to validate it's readable; NUL bytes mean a binary file
+      const decoded = this.readText(file);
+      return !decoded.text.includes('\u0000') && this.sanitizeText(decoded.text).length > 0;
     } catch (error) {
       return false;
     }
@@ -0,0 +1,66 @@
+import OpenAI from 'openai';
+import { Reranker, RerankCandidate, RerankScore } from '../../types/reranking.js';
+
+/**
+ * Asks a chat model to grade each candidate's relevance to the query in a single call
+ */
+export class LLMReranker implements Reranker {
+  readonly name = 'llm' as const;
+  private openai: OpenAI;
+  private model: string;
+
+  constructor() {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is required');
+    }
+
+    this.openai = new OpenAI({ apiKey });
+    this.model = process.env.RERANKER_MODEL || process.env.GPT_MODEL || 'gpt-4o-mini';
+  }
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]> {
+    if (candidates.length === 0) return [];
+
+    const passages = candidates
+      .map((candidate, index) => `[${index + 1}] ${candidate.title}\n${candidate.content.substring(0, 800)}`)
+      .join('\n\n');
+
+    const completion = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You grade how useful each passage is for answering a question about Mozaik software. ' +
+            'Reply with JSON of the form {"scores": [{"passage": 1, "score": 0-10}]} covering every passage. ' +
+            '10 means the passage directly answers the question, 0 means it is unrelated.'
+        },
+        {
+          role: 'user',
+          content: `Question: ${query}\n\nPassages:\n\n${passages}`
+        }
+      ],
+      max_tokens: 20 + candidates.length * 20,
+      temperature: 0,
+      response_format: { type: 'json_object' }
+    });
+
+    const parsed = JSON.parse(completion.choices[0].message.content || '{}');
+    const grades = new Map<number, number>();
+    for (const entry of parsed.scores || []) {
+      if (typeof entry?.passage === 'number' && typeof entry?.score === 'number') {
+        grades.set(entry.passage, entry.score);
+      }
+    }
+
+    if (grades.size === 0) {
+      throw new Error('Reranker model returned no scores');
+    }
+
+    // Passages the model skipped keep a neutral grade rather than being discarded
+    return candidates.map((candidate, index) => ({
+      id: candidate.id,
+      score: Math.min(Math.max((grades.get(index + 1) ?? 5) / 10, 0), 1)
+    }));
+  }
+}
@@ -0,0 +1,35 @@
+import { Reranker, RerankCandidate, RerankScore } from '../../types/reranking.js';
+import { BM25Index } from '../BM25Index.js';
+
+/**
+ * Scores candidates locally by how much of the query they cover,
+ * blended with the first-stage retrieval score. No external calls.
+ */
+export class LexicalOverlapReranker implements Reranker {
+  readonly name = 'lexical' as const;
+
+  constructor(private readonly retrievalWeight: number = 0.3) {}
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]> {
+    const queryTerms = new Set(BM25Index.tokenize(query).filter(term => term.length > 1));
+
+    return candidates.map(candidate => {
+      if (queryTerms.size === 0) {
+        return { id: candidate.id, score: candidate.retrieval_score };
+      }
+
+      const candidateTerms = new Set(BM25Index.tokenize(`${candidate.title} ${candidate.content}`));
+      let covered = 0;
+      for (const term of queryTerms) {
+        if (candidateTerms.has(term)) covered++;
+      }
+
+      const coverage = covered / queryTerms.size;
+      const retrieval = Math.min(Math.max(candidate.retrieval_score, 0), 1);
+      return {
+        id: candidate.id,
+        score: coverage * (1 - this.retrievalWeight) + retrieval * this.retrievalWeight
+      };
+    });
+  }
+}
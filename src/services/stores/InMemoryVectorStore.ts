@@ -0,0 +1,116 @@
+import { VectorStore, VectorRecord, VectorMatch, SearchFilters, EmbeddingSpace, DocumentAccess } from '../../types/vector-db.js';
+import { canAccess } from '../../utils/access.js';
+
+/**
+ * Brute-force vector store held entirely in process memory.
+ * Intended for tests and local development without external services.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly provider = 'memory' as const;
+  private records: Map<string, VectorRecord> = new Map();
+  private staged: Map<string, Map<string, VectorRecord>> = new Map(); // namespace -> records
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const record of records) {
+      this.records.set(record.id, { ...record, vector: [...record.vector] });
+    }
+  }
+
+  async stageVectors(namespace: string, records: VectorRecord[]): Promise<void> {
+    const staged = this.staged.get(namespace) || new Map<string, VectorRecord>();
+    for (const record of records) {
+      staged.set(record.id, { ...record, vector: [...record.vector] });
+    }
+    this.staged.set(namespace, staged);
+  }
+
+  async switchSpace(space: EmbeddingSpace, commit: () => void): Promise<void> {
+    const staged = this.staged.get(space.namespace);
+    if (staged) {
+      // Records written in the new space after staging started are kept as well
+      for (const [id, record] of this.records) {
+        if (!staged.has(id) && record.embedding_model === space.model && record.embedding_dimensions === space.dimensions) {
+          staged.set(id, record);
+        }
+      }
+      this.records = staged;
+      this.staged.delete(space.namespace);
+    }
+    commit();
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    for (const records of [this.records, ...this.staged.values()]) {
+      for (const [id, record] of records) {
+        if (record.document_id === documentId) {
+          records.delete(id);
+        }
+      }
+    }
+  }
+
+  async updateAccess(documentId: string, chunkIds: string[], access: DocumentAccess): Promise<void> {
+    for (const records of [this.records, ...this.staged.values()]) {
+      for (const record of records.values()) {
+        if (record.document_id === documentId) {
+          record.metadata = { ...record.metadata, ...access };
+        }
+      }
+    }
+  }
+
+  async query(vector: number[], topK: number, filters?: SearchFilters): Promise<VectorMatch[]> {
+    const matches: VectorMatch[] = [];
+
+    for (const record of this.records.values()) {
+      if (record.vector.length !== vector.length) continue;
+      if (!this.matchesFilters(record, filters)) continue;
+
+      matches.push({
+        document_id: record.document_id,
+        chunk_index: record.chunk_index,
+        score: this.cosineSimilarity(vector, record.vector)
+      });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return matches.slice(0, topK);
+  }
+
+  async count(): Promise<number> {
+    return this.records.size;
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+
+  private matchesFilters(record: VectorRecord, filters?: SearchFilters): boolean {
+    if (!filters) return true;
+    const { metadata } = record;
+
+    if (filters.access && !canAccess(metadata, filters.access)) return false;
+    if (filters.file_types?.length && !filters.file_types.includes(metadata.file_type)) return false;
+    if (filters.categories?.length && !filters.categories.includes(metadata.category)) return false;
+    if (filters.tags?.length && !filters.tags.some(tag => metadata.tags.includes(tag))) return false;
+    if (filters.date_range) {
+      if (filters.date_range.start && metadata.created_at < filters.date_range.start) return false;
+      if (filters.date_range.end && metadata.created_at > filters.date_range.end) return false;
+    }
+
+    return true;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+}
@@ -0,0 +1,211 @@
+import { VectorStore, VectorRecord, VectorMatch, SearchFilters, EmbeddingSpace, DocumentAccess } from '../../types/vector-db.js';
+import { ChunkModel } from '../../models/Chunk.js';
+import { VectorIndexService } from '../VectorIndexService.js';
+import { accessQuery } from '../../utils/access.js';
+
+/**
+ * Stores chunk vectors on their MongoDB chunk records and answers queries
+ * through the in-process HNSW index.
+ */
+export class MongoVectorStore implements VectorStore {
+  readonly provider = 'mongodb' as const;
+  private vectorIndex: VectorIndexService;
+  private maxCandidates: number; // Most chunks a filtered query scores or resolves
+
+  constructor() {
+    this.vectorIndex = VectorIndexService.getInstance();
+    this.maxCandidates = parseInt(process.env.VECTOR_QUERY_MAX_CANDIDATES || '2000');
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const [documentId, documentRecords] of this.groupByDocument(records)) {
+      await ChunkModel.bulkWrite(documentRecords.map(record => ({
+        updateOne: {
+          filter: { id: record.id },
+          update: {
+            $set: {
+              vector: record.vector,
+              embedding_model: record.embedding_model,
+              embedding_dimensions: record.embedding_dimensions
+            }
+          }
+        }
+      })));
+
+      const chunks = await ChunkModel.find({ document_id: documentId })
+        .select('chunk_index vector')
+        .sort({ chunk_index: 1 })
+        .lean();
+      const vectors: number[][] = [];
+      for (const chunk of chunks) {
+        vectors[chunk.chunk_index] = chunk.vector || [];
+      }
+      await this.vectorIndex.upsertDocument(documentId, vectors);
+    }
+  }
+
+  /**
+   * Keep vectors for an upcoming embedding space next to the serving ones on each chunk
+   */
+  async stageVectors(namespace: string, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    await ChunkModel.bulkWrite(records.map(record => ({
+      updateOne: {
+        filter: { id: record.id },
+        update: {
+          $set: {
+            staged_vector: record.vector,
+            staged_namespace: namespace,
+            staged_embedding_model: record.embedding_model,
+            staged_embedding_dimensions: record.embedding_dimensions
+          }
+        }
+      }
+    })));
+  }
+
+  /**
+   * Build the index for the new space off to the side, swap it in, then promote
+   * the staged vectors on the chunk records. Safe to re-run after an interruption;
+   * the staged_namespace marker is left for the caller to clear once it is done.
+   */
+  async switchSpace(space: EmbeddingSpace, commit: () => void): Promise<void> {
+    const staged = await ChunkModel.countDocuments({ staged_namespace: space.namespace });
+    if (staged === 0) {
+      commit();
+      return;
+    }
+
+    await this.vectorIndex.prepare(chunk => {
+      if (chunk.staged_namespace === space.namespace && chunk.staged_vector?.length) return chunk.staged_vector;
+      if (chunk.embedding_model === space.model && chunk.embedding_dimensions === space.dimensions) return chunk.vector;
+      return undefined;
+    });
+    const persisted = this.vectorIndex.activatePrepared();
+    commit();
+    await persisted;
+
+    await ChunkModel.updateMany({ staged_namespace: space.namespace, 'staged_vector.0': { $exists: true } }, [
+      {
+        $set: {
+          vector: '$staged_vector',
+          embedding_model: '$staged_embedding_model',
+          embedding_dimensions: '$staged_embedding_dimensions'
+        }
+      },
+      { $unset: ['staged_vector', 'staged_embedding_model', 'staged_embedding_dimensions'] }
+    ]);
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    await this.vectorIndex.removeDocument(documentId);
+  }
+
+  /**
+   * Query filters read access from the chunk records themselves, so this is where the
+   * new visibility and sharing list take effect for search
+   */
+  async updateAccess(documentId: string, chunkIds: string[], access: DocumentAccess): Promise<void> {
+    await ChunkModel.updateMany({ document_id: documentId }, {
+      $set: {
+        'metadata.visibility': access.visibility,
+        'metadata.shared_with': access.shared_with
+      }
+    });
+  }
+
+  async query(vector: number[], topK: number, filters?: SearchFilters): Promise<VectorMatch[]> {
+    await this.vectorIndex.ensureReady();
+
+    const mongoQuery = this.buildFilterQuery(filters);
+    const hasFilters = Object.keys(mongoQuery).length > 1;
+    const indexSize = this.vectorIndex.getStats().size;
+
+    if (hasFilters) {
+      // When the filters leave a bounded set of chunks (a user who can see little
+      // of the corpus), score exactly that set instead of searching the whole graph
+      const eligible = await ChunkModel.find(mongoQuery)
+        .select('id')
+        .limit(this.maxCandidates + 1)
+        .lean();
+      if (eligible.length <= this.maxCandidates) {
+        return this.vectorIndex.queryAmong(vector, eligible.map(chunk => chunk.id), topK);
+      }
+    }
+
+    // Over-fetch from the ANN index, then widen the candidate set until enough
+    // candidates survive the metadata filters, up to the candidate bound
+    const limit = hasFilters ? Math.min(this.maxCandidates, indexSize) : indexSize;
+    let candidateCount = Math.min(hasFilters ? Math.max(topK * 10, 100) : topK, limit);
+    let matches: VectorMatch[] = [];
+
+    while (true) {
+      const candidates = await this.vectorIndex.query(vector, candidateCount);
+      matches = await this.applyFilters(candidates, mongoQuery);
+
+      if (matches.length >= topK || candidateCount >= limit) break;
+      candidateCount = Math.min(candidateCount * 4, limit);
+    }
+
+    return matches.slice(0, topK);
+  }
+
+  async count(): Promise<number> {
+    return ChunkModel.countDocuments({ 'vector.0': { $exists: true } });
+  }
+
+  async clear(): Promise<void> {
+    await ChunkModel.updateMany({}, { $set: { vector: [] } });
+    await this.vectorIndex.clear();
+  }
+
+  private async applyFilters(candidates: VectorMatch[], mongoQuery: any): Promise<VectorMatch[]> {
+    if (candidates.length === 0) return [];
+
+    const chunkIds = candidates.map(match => `${match.document_id}#${match.chunk_index}`);
+    const allowed = await ChunkModel.find({ ...mongoQuery, id: { $in: chunkIds } })
+      .select('id')
+      .lean();
+    const allowedIds = new Set(allowed.map(chunk => chunk.id));
+
+    return candidates.filter(match => allowedIds.has(`${match.document_id}#${match.chunk_index}`));
+  }
+
+  private buildFilterQuery(filters?: SearchFilters): any {
+    const mongoQuery: any = { status: 'ready' };
+
+    if (filters) {
+      if (filters.file_types?.length) {
+        mongoQuery['metadata.file_type'] = { $in: filters.file_types };
+      }
+      if (filters.categories?.length) {
+        mongoQuery['metadata.category'] = { $in: filters.categories };
+      }
+      if (filters.tags?.length) {
+        mongoQuery['metadata.tags'] = { $in: filters.tags };
+      }
+      if (filters.access) {
+        Object.assign(mongoQuery, accessQuery(filters.access));
+      }
+      if (filters.date_range) {
+        mongoQuery['metadata.created_at'] = {
+          ...(filters.date_range.start && { $gte: filters.date_range.start }),
+          ...(filters.date_range.end && { $lte: filters.date_range.end })
+        };
+      }
+    }
+
+    return mongoQuery;
+  }
+
+  private groupByDocument(records: VectorRecord[]): Map<string, VectorRecord[]> {
+    const groups = new Map<string, VectorRecord[]>();
+    for (const record of records) {
+      const group = groups.get(record.document_id) || [];
+      group.push(record);
+      groups.set(record.document_id, group);
+    }
+    return groups;
+  }
+}
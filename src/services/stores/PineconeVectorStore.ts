@@ -0,0 +1,187 @@
+import { Pinecone, Index } from '@pinecone-database/pinecone';
+import { VectorStore, VectorRecord, VectorMatch, SearchFilters, EmbeddingSpace, DocumentAccess } from '../../types/vector-db.js';
+import { KNOWLEDGE_OWNERS, resolveAccess } from '../../utils/access.js';
+
+type PineconeMetadata = {
+  document_id: string;
+  chunk_index: number;
+  filename: string;
+  file_type: string;
+  category: string;
+  tags: string[];
+  uploaded_by: string;
+  visibility: string;
+  shared_with: string[];
+  created_at: string;
+  created_at_ts: number;
+  embedding_model: string;
+  embedding_dimensions: number;
+};
+
+/**
+ * Stores chunk vectors in a Pinecone index with denormalised metadata for filtering
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly provider = 'pinecone' as const;
+  private client: Pinecone;
+  private indexName: string;
+  private baseNamespace: string;
+  private index: Index<PineconeMetadata>;
+  private stagingNamespaces: Set<string> = new Set();
+  private batchSize = 100;
+
+  constructor() {
+    const apiKey = process.env.PINECONE_API_KEY;
+    const environment = process.env.PINECONE_ENVIRONMENT;
+    const indexName = process.env.PINECONE_INDEX_NAME;
+
+    if (!apiKey || !environment || !indexName) {
+      throw new Error('PINECONE_API_KEY, PINECONE_ENVIRONMENT and PINECONE_INDEX_NAME environment variables are required');
+    }
+
+    this.client = new Pinecone({ apiKey, environment });
+    this.indexName = indexName;
+    this.baseNamespace = process.env.PINECONE_NAMESPACE || '';
+    this.index = this.namespaceIndex('');
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    await this.write(this.index, records);
+  }
+
+  /**
+   * Vectors for an upcoming embedding space go to that space's own namespace
+   */
+  async stageVectors(namespace: string, records: VectorRecord[]): Promise<void> {
+    this.stagingNamespaces.add(namespace);
+    await this.write(this.namespaceIndex(namespace), records);
+  }
+
+  async switchSpace(space: EmbeddingSpace, commit: () => void): Promise<void> {
+    this.index = this.namespaceIndex(space.namespace);
+    this.stagingNamespaces.delete(space.namespace);
+    commit();
+  }
+
+  private async write(index: Index<PineconeMetadata>, records: VectorRecord[]): Promise<void> {
+    for (let i = 0; i < records.length; i += this.batchSize) {
+      const batch = records.slice(i, i + this.batchSize);
+      await index.upsert(batch.map(record => ({
+        id: record.id,
+        values: record.vector,
+        metadata: {
+          ...resolveAccess(record.metadata),
+          document_id: record.document_id,
+          chunk_index: record.chunk_index,
+          filename: record.metadata.filename,
+          file_type: record.metadata.file_type,
+          category: record.metadata.category,
+          tags: record.metadata.tags,
+          uploaded_by: record.metadata.uploaded_by,
+          created_at: record.metadata.created_at,
+          created_at_ts: Date.parse(record.metadata.created_at) || 0,
+          embedding_model: record.embedding_model,
+          embedding_dimensions: record.embedding_dimensions
+        }
+      })));
+    }
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    await this.index.deleteMany({ document_id: { $eq: documentId } });
+    // Do not let a deleted document reappear when a staged space is cut over
+    for (const namespace of this.stagingNamespaces) {
+      await this.namespaceIndex(namespace).deleteMany({ document_id: { $eq: documentId } });
+    }
+  }
+
+  /**
+   * Pinecone only updates metadata by record id, so every chunk is updated in turn
+   */
+  async updateAccess(documentId: string, chunkIds: string[], access: DocumentAccess): Promise<void> {
+    for (const index of [this.index, ...[...this.stagingNamespaces].map(namespace => this.namespaceIndex(namespace))]) {
+      for (const id of chunkIds) {
+        await index.update({
+          id,
+          metadata: { visibility: access.visibility, shared_with: access.shared_with } as PineconeMetadata
+        });
+      }
+    }
+  }
+
+  async query(vector: number[], topK: number, filters?: SearchFilters): Promise<VectorMatch[]> {
+    const filter = this.buildFilter(filters);
+    const response = await this.index.query({
+      vector,
+      topK,
+      includeMetadata: true,
+      ...(filter && { filter })
+    });
+
+    return (response.matches || [])
+      .filter(match => match.metadata)
+      .map(match => ({
+        document_id: match.metadata!.document_id,
+        chunk_index: match.metadata!.chunk_index,
+        score: match.score ?? 0
+      }));
+  }
+
+  async count(): Promise<number> {
+    const stats = await this.index.describeIndexStats();
+    return stats.totalRecordCount || 0;
+  }
+
+  async clear(): Promise<void> {
+    await this.index.deleteAll();
+  }
+
+  /**
+   * Embedding-space namespaces live under PINECONE_NAMESPACE; the first space uses it directly
+   */
+  private namespaceIndex(namespace: string): Index<PineconeMetadata> {
+    const name = [this.baseNamespace, namespace].filter(Boolean).join('-');
+    return this.client.index<PineconeMetadata>(this.indexName).namespace(name);
+  }
+
+  /**
+   * Translate SearchFilters into Pinecone metadata filter syntax
+   */
+  private buildFilter(filters?: SearchFilters): object | undefined {
+    if (!filters) return undefined;
+    const clauses: object[] = [];
+
+    if (filters.file_types?.length) {
+      clauses.push({ file_type: { $in: filters.file_types } });
+    }
+    if (filters.categories?.length) {
+      clauses.push({ category: { $in: filters.categories } });
+    }
+    if (filters.tags?.length) {
+      clauses.push({ tags: { $in: filters.tags } });
+    }
+    if (filters.date_range) {
+      const range: Record<string, number> = {};
+      if (filters.date_range.start) range.$gte = Date.parse(filters.date_range.start);
+      if (filters.date_range.end) range.$lte = Date.parse(filters.date_range.end);
+      if (Object.keys(range).length > 0) {
+        clauses.push({ created_at_ts: range });
+      }
+    }
+
+    if (filters.access) {
+      const userId = filters.access.user_id;
+      clauses.push({
+        $or: [
+          { visibility: { $eq: 'public' } },
+          // Records written before access control carry no visibility
+          { uploaded_by: { $in: KNOWLEDGE_OWNERS }, visibility: { $ne: 'private' } },
+          ...(userId ? [{ uploaded_by: { $eq: userId } }, { shared_with: { $in: [userId] } }] : [])
+        ]
+      });
+    }
+
+    if (clauses.length === 0) return undefined;
+    return clauses.length === 1 ? clauses[0] : { $and: clauses };
+  }
+}
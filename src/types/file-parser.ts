@@ -17,6 +17,7 @@ export interface FileMetadata {
   file_size: number;
   mime_type: string;
   encoding?: string;
+  newline?: 'lf' | 'crlf' | 'cr' | 'mixed'; // Line endings the file uses; absent for single-line text
   language?: string;
   page_count?: number;
   created_date?: string;
@@ -35,6 +36,15 @@ export interface ParseResult {
   images: ImageData[];
   links: LinkData[];
   errors: ParseError[];
+  pages?: PageText[]; // Paged formats only, in page order
+  body_start?: number; // Where the text to chunk begins, after front matter read as metadata
+}
+
+// Where one page's text lies in ParseResult.content
+export interface PageText {
+  page_number: number;
+  start_position: number;
+  end_position: number;
 }
 
 export interface DocumentSection {
@@ -87,6 +97,17 @@ export interface FileParser {
   extractMetadata(file: Buffer): Promise<FileMetadata>;
   validateFile(file: Buffer): Promise<boolean>;
   getSupportedTypes(): FileType[];
+  getCapabilities(): ParserCapabilities;
+}
+
+// What a parser fills in besides the text
+export interface ParserCapabilities {
+  canExtractText: boolean;
+  canExtractMetadata: boolean;
+  canExtractSections: boolean;
+  canExtractTables: boolean;
+  canExtractImages: boolean;
+  canExtractLinks: boolean;
 }
 
 // Text Chunking Types
@@ -105,10 +126,12 @@ export interface TextChunk {
   token_count: number;
   start_position: number;
   end_position: number;
-  section_id?: string;
+  section_id?: string; // The section the chunk starts in
+  section_ids?: string[]; // Every section the chunk holds text of, when there are several
   metadata: {
     chunk_index: number;
     is_complete_section: boolean;
+    page_number?: number;
   };
 }
 
@@ -129,6 +152,22 @@ export interface EmbeddingResult {
   token_count: number;
 }
 
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'local';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly max_batch_size: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Overrides used to recreate the provider for an earlier or upcoming embedding space
+export interface EmbeddingProviderOptions {
+  model?: string;
+  dimensions?: number;
+}
+
 // Parser Factory Interface
 export interface ParserFactory {
   createParser(fileType: FileType): FileParser;
@@ -0,0 +1,51 @@
+// Second-stage Reranking Types and Interfaces
+
+export type RerankerName = 'llm' | 'lexical' | 'none';
+
+export interface RerankCandidate {
+  id: string; // `${document_id}#${chunk_index}`
+  document_id: string;
+  chunk_index: number;
+  title: string;
+  content: string;
+  retrieval_score: number;
+}
+
+export interface RerankScore {
+  id: string;
+  score: number; // 0-1, higher is more relevant
+}
+
+export interface Reranker {
+  readonly name: RerankerName;
+  score(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]>;
+}
+
+export type DropReason = 'below_relevance_threshold' | 'redundant' | 'over_limit';
+
+export interface DroppedChunk {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  title: string;
+  reason: DropReason;
+  rerank_score: number;
+  similar_to?: string; // Kept chunk that made this one redundant
+  similarity?: number;
+}
+
+export interface RerankingReport {
+  reranker: RerankerName;
+  fallback_reason?: string;
+  candidates: number;
+  kept: Array<{ id: string; rerank_score: number; mmr_score: number }>;
+  dropped: DroppedChunk[];
+  mmr_lambda: number;
+}
+
+export interface RerankOptions {
+  limit: number;
+  min_score?: number; // Applies to LLM reranker scores only
+  mmr_lambda?: number;
+  redundancy_threshold?: number;
+}
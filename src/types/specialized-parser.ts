@@ -4,7 +4,22 @@ export enum SpecializedFileType {
   CAB = 'cab',
   CABX = 'cabx', 
   MZB = 'mzb',
-  XML = 'xml'
+  XML = 'xml',
+  MOZ = 'moz',
+  DAT = 'dat',
+  DES = 'des'
+}
+
+// Character offsets (0-based, end exclusive) plus 1-based line and column of the
+// first and last character, so a UI can jump straight to the element
+export interface SourceRange {
+  start: number;
+  end: number;
+  line?: number;
+  column?: number;
+  end_line?: number;
+  end_column?: number;
+  file?: string; // Archive entry the range refers to, for container formats
 }
 
 export interface Part {
@@ -20,10 +35,7 @@ export interface Part {
     author?: string;
     description?: string;
   };
-  position: {
-    start: number;
-    end: number;
-  };
+  position: SourceRange;
   status: 'valid' | 'broken' | 'warning';
   errors: ParseError[];
 }
@@ -31,17 +43,14 @@ export interface Part {
 export interface Parameter {
   id: string;
   name: string;
-  value: string | number | boolean;
+  value: string | number | boolean | Record<string, string | number | boolean>;
   type: 'string' | 'number' | 'boolean' | 'array' | 'object';
   unit?: string;
   description?: string;
   required: boolean;
   default_value?: any;
   validation_rules?: ValidationRule[];
-  position: {
-    start: number;
-    end: number;
-  };
+  position: SourceRange;
 }
 
 export interface Constraint {
@@ -50,20 +59,44 @@ export interface Constraint {
   type: 'range' | 'enum' | 'regex' | 'custom';
   value: any;
   description?: string;
+  message?: string; // Shown to the user when the constraint is violated
   severity: 'error' | 'warning' | 'info';
   affected_parameters: string[]; // Parameter IDs
-  position: {
-    start: number;
-    end: number;
-  };
+  position: SourceRange;
 }
 
 export interface ValidationRule {
-  type: 'min' | 'max' | 'pattern' | 'required' | 'custom';
+  type: 'min' | 'max' | 'pattern' | 'enum' | 'required' | 'custom';
   value: any;
   message: string;
 }
 
+// Rule of a rule pack, scoped to parameters by name and to parts by type
+export interface PackRule extends ValidationRule {
+  id: string;
+  description?: string;
+  part_types?: string[]; // Any part when omitted
+  parameters?: string[]; // Parameter names or ids; a `required` rule lists the parameters every matching part needs
+  severity: BrokenLogicDetection['severity'];
+  suggested_fix?: string;
+}
+
+// Versioned set of rules for some file types and Mozaik versions
+export interface RulePack {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  file_types: SpecializedFileType[];
+  mozaik_versions?: string; // Version range, e.g. ">=1.0.0 <3.0.0" or "1.x || 2.x"; any version when omitted
+  enabled: boolean;
+  rules: PackRule[];
+  source: 'builtin' | 'custom';
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface VersionMetadata {
   version: string;
   major: number;
@@ -85,15 +118,83 @@ export interface ChangeLog {
 
 export interface BrokenLogicDetection {
   part_id: string;
-  issue_type: 'missing_parameter' | 'invalid_constraint' | 'version_mismatch' | 'circular_dependency' | 'unused_parameter';
+  issue_type:
+    | 'missing_parameter'
+    | 'invalid_constraint'
+    | 'version_mismatch'
+    | 'circular_dependency'
+    | 'unused_parameter'
+    | 'constraint_violation'
+    | 'dangling_reference'
+    | 'orphan_part'
+    | 'rule_violation';
   severity: 'critical' | 'high' | 'medium' | 'low';
   description: string;
   suggested_fix?: string;
   line_number?: number;
-  position: {
-    start: number;
-    end: number;
-  };
+  position: SourceRange;
+  constraint_id?: string; // Set for constraint violations
+  parameter_ids?: string[]; // Parameters whose values violate the constraint
+  parameter_positions?: SourceRange[];
+  node_ids?: string[]; // Dependency graph nodes involved, for highlighting
+  rule_id?: string; // Set for rule violations
+  rule_pack_id?: string;
+  remedies?: IssueRemedy[]; // Deterministic fixes, when the issue has one
+}
+
+// A change to the source file that resolves an issue
+export type IssueRemedy =
+  | { action: 'set_value'; parameter_id: string; value: string | number | boolean }
+  | { action: 'remove_reference'; constraint_id: string; reference: string } // From affected_parameters
+  | { action: 'remove_dependency'; from: string; to: string };
+
+// Replace source[start, end) with text; offsets as in SourceRange
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SpecializedFix {
+  id: string; // Derived from the remedy, e.g. set_value:param_001
+  issue_type: BrokenLogicDetection['issue_type'];
+  severity: BrokenLogicDetection['severity'];
+  description: string;
+  remedy: IssueRemedy;
+  edits: TextEdit[];
+  diff: string; // Unified diff of this fix alone
+}
+
+export interface FixApplication {
+  content: string; // The corrected file
+  diff: string; // Unified diff against the original file
+  applied: SpecializedFix[];
+  skipped: Array<{ id: string; reason: string }>;
+}
+
+// Semantic differences between two parse results; records are matched by id
+export interface StructuralDiff {
+  from_version: string;
+  to_version: string;
+  changes: StructuralChange[];
+  summary: Record<StructuralChange['kind'], { added: number; removed: number; modified: number; renamed: number }>;
+}
+
+export interface StructuralChange {
+  kind: 'part' | 'parameter' | 'constraint' | 'dependency';
+  change: 'added' | 'removed' | 'modified';
+  id: string; // from->to (type) for dependencies
+  name: string;
+  part_id?: string; // Owning part, or parent part of a part; from the older file for removals
+  part_name?: string;
+  renamed_from?: string; // Same id, different name
+  fields?: FieldChange[];
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
 }
 
 export interface SpecializedParseResult {
@@ -113,6 +214,7 @@ export interface FileStructure {
   sections: FileSection[];
   hierarchy: HierarchyNode[];
   dependencies: Dependency[];
+  dependency_graph?: DependencyGraph;
 }
 
 export interface FileSection {
@@ -120,10 +222,7 @@ export interface FileSection {
   name: string;
   type: 'header' | 'body' | 'footer' | 'metadata' | 'content';
   content: string;
-  position: {
-    start: number;
-    end: number;
-  };
+  position: SourceRange;
   subsections: FileSection[];
 }
 
@@ -142,6 +241,31 @@ export interface Dependency {
   to: string;
   type: 'requires' | 'includes' | 'references' | 'extends';
   description?: string;
+  position?: SourceRange; // Where the file declares it; absent for implied dependencies
+}
+
+// Nodes and edges in the shape graph renderers expect
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+  cycles: string[][]; // Node ids along each cycle, first node repeated at the end
+}
+
+export interface DependencyGraphNode {
+  id: string;
+  label: string;
+  type: 'part' | 'parameter' | 'constraint' | 'missing'; // missing: referenced but not defined
+  parent_id?: string; // Enclosing part, for grouping
+  position?: SourceRange;
+  status: 'ok' | 'warning' | 'error';
+}
+
+export interface DependencyGraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  type: Dependency['type'];
+  description?: string;
 }
 
 export interface ParseStatistics {
@@ -161,14 +285,33 @@ export interface ParseError {
   message: string;
   severity: 'error' | 'warning' | 'info';
   line_number?: number;
-  position: {
-    start: number;
-    end: number;
-  };
+  position: SourceRange;
   context?: string;
   suggested_fix?: string;
 }
 
+// Constraint expression language, e.g. `size > 500mm AND material IN ('mdf', 'plywood')`
+export type ExpressionNode =
+  | { kind: 'number'; value: number; unit?: string; offset: number }
+  | { kind: 'string'; value: string; offset: number }
+  | { kind: 'boolean'; value: boolean; offset: number }
+  | { kind: 'identifier'; name: string; offset: number }
+  | { kind: 'list'; items: ExpressionNode[]; offset: number }
+  | { kind: 'unary'; operator: 'NOT' | '-'; operand: ExpressionNode; offset: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; offset: number }
+  | { kind: 'in'; negated: boolean; value: ExpressionNode; list: ExpressionNode; offset: number };
+
+export type BinaryOperator =
+  | 'AND' | 'OR'
+  | '=' | '!=' | '<' | '<=' | '>' | '>='
+  | '+' | '-' | '*' | '/' | '%' | '^';
+
+// Parser for one or more specialized formats, registered in SpecializedParserRegistry
+export interface SpecializedFileParser {
+  parse(file: Buffer | string, fileType: SpecializedFileType): Promise<SpecializedParseResult>;
+  getSupportedTypes(): SpecializedFileType[];
+}
+
 // Parser Configuration
 export interface SpecializedParserConfig {
   enable_version_detection: boolean;
@@ -1,18 +1,24 @@
 // Vector Database Types and Interfaces
 
+import { EmbeddingProviderName, ParseResult } from './file-parser.js';
+
 export interface DocumentVector {
   id: string;
   title: string;
   content: string;
   content_chunks: string[];
   vectors: number[][];
+  chunk_count?: number;
   metadata: DocumentMetadata;
   embeddings_model: string;
   created_at: string;
   updated_at: string;
-  status: 'processing' | 'ready' | 'error';
+  status: DocumentStatus;
 }
 
+// 'partial' documents are stored and searchable but some chunks failed to embed
+export type DocumentStatus = 'processing' | 'ready' | 'partial' | 'error';
+
 export interface DocumentMetadata {
   filename: string;
   file_type: string;
@@ -23,6 +29,25 @@ export interface DocumentMetadata {
   category: string;
   language: string;
   page_count?: number;
+  page_offsets?: number[]; // Where each page starts in the content, for paged formats such as PDF
+  visibility?: DocumentVisibility;
+  shared_with?: string[]; // User ids that may retrieve a private document
+  storage_path?: string; // The uploaded file, kept for specialized files so fixes can patch it
+}
+
+// Document Access
+// 'public' documents are retrievable by every user; 'private' ones only by their
+// owner and the users they are shared with
+export type DocumentVisibility = 'private' | 'public';
+
+export interface DocumentAccess {
+  visibility: DocumentVisibility;
+  shared_with: string[];
+}
+
+// Who a retrieval runs for. A null user_id can only see public documents.
+export interface AccessScope {
+  user_id: string | null;
 }
 
 export interface User {
@@ -59,6 +84,7 @@ export interface SearchFilters {
   };
   tags?: string[];
   categories?: string[];
+  access?: AccessScope; // Always set by VectorDBService from SearchOptions.user_id; never taken from request input
 }
 
 export interface SearchResult {
@@ -71,21 +97,249 @@ export interface SearchResult {
     filename: string;
     page_number?: number;
     section_title?: string;
+    retrieval?: RetrievalDetails;
+    component?: ComponentReference;
+  };
+}
+
+// Hybrid Retrieval
+export type SearchMode = 'vector' | 'lexical' | 'hybrid';
+
+export interface SearchOptions {
+  mode?: SearchMode;
+  weights?: {
+    vector?: number;
+    lexical?: number;
   };
+  rrf_k?: number; // Reciprocal rank fusion smoothing constant
+  corpus?: RetrievalCorpus; // Which threshold and top-k settings apply; inferred from filters.categories
+  threshold?: number; // Overrides the corpus threshold (fixed mode) or its floor (adaptive mode)
+  threshold_mode?: ThresholdMode;
+  user_id?: string; // Who is searching; without it only public documents are searched
+}
+
+// How a result was ranked; ranks are 1-based and absent when a retriever missed the chunk
+export interface RetrievalDetails {
+  mode: SearchMode;
+  fused_score?: number;
+  vector_rank?: number;
+  vector_score?: number;
+  lexical_rank?: number;
+  lexical_score?: number;
+  threshold?: ThresholdDetails;
+}
+
+// Similarity Thresholds
+export type RetrievalCorpus = 'user_upload' | 'mozaik_knowledge' | 'specialized' | 'default';
+
+export type ThresholdMode = 'fixed' | 'adaptive';
+
+// The similarity cut-off applied to a query, so callers can explain empty results
+export interface ThresholdDetails {
+  corpus: RetrievalCorpus;
+  mode: ThresholdMode;
+  value: number;
+  candidates: number; // Scored candidates the threshold was applied to
+  passed: number;
+  top_score: number | null;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  threshold: ThresholdDetails | null; // null for purely lexical searches
+}
+
+// Specialized Components
+export type SpecializedComponentType = 'parts' | 'parameters' | 'constraints';
+
+export interface SourcePosition {
+  start: number; // Character offsets into the uploaded file
+  end: number;
+  line?: number; // 1-based line and column of the first character
+  column?: number;
+}
+
+// A parsed part, parameter or constraint embedded as its own searchable unit
+export interface ComponentRecord {
+  id: string; // `${document_id}#${component_type}#${index}`
+  document_id: string;
+  component_type: SpecializedComponentType;
+  component_id: string;
+  name: string;
+  text: string; // Natural-language rendering that is embedded and returned as the snippet
+  position?: SourcePosition;
+  vector: number[];
+  embedding_model?: string;
+  embedding_dimensions?: number;
+  metadata: VectorRecordMetadata;
+  created_at: string;
+}
+
+export interface ComponentSearchFilters {
+  component_types?: SpecializedComponentType[];
+  file_types?: string[];
+  owner?: string; // uploaded_by of the source file
+  access?: AccessScope; // Set by VectorDBService, like SearchFilters.access
+}
+
+// Where a component search hit lives in its source file
+export interface ComponentReference {
+  type: SpecializedComponentType;
+  id: string;
+  name: string;
+  position?: SourcePosition;
+}
+
+// Vector Store Backends
+export type VectorStoreProvider = 'mongodb' | 'pinecone' | 'memory';
+
+export interface VectorRecord {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  vector: number[];
+  embedding_model: string;
+  embedding_dimensions: number;
+  metadata: VectorRecordMetadata;
+}
+
+// Denormalised document metadata stored alongside each vector for filtering
+export interface VectorRecordMetadata {
+  filename: string;
+  file_type: string;
+  category: string;
+  tags: string[];
+  uploaded_by: string;
+  created_at: string;
+  visibility?: DocumentVisibility; // Missing on records written before access control; see resolveVisibility
+  shared_with?: string[];
+}
+
+// One stored chunk of a document, kept in its own collection so large uploads
+// never approach MongoDB's 16MB document limit
+export interface ChunkRecord {
+  id: string; // `${document_id}#${chunk_index}`
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  token_count: number;
+  start_position: number;
+  end_position: number;
+  section_id?: string;
+  section_ids?: string[];
+  page_number?: number;
+  is_complete_section: boolean;
+  vector: number[];
+  embedding_model?: string;
+  embedding_dimensions?: number;
+  staged_vector?: number[]; // Vector in an embedding space that is still being built
+  staged_namespace?: string;
+  staged_embedding_model?: string;
+  staged_embedding_dimensions?: number;
+  embedding_status?: EmbeddingStatus;
+  embedding_error?: string;
+  embedding_attempts?: number;
+  next_embedding_attempt_at?: Date;
+  metadata: VectorRecordMetadata;
+  status: ChunkStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// Chunks of partial documents stay 'ready' so the embedded ones remain searchable
+export type ChunkStatus = Exclude<DocumentStatus, 'partial'>;
+
+export type EmbeddingStatus = 'embedded' | 'failed';
+
+// Embedding model/dimension combinations present in the chunk store
+export interface EmbeddingSpaceReport {
+  active: {
+    provider: string;
+    model: string;
+    dimensions: number;
+  };
+  spaces: Array<{
+    model: string | null;
+    dimensions: number | null;
+    chunks: number;
+  }>;
+  mixed: boolean;
+  matches_active: boolean;
+}
+
+export type EmbeddingSpaceStatus = 'active' | 'building' | 'retired' | 'abandoned';
+
+// A versioned embedding model/dimension combination. Vectors from different spaces
+// are never compared; each space keeps its vectors in its own namespace.
+export interface EmbeddingSpace {
+  version: number;
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  namespace: string;
+  status: EmbeddingSpaceStatus;
+  created_at: string;
+  activated_at?: string;
+  retired_at?: string;
+}
+
+export type EmbeddingMigrationStatus = 'running' | 'paused' | 'ready_for_cutover' | 'cutting_over' | 'completed' | 'failed';
+
+export interface EmbeddingMigrationProgress {
+  target_version: number;
+  status: EmbeddingMigrationStatus;
+  cursor?: string; // _id of the last chunk re-embedded, so an interrupted migration can resume
+  total_chunks: number;
+  processed_chunks: number;
+  failed_chunks: number;
+  started_at: string;
+  updated_at: string;
+  completed_at?: string;
+  error?: string;
+}
+
+export interface EmbeddingSpaceRegistry {
+  active_version: number;
+  spaces: EmbeddingSpace[];
+  migration?: EmbeddingMigrationProgress;
+}
+
+export interface VectorMatch {
+  document_id: string;
+  chunk_index: number;
+  score: number;
+}
+
+export interface VectorStore {
+  readonly provider: VectorStoreProvider;
+  upsert(records: VectorRecord[]): Promise<void>;
+  deleteDocument(documentId: string): Promise<void>;
+  query(vector: number[], topK: number, filters?: SearchFilters): Promise<VectorMatch[]>;
+  count(): Promise<number>;
+  clear(): Promise<void>;
+  // Replace the visibility and sharing list stored with a document's vectors; the
+  // MongoDB store keeps them on the chunk records its query filters read
+  updateAccess(documentId: string, chunkIds: string[], access: DocumentAccess): Promise<void>;
+  // Write vectors for an embedding space that is not serving queries yet
+  stageVectors(namespace: string, records: VectorRecord[]): Promise<void>;
+  // Serve queries from the given space; commit runs in the same tick the store switches over
+  switchSpace(space: EmbeddingSpace, commit: () => void): Promise<void>;
 }
 
 // Vector Database Service Interface
 export interface VectorDBService {
   // Document operations
-  addDocument(document: DocumentVector): Promise<string>;
+  addDocument(document: DocumentVector, parseResult?: ParseResult): Promise<string>;
   getDocument(id: string): Promise<DocumentVector | null>;
   updateDocument(id: string, updates: Partial<DocumentVector>): Promise<void>;
   deleteDocument(id: string): Promise<void>;
   listDocuments(userId: string, filters?: SearchFilters): Promise<DocumentVector[]>;
+  updateDocumentAccess(id: string, access: DocumentAccess): Promise<void>;
   
   // Search operations
-  search(query: string, filters?: SearchFilters, limit?: number): Promise<SearchResult[]>;
-  searchByVector(vector: number[], filters?: SearchFilters, limit?: number): Promise<SearchResult[]>;
+  search(query: string, filters?: SearchFilters, limit?: number, options?: SearchOptions): Promise<SearchResult[]>;
+  searchDetailed(query: string, filters?: SearchFilters, limit?: number, options?: SearchOptions): Promise<SearchResponse>;
+  searchByVector(vector: number[], filters?: SearchFilters, limit?: number, options?: SearchOptions): Promise<SearchResult[]>;
   
   // User operations
   addUser(user: User): Promise<string>;
@@ -98,6 +352,7 @@ export interface VectorDBService {
     total_documents: number;
     total_users: number;
     total_vectors: number;
+    total_chunks: number;
   }>;
   clearData(): Promise<void>;
 } 
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { AccessScope, DocumentAccess, DocumentVisibility, VectorRecordMetadata } from '../types/vector-db.js';
+
+// Owners of curated, scraped and ingested knowledge; their documents are public
+export const KNOWLEDGE_OWNERS = ['system', 'scraper', 'content_ingestion'];
+
+type AccessMetadata = Pick<VectorRecordMetadata, 'uploaded_by' | 'visibility' | 'shared_with'>;
+
+/**
+ * Effective visibility of a document. Records written before access control have
+ * no visibility: knowledge base content is public, everything else private.
+ */
+export function resolveVisibility(metadata: Pick<VectorRecordMetadata, 'uploaded_by' | 'visibility'>): DocumentVisibility {
+  return metadata.visibility || (KNOWLEDGE_OWNERS.includes(metadata.uploaded_by) ? 'public' : 'private');
+}
+
+export function resolveAccess(metadata: AccessMetadata): DocumentAccess {
+  return {
+    visibility: resolveVisibility(metadata),
+    shared_with: metadata.shared_with || []
+  };
+}
+
+/**
+ * Whether the scope may retrieve a record: owned, shared with the user, or public
+ */
+export function canAccess(metadata: AccessMetadata | undefined, scope: AccessScope): boolean {
+  if (!metadata) return false;
+  if (resolveVisibility(metadata) === 'public') return true;
+  if (!scope.user_id) return false;
+  return metadata.uploaded_by === scope.user_id || (metadata.shared_with || []).includes(scope.user_id);
+}
+
+/**
+ * MongoDB condition equivalent to canAccess, for records with metadata under `prefix`
+ */
+export function accessQuery(scope: AccessScope, prefix: string = 'metadata.'): any {
+  const clauses: any[] = [
+    { [`${prefix}visibility`]: 'public' },
+    { [`${prefix}visibility`]: { $exists: false }, [`${prefix}uploaded_by`]: { $in: KNOWLEDGE_OWNERS } }
+  ];
+  if (scope.user_id) {
+    clauses.push(
+      { [`${prefix}uploaded_by`]: scope.user_id },
+      { [`${prefix}shared_with`]: scope.user_id }
+    );
+  }
+  return { $or: clauses };
+}
@@ -0,0 +1,200 @@
+type DiffOp = { kind: ' ' | '-' | '+'; text: string };
+
+// Appended to a last line that has no line break, so it differs from one that has
+const NO_NEWLINE = '\u0000';
+
+// Edits the line diff searches for before it replaces the differing lines as one block
+const MAX_EDIT_DISTANCE = 1000;
+
+/**
+ * Unified diff of two texts, line by line, in the format `patch` and `git apply` read.
+ * Empty when the texts are equal.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldName: string,
+  newName: string,
+  context: number = 3
+): string {
+  if (oldText === newText) return '';
+
+  const ops = lineOps(oldText, newText);
+  const lines = [`--- ${oldName}`, `+++ ${newName}`];
+  for (const hunk of groupHunks(ops, context)) {
+    lines.push(`@@ -${range(hunk.oldStart, hunk.oldCount)} +${range(hunk.newStart, hunk.newCount)} @@`);
+    for (const op of hunk.ops) {
+      const missingNewline = op.text.endsWith(NO_NEWLINE);
+      lines.push(op.kind + (missingNewline ? op.text.slice(0, -1) : op.text));
+      if (missingNewline) lines.push('\\ No newline at end of file');
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Lines added, deleted and changed between two texts. A deleted line followed by an
+ * added one counts as one changed line.
+ */
+export function diffStats(oldText: string, newText: string): { additions: number; deletions: number; changes: number } {
+  const stats = { additions: 0, deletions: 0, changes: 0 };
+  if (oldText === newText) return stats;
+
+  const ops = lineOps(oldText, newText);
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].kind === ' ') {
+      i++;
+      continue;
+    }
+    let deleted = 0;
+    let added = 0;
+    for (; i < ops.length && ops[i].kind !== ' '; i++) {
+      if (ops[i].kind === '-') deleted++;
+      else added++;
+    }
+    const changed = Math.min(deleted, added);
+    stats.changes += changed;
+    stats.deletions += deleted - changed;
+    stats.additions += added - changed;
+  }
+  return stats;
+}
+
+function lineOps(oldText: string, newText: string): DiffOp[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Only the middle that differs needs the O((N+M)D) search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  return [
+    ...a.slice(0, prefix).map((text): DiffOp => ({ kind: ' ', text })),
+    ...diffLines(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map((text): DiffOp => ({ kind: ' ', text }))
+  ];
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE;
+  }
+  return lines;
+}
+
+/**
+ * Shortest edit script between two line lists (Myers). Every step keeps the part of the
+ * frontier it reached, so memory grows with D²; past MAX_EDIT_DISTANCE edits the lines
+ * are replaced as one block instead, which is still a correct, if coarser, diff.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = []; // Frontier before step d, diagonals -d-1 to d+1
+  let found = false;
+
+  search:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break search;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...a.map((text): DiffOp => ({ kind: '-', text })),
+      ...b.map((text): DiffOp => ({ kind: '+', text }))
+    ];
+  }
+
+  // Walk back through the saved frontiers
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const frontier = trace[d];
+    const at = (diagonal: number) => frontier[diagonal + d + 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      ops.push({ kind: ' ', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        ops.push({ kind: '+', text: b[--y] });
+      } else {
+        ops.push({ kind: '-', text: a[--x] });
+      }
+    }
+  }
+  return ops.reverse();
+}
+
+interface Hunk {
+  oldStart: number; // 1-based
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  ops: DiffOp[];
+}
+
+/**
+ * Changes with `context` unchanged lines around them; changes at most twice that
+ * many lines apart share a hunk
+ */
+function groupHunks(ops: DiffOp[], context: number): Hunk[] {
+  const changed = ops.map((op, index) => op.kind === ' ' ? -1 : index).filter(index => index >= 0);
+  const hunks: Hunk[] = [];
+
+  let i = 0;
+  while (i < changed.length) {
+    let last = i;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] <= 2 * context + 1) last++;
+
+    const from = Math.max(0, changed[i] - context);
+    const to = Math.min(ops.length, changed[last] + context + 1);
+    const before = ops.slice(0, from);
+    const slice = ops.slice(from, to);
+
+    hunks.push({
+      oldStart: before.filter(op => op.kind !== '+').length + 1,
+      oldCount: slice.filter(op => op.kind !== '+').length,
+      newStart: before.filter(op => op.kind !== '-').length + 1,
+      newCount: slice.filter(op => op.kind !== '-').length,
+      ops: slice
+    });
+    i = last + 1;
+  }
+  return hunks;
+}
+
+// An empty range is numbered by the line before it
+function range(start: number, count: number): string {
+  const first = count === 0 ? start - 1 : start;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
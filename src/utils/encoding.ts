@@ -0,0 +1,83 @@
+export type NewlineStyle = 'lf' | 'crlf' | 'cr' | 'mixed';
+
+export interface DecodedText {
+  text: string; // Without the byte order mark; line endings as in the file
+  encoding: string; // WHATWG encoding label, e.g. utf-8, utf-16le, windows-1252
+  bom: boolean;
+  newline?: NewlineStyle; // Absent for single-line text
+}
+
+// Bytes looked at when guessing a BOM-less UTF-16 file
+const SAMPLE_SIZE = 4096;
+
+// Windows-1252 characters for bytes 0x80-0x9F, where it differs from Latin-1;
+// undefined bytes keep their Latin-1 control character
+const WINDOWS_1252_HIGH = '\u20AC\u0081\u201A\u0192\u201E\u2026\u2020\u2021\u02C6\u2030\u0160\u2039\u0152\u008D\u017D\u008F'
+  + '\u0090\u2018\u2019\u201C\u201D\u2022\u2013\u2014\u02DC\u2122\u0161\u203A\u0153\u009D\u017E\u0178';
+
+/**
+ * Decode a text file. A byte order mark decides the encoding; without one, text with
+ * a NUL in every other byte is UTF-16, text that is valid UTF-8 is UTF-8 (plain ASCII
+ * included), and anything else is read as Windows-1252, which maps every byte and
+ * covers the Latin-1 files older tools write.
+ */
+export function decodeText(file: Buffer): DecodedText {
+  let encoding: string;
+  let offset = 0;
+
+  if (file.length >= 3 && file[0] === 0xef && file[1] === 0xbb && file[2] === 0xbf) {
+    encoding = 'utf-8';
+    offset = 3;
+  } else if (file.length >= 2 && file[0] === 0xff && file[1] === 0xfe) {
+    encoding = 'utf-16le';
+    offset = 2;
+  } else if (file.length >= 2 && file[0] === 0xfe && file[1] === 0xff) {
+    encoding = 'utf-16be';
+    offset = 2;
+  } else {
+    encoding = detectEncoding(file);
+  }
+
+  const text = encoding === 'windows-1252'
+    ? decodeWindows1252(file)
+    : new TextDecoder(encoding).decode(file.subarray(offset));
+  return { text, encoding, bom: offset > 0, newline: detectNewlineStyle(text) };
+}
+
+export function detectNewlineStyle(text: string): NewlineStyle | undefined {
+  const crlf = (text.match(/\r\n/g) || []).length;
+  const cr = (text.match(/\r(?!\n)/g) || []).length;
+  const lf = (text.match(/(?<!\r)\n/g) || []).length;
+
+  const styles = [crlf > 0, cr > 0, lf > 0].filter(Boolean).length;
+  if (styles === 0) return undefined;
+  if (styles > 1) return 'mixed';
+  return crlf > 0 ? 'crlf' : cr > 0 ? 'cr' : 'lf';
+}
+
+function detectEncoding(file: Buffer): string {
+  const sample = file.subarray(0, Math.min(file.length, SAMPLE_SIZE) & ~1);
+  if (sample.length >= 2) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < sample.length; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+    const pairs = sample.length / 2;
+    if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return 'utf-16le';
+    if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return 'utf-16be';
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(file);
+    return 'utf-8';
+  } catch (error) {
+    return 'windows-1252';
+  }
+}
+
+// Node's TextDecoder reads windows-1252 as Latin-1, so map the bytes that differ here
+function decodeWindows1252(file: Buffer): string {
+  return file.toString('latin1').replace(/[\x80-\x9f]/g, char => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80]);
+}
@@ -0,0 +1,123 @@
+import sax from 'sax';
+import { SourceRange } from '../types/specialized-parser.js';
+
+// A parsed XML element with the source range of its opening through closing tag
+export interface XmlElement {
+  name: string; // Local name, lower-cased
+  attributes: Record<string, string>; // Keys lower-cased
+  text: string; // Direct text and CDATA content
+  children: XmlElement[];
+  position: SourceRange;
+}
+
+/**
+ * Build an element tree with sax so every element keeps its source range. Parsing
+ * goes on past malformed XML; each problem is passed to onError with where it is.
+ */
+export function parseXml(
+  source: string,
+  onError: (message: string, position: SourceRange) => void,
+  file?: string
+): XmlElement | null {
+  if (!source.trim().startsWith('<')) {
+    onError('File content is not XML', sourceRange(source, 0, 0, file));
+    return null;
+  }
+
+  const parser = sax.parser(true, { trim: false, normalize: false, position: true });
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+
+  parser.onopentag = (node: { name: string; attributes: Record<string, string> }) => {
+    const element: XmlElement = {
+      name: localName(node.name),
+      attributes: Object.fromEntries(
+        Object.entries(node.attributes).map(([key, value]) => [localName(key), String(value)])
+      ),
+      text: '',
+      children: [],
+      position: { start: parser.startTagPosition - 1, end: parser.position }
+    };
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(element);
+    } else if (!root) {
+      root = element;
+    }
+    stack.push(element);
+  };
+  parser.onclosetag = () => {
+    const element = stack.pop();
+    if (element) {
+      element.position = sourceRange(source, element.position.start, parser.position, file);
+    }
+  };
+  parser.ontext = parser.oncdata = (text: string) => {
+    if (stack.length > 0) stack[stack.length - 1].text += text;
+  };
+  parser.onerror = (error: Error) => {
+    const offset = Math.max(0, Math.min(parser.position - 1, source.length));
+    onError(error.message.split('\n')[0], sourceRange(source, offset, offset + 1, file));
+    parser.error = null;
+    parser.resume();
+  };
+
+  parser.write(source).close();
+
+  // Elements left open by a truncated file end at the end of the file
+  while (stack.length > 0) {
+    const element = stack.pop()!;
+    element.position = sourceRange(source, element.position.start, source.length, file);
+  }
+
+  return root;
+}
+
+/**
+ * Source range for character offsets, with 1-based line and column of the first
+ * and last character
+ */
+export function sourceRange(source: string, start: number, end: number, file?: string): SourceRange {
+  const first = lineColumn(source, start);
+  const last = lineColumn(source, Math.max(start, end - 1));
+  return {
+    start,
+    end,
+    line: first.line,
+    column: first.column,
+    end_line: last.line,
+    end_column: last.column,
+    ...(file && { file })
+  };
+}
+
+// Line start offsets of the last source looked up; ranges come in bulk for one source
+let lineIndex: { source: string; starts: number[] } | null = null;
+
+function lineColumn(source: string, offset: number): { line: number; column: number } {
+  if (lineIndex?.source !== source) {
+    const starts = [0];
+    for (let index = source.indexOf('\n'); index !== -1; index = source.indexOf('\n', index + 1)) {
+      starts.push(index + 1);
+    }
+    lineIndex = { source, starts };
+  }
+
+  // Last line starting at or before the offset
+  const starts = lineIndex.starts;
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (starts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return { line: low + 1, column: offset - starts[low] + 1 };
+}
+
+// Without its namespace prefix, lower-cased
+function localName(name: string): string {
+  return name.substring(name.indexOf(':') + 1).toLowerCase();
+}
@@ -0,0 +1,91 @@
+import zlib from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// Compression methods
+const STORED = 0;
+const DEFLATED = 8;
+
+export function isZipArchive(file: Buffer): boolean {
+  return file.length >= 4 && file.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+/**
+ * Read the files of a ZIP archive. Sizes come from the central directory, so
+ * archives written with data descriptors are supported; ZIP64 and encryption are not.
+ */
+export function readZipEntries(file: Buffer, maxTotalSize: number = Infinity): ZipEntry[] {
+  const endOffset = findEndOfCentralDirectory(file);
+  if (endOffset < 0) {
+    throw new Error('Invalid ZIP archive: end of central directory not found');
+  }
+
+  const entryCount = file.readUInt16LE(endOffset + 10);
+  let offset = file.readUInt32LE(endOffset + 16);
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > file.length || file.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP archive: corrupt central directory');
+    }
+
+    const flags = file.readUInt16LE(offset + 8);
+    const method = file.readUInt16LE(offset + 10);
+    const compressedSize = file.readUInt32LE(offset + 20);
+    const size = file.readUInt32LE(offset + 24);
+    const nameLength = file.readUInt16LE(offset + 28);
+    const extraLength = file.readUInt16LE(offset + 30);
+    const commentLength = file.readUInt16LE(offset + 32);
+    const localOffset = file.readUInt32LE(offset + 42);
+    const name = file.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory
+
+    if (flags & 0x1) {
+      throw new Error(`Encrypted ZIP entry is not supported: ${name}`);
+    }
+    totalSize += size;
+    if (totalSize > maxTotalSize) {
+      throw new Error(`ZIP archive expands beyond ${maxTotalSize} bytes`);
+    }
+
+    if (file.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid ZIP archive: corrupt local header for ${name}`);
+    }
+    const dataStart = localOffset + 30 + file.readUInt16LE(localOffset + 26) + file.readUInt16LE(localOffset + 28);
+    const compressed = file.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === STORED) {
+      data = Buffer.from(compressed);
+    } else if (method === DEFLATED) {
+      data = zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+
+    entries.push({ name, data });
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(file: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64KB at the end of the file
+  const lowest = Math.max(0, file.length - 22 - 0xffff);
+  for (let offset = file.length - 22; offset >= lowest; offset--) {
+    if (file.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  return -1;
+}
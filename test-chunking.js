@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+
+// Test for structure-aware chunking of parse results: every page and section of a
+// document ends up in some chunk, chunks cite the page they start on, and merged
+// sections stay apart from each other.
+// Usage: npm run build && node test-chunking.js
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+const DIST_DIR = path.resolve(process.env.DIST_DIR || 'dist');
+const load = module => import(pathToFileURL(path.join(DIST_DIR, module)).href);
+
+const { TextChunkingService } = await load('services/TextChunkingService.js');
+const { PDFParser } = await load('services/parsers/PDFParser.js');
+const { MarkdownParser } = await load('services/parsers/MarkdownParser.js');
+
+let failures = 0;
+let checks = 0;
+
+function check(name, condition, details = '') {
+  checks++;
+  if (condition) {
+    console.log(`✅ ${name}`);
+  } else {
+    failures++;
+    console.log(`❌ ${name}${details ? `\n   ${details}` : ''}`);
+  }
+}
+
+/**
+ * A PDF with one page per entry, each page holding the given lines in Helvetica
+ */
+function buildPdf(pages) {
+  const objects = [];
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  pages.forEach((lines, index) => {
+    const escape = text => text.replace(/[\\()]/g, char => `\\${char}`);
+    const stream = `BT /F1 12 Tf 72 720 Td 16 TL ${lines.map(line => `(${escape(line)}) Tj T*`).join(' ')} ET`;
+    objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+    objects[pageIds[index] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+const chunker = new TextChunkingService();
+
+console.log('🧩 Testing structure-aware chunking...\n');
+
+try {
+  // Short pages, as in slide decks and shop drawings, are each below the minimum chunk size
+  const pages = [
+    ['Introduction', 'Hinge boring is 5mm from edge.'],
+    ['Drawer slides', 'Use 450mm full extension slides.'],
+    ['Finish', 'Two coats of lacquer.']
+  ];
+  const pdf = await new PDFParser().parse(buildPdf(pages), { filename: 'shop-drawing.pdf' });
+  check('short PDF parses without errors', pdf.errors.length === 0 && pdf.pages?.length === 3,
+    JSON.stringify(pdf.errors));
+
+  const pdfChunks = await chunker.chunkParseResult(pdf);
+  pages.forEach((lines, index) => {
+    const chunk = pdfChunks.find(candidate => lines.every(line => candidate.content.includes(line)));
+    check(`page ${index + 1} text is kept in a chunk`, chunk !== undefined, JSON.stringify(pdfChunks.map(c => c.content)));
+    check(`page ${index + 1} chunk cites page ${index + 1}`, chunk?.metadata.page_number === index + 1,
+      `page_number is ${chunk?.metadata.page_number}`);
+  });
+
+  // Small sibling sections merge, each starting on a line of its own
+  const markdown = '# Title\n\nShort intro.\n\n## A\n\nAlpha text.\n\n## B\n\nBeta text.\n';
+  const md = await new MarkdownParser().parse(Buffer.from(markdown), { filename: 'notes.md' });
+  const mdChunks = await chunker.chunkParseResult(md);
+  const text = mdChunks.map(chunk => chunk.content).join('\n\n');
+  check('all sections are kept', ['Short intro.', 'Alpha text.', 'Beta text.'].every(line => text.includes(line)), text);
+  check('merged headings start a new paragraph', !/\S## /.test(text) && text.includes('Short intro.\n\n## A'), JSON.stringify(text));
+  check('merged chunks list their sections',
+    mdChunks.every(chunk => (chunk.section_ids || [chunk.section_id]).every(id => md.sections.some(section => section.id === id))));
+} catch (error) {
+  failures++;
+  console.log(`❌ Chunking failed: ${error.stack || error.message}`);
+}
+
+console.log(`\n📊 ${checks - failures}/${checks} checks passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+
+// Test for the constraint expression language: conditions with units are parsed and
+// evaluated against parameter values, and conditions that cannot be parsed fail loudly.
+// Usage: npm run build && node test-constraints.js
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+const DIST_DIR = path.resolve(process.env.DIST_DIR || 'dist');
+const load = module => import(pathToFileURL(path.join(DIST_DIR, module)).href);
+
+const { ConstraintEvaluator } = await load('services/constraints/ConstraintEvaluator.js');
+
+let failures = 0;
+let checks = 0;
+
+function check(name, condition, details = '') {
+  checks++;
+  if (condition) {
+    console.log(`✅ ${name}`);
+  } else {
+    failures++;
+    console.log(`❌ ${name}${details ? `\n   ${details}` : ''}`);
+  }
+}
+
+const parameter = (name, value, unit) => ({
+  id: `param_${name}`, name, type: typeof value, value, unit, required: false, validation_rules: [],
+  position: { start: 0, end: 0, line: 0, column: 0 }
+});
+
+const parameters = [
+  parameter('size', 600, 'mm'),
+  parameter('thickness', 20, 'mm'),
+  parameter('material', 'plywood')
+];
+
+// Condition, and whether it holds for the parameters above
+const CASES = [
+  ['size > 500mm', true],
+  ['size > 50 cm', true],
+  ['size < 0.5 m', false],
+  ['size + 2in > 650 mm', true],
+  ['size + 2 in > 650 mm', true],
+  ['size + 1 in > 650 mm', false],
+  ['thickness >= 3/4 in', true],
+  ['thickness >= 1/2 in', true],
+  ['thickness > 7/8 in', false],
+  ['size / 2 = 300', true],
+  ["material IN ('plywood', 'mdf')", true],
+  ['24 in IN (600mm, 24in)', true],
+  ["size > 500 mm AND material NOT IN ('mdf')", true]
+];
+
+console.log('📏 Testing constraint conditions...\n');
+
+const evaluator = new ConstraintEvaluator();
+for (const [condition, expected] of CASES) {
+  try {
+    const holds = evaluator.matches(condition, parameters) !== null;
+    check(`${condition} is ${expected}`, holds === expected, `evaluated to ${holds}`);
+  } catch (error) {
+    check(`${condition} is ${expected}`, false, error.message);
+  }
+}
+
+for (const condition of ['size >', 'size > 5 parsecs', 'size IN']) {
+  let message = '';
+  try {
+    evaluator.matches(condition, parameters);
+  } catch (error) {
+    message = error.message;
+  }
+  check(`${condition} is rejected`, message !== '', 'no error thrown');
+}
+
+console.log(`\n📊 ${checks - failures}/${checks} checks passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,177 @@
+#!/usr/bin/env node
+
+// Cross-tenant isolation test: one user's uploads must never reach another user
+// through any route that retrieves documents, unless explicitly shared.
+// Usage: BASE_URL=http://localhost:10000 node test-isolation.js
+import axios from 'axios';
+
+const BASE_URL = process.env.BASE_URL || 'http://localhost:10000';
+const CANARY = `zqxcanary${Date.now().toString(36)}`;
+
+let failures = 0;
+let checks = 0;
+
+console.log('🔒 Testing per-user document isolation...\n');
+console.log(`📍 Base URL: ${BASE_URL}`);
+console.log(`🐤 Canary: ${CANARY}\n`);
+
+async function request(method, endpoint, token, data = null) {
+  try {
+    const response = await axios({
+      method,
+      url: `${BASE_URL}${endpoint}`,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      data,
+      timeout: 60000
+    });
+    return { success: true, status: response.status, data: response.data };
+  } catch (error) {
+    return {
+      success: false,
+      status: error.response?.status || 'NO_RESPONSE',
+      data: error.response?.data,
+      error: error.response?.data?.message || error.message
+    };
+  }
+}
+
+async function signup(label) {
+  const result = await request('POST', '/api/auth/signup', null, {
+    email: `isolation-${label}-${Date.now()}@example.com`,
+    password: 'TestPass123',
+    name: `Isolation ${label}`
+  });
+  if (!result.success) {
+    throw new Error(`Could not sign up user ${label}: ${result.error}`);
+  }
+  return { token: result.data.token, id: result.data.user.id };
+}
+
+async function uploadFile(token, endpoint, filename, type, content) {
+  const form = new FormData();
+  form.append('file', new Blob([content], { type }), filename);
+  const result = await request('POST', endpoint, token, form);
+  if (!result.success) {
+    throw new Error(`Upload to ${endpoint} failed: ${result.error}`);
+  }
+  return result.data;
+}
+
+function leaks(result) {
+  return JSON.stringify(result.data || {}).includes(CANARY);
+}
+
+// The route must not return the canary to the other user
+function expectNoLeak(name, result) {
+  checks++;
+  if (leaks(result)) {
+    failures++;
+    console.log(`❌ LEAK  ${name} (status ${result.status})`);
+  } else {
+    console.log(`✅ ${name} (status ${result.status})`);
+  }
+}
+
+// Positive control: without it a broken upload would make every check pass
+function expectFound(name, result) {
+  checks++;
+  if (leaks(result)) {
+    console.log(`✅ ${name}`);
+  } else {
+    failures++;
+    console.log(`❌ ${name} - expected the canary (status ${result.status}${result.error ? `: ${result.error}` : ''})`);
+  }
+}
+
+function expectDenied(name, result) {
+  checks++;
+  if (!result.success && !leaks(result)) {
+    console.log(`✅ ${name} denied (status ${result.status})`);
+  } else {
+    failures++;
+    console.log(`❌ ${name} was not denied (status ${result.status})`);
+  }
+}
+
+async function runTests() {
+  console.log('1️⃣  Creating two tenants...');
+  const owner = await signup('owner');
+  const other = await signup('other');
+  console.log(`   owner=${owner.id} other=${other.id}\n`);
+
+  console.log('2️⃣  Uploading private files as the owner...');
+  const upload = await uploadFile(owner.token, '/api/upload/single', 'isolation-note.txt', 'text/plain',
+    `Private cabinet notes. The hinge supplier code is ${CANARY}. Do not share.`);
+  const documentId = upload.vector_db_id;
+  const specialized = await uploadFile(owner.token, '/api/specialized/upload', 'isolation.xml', 'text/xml',
+    `<project><part name="${CANARY} Base Cabinet" type="cabinet"></part>` +
+    `<parameter name="${CANARY}_width" value="600" type="number" unit="mm"></parameter></project>`);
+  const specializedId = specialized.data.id;
+  console.log(`   document=${documentId} specialized=${specializedId}\n`);
+
+  const semantic = (token, mode, extra = {}) =>
+    request('POST', '/api/search/semantic', token, { query: CANARY, mode, limit: 20, ...extra });
+
+  console.log('3️⃣  Owner can retrieve their own files...');
+  expectFound('owner lexical search', await semantic(owner.token, 'lexical'));
+  expectFound('owner document fetch', await request('GET', `/api/search/documents/${documentId}`, owner.token));
+
+  console.log('\n4️⃣  Other tenant cannot retrieve them through any route...');
+  for (const mode of ['vector', 'lexical', 'hybrid']) {
+    expectNoLeak(`semantic search (${mode})`, await semantic(other.token, mode));
+  }
+  expectNoLeak('semantic search with forged access filter', await semantic(other.token, 'hybrid', {
+    filters: { access: { user_id: owner.id } }
+  }));
+  expectNoLeak('semantic search with threshold 0', await semantic(other.token, 'vector', { threshold: 0 }));
+  expectNoLeak('specialized component search', await request('POST', '/api/search/specialized', other.token, {
+    query: `${CANARY} width`
+  }));
+  expectNoLeak('specialized component search filtered to owner', await request('POST', '/api/search/specialized', other.token, {
+    query: `${CANARY} width`,
+    owner: owner.id
+  }));
+  expectNoLeak('document listing', await request('GET', '/api/search/documents?include_knowledge=false', other.token));
+  expectDenied('document fetch', await request('GET', `/api/search/documents/${documentId}`, other.token));
+  expectDenied('specialized document fetch', await request('GET', `/api/search/documents/${specializedId}`, other.token));
+  expectDenied('sharing change', await request('PUT', `/api/search/documents/${documentId}/sharing`, other.token, {
+    visibility: 'public'
+  }));
+  expectNoLeak('chat message', await request('POST', '/api/chat/message', other.token, {
+    message: `What is the hinge supplier code ${CANARY}?`
+  }));
+  expectNoLeak('enhanced chat message', await request('POST', '/api/chat/enhanced-message', other.token, {
+    message: `What is the hinge supplier code ${CANARY}?`,
+    file_id: specializedId
+  }));
+  expectDenied('file analysis', await request('POST', '/api/chat/analyze-file', other.token, { file_id: specializedId }));
+  expectDenied('quick diagnostic', await request('POST', '/api/chat/quick-diagnostic', other.token, { file_id: specializedId }));
+  expectDenied('document deletion', await request('DELETE', `/api/search/documents/${documentId}`, other.token));
+
+  console.log('\n5️⃣  Sharing grants access, unsharing revokes it...');
+  await request('PUT', `/api/search/documents/${documentId}/sharing`, owner.token, { shared_with: [other.id] });
+  expectFound('shared document in search', await semantic(other.token, 'lexical'));
+  expectFound('shared document fetch', await request('GET', `/api/search/documents/${documentId}`, other.token));
+  await request('PUT', `/api/search/documents/${documentId}/sharing`, owner.token, { shared_with: [] });
+  expectNoLeak('unshared document in search', await semantic(other.token, 'lexical'));
+
+  console.log('\n6️⃣  Cleaning up...');
+  await request('DELETE', `/api/search/documents/${documentId}`, owner.token);
+  await request('DELETE', `/api/search/documents/${specializedId}`, owner.token);
+}
+
+runTests()
+  .catch(error => {
+    failures++;
+    console.error('❌ Test setup failed:', error.message);
+  })
+  .finally(() => {
+    console.log('\n' + '='.repeat(60));
+    if (failures === 0) {
+      console.log(`🎉 ISOLATION HOLDS: ${checks} checks passed`);
+    } else {
+      console.log(`🚨 ${failures} of ${checks} isolation checks failed`);
+      process.exitCode = 1;
+    }
+    console.log('='.repeat(60));
+  });
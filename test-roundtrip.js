@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+
+// Round-trip test for the specialized file serializer, on the TestFileGenerator samples:
+// an unchanged model must write the original bytes back, edits must keep everything
+// else as it was, files generated from a model must parse back to the same model, and
+// every sample must parse to the counts its test case expects.
+// Usage: npm run build && node test-roundtrip.js
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+const DIST_DIR = path.resolve(process.env.DIST_DIR || 'dist');
+const load = module => import(pathToFileURL(path.join(DIST_DIR, module)).href);
+
+const { TestFileGenerator } = await load('services/parsers/TestFileGenerator.js');
+const { SpecializedParserRegistry } = await load('services/SpecializedParserRegistry.js');
+const { SpecializedParser } = await load('services/parsers/SpecializedParser.js');
+const { SpecializedSerializer } = await load('services/parsers/SpecializedSerializer.js');
+
+const XML_TYPES = ['xml', 'moz', 'dat', 'des'];
+
+let failures = 0;
+let checks = 0;
+
+function check(name, condition, details = '') {
+  checks++;
+  if (condition) {
+    console.log(`✅ ${name}`);
+  } else {
+    failures++;
+    console.log(`❌ ${name}${details ? `\n   ${details}` : ''}`);
+  }
+}
+
+// The parts of a result a file stores, without positions and derived fields
+function summary(result) {
+  return {
+    parts: result.parts.map(part => [part.id, part.name, part.type, part.metadata.version, part.parameters.map(p => p.id), part.constraints.map(c => c.id)]),
+    parameters: result.parameters.map(p => [p.id, p.name, p.type, String(typeof p.value === 'object' ? JSON.stringify(p.value) : p.value), p.unit, p.required]),
+    constraints: result.constraints.map(c => [c.id, c.name, c.type, JSON.stringify(c.value), c.severity, c.affected_parameters]),
+    dependencies: result.file_structure.dependencies
+      .filter(d => d.position || !['includes', 'references'].includes(d.type))
+      .map(d => [d.from, d.to, d.type, d.description]),
+    version: result.version_metadata.version
+  };
+}
+
+const registry = new SpecializedParserRegistry();
+const xmlParser = new SpecializedParser();
+const serializer = new SpecializedSerializer();
+const generator = new TestFileGenerator();
+
+console.log('🔁 Testing specialized file round trips...\n');
+
+try {
+  for (const testCase of generator.generateAllTestFiles()) {
+    const original = fs.readFileSync(testCase.sample_file_path);
+    const parser = registry.createParser(testCase.file_type);
+    const result = await parser.parse(original, testCase.file_type);
+
+    const counts = {
+      parts_count: result.parts.length,
+      parameters_count: result.parameters.length,
+      constraints_count: result.constraints.length,
+      broken_logic_count: result.broken_logic.length,
+      errors_count: result.errors.length
+    };
+    check(`${testCase.id}: parses to the expected counts`, JSON.stringify(counts) === JSON.stringify(testCase.expected_results),
+      JSON.stringify({ expected: testCase.expected_results, actual: counts }));
+
+    if (XML_TYPES.includes(testCase.file_type)) {
+      const written = await serializer.serialize(result, original);
+      check(`${testCase.id}: unchanged model writes the original bytes`, Buffer.from(written).equals(original));
+
+      const windows = Buffer.from('\uFEFF' + original.toString('utf8').replace(/\n/g, '\r\n'));
+      const windowsResult = await parser.parse(windows, testCase.file_type);
+      const windowsWritten = await serializer.serialize(windowsResult, windows);
+      check(`${testCase.id}: BOM and CRLF line endings survive`, Buffer.from(windowsWritten).equals(windows));
+    }
+
+    const generated = serializer.generate(result);
+    const reparsed = await xmlParser.parse(generated, 'xml');
+    check(`${testCase.id}: generated XML parses back to the same model`,
+      JSON.stringify(summary(reparsed)) === JSON.stringify(summary(result)) && reparsed.errors.length === result.errors.length,
+      JSON.stringify({ expected: summary(result), actual: summary(reparsed) }));
+  }
+
+  // Edits on the complete XML sample, with a comment that must survive
+  const samplePath = generator.generateTestFiles().find(testCase => testCase.file_type === 'xml').sample_file_path;
+  const source = fs.readFileSync(samplePath, 'utf8').replace('<parts>', '<!-- keep this comment -->\n  <parts>');
+  const model = await xmlParser.parse(source, 'xml');
+
+  const size = model.parameters.find(parameter => parameter.name === 'size');
+  size.value = 250;
+  model.parts.find(part => part.id === 'part_002').name = 'Renamed Component';
+  const removed = model.parameters.find(parameter => parameter.name === 'temperature');
+  model.parameters = model.parameters.filter(parameter => parameter !== removed);
+  model.parts.forEach(part => { part.parameters = part.parameters.filter(parameter => parameter.id !== removed.id); });
+  const added = { id: 'param_005', name: 'finish', type: 'string', value: 'matte', required: false, validation_rules: [], position: { start: 0, end: 0, line: 0, column: 0 } };
+  model.parameters.push(added);
+  model.parts.find(part => part.id === 'part_002').parameters.push(added);
+
+  const edited = await serializer.serialize(model, source);
+  const editedResult = await xmlParser.parse(edited, 'xml');
+  const values = Object.fromEntries(editedResult.parameters.map(parameter => [parameter.name, parameter.value]));
+
+  check('edited value is written', values.size === 250);
+  check('removed parameter is gone', !('temperature' in values) && !edited.includes('Operating temperature'));
+  check('added parameter belongs to its part',
+    editedResult.parts.find(part => part.id === 'part_002').parameters.some(parameter => parameter.name === 'finish' && parameter.value === 'matte'));
+  check('renamed part is written', editedResult.parts.find(part => part.id === 'part_002').name === 'Renamed Component');
+  check('comments survive edits', edited.includes('<!-- keep this comment -->'));
+  check('attribute order survives edits', edited.includes('<parameter id="param_001" name="size" type="number" value="250" unit="mm" required="true">'));
+  check('edited file parses without errors', editedResult.errors.length === 0 && editedResult.broken_logic.length === 0);
+
+  const untouched = source.split('\n').filter(line =>
+    !line.includes('value="100"') && !line.includes('Sub Component') && !line.includes('temperature') && !line.includes('celsius')
+    && !line.includes('Operating') && !line.includes('<default_value>'));
+  check('untouched lines are kept as they were', untouched.every(line => edited.split('\n').includes(line)));
+} catch (error) {
+  failures++;
+  console.log(`❌ Round trip failed: ${error.stack || error.message}`);
+} finally {
+  generator.cleanupTestFiles();
+}
+
+console.log(`\n📊 ${checks - failures}/${checks} checks passed`);
+process.exit(failures > 0 ? 1 : 0);